@@ -1,35 +1,257 @@
-import { Hono } from 'hono'
-import { users } from './routes/users.ts'
+import { OpenAPIHono } from '@hono/zod-openapi'
+import { swaggerUI } from '@hono/swagger-ui'
+import { requestId } from 'hono/request-id'
+import { createUsersRouter } from './routes/users.ts'
+import { createWalletsRouter } from './routes/wallets.ts'
+import { createTransfersRouter } from './routes/transfers.ts'
+import { createStatsRouter } from './routes/stats.ts'
+import { createScheduledTransfersRouter } from './routes/scheduled-transfers.ts'
+import { createEscrowsRouter } from './routes/escrows.ts'
+import { createWebhooksRouter } from './routes/webhooks.ts'
+import { createWalletEventsRouter } from './routes/wallet-events.ts'
+import { createDistributionsRouter } from './routes/admin/distributions.ts'
+import { createAdminWalletsRouter } from './routes/admin/wallets.ts'
+import { createAdminUsersRouter } from './routes/admin/users.ts'
+import { createAuditLogRouter } from './routes/admin/audit-log.ts'
+import { createReconciliationRouter } from './routes/admin/reconciliation.ts'
+import { createAdminTransactionsRouter } from './routes/admin/transactions.ts'
+import { createAdminWebhooksRouter } from './routes/admin/webhooks.ts'
+import { createAdminTransferLimitsRouter } from './routes/admin/transfer-limits.ts'
+import { createMetricsRouter } from './routes/metrics.ts'
 import type { Env } from './lib/types.ts'
+import { BEARER_AUTH_SCHEME, OPENAPI_DOCUMENT_INFO } from './lib/openapi.ts'
 import { createTestItemsRouter } from './routes/dev/test-items.ts'
 import { TestItemRepository } from './repositories/dev/TestItemRepository.ts'
+import type { ITestItemRepository } from './repositories/dev/ITestItemRepository.ts'
 import { getSupabaseClient } from './lib/db.ts'
+import {
+  getJwtVerifyOptionsFromEnv,
+  getKeySourceFromEnv,
+  type JwtVerifyOptions,
+  type KeySource,
+} from './lib/jwt.ts'
+import { createAuthMiddleware } from './middleware/auth.ts'
+import { requireAdmin } from './middleware/admin.ts'
+import { errorHandler } from './middleware/error-handler.ts'
+import { createRequestLogging } from './middleware/request-logging.ts'
+import {
+  clientRateLimitGroup,
+  createRateLimitMiddleware,
+  type RateLimitGroup,
+} from './middleware/rate-limit.ts'
+import type { IUserRepository } from './repositories/IUserRepository.ts'
+import type { IWalletRepository } from './repositories/IWalletRepository.ts'
+import type { ITransactionRepository } from './repositories/ITransactionRepository.ts'
+import type { IDistributionRepository } from './repositories/IDistributionRepository.ts'
+import type { IAuditLogRepository } from './repositories/IAuditLogRepository.ts'
+import type { IStatsRepository } from './repositories/IStatsRepository.ts'
+import type { IReconciliationRepository } from './repositories/IReconciliationRepository.ts'
+import type { IScheduledTransferRepository } from './repositories/IScheduledTransferRepository.ts'
+import type { IEscrowRepository } from './repositories/IEscrowRepository.ts'
+import type { IWebhookRepository } from './repositories/IWebhookRepository.ts'
+import type { ITransferPolicyRepository } from './repositories/ITransferPolicyRepository.ts'
+import { UserRepository } from './repositories/UserRepository.ts'
+import { WalletRepository } from './repositories/WalletRepository.ts'
+import { TransactionRepository } from './repositories/TransactionRepository.ts'
+import { DistributionRepository } from './repositories/DistributionRepository.ts'
+import { AuditLogRepository } from './repositories/AuditLogRepository.ts'
+import { StatsRepository } from './repositories/StatsRepository.ts'
+import { ReconciliationRepository } from './repositories/ReconciliationRepository.ts'
+import { ScheduledTransferRepository } from './repositories/ScheduledTransferRepository.ts'
+import { EscrowRepository } from './repositories/EscrowRepository.ts'
+import { WebhookRepository } from './repositories/WebhookRepository.ts'
+import { TransferPolicyRepository } from './repositories/TransferPolicyRepository.ts'
+import { RealtimeWalletChangeSource, type WalletChangeSource } from './lib/wallet-changes.ts'
+import { createLogger, getLogLevelFromEnv, type Logger } from './lib/logger.ts'
+import { ApiMetrics } from './lib/metrics.ts'
+import {
+  PostgresRateLimitStore,
+  type RateLimitRule,
+  type RateLimitStore,
+} from './lib/rate-limit.ts'
 
-export function createApp() {
-  const app = new Hono<Env>()
+/**
+ * Data access used by the routes
+ */
+export type AppRepositories = {
+  users: IUserRepository
+  wallets: IWalletRepository
+  transactions: ITransactionRepository
+  distributions: IDistributionRepository
+  auditLog: IAuditLogRepository
+  stats: IStatsRepository
+  reconciliation: IReconciliationRepository
+  scheduledTransfers: IScheduledTransferRepository
+  escrows: IEscrowRepository
+  webhooks: IWebhookRepository
+  transferPolicies: ITransferPolicyRepository
+  testItems: ITestItemRepository
+}
 
-  // Debug: log all requests
-  app.use('*', async (c, next) => {
-    console.log('Request:', c.req.method, c.req.url)
-    await next()
-  })
+/**
+ * Creates the Supabase-backed repositories
+ *
+ * @returns One repository per AppRepositories entry, sharing the singleton client
+ */
+function createSupabaseRepositories(): AppRepositories {
+  const supabase = getSupabaseClient()
+  return {
+    users: new UserRepository(supabase),
+    wallets: new WalletRepository(supabase),
+    transactions: new TransactionRepository(supabase),
+    distributions: new DistributionRepository(supabase),
+    auditLog: new AuditLogRepository(supabase),
+    stats: new StatsRepository(supabase),
+    reconciliation: new ReconciliationRepository(supabase),
+    scheduledTransfers: new ScheduledTransferRepository(supabase),
+    escrows: new EscrowRepository(supabase),
+    webhooks: new WebhookRepository(supabase),
+    transferPolicies: new TransferPolicyRepository(supabase),
+    testItems: new TestItemRepository(supabase),
+  }
+}
+
+/**
+ * Overrides for createApp()
+ *
+ * Anything not provided is read from environment variables, so the Edge Function
+ * entrypoint can call createApp() without arguments.
+ */
+export type AppOptions = {
+  /** JWT verification key source (defaults to getKeySourceFromEnv()) */
+  keySource?: KeySource
+  /** Expected JWT issuer/audience (defaults to getJwtVerifyOptionsFromEnv()) */
+  jwtVerifyOptions?: JwtVerifyOptions
+  /** Wallet change notifications for event streams (defaults to Supabase Realtime) */
+  walletChangeSource?: WalletChangeSource
+  /** Root logger (defaults to a JSON logger at LOG_LEVEL) */
+  logger?: Logger
+  /** In-process metrics (defaults to a fresh ApiMetrics) */
+  metrics?: ApiMetrics
+  /** Bearer token required by GET /metrics (defaults to METRICS_TOKEN; disabled when unset) */
+  metricsToken?: string
+  /** Rate limit counters (defaults to the shared Postgres store) */
+  rateLimitStore?: RateLimitStore
+  /** Rate limit rules per group (defaults to DEFAULT_RATE_LIMITS) */
+  rateLimits?: Record<RateLimitGroup, RateLimitRule>
+  /** Data access (defaults to the Supabase repositories) */
+  repositories?: AppRepositories
+}
+
+export function createApp(options: AppOptions = {}) {
+  const app = new OpenAPIHono<Env>()
+
+  // Request ID (X-Request-Id, generated when absent), per-request logger and metrics
+  const logger = options.logger ?? createLogger({ level: getLogLevelFromEnv() })
+  const metrics = options.metrics ?? new ApiMetrics()
+  app.use('*', requestId(), createRequestLogging(logger, metrics))
 
   // Health check
   app.get('/health', (c) => {
     return c.json({ status: 'ok' })
   })
 
+  const {
+    users: userRepo,
+    wallets: walletRepo,
+    transactions: transactionRepo,
+    distributions: distributionRepo,
+    auditLog: auditLogRepo,
+    stats: statsRepo,
+    reconciliation: reconciliationRepo,
+    scheduledTransfers: scheduledTransferRepo,
+    escrows: escrowRepo,
+    webhooks: webhookRepo,
+    transferPolicies: transferPolicyRepo,
+    testItems: testItemRepo,
+  } = options.repositories ?? createSupabaseRepositories()
+
+  // Authentication: every /v1/* and /admin/* route requires a valid JWT
+  const auth = createAuthMiddleware({
+    keySource: options.keySource ?? getKeySourceFromEnv(),
+    verifyOptions: options.jwtVerifyOptions ?? getJwtVerifyOptionsFromEnv(),
+    userRepository: userRepo,
+  })
+  // Rate limiting: per client IP before authentication (so invalid tokens are limited
+  // too), then per user; per client IP on public routes
+  const rateLimitStore = options.rateLimitStore ??
+    new PostgresRateLimitStore(getSupabaseClient())
+  const clientRateLimit = createRateLimitMiddleware({
+    store: rateLimitStore,
+    rules: options.rateLimits,
+    group: clientRateLimitGroup,
+  })
+  const rateLimit = createRateLimitMiddleware({ store: rateLimitStore, rules: options.rateLimits })
+  app.use('/v1/*', clientRateLimit, auth, rateLimit)
+  app.use('/admin/*', clientRateLimit, auth, requireAdmin, rateLimit)
+  app.use('/openapi.json', rateLimit)
+  app.use('/doc', rateLimit)
+
+  // Prometheus scrape endpoint (outside JWT auth; bearer token, limited per client IP)
+  app.use('/metrics', clientRateLimit)
+  app.route(
+    '/metrics',
+    createMetricsRouter(metrics, statsRepo, {
+      token: options.metricsToken ?? Deno.env.get('METRICS_TOKEN'),
+    }),
+  )
+
   // API v1 routes
-  app.route('/v1/users', users)
+  app.route(
+    '/v1/users/@me/events',
+    createWalletEventsRouter(
+      userRepo,
+      walletRepo,
+      options.walletChangeSource ?? new RealtimeWalletChangeSource(getSupabaseClient()),
+    ),
+  )
+  app.route('/v1/users', createUsersRouter(userRepo, walletRepo, transactionRepo))
+  app.route('/v1/wallets', createWalletsRouter(walletRepo))
+  app.route('/v1/transfers', createTransfersRouter(userRepo, transactionRepo))
+  app.route('/v1/stats', createStatsRouter(statsRepo))
+  app.route(
+    '/v1/scheduled-transfers',
+    createScheduledTransfersRouter(userRepo, scheduledTransferRepo),
+  )
+  app.route('/v1/escrows', createEscrowsRouter(userRepo, escrowRepo))
+  app.route('/v1/webhooks', createWebhooksRouter(userRepo, webhookRepo))
+
+  // Admin v1 routes (admin role required)
+  app.route('/admin/v1/distributions', createDistributionsRouter(distributionRepo))
+  app.route('/admin/v1/wallets', createAdminWalletsRouter(walletRepo))
+  app.route('/admin/v1/users', createAdminUsersRouter(userRepo))
+  app.route('/admin/v1/transactions', createAdminTransactionsRouter(transactionRepo))
+  app.route('/admin/v1/audit-log', createAuditLogRouter(auditLogRepo))
+  app.route('/admin/v1/reconciliation', createReconciliationRouter(reconciliationRepo))
+  app.route('/admin/v1/webhooks', createAdminWebhooksRouter(webhookRepo))
+  app.route(
+    '/admin/v1/transfer-limits',
+    createAdminTransferLimitsRouter(transferPolicyRepo, walletRepo),
+  )
 
   // Dev routes (temporary - for database verification)
-  const supabase = getSupabaseClient()
-  const testItemRepo = new TestItemRepository(supabase)
   app.route('/dev/test-items', createTestItemsRouter(testItemRepo))
 
-  // Debug: catch-all for unmatched routes
+  // API documentation (public): generated from the route schemas
+  app.openAPIRegistry.registerComponent('securitySchemes', BEARER_AUTH_SCHEME, {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+  })
+  app.doc31('/openapi.json', {
+    openapi: '3.1.0',
+    info: OPENAPI_DOCUMENT_INFO,
+    security: [{ [BEARER_AUTH_SCHEME]: [] }],
+  })
+  // Relative URL: the Edge Function is served under a path prefix
+  app.get('/doc', swaggerUI({ url: './openapi.json' }))
+
+  // Domain errors and unexpected failures thrown by any route
+  app.onError(errorHandler)
+
+  // Catch-all for unmatched routes
   app.all('*', (c) => {
-    return c.json({ error: 'Not Found', path: c.req.path }, 404)
+    return c.json({ error: 'Not Found', code: 'NOT_FOUND', details: c.req.path }, 404)
   })
 
   return app
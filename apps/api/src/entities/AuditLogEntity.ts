@@ -0,0 +1,70 @@
+/**
+ * AuditLogEntity - Domain entity for administrative audit entries
+ *
+ * Every administrative operation (distribution with its auto-issuance, reversal,
+ * wallet freeze/unfreeze) appends one immutable entry recording who did it, why and when.
+ */
+
+import type { UserID } from './UserEntity.ts'
+import type { WalletID } from './WalletEntity.ts'
+
+// Branded Type for type-safe ID
+const AuditLogIDBrand: unique symbol = Symbol('AuditLogID')
+export type AuditLogID = string & { readonly [AuditLogIDBrand]: never }
+
+/**
+ * Casts a string to AuditLogID (branded type)
+ *
+ * @param id - UUID string
+ * @returns Branded AuditLogID
+ */
+export function AsAuditLogID(id: string): AuditLogID {
+  return id as AuditLogID
+}
+
+/**
+ * Administrative operations recorded in the audit log (audit_log.action)
+ */
+export const AUDIT_ACTIONS = [
+  'distribution',
+  'reversal',
+  'transfer_limits_clear',
+  'transfer_limits_update',
+  'user_restore',
+  'wallet_freeze',
+  'wallet_unfreeze',
+] as const
+export type AuditAction = typeof AUDIT_ACTIONS[number]
+
+/**
+ * Type guard for audit action names
+ *
+ * @param value - Candidate action name
+ * @returns true if value is a known AuditAction
+ */
+export function isAuditAction(value: string): value is AuditAction {
+  return (AUDIT_ACTIONS as readonly string[]).includes(value)
+}
+
+/**
+ * AuditLogEntity represents an administrative audit entry in the domain layer
+ */
+export class AuditLogEntity {
+  constructor(
+    public readonly id: AuditLogID,
+    public readonly actorUserId: UserID,
+    public readonly action: AuditAction,
+    public readonly targetWalletId: WalletID | null,
+    public readonly reason: string,
+    public readonly details: Record<string, unknown>,
+    public readonly createdAt: number,
+  ) {
+    // Validate invariants (mirror audit_log table constraints)
+    if (reason.trim().length === 0) {
+      throw new Error('Reason must not be empty')
+    }
+    if (createdAt <= 0) {
+      throw new Error('CreatedAt must be positive')
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * EscrowEntity - Domain entity for escrow holds
+ *
+ * An escrow locks tokens from the sender's wallet in the escrow system account's
+ * wallet (ESCROW_HOLD). It is settled exactly once: released to the beneficiary by
+ * the sender before it expires (ESCROW_RELEASE), or refunded to the sender
+ * (ESCROW_REFUND) - by the beneficiary at any time, or once it has expired.
+ */
+
+import type { UserID } from './UserEntity.ts'
+import type { WalletID } from './WalletEntity.ts'
+import type { TransactionID, TransactionMetadata } from './TransactionEntity.ts'
+
+// Branded Type for type-safe ID
+const EscrowIDBrand: unique symbol = Symbol('EscrowID')
+export type EscrowID = string & { readonly [EscrowIDBrand]: never }
+
+/**
+ * Casts a string to EscrowID (branded type)
+ *
+ * @param id - UUID string
+ * @returns Branded EscrowID
+ */
+export function AsEscrowID(id: string): EscrowID {
+  return id as EscrowID
+}
+
+/**
+ * Lifecycle state of an escrow (escrows.status)
+ */
+export const ESCROW_STATUSES = ['held', 'released', 'refunded'] as const
+export type EscrowStatus = typeof ESCROW_STATUSES[number]
+
+/**
+ * Type guard for escrow status names
+ *
+ * @param value - Candidate status
+ * @returns true if value is a known EscrowStatus
+ */
+export function isEscrowStatus(value: string): value is EscrowStatus {
+  return (ESCROW_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * EscrowEntity represents an escrow hold in the domain layer
+ */
+export class EscrowEntity {
+  constructor(
+    public readonly id: EscrowID,
+    public readonly senderUserId: UserID,
+    public readonly senderWalletId: WalletID,
+    public readonly beneficiaryWalletId: WalletID,
+    public readonly amount: number,
+    public readonly status: EscrowStatus,
+    public readonly expiresAt: number,
+    public readonly holdTransactionId: TransactionID,
+    public readonly settlementTransactionId: TransactionID | null,
+    /** null while held, and for automatic expiry refunds */
+    public readonly settledByUserId: UserID | null,
+    public readonly settledAt: number | null,
+    public readonly memo: string | null,
+    public readonly metadata: TransactionMetadata,
+    public readonly createdAt: number,
+    public readonly updatedAt: number,
+  ) {
+    // Validate invariants (mirror escrows table constraints)
+    if (!Number.isSafeInteger(amount) || amount <= 0) {
+      throw new Error('Amount must be a positive integer')
+    }
+    if (senderWalletId === beneficiaryWalletId) {
+      throw new Error('Beneficiary must differ from the sender')
+    }
+    if ((status === 'held') !== (settlementTransactionId === null)) {
+      throw new Error('Only settled escrows have a settlement transaction')
+    }
+    if ((status === 'held') !== (settledAt === null)) {
+      throw new Error('Only settled escrows have a settlement time')
+    }
+    if (createdAt <= 0) {
+      throw new Error('CreatedAt must be positive')
+    }
+    if (expiresAt <= createdAt) {
+      throw new Error('ExpiresAt must be after CreatedAt')
+    }
+  }
+
+  /**
+   * Whether the escrow can no longer be released at the given time
+   *
+   * @param now - Unix timestamp in milliseconds
+   * @returns true if expiresAt has been reached
+   */
+  isExpiredAt(now: number): boolean {
+    return this.expiresAt <= now
+  }
+}
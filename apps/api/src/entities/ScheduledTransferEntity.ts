@@ -0,0 +1,136 @@
+/**
+ * ScheduledTransferEntity - Domain entity for scheduled and recurring transfers
+ *
+ * A schedule describes future transfers from its owner's wallet: one occurrence
+ * (`once`) or a daily/weekly/monthly series bounded by an end date and/or a run
+ * count. Each occurrence is materialized into the ledger by the executor job, and
+ * its outcome (transaction or failure) is kept as a ScheduledTransferRun.
+ */
+
+import type { UserID } from './UserEntity.ts'
+import type { WalletID } from './WalletEntity.ts'
+import type { TransactionID, TransactionMetadata } from './TransactionEntity.ts'
+
+// Branded Type for type-safe ID
+const ScheduledTransferIDBrand: unique symbol = Symbol('ScheduledTransferID')
+export type ScheduledTransferID = string & { readonly [ScheduledTransferIDBrand]: never }
+
+/**
+ * Casts a string to ScheduledTransferID (branded type)
+ *
+ * @param id - UUID string
+ * @returns Branded ScheduledTransferID
+ */
+export function AsScheduledTransferID(id: string): ScheduledTransferID {
+  return id as ScheduledTransferID
+}
+
+/**
+ * How often a schedule repeats (scheduled_transfers.recurrence)
+ */
+export const SCHEDULE_RECURRENCES = ['once', 'daily', 'weekly', 'monthly'] as const
+export type ScheduleRecurrence = typeof SCHEDULE_RECURRENCES[number]
+
+/**
+ * Type guard for recurrence names
+ *
+ * @param value - Candidate recurrence
+ * @returns true if value is a known ScheduleRecurrence
+ */
+export function isScheduleRecurrence(value: string): value is ScheduleRecurrence {
+  return (SCHEDULE_RECURRENCES as readonly string[]).includes(value)
+}
+
+/**
+ * Lifecycle state of a schedule (scheduled_transfers.status)
+ *
+ * - active: has a next occurrence
+ * - completed: no occurrences left
+ * - failed: the single occurrence of a one-off schedule failed
+ * - cancelled: cancelled by its owner
+ */
+export const SCHEDULE_STATUSES = ['active', 'completed', 'failed', 'cancelled'] as const
+export type ScheduleStatus = typeof SCHEDULE_STATUSES[number]
+
+/**
+ * Type guard for schedule status names
+ *
+ * @param value - Candidate status
+ * @returns true if value is a known ScheduleStatus
+ */
+export function isScheduleStatus(value: string): value is ScheduleStatus {
+  return (SCHEDULE_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * Outcome of one processed occurrence
+ */
+export type ScheduledTransferRun = {
+  id: string
+  /** Zero-based occurrence index */
+  occurrence: number
+  /** Due time of the occurrence */
+  scheduledFor: number
+  /** Created transaction; null if the occurrence failed */
+  transactionId: TransactionID | null
+  /** Why the occurrence failed; null if it succeeded */
+  error: string | null
+  executedAt: number
+}
+
+/**
+ * ScheduledTransferEntity represents a scheduled transfer in the domain layer
+ */
+export class ScheduledTransferEntity {
+  constructor(
+    public readonly id: ScheduledTransferID,
+    public readonly userId: UserID,
+    public readonly fromWalletId: WalletID,
+    public readonly toWalletId: WalletID,
+    public readonly amount: number,
+    public readonly recurrence: ScheduleRecurrence,
+    public readonly startsAt: number,
+    public readonly endsAt: number | null,
+    public readonly maxRuns: number | null,
+    public readonly status: ScheduleStatus,
+    public readonly nextRunAt: number | null,
+    public readonly runCount: number,
+    public readonly failureCount: number,
+    public readonly lastRunAt: number | null,
+    public readonly lastError: string | null,
+    public readonly memo: string | null,
+    public readonly metadata: TransactionMetadata,
+    public readonly createdAt: number,
+    public readonly updatedAt: number,
+  ) {
+    // Validate invariants (mirror scheduled_transfers table constraints)
+    if (!Number.isSafeInteger(amount) || amount <= 0) {
+      throw new Error('Amount must be a positive integer')
+    }
+    if (fromWalletId === toWalletId) {
+      throw new Error('Scheduled transfers cannot target the sender wallet')
+    }
+    if (recurrence === 'once' && (endsAt !== null || maxRuns !== null)) {
+      throw new Error('One-off schedules cannot have an end date or run count')
+    }
+    if (endsAt !== null && endsAt < startsAt) {
+      throw new Error('EndsAt must not be before StartsAt')
+    }
+    if ((status === 'active') !== (nextRunAt !== null)) {
+      throw new Error('Only active schedules have a next run')
+    }
+    if (failureCount < 0 || failureCount > runCount) {
+      throw new Error('FailureCount must be between 0 and RunCount')
+    }
+    if (createdAt <= 0) {
+      throw new Error('CreatedAt must be positive')
+    }
+  }
+
+  /**
+   * Whether the schedule repeats
+   */
+  get isRecurring(): boolean {
+    return this.recurrence !== 'once'
+  }
+}
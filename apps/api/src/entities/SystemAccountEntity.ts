@@ -0,0 +1,58 @@
+/**
+ * SystemAccountEntity - Domain entity for system accounts
+ *
+ * System accounts (e.g. `system_account_communitytoken`) hold issuance authority
+ * and are never deleted. They are kept separate from users so that user identity
+ * can migrate to external providers independently.
+ */
+
+import type { WalletID } from './WalletEntity.ts'
+
+// Branded Type for type-safe ID
+const SystemAccountIDBrand: unique symbol = Symbol('SystemAccountID')
+export type SystemAccountID = string & { readonly [SystemAccountIDBrand]: never }
+
+/**
+ * Casts a string to SystemAccountID (branded type)
+ *
+ * @param id - UUID string
+ * @returns Branded SystemAccountID
+ */
+export function AsSystemAccountID(id: string): SystemAccountID {
+  return id as SystemAccountID
+}
+
+/**
+ * Name of the primary system account (design.md §5)
+ */
+export const PRIMARY_SYSTEM_ACCOUNT_NAME = 'system_account_communitytoken'
+
+/**
+ * System account whose wallet holds the tokens locked in escrows
+ * (migration 20251120120000_escrows.sql)
+ */
+export const ESCROW_SYSTEM_ACCOUNT_NAME = 'system_account_escrow'
+
+/**
+ * SystemAccountEntity represents a system account in the domain layer
+ */
+export class SystemAccountEntity {
+  constructor(
+    public readonly id: SystemAccountID,
+    public readonly walletId: WalletID,
+    public readonly name: string,
+    public readonly createdAt: number,
+    public readonly updatedAt: number,
+  ) {
+    // Validate invariants (mirror system_accounts table constraints)
+    if (!/^[a-z0-9_]+$/.test(name)) {
+      throw new Error('Name may only contain lowercase alphanumerics and underscore')
+    }
+    if (name.length < 3 || name.length > 255) {
+      throw new Error('Name must be between 3 and 255 characters')
+    }
+    if (createdAt <= 0) {
+      throw new Error('CreatedAt must be positive')
+    }
+  }
+}
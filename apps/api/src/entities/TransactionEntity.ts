@@ -0,0 +1,95 @@
+/**
+ * TransactionEntity - Domain entity for immutable token transactions
+ *
+ * Every token movement is a transfer between two wallets. A transfer from a
+ * wallet to itself is an issuance (system accounts only).
+ */
+
+import type { WalletID } from './WalletEntity.ts'
+import {
+  getTransactionType,
+  isTransactionTypeCode,
+  TRANSACTION_TYPES,
+  type TransactionTypeCode,
+} from './TransactionType.ts'
+
+// Branded Type for type-safe ID
+const TransactionIDBrand: unique symbol = Symbol('TransactionID')
+export type TransactionID = string & { readonly [TransactionIDBrand]: never }
+
+/**
+ * Casts a string to TransactionID (branded type)
+ *
+ * @param id - UUID string
+ * @returns Branded TransactionID
+ */
+export function AsTransactionID(id: string): TransactionID {
+  return id as TransactionID
+}
+
+/**
+ * Flat key/value annotations on a transaction (transactions.metadata)
+ */
+export type TransactionMetadata = Record<string, string>
+
+/**
+ * TransactionEntity represents a recorded transaction in the domain layer
+ */
+export class TransactionEntity {
+  constructor(
+    public readonly id: TransactionID,
+    public readonly fromWalletId: WalletID,
+    public readonly toWalletId: WalletID,
+    public readonly amount: number,
+    public readonly transactionType: TransactionTypeCode,
+    public readonly createdAt: number,
+    public readonly reversesTransactionId: TransactionID | null = null,
+    public readonly memo: string | null = null,
+    public readonly metadata: TransactionMetadata = {},
+  ) {
+    // Validate invariants (mirror transactions table constraints)
+    if (!Number.isSafeInteger(amount) || amount <= 0) {
+      throw new Error('Amount must be a positive integer')
+    }
+    if (!isTransactionTypeCode(transactionType)) {
+      throw new Error(`Unknown transaction type: ${transactionType}`)
+    }
+    if (createdAt <= 0) {
+      throw new Error('CreatedAt must be positive')
+    }
+    const isReversalType = transactionType === TRANSACTION_TYPES.REVERSAL.code
+    if (isReversalType !== (reversesTransactionId !== null)) {
+      throw new Error('Reversals must reference the original transaction, and only reversals may')
+    }
+  }
+
+  /**
+   * Human-readable label of the transaction type
+   */
+  get transactionTypeLabel(): string {
+    return getTransactionType(this.transactionType).label
+  }
+
+  /**
+   * Whether this is an issuance (system wallet self-transfer)
+   */
+  get isIssuance(): boolean {
+    return this.fromWalletId === this.toWalletId
+  }
+
+  /**
+   * Whether this compensates an earlier transaction
+   */
+  get isReversal(): boolean {
+    return this.reversesTransactionId !== null
+  }
+
+  /**
+   * Whether this holds, releases or refunds an escrow (settled by the escrow, never reversed)
+   */
+  get isEscrow(): boolean {
+    return this.transactionType === TRANSACTION_TYPES.ESCROW_HOLD.code ||
+      this.transactionType === TRANSACTION_TYPES.ESCROW_RELEASE.code ||
+      this.transactionType === TRANSACTION_TYPES.ESCROW_REFUND.code
+  }
+}
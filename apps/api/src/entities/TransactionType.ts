@@ -0,0 +1,188 @@
+/**
+ * Transaction type registry
+ *
+ * transactions.transaction_type is an integer code (1-99). This registry gives each
+ * code a name, a human-readable label and the wallet owner combinations it may move
+ * tokens between. The same definitions are seeded into the transaction_types table
+ * and enforced by the check_transaction_type trigger, so both sides must change
+ * together (migration 20251116120000_transaction_type_registry.sql).
+ */
+
+import type { WalletOwnerType } from './WalletEntity.ts'
+
+/**
+ * Whether a type may, must, or must not be a self-transfer (from_wallet_id = to_wallet_id)
+ */
+export type SelfTransferRule = 'allowed' | 'required' | 'forbidden'
+
+/**
+ * Metadata of one transaction type
+ */
+export type TransactionTypeDefinition = {
+  code: number
+  label: string
+  /** Owner types allowed on the sending side */
+  fromOwnerTypes: readonly WalletOwnerType[]
+  /** Owner types allowed on the receiving side */
+  toOwnerTypes: readonly WalletOwnerType[]
+  selfTransfer: SelfTransferRule
+}
+
+const ANY_OWNER: readonly WalletOwnerType[] = ['user', 'system_account']
+
+/**
+ * All registered transaction types, keyed by name
+ */
+export const TRANSACTION_TYPES = {
+  /**
+   * Legacy generic transfer; rows written before the registry existed use this code.
+   * No owner combination is allowed, so new transactions cannot use it.
+   */
+  TRANSFER: {
+    code: 1,
+    label: 'Transfer',
+    fromOwnerTypes: [],
+    toOwnerTypes: [],
+    selfTransfer: 'allowed',
+  },
+  /** New tokens: system wallet self-transfer */
+  ISSUANCE: {
+    code: 2,
+    label: 'Issuance',
+    fromOwnerTypes: ['system_account'],
+    toOwnerTypes: ['system_account'],
+    selfTransfer: 'required',
+  },
+  /** System account to user (UC-2 distributions) */
+  DISTRIBUTION: {
+    code: 3,
+    label: 'Distribution',
+    fromOwnerTypes: ['system_account'],
+    toOwnerTypes: ['user'],
+    selfTransfer: 'forbidden',
+  },
+  /** User to user */
+  P2P: {
+    code: 4,
+    label: 'Peer-to-peer transfer',
+    fromOwnerTypes: ['user'],
+    toOwnerTypes: ['user'],
+    selfTransfer: 'forbidden',
+  },
+  /** User to system account (payments into the system pool) */
+  POOL_FEE: {
+    code: 5,
+    label: 'Pool fee',
+    fromOwnerTypes: ['user'],
+    toOwnerTypes: ['system_account'],
+    selfTransfer: 'forbidden',
+  },
+  /** Compensating transaction for an earlier one */
+  REVERSAL: {
+    code: 6,
+    label: 'Reversal',
+    fromOwnerTypes: ANY_OWNER,
+    toOwnerTypes: ANY_OWNER,
+    selfTransfer: 'forbidden',
+  },
+  /** User to the escrow system account (tokens locked in an escrow) */
+  ESCROW_HOLD: {
+    code: 7,
+    label: 'Escrow hold',
+    fromOwnerTypes: ['user'],
+    toOwnerTypes: ['system_account'],
+    selfTransfer: 'forbidden',
+  },
+  /** Escrow system account to the escrow's beneficiary */
+  ESCROW_RELEASE: {
+    code: 8,
+    label: 'Escrow release',
+    fromOwnerTypes: ['system_account'],
+    toOwnerTypes: ['user'],
+    selfTransfer: 'forbidden',
+  },
+  /** Escrow system account back to the escrow's sender */
+  ESCROW_REFUND: {
+    code: 9,
+    label: 'Escrow refund',
+    fromOwnerTypes: ['system_account'],
+    toOwnerTypes: ['user'],
+    selfTransfer: 'forbidden',
+  },
+  /** User to the primary system account: remaining balance swept when an account is deleted */
+  ACCOUNT_CLOSURE: {
+    code: 10,
+    label: 'Account closure',
+    fromOwnerTypes: ['user'],
+    toOwnerTypes: ['system_account'],
+    selfTransfer: 'forbidden',
+  },
+} as const satisfies Record<string, TransactionTypeDefinition>
+
+export type TransactionTypeName = keyof typeof TRANSACTION_TYPES
+export type TransactionTypeCode = typeof TRANSACTION_TYPES[TransactionTypeName]['code']
+
+const TYPES_BY_CODE = new Map<number, TransactionTypeDefinition & { name: TransactionTypeName }>(
+  (Object.keys(TRANSACTION_TYPES) as TransactionTypeName[]).map((name) => [
+    TRANSACTION_TYPES[name].code,
+    { ...TRANSACTION_TYPES[name], name },
+  ]),
+)
+
+/**
+ * Type guard for registered transaction type codes
+ *
+ * @param code - Candidate code
+ * @returns true if code is registered
+ */
+export function isTransactionTypeCode(code: number): code is TransactionTypeCode {
+  return TYPES_BY_CODE.has(code)
+}
+
+/**
+ * Looks up a transaction type by code
+ *
+ * @param code - Registered transaction type code
+ * @returns Type definition including its name
+ */
+export function getTransactionType(
+  code: TransactionTypeCode,
+): TransactionTypeDefinition & { name: TransactionTypeName } {
+  return TYPES_BY_CODE.get(code)!
+}
+
+/**
+ * Resolves a transaction type from a code or a name (e.g. `4` or `P2P`)
+ *
+ * @param value - Code or name, as received from a query string
+ * @returns Registered code, or null if value names no registered type
+ */
+export function parseTransactionType(value: string): TransactionTypeCode | null {
+  if (/^\d+$/.test(value)) {
+    const code = Number(value)
+    return isTransactionTypeCode(code) ? code : null
+  }
+  const name = value.toUpperCase()
+  return name in TRANSACTION_TYPES ? TRANSACTION_TYPES[name as TransactionTypeName].code : null
+}
+
+/**
+ * Checks whether a type may move tokens between the given wallet owners
+ *
+ * @param code - Registered transaction type code
+ * @param fromOwnerType - Owner type of the sending wallet
+ * @param toOwnerType - Owner type of the receiving wallet
+ * @param isSelfTransfer - Whether sender and recipient are the same wallet
+ * @returns true if the combination is allowed
+ */
+export function isAllowedOwnerCombination(
+  code: TransactionTypeCode,
+  fromOwnerType: WalletOwnerType,
+  toOwnerType: WalletOwnerType,
+  isSelfTransfer: boolean,
+): boolean {
+  const type = getTransactionType(code)
+  if (type.selfTransfer === 'required' && !isSelfTransfer) return false
+  if (type.selfTransfer === 'forbidden' && isSelfTransfer) return false
+  return type.fromOwnerTypes.includes(fromOwnerType) && type.toOwnerTypes.includes(toOwnerType)
+}
@@ -0,0 +1,114 @@
+import { assertEquals } from '@std/assert'
+import {
+  isAllowedOwnerCombination,
+  parseTransactionType,
+  TRANSACTION_TYPES,
+} from './TransactionType.ts'
+
+const MIGRATIONS = new URL('../../supabase/migrations/', import.meta.url)
+
+const INSERT = /INSERT INTO transaction_types \([^)]*\) VALUES([^;]*);/g
+const INSERTED_ROW = /\((\d+), '(\w+)', '([^']*)', (ARRAY\[[^\]]*\]), (ARRAY\[[^\]]*\]), '(\w+)'\)/g
+const UPDATE = /UPDATE transaction_types\s+SET([^;]*?)\s+WHERE code = (\d+);/g
+const ASSIGNMENT = /(\w+) = (ARRAY\[[^\]]*\])/g
+
+/**
+ * One row of the transaction_types table
+ */
+type SeededType = {
+  code: number
+  name: string
+  label: string
+  fromOwnerTypes: string[]
+  toOwnerTypes: string[]
+  selfTransfer: string
+}
+
+/**
+ * Parses `ARRAY['user', 'system_account']` (or `ARRAY[]::TEXT[]`) into its elements
+ */
+function parseArray(sql: string): string[] {
+  return [...sql.matchAll(/'(\w+)'/g)].map((match) => match[1]!)
+}
+
+/**
+ * Replays the transaction_types INSERTs and UPDATEs of every migration, in order
+ *
+ * @returns Registered types keyed by code, as the database ends up with them
+ */
+async function readSeededTypes(): Promise<Map<number, SeededType>> {
+  const files: string[] = []
+  for await (const entry of Deno.readDir(MIGRATIONS)) {
+    if (entry.isFile && entry.name.endsWith('.sql')) files.push(entry.name)
+  }
+
+  const types = new Map<number, SeededType>()
+  for (const file of files.sort()) {
+    const sql = await Deno.readTextFile(new URL(file, MIGRATIONS))
+
+    for (const [, values] of sql.matchAll(INSERT)) {
+      const rows = values!.matchAll(INSERTED_ROW)
+      for (const [, code, name, label, fromOwners, toOwners, selfTransfer] of rows) {
+        types.set(Number(code), {
+          code: Number(code),
+          name: name!,
+          label: label!,
+          fromOwnerTypes: parseArray(fromOwners!),
+          toOwnerTypes: parseArray(toOwners!),
+          selfTransfer: selfTransfer!,
+        })
+      }
+    }
+
+    for (const [, set, code] of sql.matchAll(UPDATE)) {
+      const type = types.get(Number(code))!
+      for (const [, column, value] of set!.matchAll(ASSIGNMENT)) {
+        if (column === 'from_owner_types') type.fromOwnerTypes = parseArray(value!)
+        if (column === 'to_owner_types') type.toOwnerTypes = parseArray(value!)
+      }
+    }
+  }
+  return types
+}
+
+Deno.test('TRANSACTION_TYPES matches the transaction_types rows seeded by the migrations', async () => {
+  const seeded = await readSeededTypes()
+
+  const registered = Object.entries(TRANSACTION_TYPES).map(([name, type]) => ({
+    code: type.code,
+    name,
+    label: type.label,
+    fromOwnerTypes: [...type.fromOwnerTypes],
+    toOwnerTypes: [...type.toOwnerTypes],
+    selfTransfer: type.selfTransfer,
+  }))
+  assertEquals(registered, [...seeded.values()].sort((a, b) => a.code - b.code))
+})
+
+Deno.test('isAllowedOwnerCombination rejects new legacy TRANSFER rows like the trigger', () => {
+  assertEquals(isAllowedOwnerCombination(1, 'user', 'user', false), false)
+  assertEquals(isAllowedOwnerCombination(1, 'system_account', 'system_account', true), false)
+})
+
+Deno.test('isAllowedOwnerCombination enforces the self-transfer rule before the owners', () => {
+  // ISSUANCE must be a self-transfer of a system account
+  assertEquals(isAllowedOwnerCombination(2, 'system_account', 'system_account', true), true)
+  assertEquals(isAllowedOwnerCombination(2, 'system_account', 'system_account', false), false)
+  // REVERSAL allows any owners, but never the same wallet
+  assertEquals(isAllowedOwnerCombination(6, 'user', 'system_account', false), true)
+  assertEquals(isAllowedOwnerCombination(6, 'user', 'user', true), false)
+})
+
+Deno.test('isAllowedOwnerCombination checks the owner type of each side', () => {
+  assertEquals(isAllowedOwnerCombination(4, 'user', 'user', false), true)
+  assertEquals(isAllowedOwnerCombination(4, 'user', 'system_account', false), false)
+  assertEquals(isAllowedOwnerCombination(3, 'user', 'user', false), false)
+})
+
+Deno.test('parseTransactionType accepts registered codes and names only', () => {
+  assertEquals(parseTransactionType('4'), 4)
+  assertEquals(parseTransactionType('p2p'), 4)
+  assertEquals(parseTransactionType('ESCROW_RELEASE'), 8)
+  assertEquals(parseTransactionType('99'), null)
+  assertEquals(parseTransactionType('WITHDRAWAL'), null)
+})
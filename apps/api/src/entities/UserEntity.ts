@@ -0,0 +1,67 @@
+/**
+ * UserEntity - Domain entity for regular user accounts
+ *
+ * Users are identified by the `sub` claim of the identity provider's JWT and
+ * own exactly one wallet. Deletion is soft (`deletedAt`).
+ */
+
+import type { WalletID } from './WalletEntity.ts'
+
+// Branded Type for type-safe ID
+const UserIDBrand: unique symbol = Symbol('UserID')
+export type UserID = string & { readonly [UserIDBrand]: never }
+
+/**
+ * Casts a string to UserID (branded type)
+ *
+ * @param id - UUID string
+ * @returns Branded UserID
+ */
+export function AsUserID(id: string): UserID {
+  return id as UserID
+}
+
+/**
+ * Username rules mirroring the users table constraints
+ * (username_valid_chars, username_length)
+ */
+export const USERNAME_PATTERN = /^[a-zA-Z0-9_-]+$/
+export const USERNAME_MIN_LENGTH = 3
+export const USERNAME_MAX_LENGTH = 255
+
+/**
+ * UserEntity represents a regular user in the domain layer
+ */
+export class UserEntity {
+  constructor(
+    public readonly id: UserID,
+    public readonly walletId: WalletID,
+    public readonly username: string,
+    public readonly createdAt: number,
+    public readonly updatedAt: number,
+    public readonly deletedAt: number | null,
+  ) {
+    // Validate invariants (mirror users table constraints)
+    if (!USERNAME_PATTERN.test(username)) {
+      throw new Error('Username may only contain alphanumerics, underscore and hyphen')
+    }
+    if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+      throw new Error(
+        `Username must be between ${USERNAME_MIN_LENGTH} and ${USERNAME_MAX_LENGTH} characters`,
+      )
+    }
+    if (createdAt <= 0) {
+      throw new Error('CreatedAt must be positive')
+    }
+    if (deletedAt !== null && deletedAt < createdAt) {
+      throw new Error('DeletedAt must not be before CreatedAt')
+    }
+  }
+
+  /**
+   * Whether the user has been soft deleted
+   */
+  get isDeleted(): boolean {
+    return this.deletedAt !== null
+  }
+}
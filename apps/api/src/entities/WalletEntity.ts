@@ -0,0 +1,116 @@
+/**
+ * WalletEntity - Domain entity for token wallets
+ *
+ * Wallets are conceptually independent of their owners: a wallet is referenced by
+ * exactly one user or system account, and all transfers happen between wallets.
+ */
+
+// Branded Type for type-safe ID
+const WalletIDBrand: unique symbol = Symbol('WalletID')
+export type WalletID = string & { readonly [WalletIDBrand]: never }
+
+/**
+ * Casts a string to WalletID (branded type)
+ *
+ * @param id - UUID string
+ * @returns Branded WalletID
+ */
+export function AsWalletID(id: string): WalletID {
+  return id as WalletID
+}
+
+/**
+ * Kind of entity owning a wallet, as reported by the wallet_owners view
+ */
+export type WalletOwnerType = 'user' | 'system_account'
+
+/**
+ * Reverse lookup result from a wallet to its (active) owner
+ */
+export type WalletOwner = {
+  walletId: WalletID
+  ownerType: WalletOwnerType
+  ownerId: string
+  ownerName: string
+}
+
+/**
+ * Recorded freeze/unfreeze operation on a wallet
+ */
+export type WalletFreezeEvent = {
+  id: string
+  walletId: WalletID
+  /** State after the operation */
+  isFrozen: boolean
+  reason: string
+  actorUserId: string
+  createdAt: number
+}
+
+/**
+ * Kinds of wallet activity streamed to the wallet's owner
+ */
+export const WALLET_EVENT_TYPES = [
+  'transfer.received',
+  'transfer.sent',
+  'wallet.frozen',
+  'wallet.unfrozen',
+] as const
+export type WalletEventType = typeof WALLET_EVENT_TYPES[number]
+
+/**
+ * Position of an event in a wallet's activity log
+ *
+ * Events are ordered by the ID of the database transaction that committed them, then by
+ * insertion order, so an event never appears behind a position that was already read.
+ */
+export type WalletEventPosition = {
+  /** Database transaction ID (a 64-bit integer, kept as a decimal string) */
+  xactId: string
+  position: number
+}
+
+/**
+ * One entry of a wallet's activity log, ordered by position
+ */
+export type WalletEvent = {
+  type: WalletEventType
+  position: WalletEventPosition
+  /** Transaction ID for transfers, freeze event ID for freeze changes */
+  id: string
+  walletId: WalletID
+  /** Wallet balance right after the event */
+  balance: number
+  createdAt: number
+  /** Transfer details; null for freeze changes */
+  transfer: {
+    counterpartyWalletId: WalletID
+    amount: number
+    transactionType: number
+    memo: string | null
+  } | null
+}
+
+/**
+ * WalletEntity represents a token wallet in the domain layer
+ */
+export class WalletEntity {
+  constructor(
+    public readonly id: WalletID,
+    public readonly balance: number,
+    public readonly isFrozen: boolean,
+    public readonly createdAt: number,
+    public readonly updatedAt: number,
+  ) {
+    // Validate invariants (mirror wallets table constraints)
+    if (!Number.isSafeInteger(balance) || balance < 0) {
+      throw new Error('Balance must be a non-negative integer')
+    }
+    if (createdAt <= 0) {
+      throw new Error('CreatedAt must be positive')
+    }
+    if (updatedAt < createdAt) {
+      throw new Error('UpdatedAt must not be before CreatedAt')
+    }
+  }
+}
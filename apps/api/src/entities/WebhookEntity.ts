@@ -0,0 +1,123 @@
+/**
+ * WebhookEntity - Domain entities for outbound webhooks
+ *
+ * A subscription is an endpoint notified of transaction events: system
+ * integrations (no owning user) receive every transaction, user subscriptions
+ * the transactions touching the owner's wallet. Each event is queued as a
+ * WebhookDelivery in the same database transaction as the event itself and
+ * sent by the webhook dispatcher job.
+ */
+
+import type { UserID } from './UserEntity.ts'
+import type { TransactionID } from './TransactionEntity.ts'
+
+// Branded Types for type-safe IDs
+const WebhookSubscriptionIDBrand: unique symbol = Symbol('WebhookSubscriptionID')
+export type WebhookSubscriptionID = string & { readonly [WebhookSubscriptionIDBrand]: never }
+
+const WebhookDeliveryIDBrand: unique symbol = Symbol('WebhookDeliveryID')
+export type WebhookDeliveryID = string & { readonly [WebhookDeliveryIDBrand]: never }
+
+/**
+ * Casts a string to WebhookSubscriptionID (branded type)
+ *
+ * @param id - UUID string
+ * @returns Branded WebhookSubscriptionID
+ */
+export function AsWebhookSubscriptionID(id: string): WebhookSubscriptionID {
+  return id as WebhookSubscriptionID
+}
+
+/**
+ * Casts a string to WebhookDeliveryID (branded type)
+ *
+ * @param id - UUID string
+ * @returns Branded WebhookDeliveryID
+ */
+export function AsWebhookDeliveryID(id: string): WebhookDeliveryID {
+  return id as WebhookDeliveryID
+}
+
+/**
+ * Events sent to subscriptions (webhook_deliveries.event_type)
+ */
+export const WEBHOOK_EVENT_TYPES = ['transaction.created'] as const
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number]
+
+/**
+ * Delivery state (webhook_deliveries.status)
+ *
+ * - pending: queued, or waiting for a retry
+ * - delivered: the endpoint answered with a 2xx status
+ * - dead: retries exhausted or the subscription was disabled; only a manual
+ *   redelivery sends it again
+ */
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'dead'] as const
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number]
+
+/**
+ * Type guard for delivery status names
+ *
+ * @param value - Candidate status
+ * @returns true if value is a known WebhookDeliveryStatus
+ */
+export function isWebhookDeliveryStatus(value: string): value is WebhookDeliveryStatus {
+  return (WEBHOOK_DELIVERY_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * One event queued for one subscription
+ */
+export type WebhookDelivery = {
+  id: WebhookDeliveryID
+  subscriptionId: WebhookSubscriptionID
+  eventType: WebhookEventType
+  transactionId: TransactionID
+  /** Event data, captured when the event occurred */
+  payload: Record<string, unknown>
+  status: WebhookDeliveryStatus
+  /** Attempts since the delivery was queued (reset by redelivery) */
+  attemptCount: number
+  /** Next attempt time; null unless pending */
+  nextAttemptAt: number | null
+  lastAttemptAt: number | null
+  /** HTTP status of the last attempt; null if no response was received */
+  lastResponseStatus: number | null
+  lastError: string | null
+  deliveredAt: number | null
+  createdAt: number
+}
+
+/**
+ * WebhookSubscriptionEntity represents a webhook endpoint in the domain layer
+ *
+ * The signing secret is deliberately not part of the entity: it is returned once
+ * at creation and otherwise only read by the dispatcher.
+ */
+export class WebhookSubscriptionEntity {
+  constructor(
+    public readonly id: WebhookSubscriptionID,
+    /** null for system integrations */
+    public readonly userId: UserID | null,
+    public readonly url: string,
+    public readonly description: string | null,
+    public readonly isActive: boolean,
+    public readonly createdAt: number,
+    public readonly updatedAt: number,
+  ) {
+    // Validate invariants (mirror webhook_subscriptions table constraints)
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error('URL must be an http(s) URL')
+    }
+    if (createdAt <= 0) {
+      throw new Error('CreatedAt must be positive')
+    }
+  }
+
+  /**
+   * Whether the subscription belongs to a system integration
+   */
+  get isSystem(): boolean {
+    return this.userId === null
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Balance checkpoint job
+ *
+ * Records every active wallet's balance at the most recent UTC midnight that lies at
+ * least an hour in the past, so that point-in-time balances and statements only replay
+ * the transactions after it. Checkpoints are derived from the ledger; re-running a day
+ * is a no-op.
+ *
+ * Usage (run daily from cron, after 01:00 UTC):
+ *   deno task checkpoint-balances
+ */
+
+import type { IWalletRepository } from '../repositories/IWalletRepository.ts'
+import { WalletRepository } from '../repositories/WalletRepository.ts'
+import { getSupabaseClient } from '../lib/db.ts'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Minimum age of a checkpoint, so that no transaction still in flight predates it
+ * (mirrors the check in create_balance_checkpoints())
+ */
+const SETTLE_MS = 60 * 60 * 1000
+
+/**
+ * Options for runBalanceCheckpoints()
+ */
+export type BalanceCheckpointJobOptions = {
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+}
+
+/**
+ * Machine-readable checkpoint result
+ */
+export type BalanceCheckpointReport = {
+  /** Checkpoint time (UTC midnight, Unix ms) */
+  asOf: number
+  /** Checkpoints created (0 when the day was already checkpointed) */
+  created: number
+}
+
+/**
+ * Creates the checkpoints for the latest settled UTC midnight
+ *
+ * @param repository - IWalletRepository implementation
+ * @param options - Clock
+ * @returns Promise resolving to the report
+ * @throws Error if the database call fails
+ */
+export async function runBalanceCheckpoints(
+  repository: IWalletRepository,
+  options: BalanceCheckpointJobOptions = {},
+): Promise<BalanceCheckpointReport> {
+  const settled = (options.now ?? Date.now)() - SETTLE_MS
+  const asOf = settled - (settled % DAY_MS)
+
+  const created = await repository.createBalanceCheckpoints(asOf)
+  return { asOf, created }
+}
+
+if (import.meta.main) {
+  const report = await runBalanceCheckpoints(new WalletRepository(getSupabaseClient()))
+  console.log(JSON.stringify(report, null, 2))
+}
@@ -0,0 +1,45 @@
+import { assertEquals } from '@std/assert'
+import { runBalanceCheckpoints } from './checkpoint-balances.ts'
+import { stub } from '../testing/stubs.ts'
+import type { IWalletRepository } from '../repositories/IWalletRepository.ts'
+
+const MIDNIGHT = Date.UTC(2025, 0, 2)
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/**
+ * Runs the job at `now`, recording the checkpoint times requested
+ */
+async function runAt(now: number, created = 2) {
+  const requested: number[] = []
+  const repository = stub<IWalletRepository>({
+    createBalanceCheckpoints: (asOf) => {
+      requested.push(asOf)
+      return Promise.resolve(created)
+    },
+  })
+
+  const report = await runBalanceCheckpoints(repository, { now: () => now })
+  return { report, requested }
+}
+
+Deno.test('runBalanceCheckpoints checkpoints the latest UTC midnight once it has settled', async () => {
+  const { report, requested } = await runAt(MIDNIGHT + 2 * HOUR_MS)
+
+  assertEquals(requested, [MIDNIGHT])
+  assertEquals(report, { asOf: MIDNIGHT, created: 2 })
+})
+
+Deno.test('runBalanceCheckpoints keeps to the previous midnight within the first hour', async () => {
+  const early = await runAt(MIDNIGHT + HOUR_MS - 1)
+  const settled = await runAt(MIDNIGHT + HOUR_MS)
+
+  assertEquals(early.requested, [MIDNIGHT - DAY_MS])
+  assertEquals(settled.requested, [MIDNIGHT])
+})
+
+Deno.test('runBalanceCheckpoints reports a day that was already checkpointed', async () => {
+  const { report } = await runAt(MIDNIGHT + 5 * HOUR_MS, 0)
+
+  assertEquals(report, { asOf: MIDNIGHT, created: 0 })
+})
@@ -0,0 +1,205 @@
+/**
+ * Webhook dispatcher job
+ *
+ * Sends due deliveries from the webhook outbox as signed JSON POSTs. A delivery
+ * succeeds on any 2xx response; otherwise it is retried with exponential backoff
+ * and moves to the dead state after the last attempt (redeliver it manually via
+ * the API). Deliveries are leased while in flight, so overlapping dispatchers do
+ * not send the same delivery twice; a dispatcher that dies mid-run leaves its
+ * leased deliveries to be retried once the lease ends (at-least-once delivery).
+ *
+ * Usage (run every minute or so from cron):
+ *   deno task dispatch-webhooks
+ */
+
+import type {
+  ClaimedWebhookDelivery,
+  IWebhookRepository,
+} from '../repositories/IWebhookRepository.ts'
+import { WebhookRepository } from '../repositories/WebhookRepository.ts'
+import type { WebhookDeliveryStatus } from '../entities/WebhookEntity.ts'
+import { getSupabaseClient } from '../lib/db.ts'
+import {
+  createFetchWebhookSender,
+  signWebhookPayload,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  type WebhookSender,
+} from '../lib/webhooks.ts'
+
+/**
+ * Options for runWebhookDispatch()
+ */
+export type WebhookDispatchOptions = {
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+  /** HTTP transport (defaults to fetch with a 10 second timeout) */
+  sender?: WebhookSender
+  /** Deliveries leased per round (default 50) */
+  batchSize?: number
+  /** Upper bound on attempts made in one run (default 500) */
+  maxDeliveries?: number
+  /**
+   * How long a leased delivery is hidden from other dispatchers (default 15 minutes);
+   * must exceed the time to send a whole batch
+   */
+  leaseMs?: number
+  /** Attempts before a delivery is dead (default 8) */
+  maxAttempts?: number
+  /** Delay before the first retry, doubled for every further one (default 30 seconds) */
+  baseRetryDelayMs?: number
+  /** Longest delay between retries (default 6 hours) */
+  maxRetryDelayMs?: number
+}
+
+/**
+ * Machine-readable dispatcher result
+ */
+export type WebhookDispatchReport = {
+  /** Time the run started (Unix ms) */
+  asOf: number
+  delivered: number
+  /** Failed attempts that will be retried */
+  retrying: number
+  /** Failed attempts that exhausted the retries */
+  dead: number
+  /** true when the run stopped at maxDeliveries (more deliveries may be due) */
+  truncated: boolean
+  results: {
+    deliveryId: string
+    subscriptionId: string
+    /** Status after the attempt; null if the subscription was disabled meanwhile */
+    status: WebhookDeliveryStatus | null
+    responseStatus: number | null
+    error: string | null
+  }[]
+}
+
+/**
+ * Delay before retrying after the given number of failed attempts
+ */
+function retryDelay(attempts: number, baseMs: number, maxMs: number): number {
+  return Math.min(baseMs * 2 ** (attempts - 1), maxMs)
+}
+
+/**
+ * Sends one delivery and reports the HTTP status or transport error
+ *
+ * @param delivery - Leased delivery
+ * @param sender - HTTP transport
+ * @param timestamp - Signing time (Unix ms)
+ */
+async function attemptDelivery(
+  delivery: ClaimedWebhookDelivery,
+  sender: WebhookSender,
+  timestamp: number,
+): Promise<{ responseStatus: number | null; error: string | null }> {
+  const body = JSON.stringify({
+    id: delivery.id,
+    type: delivery.eventType,
+    createdAt: delivery.createdAt,
+    data: delivery.payload,
+  })
+
+  try {
+    const response = await sender({
+      url: delivery.url,
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_ID_HEADER]: delivery.id,
+        [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+        [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(delivery.secret, timestamp, body),
+      },
+      body,
+    })
+    if (response.status >= 200 && response.status < 300) {
+      return { responseStatus: response.status, error: null }
+    }
+    return { responseStatus: response.status, error: `Endpoint responded with ${response.status}` }
+  } catch (error) {
+    return {
+      responseStatus: null,
+      error: error instanceof Error ? error.message : 'Request failed',
+    }
+  }
+}
+
+/**
+ * Attempts every delivery due at the injected clock's current time
+ *
+ * @param repository - IWebhookRepository implementation
+ * @param options - Clock, transport, batching and retry settings
+ * @returns Promise resolving to the report
+ * @throws Error if a database call fails (attempts already recorded stay recorded)
+ */
+export async function runWebhookDispatch(
+  repository: IWebhookRepository,
+  options: WebhookDispatchOptions = {},
+): Promise<WebhookDispatchReport> {
+  const now = options.now ?? Date.now
+  const sender = options.sender ?? createFetchWebhookSender()
+  const batchSize = options.batchSize ?? 50
+  const maxDeliveries = options.maxDeliveries ?? 500
+  const leaseMs = options.leaseMs ?? 15 * 60 * 1000
+  const maxAttempts = options.maxAttempts ?? 8
+  const baseRetryDelayMs = options.baseRetryDelayMs ?? 30 * 1000
+  const maxRetryDelayMs = options.maxRetryDelayMs ?? 6 * 60 * 60 * 1000
+  const report: WebhookDispatchReport = {
+    asOf: now(),
+    delivered: 0,
+    retrying: 0,
+    dead: 0,
+    truncated: false,
+    results: [],
+  }
+
+  while (true) {
+    const remaining = maxDeliveries - report.results.length
+    if (remaining <= 0) {
+      // Checking for more would lease them; the next run picks them up either way
+      report.truncated = true
+      return report
+    }
+
+    const batch = await repository.claimDue(now(), Math.min(batchSize, remaining), leaseMs)
+    if (batch.length === 0) {
+      return report
+    }
+
+    for (const delivery of batch) {
+      const attemptedAt = now()
+      const outcome = await attemptDelivery(delivery, sender, attemptedAt)
+      const attempts = delivery.attemptCount + 1
+      const retryAt = outcome.error !== null && attempts < maxAttempts
+        ? attemptedAt + retryDelay(attempts, baseRetryDelayMs, maxRetryDelayMs)
+        : null
+
+      const status = await repository.recordAttempt(delivery.id, {
+        attemptedAt,
+        responseStatus: outcome.responseStatus,
+        error: outcome.error,
+        retryAt,
+      })
+      if (status === 'delivered') {
+        report.delivered++
+      } else if (status === 'pending') {
+        report.retrying++
+      } else if (status === 'dead') {
+        report.dead++
+      }
+      report.results.push({
+        deliveryId: delivery.id,
+        subscriptionId: delivery.subscriptionId,
+        status,
+        responseStatus: outcome.responseStatus,
+        error: outcome.error,
+      })
+    }
+  }
+}
+
+if (import.meta.main) {
+  const report = await runWebhookDispatch(new WebhookRepository(getSupabaseClient()))
+  console.log(JSON.stringify(report, null, 2))
+}
@@ -0,0 +1,219 @@
+import { assertEquals } from '@std/assert'
+import { runWebhookDispatch, type WebhookDispatchOptions } from './dispatch-webhooks.ts'
+import { stub } from '../testing/stubs.ts'
+import {
+  AsWebhookDeliveryID,
+  AsWebhookSubscriptionID,
+  type WebhookDeliveryStatus,
+} from '../entities/WebhookEntity.ts'
+import { AsTransactionID } from '../entities/TransactionEntity.ts'
+import type {
+  ClaimedWebhookDelivery,
+  IWebhookRepository,
+  WebhookAttempt,
+} from '../repositories/IWebhookRepository.ts'
+import {
+  verifyWebhookSignature,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  type WebhookRequest,
+  type WebhookSender,
+} from '../lib/webhooks.ts'
+
+const START = Date.UTC(2025, 0, 1)
+const SECRET = 'whsec_test'
+
+/**
+ * Outbox row kept by the fake repository
+ */
+type FakeDelivery = ClaimedWebhookDelivery & {
+  status: WebhookDeliveryStatus
+  nextAttemptAt: number
+  attempts: WebhookAttempt[]
+}
+
+/**
+ * Creates a pending delivery due at START
+ */
+function pendingDelivery(n: number): FakeDelivery {
+  return {
+    id: AsWebhookDeliveryID(`30000000-0000-4000-8000-00000000000${n}`),
+    subscriptionId: AsWebhookSubscriptionID('40000000-0000-4000-8000-000000000001'),
+    url: 'https://hooks.example.com/tokens',
+    secret: SECRET,
+    eventType: 'transaction.created',
+    transactionId: AsTransactionID(`50000000-0000-4000-8000-00000000000${n}`),
+    payload: { amount: 100 * n },
+    attemptCount: 0,
+    createdAt: START,
+    status: 'pending',
+    nextAttemptAt: START,
+    attempts: [],
+  }
+}
+
+/**
+ * In-memory IWebhookRepository following claim_webhook_deliveries() and
+ * record_webhook_attempt(): due pending deliveries are leased until the lease ends or
+ * an attempt is recorded
+ */
+function createFakeRepository(deliveries: FakeDelivery[]): IWebhookRepository {
+  return stub<IWebhookRepository>({
+    claimDue: (asOf, limit, leaseMs) => {
+      const due = deliveries
+        .filter((delivery) => delivery.status === 'pending' && delivery.nextAttemptAt <= asOf)
+        .slice(0, limit)
+      for (const delivery of due) {
+        delivery.nextAttemptAt = asOf + leaseMs
+      }
+      return Promise.resolve(due.map((delivery) => ({ ...delivery })))
+    },
+    recordAttempt: (id, attempt) => {
+      const delivery = deliveries.find((delivery) => delivery.id === id)!
+      delivery.attempts.push(attempt)
+      delivery.attemptCount++
+      if (attempt.error === null) {
+        delivery.status = 'delivered'
+      } else if (attempt.retryAt !== null) {
+        delivery.nextAttemptAt = attempt.retryAt
+      } else {
+        delivery.status = 'dead'
+      }
+      return Promise.resolve(delivery.status)
+    },
+  })
+}
+
+/**
+ * WebhookSender answering every request with the given status (or failing without a
+ * response when status is null), recording the requests
+ */
+function createSender(status: number | null) {
+  const requests: WebhookRequest[] = []
+  const sender: WebhookSender = (request) => {
+    requests.push(request)
+    return status === null
+      ? Promise.reject(new Error('connection refused'))
+      : Promise.resolve({ status })
+  }
+  return { sender, requests }
+}
+
+Deno.test('runWebhookDispatch delivers signed requests', async () => {
+  const delivery = pendingDelivery(1)
+  const { sender, requests } = createSender(204)
+
+  const report = await runWebhookDispatch(createFakeRepository([delivery]), {
+    now: () => START,
+    sender,
+  })
+
+  assertEquals(report.delivered, 1)
+  assertEquals(delivery.status, 'delivered')
+  const [request] = requests
+  assertEquals(request!.url, delivery.url)
+  assertEquals(request!.headers[WEBHOOK_ID_HEADER], delivery.id)
+  assertEquals(request!.headers[WEBHOOK_EVENT_HEADER], 'transaction.created')
+  assertEquals(JSON.parse(request!.body), {
+    id: delivery.id,
+    type: 'transaction.created',
+    createdAt: START,
+    data: { amount: 100 },
+  })
+  assertEquals(
+    await verifyWebhookSignature(
+      SECRET,
+      request!.headers[WEBHOOK_SIGNATURE_HEADER]!,
+      request!.body,
+      { now: START },
+    ),
+    true,
+  )
+})
+
+Deno.test('runWebhookDispatch retries failures with exponential backoff until dead', async () => {
+  const delivery = pendingDelivery(1)
+  const { sender, requests } = createSender(500)
+  const options: WebhookDispatchOptions = {
+    sender,
+    maxAttempts: 5,
+    baseRetryDelayMs: 1000,
+    maxRetryDelayMs: 5000,
+  }
+  const repository = createFakeRepository([delivery])
+
+  // One run per retry, each at the time the previous attempt asked for
+  const reports = []
+  let time = START
+  while (delivery.status === 'pending' && reports.length < 10) {
+    const runAt = time
+    reports.push(await runWebhookDispatch(repository, { ...options, now: () => runAt }))
+    time = delivery.nextAttemptAt
+  }
+
+  assertEquals(requests.length, 5)
+  assertEquals(
+    delivery.attempts.map((attempt) => attempt.retryAt && attempt.retryAt - attempt.attemptedAt),
+    [1000, 2000, 4000, 5000, null],
+  )
+  assertEquals(delivery.attempts[0]!.responseStatus, 500)
+  assertEquals(delivery.attempts[0]!.error, 'Endpoint responded with 500')
+  assertEquals(reports.map((report) => [report.retrying, report.dead]), [
+    [1, 0],
+    [1, 0],
+    [1, 0],
+    [1, 0],
+    [0, 1],
+  ])
+  assertEquals(delivery.status, 'dead')
+})
+
+Deno.test('runWebhookDispatch does not retry before the backoff has passed', async () => {
+  const delivery = pendingDelivery(1)
+  const { sender, requests } = createSender(503)
+  const repository = createFakeRepository([delivery])
+  const options = { sender, baseRetryDelayMs: 30_000 }
+
+  await runWebhookDispatch(repository, { ...options, now: () => START })
+  const early = await runWebhookDispatch(repository, { ...options, now: () => START + 29_999 })
+  const due = await runWebhookDispatch(repository, { ...options, now: () => START + 30_000 })
+
+  assertEquals(early.results, [])
+  assertEquals(due.retrying, 1)
+  assertEquals(requests.length, 2)
+})
+
+Deno.test('runWebhookDispatch records transport errors without a response status', async () => {
+  const delivery = pendingDelivery(1)
+  const { sender } = createSender(null)
+
+  const report = await runWebhookDispatch(createFakeRepository([delivery]), {
+    now: () => START,
+    sender,
+  })
+
+  assertEquals(report.results, [{
+    deliveryId: delivery.id,
+    subscriptionId: delivery.subscriptionId,
+    status: 'pending',
+    responseStatus: null,
+    error: 'connection refused',
+  }])
+})
+
+Deno.test('runWebhookDispatch stops at maxDeliveries', async () => {
+  const deliveries = [pendingDelivery(1), pendingDelivery(2), pendingDelivery(3)]
+  const { sender } = createSender(200)
+
+  const report = await runWebhookDispatch(createFakeRepository(deliveries), {
+    now: () => START,
+    sender,
+    batchSize: 1,
+    maxDeliveries: 2,
+  })
+
+  assertEquals(report.delivered, 2)
+  assertEquals(report.truncated, true)
+  assertEquals(deliveries.map((delivery) => delivery.status), ['delivered', 'delivered', 'pending'])
+})
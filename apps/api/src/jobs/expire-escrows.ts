@@ -0,0 +1,99 @@
+/**
+ * Escrow expiry job
+ *
+ * Refunds every held escrow whose expiresAt has passed to its sender. A refund
+ * that is rejected (e.g. the sender wallet is frozen) is reported and retried on
+ * the next run; the escrow stays held until then.
+ *
+ * Usage (run every few minutes from cron):
+ *   deno task expire-escrows
+ */
+
+import type { IEscrowRepository } from '../repositories/IEscrowRepository.ts'
+import { EscrowRepository } from '../repositories/EscrowRepository.ts'
+import { getSupabaseClient } from '../lib/db.ts'
+import { DomainError } from '../lib/errors.ts'
+
+/**
+ * Options for runEscrowExpiry()
+ */
+export type EscrowExpiryJobOptions = {
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+  /** Upper bound on escrows processed in one run (default 1000) */
+  limit?: number
+}
+
+/**
+ * Machine-readable expiry result
+ */
+export type EscrowExpiryReport = {
+  /** Time the run treated as "now" (Unix ms) */
+  asOf: number
+  refunded: number
+  failed: number
+  /** true when more expired escrows were found than the run processed */
+  truncated: boolean
+  results: {
+    escrowId: string
+    /** ESCROW_REFUND transaction; null if the refund was rejected */
+    transactionId: string | null
+    error: string | null
+  }[]
+}
+
+/**
+ * Refunds escrows expired at the injected clock's current time
+ *
+ * @param repository - IEscrowRepository implementation
+ * @param options - Clock and batch size
+ * @returns Promise resolving to the report
+ * @throws Error if a database call fails (escrows already refunded stay refunded)
+ */
+export async function runEscrowExpiry(
+  repository: IEscrowRepository,
+  options: EscrowExpiryJobOptions = {},
+): Promise<EscrowExpiryReport> {
+  const asOf = (options.now ?? Date.now)()
+  const limit = options.limit ?? 1000
+  const report: EscrowExpiryReport = {
+    asOf,
+    refunded: 0,
+    failed: 0,
+    truncated: false,
+    results: [],
+  }
+
+  // One extra row tells whether the run had to leave expired escrows for the next one
+  const expired = await repository.listExpired(asOf, limit + 1)
+  report.truncated = expired.length > limit
+
+  for (const id of expired.slice(0, limit)) {
+    try {
+      const escrow = await repository.refund(id, null, asOf)
+      report.refunded++
+      report.results.push({
+        escrowId: id,
+        transactionId: escrow.settlementTransactionId,
+        error: null,
+      })
+    } catch (error) {
+      // Settled concurrently (released just before expiry, or refunded by a participant)
+      if (error instanceof DomainError && error.code === 'ESCROW_NOT_HELD') {
+        continue
+      }
+      if (!(error instanceof DomainError)) {
+        throw error
+      }
+      report.failed++
+      report.results.push({ escrowId: id, transactionId: null, error: error.message })
+    }
+  }
+
+  return report
+}
+
+if (import.meta.main) {
+  const report = await runEscrowExpiry(new EscrowRepository(getSupabaseClient()))
+  console.log(JSON.stringify(report, null, 2))
+}
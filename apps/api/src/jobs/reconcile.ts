@@ -0,0 +1,78 @@
+/**
+ * Ledger reconciliation job
+ *
+ * Replays every wallet's balance from the transactions ledger and reports drift
+ * and orphan wallets. Read-only, so it is safe to run on a schedule.
+ *
+ * Usage (exits with status 1 when the report is not ok):
+ *   deno task reconcile
+ */
+
+import type { IReconciliationRepository } from '../repositories/IReconciliationRepository.ts'
+import { ReconciliationRepository } from '../repositories/ReconciliationRepository.ts'
+import { getSupabaseClient } from '../lib/db.ts'
+
+/**
+ * Machine-readable reconciliation result
+ */
+export type ReconciliationReport = {
+  /** true when no wallet drifted and no orphan wallet exists */
+  ok: boolean
+  /** Unix timestamp in milliseconds */
+  checkedAt: number
+  /** Wallets whose stored balance differs from the ledger */
+  drift: {
+    walletId: string
+    storedBalance: number
+    ledgerBalance: number
+    /** storedBalance - ledgerBalance */
+    difference: number
+  }[]
+  /** Wallets referenced by neither a user nor a system account */
+  orphans: {
+    walletId: string
+    balance: number
+  }[]
+}
+
+/**
+ * Runs a reconciliation and builds the report
+ *
+ * @param repository - IReconciliationRepository implementation
+ * @param now - Current time provider in milliseconds (defaults to Date.now)
+ * @returns Promise resolving to the report
+ * @throws Error if the database call fails
+ */
+export async function runReconciliation(
+  repository: IReconciliationRepository,
+  now: () => number = Date.now,
+): Promise<ReconciliationReport> {
+  const discrepancies = await repository.findDiscrepancies()
+
+  const drift = discrepancies
+    .filter((wallet) => wallet.storedBalance !== wallet.ledgerBalance)
+    .map((wallet) => ({
+      walletId: wallet.walletId,
+      storedBalance: wallet.storedBalance,
+      ledgerBalance: wallet.ledgerBalance,
+      difference: wallet.storedBalance - wallet.ledgerBalance,
+    }))
+  const orphans = discrepancies
+    .filter((wallet) => wallet.isOrphan)
+    .map((wallet) => ({ walletId: wallet.walletId, balance: wallet.storedBalance }))
+
+  return {
+    ok: drift.length === 0 && orphans.length === 0,
+    checkedAt: now(),
+    drift,
+    orphans,
+  }
+}
+
+if (import.meta.main) {
+  const report = await runReconciliation(new ReconciliationRepository(getSupabaseClient()))
+  console.log(JSON.stringify(report, null, 2))
+  if (!report.ok) {
+    Deno.exit(1)
+  }
+}
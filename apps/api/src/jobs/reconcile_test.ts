@@ -0,0 +1,59 @@
+import { assertEquals } from '@std/assert'
+import { runReconciliation } from './reconcile.ts'
+import { stub } from '../testing/stubs.ts'
+import { ALICE_WALLET_ID, BOB_WALLET_ID, FIXTURE_TIME } from '../testing/fixtures.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import type {
+  IReconciliationRepository,
+  WalletDiscrepancy,
+} from '../repositories/IReconciliationRepository.ts'
+
+const ORPHAN_WALLET_ID = AsWalletID('cccccccc-cccc-4ccc-8ccc-cccccccccccc')
+
+/**
+ * Repository reporting `discrepancies`
+ */
+function createRepository(discrepancies: WalletDiscrepancy[]) {
+  return stub<IReconciliationRepository>({
+    findDiscrepancies: () => Promise.resolve(discrepancies),
+  })
+}
+
+Deno.test('runReconciliation reports a consistent ledger as ok', async () => {
+  const report = await runReconciliation(createRepository([]), () => FIXTURE_TIME)
+
+  assertEquals(report, { ok: true, checkedAt: FIXTURE_TIME, drift: [], orphans: [] })
+})
+
+Deno.test('runReconciliation reports drift as stored minus ledger balance', async () => {
+  const report = await runReconciliation(
+    createRepository([
+      { walletId: ALICE_WALLET_ID, storedBalance: 120, ledgerBalance: 100, isOrphan: false },
+      { walletId: BOB_WALLET_ID, storedBalance: 0, ledgerBalance: 30, isOrphan: false },
+    ]),
+    () => FIXTURE_TIME,
+  )
+
+  assertEquals(report.ok, false)
+  assertEquals(report.drift, [
+    { walletId: ALICE_WALLET_ID, storedBalance: 120, ledgerBalance: 100, difference: 20 },
+    { walletId: BOB_WALLET_ID, storedBalance: 0, ledgerBalance: 30, difference: -30 },
+  ])
+  assertEquals(report.orphans, [])
+})
+
+Deno.test('runReconciliation reports orphan wallets apart from drift', async () => {
+  const report = await runReconciliation(
+    createRepository([
+      { walletId: ORPHAN_WALLET_ID, storedBalance: 50, ledgerBalance: 50, isOrphan: true },
+    ]),
+    () => FIXTURE_TIME,
+  )
+
+  assertEquals(report, {
+    ok: false,
+    checkedAt: FIXTURE_TIME,
+    drift: [],
+    orphans: [{ walletId: ORPHAN_WALLET_ID, balance: 50 }],
+  })
+})
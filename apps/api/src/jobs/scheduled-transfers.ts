@@ -0,0 +1,115 @@
+/**
+ * Scheduled transfer executor job
+ *
+ * Materializes every due occurrence of active scheduled transfers into the
+ * transactions ledger. Each occurrence is processed exactly once, even when
+ * several executors overlap; failed occurrences (insufficient balance, frozen
+ * wallet, ...) are recorded on the schedule and do not stop the run. Missed
+ * occurrences (e.g. after downtime) are caught up one by one.
+ *
+ * Usage (run every minute or so from cron):
+ *   deno task scheduled-transfers
+ */
+
+import type { IScheduledTransferRepository } from '../repositories/IScheduledTransferRepository.ts'
+import { ScheduledTransferRepository } from '../repositories/ScheduledTransferRepository.ts'
+import { getSupabaseClient } from '../lib/db.ts'
+
+/**
+ * Options for runScheduledTransfers()
+ */
+export type ScheduledTransferJobOptions = {
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+  /** Due schedules fetched per round (default 100) */
+  batchSize?: number
+  /** Upper bound on occurrences processed in one run (default 1000) */
+  maxExecutions?: number
+}
+
+/**
+ * Machine-readable executor result
+ */
+export type ScheduledTransferJobReport = {
+  /** Time the run treated as "now" (Unix ms) */
+  asOf: number
+  executed: number
+  failed: number
+  /** true when maxExecutions was reached before every due occurrence was processed */
+  truncated: boolean
+  results: {
+    scheduledTransferId: string
+    outcome: 'executed' | 'failed'
+    transactionId: string | null
+    error: string | null
+  }[]
+}
+
+/**
+ * Processes every occurrence due at the injected clock's current time
+ *
+ * The clock is read once, so a run has a single, reproducible notion of "due".
+ *
+ * @param repository - IScheduledTransferRepository implementation
+ * @param options - Clock and batching settings
+ * @returns Promise resolving to the report
+ * @throws Error if a database call fails (occurrences already processed stay processed)
+ */
+export async function runScheduledTransfers(
+  repository: IScheduledTransferRepository,
+  options: ScheduledTransferJobOptions = {},
+): Promise<ScheduledTransferJobReport> {
+  const asOf = (options.now ?? Date.now)()
+  const batchSize = options.batchSize ?? 100
+  const maxExecutions = options.maxExecutions ?? 1000
+  const report: ScheduledTransferJobReport = {
+    asOf,
+    executed: 0,
+    failed: 0,
+    truncated: false,
+    results: [],
+  }
+
+  // A schedule stays due until all of its missed occurrences are processed, so keep
+  // fetching until nothing is due
+  while (true) {
+    const remaining = maxExecutions - report.results.length
+    if (remaining <= 0) {
+      report.truncated = (await repository.listDue(asOf, 1)).length > 0
+      return report
+    }
+
+    const due = await repository.listDue(asOf, Math.min(batchSize, remaining))
+    if (due.length === 0) {
+      return report
+    }
+
+    let processed = 0
+    for (const id of due) {
+      const execution = await repository.execute(id, asOf)
+      if (execution.outcome === 'skipped') {
+        continue
+      }
+      processed++
+      report[execution.outcome]++
+      report.results.push({
+        scheduledTransferId: id,
+        outcome: execution.outcome,
+        transactionId: execution.transactionId,
+        error: execution.error,
+      })
+    }
+
+    // Everything listed was handled by a concurrent executor; let it finish
+    if (processed === 0) {
+      return report
+    }
+  }
+}
+
+if (import.meta.main) {
+  const report = await runScheduledTransfers(
+    new ScheduledTransferRepository(getSupabaseClient()),
+  )
+  console.log(JSON.stringify(report, null, 2))
+}
@@ -0,0 +1,179 @@
+import { assertEquals } from '@std/assert'
+import { runScheduledTransfers } from './scheduled-transfers.ts'
+import { stub } from '../testing/stubs.ts'
+import {
+  AsScheduledTransferID,
+  type ScheduledTransferID,
+} from '../entities/ScheduledTransferEntity.ts'
+import { AsTransactionID } from '../entities/TransactionEntity.ts'
+import type {
+  IScheduledTransferRepository,
+  ScheduledExecution,
+} from '../repositories/IScheduledTransferRepository.ts'
+
+const NOW = Date.UTC(2025, 5, 1, 12)
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Schedule state kept by the fake repository
+ */
+type FakeSchedule = {
+  id: ScheduledTransferID
+  nextRunAt: number | null
+  /** null for one-off schedules */
+  intervalMs: number | null
+  /** Rejection reason of every occurrence, if the transfer cannot succeed */
+  failure?: string
+}
+
+/**
+ * In-memory IScheduledTransferRepository processing occurrences like
+ * execute_scheduled_transfer(): one occurrence per call, advancing nextRunAt
+ *
+ * @param schedules - Schedules, mutated as occurrences are processed
+ * @returns The repository and the occurrences it processed (schedule ID and due time)
+ */
+function createFakeRepository(schedules: FakeSchedule[]) {
+  const occurrences: [string, number][] = []
+
+  const repository = stub<IScheduledTransferRepository>({
+    listDue: (asOf, limit) =>
+      Promise.resolve(
+        schedules
+          .filter((schedule) => schedule.nextRunAt !== null && schedule.nextRunAt <= asOf)
+          .sort((a, b) => a.nextRunAt! - b.nextRunAt!)
+          .slice(0, limit)
+          .map((schedule) => schedule.id),
+      ),
+    execute: (id, asOf) => {
+      const schedule = schedules.find((schedule) => schedule.id === id)!
+      const dueAt = schedule.nextRunAt
+      if (dueAt === null || dueAt > asOf) {
+        return Promise.resolve<ScheduledExecution>({
+          outcome: 'skipped',
+          transactionId: null,
+          error: null,
+          status: dueAt === null ? 'completed' : 'active',
+          nextRunAt: dueAt,
+        })
+      }
+
+      occurrences.push([id, dueAt])
+      schedule.nextRunAt = schedule.intervalMs === null ? null : dueAt + schedule.intervalMs
+      return Promise.resolve<ScheduledExecution>({
+        outcome: schedule.failure ? 'failed' : 'executed',
+        transactionId: schedule.failure ? null : AsTransactionID(
+          `00000000-0000-4000-8000-${String(occurrences.length).padStart(12, '0')}`,
+        ),
+        error: schedule.failure ?? null,
+        status: schedule.nextRunAt === null ? 'completed' : 'active',
+        nextRunAt: schedule.nextRunAt,
+      })
+    },
+  })
+
+  return { repository, occurrences }
+}
+
+const ONE_OFF = AsScheduledTransferID('10000000-0000-4000-8000-000000000001')
+const DAILY = AsScheduledTransferID('10000000-0000-4000-8000-000000000002')
+const LATER = AsScheduledTransferID('10000000-0000-4000-8000-000000000003')
+
+Deno.test('runScheduledTransfers executes only occurrences due at the injected time', async () => {
+  const { repository, occurrences } = createFakeRepository([
+    { id: ONE_OFF, nextRunAt: NOW - 1, intervalMs: null },
+    { id: DAILY, nextRunAt: NOW, intervalMs: DAY_MS },
+    { id: LATER, nextRunAt: NOW + 1, intervalMs: null },
+  ])
+
+  const report = await runScheduledTransfers(repository, { now: () => NOW })
+
+  assertEquals(report.asOf, NOW)
+  assertEquals(report.executed, 2)
+  assertEquals(report.failed, 0)
+  assertEquals(report.truncated, false)
+  assertEquals(occurrences, [[ONE_OFF, NOW - 1], [DAILY, NOW]])
+})
+
+Deno.test('runScheduledTransfers catches up missed occurrences one by one', async () => {
+  const schedules = [{ id: DAILY, nextRunAt: NOW - 2.5 * DAY_MS, intervalMs: DAY_MS }]
+  const { repository, occurrences } = createFakeRepository(schedules)
+
+  const report = await runScheduledTransfers(repository, { now: () => NOW, batchSize: 1 })
+
+  assertEquals(report.executed, 3)
+  assertEquals(occurrences, [
+    [DAILY, NOW - 2.5 * DAY_MS],
+    [DAILY, NOW - 1.5 * DAY_MS],
+    [DAILY, NOW - 0.5 * DAY_MS],
+  ])
+  assertEquals(schedules[0]!.nextRunAt, NOW + 0.5 * DAY_MS)
+})
+
+Deno.test('runScheduledTransfers records failed occurrences and carries on', async () => {
+  const { repository } = createFakeRepository([
+    { id: ONE_OFF, nextRunAt: NOW - 2, intervalMs: null, failure: 'Insufficient balance' },
+    { id: DAILY, nextRunAt: NOW - 1, intervalMs: DAY_MS },
+  ])
+
+  const report = await runScheduledTransfers(repository, { now: () => NOW })
+
+  assertEquals(report.executed, 1)
+  assertEquals(report.failed, 1)
+  assertEquals(report.results[0], {
+    scheduledTransferId: ONE_OFF,
+    outcome: 'failed',
+    transactionId: null,
+    error: 'Insufficient balance',
+  })
+  assertEquals(report.results[1]!.outcome, 'executed')
+})
+
+Deno.test('runScheduledTransfers reads the clock once per run', async () => {
+  // A clock a day later on every read would make the next occurrence due mid-run
+  let reads = 0
+  const now = () => NOW + DAY_MS * reads++
+  const { repository, occurrences } = createFakeRepository([
+    { id: DAILY, nextRunAt: NOW, intervalMs: DAY_MS },
+  ])
+
+  const report = await runScheduledTransfers(repository, { now })
+
+  assertEquals(report.asOf, NOW)
+  assertEquals(reads, 1)
+  assertEquals(occurrences, [[DAILY, NOW]])
+})
+
+Deno.test('runScheduledTransfers stops at maxExecutions and reports truncation', async () => {
+  const { repository } = createFakeRepository([
+    { id: DAILY, nextRunAt: NOW - 5 * DAY_MS, intervalMs: DAY_MS },
+  ])
+
+  const report = await runScheduledTransfers(repository, { now: () => NOW, maxExecutions: 3 })
+
+  assertEquals(report.executed, 3)
+  assertEquals(report.truncated, true)
+})
+
+Deno.test('runScheduledTransfers leaves occurrences claimed by another executor', async () => {
+  let listed = 0
+  const repository = stub<IScheduledTransferRepository>({
+    listDue: () => {
+      listed++
+      return Promise.resolve([DAILY])
+    },
+    execute: () =>
+      Promise.resolve({
+        outcome: 'skipped',
+        transactionId: null,
+        error: null,
+        status: 'active',
+        nextRunAt: NOW,
+      }),
+  })
+
+  const report = await runScheduledTransfers(repository, { now: () => NOW })
+
+  assertEquals(report.results, [])
+  assertEquals(listed, 1)
+})
@@ -0,0 +1,116 @@
+/**
+ * Validation for transaction memos and metadata
+ *
+ * Memos are free text shown to both parties, so they are normalized and stripped
+ * of characters that can hide or reorder text. Metadata is a flat object of string
+ * values, which keeps key/value search (`metadata @> {...}`) exact.
+ * The transactions table constraints mirror these limits.
+ */
+
+import type { TransactionMetadata } from '../entities/TransactionEntity.ts'
+
+/**
+ * Maximum memo length in characters (transactions.memo_length)
+ */
+export const MAX_MEMO_LENGTH = 280
+
+/**
+ * Metadata limits
+ */
+export const MAX_METADATA_KEYS = 16
+export const MAX_METADATA_VALUE_LENGTH = 256
+const METADATA_KEY_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/
+
+/**
+ * Query parameter prefix for metadata filters (e.g. `meta.event_id=meetup-42`)
+ */
+const METADATA_FILTER_PREFIX = 'meta.'
+
+const WHITESPACE_CONTROL_CHARS = /[\t\n\r\v\f\u0085\u2028\u2029]/g
+// deno-lint-ignore no-control-regex
+const CONTROL_CHARS = /[\u0000-\u001F\u007F-\u009F]/g
+// Zero-width and bidirectional formatting characters
+const INVISIBLE_FORMAT_CHARS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2069\uFEFF]/g
+
+/**
+ * Sanitizes a memo: NFC-normalizes, turns line breaks and tabs into spaces, drops
+ * control and invisible formatting characters, collapses spaces and trims
+ *
+ * @param value - Memo as received in the request body
+ * @returns Sanitized memo (null if absent or empty after sanitizing), or an error message
+ */
+export function sanitizeMemo(value: unknown): { memo: string | null } | { error: string } {
+  if (value === undefined || value === null) {
+    return { memo: null }
+  }
+  if (typeof value !== 'string') {
+    return { error: 'memo must be a string' }
+  }
+
+  const memo = value
+    .normalize('NFC')
+    .replace(WHITESPACE_CONTROL_CHARS, ' ')
+    .replace(CONTROL_CHARS, '')
+    .replace(INVISIBLE_FORMAT_CHARS, '')
+    .replace(/ {2,}/g, ' ')
+    .trim()
+
+  // Count code points, as PostgreSQL LENGTH() does
+  if ([...memo].length > MAX_MEMO_LENGTH) {
+    return { error: `memo must be at most ${MAX_MEMO_LENGTH} characters` }
+  }
+  return { memo: memo.length > 0 ? memo : null }
+}
+
+/**
+ * Validates transaction metadata
+ *
+ * @param value - Metadata as received in the request body
+ * @returns Metadata ({} if absent), or an error message
+ */
+export function validateMetadata(
+  value: unknown,
+): { metadata: TransactionMetadata } | { error: string } {
+  if (value === undefined || value === null) {
+    return { metadata: {} }
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'metadata must be an object' }
+  }
+
+  const entries = Object.entries(value)
+  if (entries.length > MAX_METADATA_KEYS) {
+    return { error: `metadata is limited to ${MAX_METADATA_KEYS} keys` }
+  }
+  for (const [key, entry] of entries) {
+    if (!METADATA_KEY_PATTERN.test(key)) {
+      return { error: `metadata key "${key}" must be 1-64 characters of A-Z, a-z, 0-9, _ . -` }
+    }
+    if (typeof entry !== 'string' || entry.length > MAX_METADATA_VALUE_LENGTH) {
+      return {
+        error: `metadata.${key} must be a string of at most ${MAX_METADATA_VALUE_LENGTH} characters`,
+      }
+    }
+  }
+  return { metadata: Object.fromEntries(entries) as TransactionMetadata }
+}
+
+/**
+ * Collects `meta.<key>=<value>` query parameters into a containment filter
+ *
+ * @param params - Query string parameters
+ * @returns Filter (undefined if no metadata parameters were given), or an error message
+ */
+export function parseMetadataFilter(
+  params: Record<string, string>,
+): { filter: TransactionMetadata | undefined } | { error: string } {
+  const entries = Object.entries(params)
+    .filter(([name]) => name.startsWith(METADATA_FILTER_PREFIX))
+    .map(([name, value]) => [name.slice(METADATA_FILTER_PREFIX.length), value])
+
+  if (entries.length === 0) {
+    return { filter: undefined }
+  }
+  const result = validateMetadata(Object.fromEntries(entries))
+  return 'error' in result ? result : { filter: result.metadata }
+}
@@ -0,0 +1,75 @@
+import { assertEquals } from '@std/assert'
+import {
+  MAX_MEMO_LENGTH,
+  MAX_METADATA_KEYS,
+  parseMetadataFilter,
+  sanitizeMemo,
+  validateMetadata,
+} from './annotations.ts'
+
+Deno.test('sanitizeMemo turns line breaks and tabs into single spaces', () => {
+  assertEquals(sanitizeMemo('  lunch\n\nat\tnoon\r\n '), { memo: 'lunch at noon' })
+  assertEquals(sanitizeMemo('rent\u2028june\u0085july'), { memo: 'rent june july' })
+})
+
+Deno.test('sanitizeMemo drops control and invisible formatting characters', () => {
+  // NUL, DEL, C1 control, zero-width space, BOM and word joiner
+  assertEquals(sanitizeMemo('pa\u0000y\u007Fm\u0090e\u200Bn\uFEFFt\u2060'), { memo: 'payment' })
+})
+
+Deno.test('sanitizeMemo removes bidirectional overrides that reorder text', () => {
+  // A right-to-left override makes "invoice fdp.exe" display as "invoice exe.pdf"
+  assertEquals(sanitizeMemo('invoice \u202Efdp.exe\u202C'), { memo: 'invoice fdp.exe' })
+  assertEquals(sanitizeMemo('\u2066left\u2069 \u200Fright\u200E'), { memo: 'left right' })
+})
+
+Deno.test('sanitizeMemo NFC-normalizes so equal-looking memos are equal', () => {
+  const decomposed = 'cafe\u0301'
+
+  assertEquals(sanitizeMemo(decomposed), { memo: 'caf\u00E9' })
+})
+
+Deno.test('sanitizeMemo treats absent, blank and invisible-only memos as none', () => {
+  for (const value of [undefined, null, '', '   ', '\n\t', '\u200B\u202E']) {
+    assertEquals(sanitizeMemo(value), { memo: null })
+  }
+})
+
+Deno.test('sanitizeMemo limits the length in code points after sanitizing', () => {
+  const emoji = '\u{1F600}'
+
+  assertEquals(sanitizeMemo(emoji.repeat(MAX_MEMO_LENGTH)), { memo: emoji.repeat(MAX_MEMO_LENGTH) })
+  assertEquals(sanitizeMemo(`${'a'.repeat(MAX_MEMO_LENGTH)}\u200B\u200B  `), {
+    memo: 'a'.repeat(MAX_MEMO_LENGTH),
+  })
+  assertEquals(sanitizeMemo('a'.repeat(MAX_MEMO_LENGTH + 1)), {
+    error: `memo must be at most ${MAX_MEMO_LENGTH} characters`,
+  })
+})
+
+Deno.test('sanitizeMemo rejects non-string memos', () => {
+  assertEquals(sanitizeMemo(42), { error: 'memo must be a string' })
+})
+
+Deno.test('validateMetadata accepts flat string values and rejects the rest', () => {
+  assertEquals(validateMetadata({ event_id: 'meetup-42' }), { metadata: { event_id: 'meetup-42' } })
+  assertEquals(validateMetadata(undefined), { metadata: {} })
+  assertEquals('error' in validateMetadata(['a']), true)
+  assertEquals('error' in validateMetadata({ count: 1 }), true)
+  assertEquals('error' in validateMetadata({ 'bad key': 'x' }), true)
+  assertEquals(
+    'error' in
+      validateMetadata(Object.fromEntries(
+        Array.from({ length: MAX_METADATA_KEYS + 1 }, (_, i) => [`k${i}`, 'v']),
+      )),
+    true,
+  )
+})
+
+Deno.test('parseMetadataFilter collects meta.<key> parameters only', () => {
+  assertEquals(parseMetadataFilter({ limit: '10' }), { filter: undefined })
+  assertEquals(parseMetadataFilter({ 'meta.event_id': 'meetup-42', limit: '10' }), {
+    filter: { event_id: 'meetup-42' },
+  })
+  assertEquals('error' in parseMetadataFilter({ 'meta.': 'x' }), true)
+})
@@ -0,0 +1,50 @@
+/**
+ * Opaque pagination cursors for keyset pagination on (created_at, id)
+ *
+ * Cursors are base64url-encoded so clients treat them as opaque tokens and
+ * the encoding can change without breaking the API contract.
+ */
+
+import { isUUID } from './uuid.ts'
+
+/**
+ * Position of the last item of a page
+ */
+export type KeysetCursor = {
+  createdAt: number
+  id: string
+}
+
+/**
+ * Encodes a keyset position as an opaque cursor string
+ *
+ * @param cursor - created_at and id of the last item on the page
+ * @returns base64url cursor
+ */
+export function encodeCursor(cursor: KeysetCursor): string {
+  return btoa(`${cursor.createdAt}:${cursor.id}`)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * Decodes an opaque cursor string
+ *
+ * @param value - Cursor from a previous page's `nextCursor`
+ * @returns Decoded keyset position, or null if the cursor is malformed
+ */
+export function decodeCursor(value: string): KeysetCursor | null {
+  let decoded: string
+  try {
+    decoded = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  } catch {
+    return null
+  }
+
+  const [createdAt, id] = decoded.split(':')
+  if (!createdAt || !id || !/^\d+$/.test(createdAt) || !isUUID(id)) {
+    return null
+  }
+  return { createdAt: Number(createdAt), id }
+}
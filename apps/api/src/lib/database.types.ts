@@ -34,6 +34,51 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_user_id: string
+          created_at: number
+          details: Json
+          id: string
+          reason: string
+          target_wallet_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_user_id: string
+          created_at: number
+          details?: Json
+          id: string
+          reason: string
+          target_wallet_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_user_id?: string
+          created_at?: number
+          details?: Json
+          id?: string
+          reason?: string
+          target_wallet_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_actor"
+            columns: ["actor_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_target_wallet"
+            columns: ["target_wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       dev_test_items: {
         Row: {
           created_at: number
@@ -55,6 +100,296 @@ export type Database = {
         }
         Relationships: []
       }
+      escrows: {
+        Row: {
+          amount: number
+          beneficiary_wallet_id: string
+          created_at: number
+          expires_at: number
+          hold_transaction_id: string
+          id: string
+          memo: string | null
+          metadata: Json
+          sender_user_id: string
+          sender_wallet_id: string
+          settled_at: number | null
+          settled_by_user_id: string | null
+          settlement_transaction_id: string | null
+          status: string
+          updated_at: number
+        }
+        Insert: {
+          amount: number
+          beneficiary_wallet_id: string
+          created_at: number
+          expires_at: number
+          hold_transaction_id: string
+          id: string
+          memo?: string | null
+          metadata?: Json
+          sender_user_id: string
+          sender_wallet_id: string
+          settled_at?: number | null
+          settled_by_user_id?: string | null
+          settlement_transaction_id?: string | null
+          status?: string
+          updated_at: number
+        }
+        Update: {
+          amount?: number
+          beneficiary_wallet_id?: string
+          created_at?: number
+          expires_at?: number
+          hold_transaction_id?: string
+          id?: string
+          memo?: string | null
+          metadata?: Json
+          sender_user_id?: string
+          sender_wallet_id?: string
+          settled_at?: number | null
+          settled_by_user_id?: string | null
+          settlement_transaction_id?: string | null
+          status?: string
+          updated_at?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_beneficiary_wallet"
+            columns: ["beneficiary_wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_hold_transaction"
+            columns: ["hold_transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_sender_user"
+            columns: ["sender_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_sender_wallet"
+            columns: ["sender_wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_settled_by"
+            columns: ["settled_by_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_settlement_transaction"
+            columns: ["settlement_transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idempotency_keys: {
+        Row: {
+          amount: number
+          created_at: number
+          idempotency_key: string
+          to_wallet_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at: number
+          idempotency_key: string
+          to_wallet_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: number
+          idempotency_key?: string
+          to_wallet_id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_transaction"
+            columns: ["transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_user"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_limit_buckets: {
+        Row: {
+          hits: number
+          key: string
+          reset_at: number
+        }
+        Insert: {
+          hits: number
+          key: string
+          reset_at: number
+        }
+        Update: {
+          hits?: number
+          key?: string
+          reset_at?: number
+        }
+        Relationships: []
+      }
+      scheduled_transfer_runs: {
+        Row: {
+          error: string | null
+          executed_at: number
+          id: string
+          occurrence: number
+          scheduled_for: number
+          scheduled_transfer_id: string
+          transaction_id: string | null
+        }
+        Insert: {
+          error?: string | null
+          executed_at: number
+          id: string
+          occurrence: number
+          scheduled_for: number
+          scheduled_transfer_id: string
+          transaction_id?: string | null
+        }
+        Update: {
+          error?: string | null
+          executed_at?: number
+          id?: string
+          occurrence?: number
+          scheduled_for?: number
+          scheduled_transfer_id?: string
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_scheduled_transfer"
+            columns: ["scheduled_transfer_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_transaction"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_transfers: {
+        Row: {
+          amount: number
+          created_at: number
+          ends_at: number | null
+          failure_count: number
+          from_wallet_id: string
+          id: string
+          last_error: string | null
+          last_run_at: number | null
+          max_runs: number | null
+          memo: string | null
+          metadata: Json
+          next_run_at: number | null
+          recurrence: string
+          run_count: number
+          starts_at: number
+          status: string
+          to_wallet_id: string
+          updated_at: number
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at: number
+          ends_at?: number | null
+          failure_count?: number
+          from_wallet_id: string
+          id: string
+          last_error?: string | null
+          last_run_at?: number | null
+          max_runs?: number | null
+          memo?: string | null
+          metadata?: Json
+          next_run_at?: number | null
+          recurrence: string
+          run_count?: number
+          starts_at: number
+          status?: string
+          to_wallet_id: string
+          updated_at: number
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: number
+          ends_at?: number | null
+          failure_count?: number
+          from_wallet_id?: string
+          id?: string
+          last_error?: string | null
+          last_run_at?: number | null
+          max_runs?: number | null
+          memo?: string | null
+          metadata?: Json
+          next_run_at?: number | null
+          recurrence?: string
+          run_count?: number
+          starts_at?: number
+          status?: string
+          to_wallet_id?: string
+          updated_at?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_from_wallet"
+            columns: ["from_wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_to_wallet"
+            columns: ["to_wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_user"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       system_accounts: {
         Row: {
           created_at: number
@@ -87,32 +422,78 @@ export type Database = {
           },
         ]
       }
+      transaction_types: {
+        Row: {
+          code: number
+          from_owner_types: string[]
+          label: string
+          name: string
+          self_transfer: string
+          to_owner_types: string[]
+        }
+        Insert: {
+          code: number
+          from_owner_types: string[]
+          label: string
+          name: string
+          self_transfer: string
+          to_owner_types: string[]
+        }
+        Update: {
+          code?: number
+          from_owner_types?: string[]
+          label?: string
+          name?: string
+          self_transfer?: string
+          to_owner_types?: string[]
+        }
+        Relationships: []
+      }
       transactions: {
         Row: {
           amount: number
+          audit_log_id: string | null
           created_at: number
           from_wallet_id: string
           id: string
+          memo: string | null
+          metadata: Json
+          reverses_transaction_id: string | null
           to_wallet_id: string
           transaction_type: number
         }
         Insert: {
           amount: number
+          audit_log_id?: string | null
           created_at: number
           from_wallet_id: string
           id: string
+          memo?: string | null
+          metadata?: Json
+          reverses_transaction_id?: string | null
           to_wallet_id: string
           transaction_type: number
         }
         Update: {
           amount?: number
+          audit_log_id?: string | null
           created_at?: number
           from_wallet_id?: string
           id?: string
+          memo?: string | null
+          metadata?: Json
+          reverses_transaction_id?: string | null
           to_wallet_id?: string
           transaction_type?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "fk_audit_log"
+            columns: ["audit_log_id"]
+            isOneToOne: false
+            referencedRelation: "audit_log"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "fk_from_wallet"
             columns: ["from_wallet_id"]
@@ -120,6 +501,13 @@ export type Database = {
             referencedRelation: "wallets"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "fk_reverses_transaction"
+            columns: ["reverses_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "fk_to_wallet"
             columns: ["to_wallet_id"]
@@ -127,8 +515,54 @@ export type Database = {
             referencedRelation: "wallets"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "fk_transaction_type"
+            columns: ["transaction_type"]
+            isOneToOne: false
+            referencedRelation: "transaction_types"
+            referencedColumns: ["code"]
+          },
         ]
       }
+      transfer_limit_defaults: {
+        Row: {
+          daily_amount_limit: number | null
+          daily_count_limit: number | null
+          daily_new_counterparty_limit: number | null
+          id: boolean
+          max_transfer_amount: number | null
+          min_account_age_ms: number | null
+          updated_at: number
+          window_amount_limit: number | null
+          window_count_limit: number | null
+          window_ms: number | null
+        }
+        Insert: {
+          daily_amount_limit?: number | null
+          daily_count_limit?: number | null
+          daily_new_counterparty_limit?: number | null
+          id?: boolean
+          max_transfer_amount?: number | null
+          min_account_age_ms?: number | null
+          updated_at: number
+          window_amount_limit?: number | null
+          window_count_limit?: number | null
+          window_ms?: number | null
+        }
+        Update: {
+          daily_amount_limit?: number | null
+          daily_count_limit?: number | null
+          daily_new_counterparty_limit?: number | null
+          id?: boolean
+          max_transfer_amount?: number | null
+          min_account_age_ms?: number | null
+          updated_at?: number
+          window_amount_limit?: number | null
+          window_count_limit?: number | null
+          window_ms?: number | null
+        }
+        Relationships: []
+      }
       users: {
         Row: {
           created_at: number
@@ -164,6 +598,170 @@ export type Database = {
           },
         ]
       }
+      wallet_balance_checkpoints: {
+        Row: {
+          as_of: number
+          balance: number
+          created_at: number
+          wallet_id: string
+        }
+        Insert: {
+          as_of: number
+          balance: number
+          created_at: number
+          wallet_id: string
+        }
+        Update: {
+          as_of?: number
+          balance?: number
+          created_at?: number
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_wallet"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_event_log: {
+        Row: {
+          freeze_event_id: string | null
+          position: number
+          transaction_id: string | null
+          wallet_id: string
+          xact_id: unknown
+        }
+        Insert: {
+          freeze_event_id?: string | null
+          position?: never
+          transaction_id?: string | null
+          wallet_id: string
+          xact_id?: unknown
+        }
+        Update: {
+          freeze_event_id?: string | null
+          position?: never
+          transaction_id?: string | null
+          wallet_id?: string
+          xact_id?: unknown
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_freeze_event"
+            columns: ["freeze_event_id"]
+            isOneToOne: false
+            referencedRelation: "wallet_freeze_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_transaction"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_wallet"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_freeze_events: {
+        Row: {
+          actor_user_id: string
+          created_at: number
+          id: string
+          is_frozen: boolean
+          reason: string
+          wallet_id: string
+        }
+        Insert: {
+          actor_user_id: string
+          created_at: number
+          id: string
+          is_frozen: boolean
+          reason: string
+          wallet_id: string
+        }
+        Update: {
+          actor_user_id?: string
+          created_at?: number
+          id?: string
+          is_frozen?: boolean
+          reason?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_actor"
+            columns: ["actor_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_wallet"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_transfer_limits: {
+        Row: {
+          daily_amount_limit: number | null
+          daily_count_limit: number | null
+          daily_new_counterparty_limit: number | null
+          max_transfer_amount: number | null
+          min_account_age_ms: number | null
+          updated_at: number
+          wallet_id: string
+          window_amount_limit: number | null
+          window_count_limit: number | null
+          window_ms: number | null
+        }
+        Insert: {
+          daily_amount_limit?: number | null
+          daily_count_limit?: number | null
+          daily_new_counterparty_limit?: number | null
+          max_transfer_amount?: number | null
+          min_account_age_ms?: number | null
+          updated_at: number
+          wallet_id: string
+          window_amount_limit?: number | null
+          window_count_limit?: number | null
+          window_ms?: number | null
+        }
+        Update: {
+          daily_amount_limit?: number | null
+          daily_count_limit?: number | null
+          daily_new_counterparty_limit?: number | null
+          max_transfer_amount?: number | null
+          min_account_age_ms?: number | null
+          updated_at?: number
+          wallet_id?: string
+          window_amount_limit?: number | null
+          window_count_limit?: number | null
+          window_ms?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_wallet"
+            columns: ["wallet_id"]
+            isOneToOne: true
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       wallets: {
         Row: {
           balance: number
@@ -188,6 +786,113 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_deliveries: {
+        Row: {
+          attempt_count: number
+          created_at: number
+          delivered_at: number | null
+          event_type: string
+          id: string
+          last_attempt_at: number | null
+          last_error: string | null
+          last_response_status: number | null
+          next_attempt_at: number | null
+          payload: Json
+          status: string
+          subscription_id: string
+          transaction_id: string
+          updated_at: number
+        }
+        Insert: {
+          attempt_count?: number
+          created_at: number
+          delivered_at?: number | null
+          event_type: string
+          id: string
+          last_attempt_at?: number | null
+          last_error?: string | null
+          last_response_status?: number | null
+          next_attempt_at?: number | null
+          payload: Json
+          status?: string
+          subscription_id: string
+          transaction_id: string
+          updated_at: number
+        }
+        Update: {
+          attempt_count?: number
+          created_at?: number
+          delivered_at?: number | null
+          event_type?: string
+          id?: string
+          last_attempt_at?: number | null
+          last_error?: string | null
+          last_response_status?: number | null
+          next_attempt_at?: number | null
+          payload?: Json
+          status?: string
+          subscription_id?: string
+          transaction_id?: string
+          updated_at?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_subscription"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_subscriptions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_transaction"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_subscriptions: {
+        Row: {
+          created_at: number
+          description: string | null
+          id: string
+          is_active: boolean
+          secret: string
+          updated_at: number
+          url: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at: number
+          description?: string | null
+          id: string
+          is_active?: boolean
+          secret: string
+          updated_at: number
+          url: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: number
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          secret?: string
+          updated_at?: number
+          url?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_user"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       wallet_owners: {
@@ -201,6 +906,21 @@ export type Database = {
       }
     }
     Functions: {
+      append_audit_log: {
+        Args: {
+          actor_uuid: string
+          entry_action: string
+          entry_details?: Json
+          entry_reason: string
+          entry_uuid: string
+          target_wallet_uuid: string
+        }
+        Returns: number
+      }
+      cancel_scheduled_transfer: {
+        Args: { schedule_uuid: string; user_uuid: string }
+        Returns: number
+      }
       check_orphan_wallets: {
         Args: never
         Returns: {
@@ -208,10 +928,409 @@ export type Database = {
           wallet_id: string
         }[]
       }
+      claim_webhook_deliveries: {
+        Args: { as_of: number; batch_size: number; lease_ms: number }
+        Returns: {
+          attempt_count: number
+          created_at: number
+          event_type: string
+          id: string
+          payload: Json
+          secret: string
+          subscription_id: string
+          transaction_id: string
+          url: string
+        }[]
+      }
+      clear_wallet_transfer_limits: {
+        Args: {
+          actor_uuid: string
+          audit_uuid: string
+          reason: string
+          wallet_uuid: string
+        }
+        Returns: number
+      }
+      create_balance_checkpoints: {
+        Args: { checkpoint_as_of: number }
+        Returns: number
+      }
+      create_escrow: {
+        Args: {
+          beneficiary_wallet_uuid: string
+          escrow_amount: number
+          escrow_expires_at: number
+          escrow_memo?: string
+          escrow_metadata?: Json
+          escrow_uuid: string
+          hold_transaction_uuid: string
+          user_uuid: string
+        }
+        Returns: number
+      }
+      create_scheduled_transfer: {
+        Args: {
+          recipient_wallet_uuid: string
+          schedule_ends_at?: number
+          schedule_max_runs?: number
+          schedule_recurrence: string
+          schedule_starts_at: number
+          schedule_uuid: string
+          transfer_amount: number
+          transfer_memo?: string
+          transfer_metadata?: Json
+          user_uuid: string
+        }
+        Returns: number
+      }
+      create_transfer: {
+        Args: {
+          recipient_wallet_uuid: string
+          request_key: string
+          transaction_uuid: string
+          transfer_amount: number
+          transfer_memo?: string
+          transfer_metadata?: Json
+          user_uuid: string
+        }
+        Returns: {
+          replayed: boolean
+          transaction_id: string
+        }[]
+      }
       current_unix_ms: { Args: never; Returns: number }
+      create_webhook_subscription: {
+        Args: {
+          subscription_description?: string
+          subscription_secret: string
+          subscription_url: string
+          subscription_uuid: string
+          user_uuid: string | null
+        }
+        Returns: number
+      }
+      delete_user_account: {
+        Args: { transaction_uuid: string; user_uuid: string }
+        Returns: {
+          deleted_at: number
+          swept_amount: number
+          transaction_id: string
+        }[]
+      }
+      disable_webhook_subscription: {
+        Args: { subscription_uuid: string; user_uuid: string | null }
+        Returns: number
+      }
+      distribute_tokens: {
+        Args: {
+          account_name: string
+          actor_uuid: string
+          amounts: number[]
+          audit_uuid: string
+          distribution_memo?: string
+          distribution_metadata?: Json
+          issuance_transaction_id: string
+          reason: string
+          recipient_wallet_ids: string[]
+          transaction_ids: string[]
+        }
+        Returns: {
+          amount: number
+          is_issuance: boolean
+          to_wallet_id: string
+          transaction_id: string
+        }[]
+      }
+      effective_transfer_limits: {
+        Args: { wallet_uuid: string }
+        Returns: {
+          daily_amount_limit: number
+          daily_count_limit: number
+          daily_new_counterparty_limit: number
+          max_transfer_amount: number
+          min_account_age_ms: number
+          window_amount_limit: number
+          window_count_limit: number
+          window_ms: number
+        }[]
+      }
+      execute_scheduled_transfer: {
+        Args: {
+          as_of: number
+          run_uuid: string
+          schedule_uuid: string
+          transaction_uuid: string
+        }
+        Returns: {
+          error: string
+          next_run_at: number
+          outcome: string
+          status: string
+          transaction_id: string
+        }[]
+      }
+      find_wallet_event_position: {
+        Args: { event_uuid: string; wallet_uuid: string }
+        Returns: {
+          log_position: number
+          xact_id: string
+        }[]
+      }
+      get_supply_stats: {
+        Args: never
+        Returns: {
+          active_users: number
+          calculated_at: number
+          circulating_supply: number
+          system_pool: number
+          total_issuance: number
+          total_users: number
+        }[]
+      }
+      get_transaction_totals: {
+        Args: never
+        Returns: {
+          total_amount: number
+          transaction_count: number
+          transaction_type: number
+          type_name: string
+        }[]
+      }
+      get_wallet_statement: {
+        Args: {
+          from_ms: number
+          max_rows?: number
+          to_ms: number
+          wallet_uuid: string
+        }
+        Returns: {
+          amount: number
+          balance: number
+          counterparty_wallet_id: string
+          created_at: number
+          direction: string
+          id: string
+          memo: string
+          opening_balance: number
+          transaction_type: number
+        }[]
+      }
+      hit_rate_limit: {
+        Args: { bucket_key: string; window_ms: number }
+        Returns: {
+          hits: number
+          reset_at: number
+        }[]
+      }
+      latest_wallet_event_position: {
+        Args: { wallet_uuid: string }
+        Returns: {
+          log_position: number
+          xact_id: string
+        }[]
+      }
+      list_ledger_transactions: {
+        Args: {
+          cursor_created_at?: number
+          cursor_id?: string
+          filter_created_from?: number
+          filter_created_to?: number
+          page_size?: number
+        }
+        Returns: {
+          amount: number
+          created_at: number
+          from_owner_name: string
+          from_owner_type: string
+          from_wallet_id: string
+          id: string
+          memo: string
+          metadata: Json
+          reverses_transaction_id: string
+          to_owner_name: string
+          to_owner_type: string
+          to_wallet_id: string
+          transaction_type: number
+        }[]
+      }
+      list_wallet_events: {
+        Args: {
+          after_position: number
+          after_xact_id: string
+          max_rows?: number
+          wallet_uuid: string
+        }
+        Returns: {
+          amount: number
+          balance: number
+          counterparty_wallet_id: string
+          created_at: number
+          event_type: string
+          id: string
+          log_position: number
+          memo: string
+          transaction_type: number
+          xact_id: string
+        }[]
+      }
+      list_wallet_transactions: {
+        Args: {
+          cursor_created_at?: number
+          cursor_id?: string
+          filter_counterparty_wallet?: string
+          filter_created_from?: number
+          filter_created_to?: number
+          filter_direction?: string
+          filter_metadata?: Json
+          filter_transaction_type?: number
+          page_size?: number
+          wallet_uuid: string
+        }
+        Returns: {
+          amount: number
+          counterparty_name: string
+          counterparty_type: string
+          counterparty_wallet_id: string
+          created_at: number
+          direction: string
+          from_wallet_id: string
+          id: string
+          memo: string
+          metadata: Json
+          reversed_amount: number
+          reverses_transaction_id: string
+          to_wallet_id: string
+          transaction_type: number
+        }[]
+      }
+      plan_distribution: {
+        Args: {
+          account_name: string
+          amounts: number[]
+          recipient_wallet_ids: string[]
+        }
+        Returns: {
+          required_issuance: number
+          system_balance: number
+          system_wallet_id: string
+          total_amount: number
+        }[]
+      }
+      provision_user: {
+        Args: { user_name: string; user_uuid: string; wallet_uuid: string }
+        Returns: boolean
+      }
+      reconcile_wallet_balances: {
+        Args: never
+        Returns: {
+          is_orphan: boolean
+          ledger_balance: number
+          stored_balance: number
+          wallet_id: string
+        }[]
+      }
+      record_webhook_attempt: {
+        Args: {
+          attempt_error: string | null
+          attempted_at: number
+          delivery_uuid: string
+          response_status: number | null
+          retry_at: number | null
+        }
+        Returns: string
+      }
+      redeliver_webhook: {
+        Args: {
+          as_of: number
+          delivery_uuid: string
+          subscription_uuid: string
+          user_uuid: string | null
+        }
+        Returns: number
+      }
+      refund_escrow: {
+        Args: {
+          as_of: number
+          escrow_uuid: string
+          settlement_transaction_uuid: string
+          user_uuid: string | null
+        }
+        Returns: number
+      }
+      release_escrow: {
+        Args: {
+          as_of: number
+          escrow_uuid: string
+          settlement_transaction_uuid: string
+          user_uuid: string
+        }
+        Returns: number
+      }
+      restore_user: {
+        Args: {
+          actor_uuid: string
+          audit_uuid: string
+          reason: string
+          user_uuid: string
+        }
+        Returns: number
+      }
+      reverse_transaction: {
+        Args: {
+          actor_uuid: string
+          audit_uuid: string
+          original_uuid: string
+          reason: string
+          reversal_amount?: number
+          reversal_uuid: string
+        }
+        Returns: {
+          amount: number
+          remaining_amount: number
+          transaction_id: string
+        }[]
+      }
+      scheduled_occurrence_at: {
+        Args: { occurrence: number; recurrence: string; starts_at: number }
+        Returns: number
+      }
+      search_user_wallets: {
+        Args: { max_rows?: number; name_prefix: string }
+        Returns: {
+          owner_id: string
+          owner_name: string
+          wallet_id: string
+        }[]
+      }
+      set_transfer_limits: {
+        Args: {
+          actor_uuid: string
+          audit_uuid: string
+          limits: Json
+          reason: string
+          wallet_uuid: string | null
+        }
+        Returns: number
+      }
+      set_wallet_frozen: {
+        Args: {
+          actor_uuid: string
+          audit_uuid: string
+          event_uuid: string
+          frozen: boolean
+          reason: string
+          wallet_uuid: string
+        }
+        Returns: number
+      }
       soft_delete_user: { Args: { user_uuid: string }; Returns: boolean }
       timestamp_to_unix: { Args: { ts: string }; Returns: number }
       unix_to_timestamp: { Args: { unix_ms: number }; Returns: string }
+      wallet_balance_at: {
+        Args: { as_of_ms: number; wallet_uuid: string }
+        Returns: number
+      }
+      wallet_owner_type: { Args: { wallet_uuid: string }; Returns: string }
     }
     Enums: {
       [_ in never]: never
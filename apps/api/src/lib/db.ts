@@ -18,7 +18,9 @@ let supabaseClient: SupabaseClient<Database> | null = null
  *
  * Reads configuration from environment variables:
  * - SUPABASE_URL: Supabase project URL
- * - SUPABASE_ANON_KEY: Supabase anonymous key
+ * - SUPABASE_SERVICE_ROLE_KEY: Supabase service role key. The database functions that act
+ *   on behalf of a user are only executable by the service role (migration
+ *   20251201120000_function_privileges.sql); the API authenticates callers itself.
  *
  * @returns SupabaseClient instance with Database types
  * @throws Error if environment variables are not set
@@ -29,11 +31,12 @@ export function getSupabaseClient(): SupabaseClient<Database> {
   }
 
   const supabaseUrl = Deno.env.get('SUPABASE_URL')
-  const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
 
   if (!supabaseUrl || !supabaseKey) {
     throw new Error(
-      'Missing required environment variables: SUPABASE_URL and SUPABASE_ANON_KEY must be set',
+      'Missing required environment variables: SUPABASE_URL and ' +
+        'SUPABASE_SERVICE_ROLE_KEY must be set',
     )
   }
 
@@ -0,0 +1,235 @@
+/**
+ * Domain errors - business rule violations with stable API error codes
+ *
+ * The ledger triggers and database functions raise custom SQLSTATEs (class CT, see
+ * migration 20251123120000_domain_error_codes.sql and the migrations that add codes after
+ * it); translateDatabaseError() maps them and a few standard SQLSTATEs to DomainError
+ * subclasses. Repositories throw these, and the app's onError handler turns any that
+ * reach it into the error envelope with the status of the subclass.
+ */
+
+import type { PostgrestError } from '@supabase/supabase-js'
+
+/**
+ * Stable machine-readable error codes (the `code` of error responses)
+ */
+export type DomainErrorCode =
+  | 'INVALID_INPUT'
+  | 'INVALID_REFERENCE'
+  | 'INSUFFICIENT_BALANCE'
+  | 'WALLET_FROZEN'
+  | 'UNAUTHORIZED_ISSUANCE'
+  | 'SENDER_NOT_FOUND'
+  | 'RECIPIENT_NOT_FOUND'
+  | 'RECIPIENT_NOT_ALLOWED'
+  | 'TRANSACTION_TYPE_NOT_ALLOWED'
+  | 'SYSTEM_WALLET'
+  | 'IDEMPOTENCY_KEY_MISMATCH'
+  | 'IMMUTABLE_RECORD'
+  | 'OPEN_ESCROWS'
+  | 'TRANSFER_AMOUNT_LIMIT_EXCEEDED'
+  | 'DAILY_LIMIT_EXCEEDED'
+  | 'VELOCITY_LIMIT_EXCEEDED'
+  | 'ACCOUNT_TOO_NEW'
+  | 'NEW_COUNTERPARTY_LIMIT_EXCEEDED'
+  | 'WALLET_NOT_FOUND'
+  | 'ALREADY_FROZEN'
+  | 'NOT_FROZEN'
+  | 'TRANSACTION_NOT_FOUND'
+  | 'NOT_REVERSIBLE'
+  | 'ALREADY_REVERSED'
+  | 'AMOUNT_EXCEEDS_REMAINING'
+  | 'SYSTEM_ACCOUNT_NOT_FOUND'
+  | 'BENEFICIARY_NOT_FOUND'
+  | 'ESCROW_NOT_FOUND'
+  | 'NOT_ESCROW_SENDER'
+  | 'ESCROW_NOT_HELD'
+  | 'ESCROW_EXPIRED'
+  | 'ESCROW_NOT_EXPIRED'
+  | 'SCHEDULE_NOT_FOUND'
+  | 'SCHEDULE_NOT_ACTIVE'
+  | 'USER_NOT_FOUND'
+  | 'SUBSCRIPTION_LIMIT_REACHED'
+  | 'SUBSCRIPTION_NOT_FOUND'
+  | 'SUBSCRIPTION_NOT_ACTIVE'
+  | 'DELIVERY_NOT_FOUND'
+  | 'DELIVERY_PENDING'
+  | 'ALREADY_EXISTS'
+  | 'RATE_LIMITED'
+
+/**
+ * Codes of failures detected by the API itself rather than a business rule
+ */
+export type RequestErrorCode =
+  | 'INVALID_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'INVALID_TOKEN'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'ACCOUNT_DELETED'
+  | 'NOT_DELETED'
+  | 'INTERNAL_ERROR'
+
+/**
+ * Every `code` an error response can carry
+ */
+export type ErrorCode = DomainErrorCode | RequestErrorCode
+
+/**
+ * Base class of business rule violations
+ *
+ * Subclasses fix the HTTP status; `code` identifies the rule.
+ */
+export abstract class DomainError extends Error {
+  abstract readonly status: 400 | 403 | 404 | 409 | 422 | 429
+
+  constructor(public readonly code: DomainErrorCode, message: string) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+/**
+ * Input the database refused as malformed or out of range (400)
+ */
+export class InvalidInputError extends DomainError {
+  readonly status = 400
+}
+
+/**
+ * The caller may see the resource but not perform the operation (403)
+ */
+export class ForbiddenError extends DomainError {
+  readonly status = 403
+}
+
+/**
+ * A referenced user or wallet does not exist (404)
+ */
+export class NotFoundError extends DomainError {
+  readonly status = 404
+}
+
+/**
+ * The operation conflicts with the current state, e.g. a frozen wallet (409)
+ */
+export class ConflictError extends DomainError {
+  readonly status = 409
+}
+
+/**
+ * A well-formed request that a business rule rejects, e.g. insufficient balance (422)
+ */
+export class BusinessRuleError extends DomainError {
+  readonly status = 422
+}
+
+/**
+ * The caller exceeded a rate limit (429)
+ */
+export class TooManyRequestsError extends DomainError {
+  readonly status = 429
+
+  constructor(message: string) {
+    super('RATE_LIMITED', message)
+  }
+}
+
+type DomainErrorClass = new (code: DomainErrorCode, message: string) => DomainError
+
+/**
+ * Domain error for each translated SQLSTATE
+ *
+ * CT* codes are raised by this schema; the others are PostgreSQL's integrity and data
+ * exception codes for writes the API should have rejected earlier.
+ */
+const SQLSTATE_ERRORS: Record<string, [DomainErrorClass, DomainErrorCode]> = {
+  CT001: [BusinessRuleError, 'INSUFFICIENT_BALANCE'],
+  CT002: [ConflictError, 'WALLET_FROZEN'],
+  CT003: [BusinessRuleError, 'UNAUTHORIZED_ISSUANCE'],
+  CT004: [NotFoundError, 'SENDER_NOT_FOUND'],
+  CT005: [NotFoundError, 'RECIPIENT_NOT_FOUND'],
+  CT006: [BusinessRuleError, 'RECIPIENT_NOT_ALLOWED'],
+  CT007: [BusinessRuleError, 'TRANSACTION_TYPE_NOT_ALLOWED'],
+  CT008: [ConflictError, 'SYSTEM_WALLET'],
+  CT009: [BusinessRuleError, 'IDEMPOTENCY_KEY_MISMATCH'],
+  CT010: [ConflictError, 'IMMUTABLE_RECORD'],
+  // Account deletion (migration 20251129120000_account_deletion.sql)
+  CT011: [ConflictError, 'OPEN_ESCROWS'],
+  // Transfer policies (migration 20251130120000_transfer_policies.sql)
+  CT012: [BusinessRuleError, 'TRANSFER_AMOUNT_LIMIT_EXCEEDED'],
+  CT013: [BusinessRuleError, 'DAILY_LIMIT_EXCEEDED'],
+  CT014: [BusinessRuleError, 'VELOCITY_LIMIT_EXCEEDED'],
+  CT015: [BusinessRuleError, 'ACCOUNT_TOO_NEW'],
+  CT016: [BusinessRuleError, 'NEW_COUNTERPARTY_LIMIT_EXCEEDED'],
+  // Remaining functions (migration 20251204120000_remaining_domain_error_codes.sql)
+  // Wallet freeze
+  CT017: [NotFoundError, 'WALLET_NOT_FOUND'],
+  CT018: [ConflictError, 'ALREADY_FROZEN'],
+  CT019: [ConflictError, 'NOT_FROZEN'],
+  // Reversals
+  CT020: [NotFoundError, 'TRANSACTION_NOT_FOUND'],
+  CT021: [ConflictError, 'NOT_REVERSIBLE'],
+  CT022: [ConflictError, 'ALREADY_REVERSED'],
+  CT023: [BusinessRuleError, 'AMOUNT_EXCEEDS_REMAINING'],
+  // Distributions
+  CT024: [NotFoundError, 'SYSTEM_ACCOUNT_NOT_FOUND'],
+  // Escrows
+  CT025: [NotFoundError, 'BENEFICIARY_NOT_FOUND'],
+  CT026: [NotFoundError, 'ESCROW_NOT_FOUND'],
+  CT027: [ForbiddenError, 'NOT_ESCROW_SENDER'],
+  CT028: [ConflictError, 'ESCROW_NOT_HELD'],
+  CT029: [ConflictError, 'ESCROW_EXPIRED'],
+  CT030: [ConflictError, 'ESCROW_NOT_EXPIRED'],
+  // Scheduled transfers
+  CT031: [NotFoundError, 'SCHEDULE_NOT_FOUND'],
+  CT032: [ConflictError, 'SCHEDULE_NOT_ACTIVE'],
+  // Webhooks
+  CT033: [NotFoundError, 'USER_NOT_FOUND'],
+  CT034: [ConflictError, 'SUBSCRIPTION_LIMIT_REACHED'],
+  CT035: [NotFoundError, 'SUBSCRIPTION_NOT_FOUND'],
+  CT036: [ConflictError, 'SUBSCRIPTION_NOT_ACTIVE'],
+  CT037: [NotFoundError, 'DELIVERY_NOT_FOUND'],
+  CT038: [ConflictError, 'DELIVERY_PENDING'],
+  // unique_violation
+  '23505': [ConflictError, 'ALREADY_EXISTS'],
+  // foreign_key_violation
+  '23503': [BusinessRuleError, 'INVALID_REFERENCE'],
+  // not_null_violation, check_violation
+  '23502': [InvalidInputError, 'INVALID_INPUT'],
+  '23514': [InvalidInputError, 'INVALID_INPUT'],
+  // invalid_parameter_value (raised by functions for missing or malformed arguments)
+  '22023': [InvalidInputError, 'INVALID_INPUT'],
+  // numeric_value_out_of_range, invalid_text_representation, string_data_right_truncation
+  '22003': [InvalidInputError, 'INVALID_INPUT'],
+  '22P02': [InvalidInputError, 'INVALID_INPUT'],
+  '22001': [InvalidInputError, 'INVALID_INPUT'],
+}
+
+/**
+ * Translates a PostgREST error into a domain error by its SQLSTATE
+ *
+ * @param error - Error returned by the Supabase client
+ * @returns Domain error, or null for infrastructure failures and untranslated codes
+ */
+export function translateDatabaseError(
+  error: Pick<PostgrestError, 'code' | 'message'>,
+): DomainError | null {
+  const entry = SQLSTATE_ERRORS[error.code]
+  if (!entry) {
+    return null
+  }
+  const [ErrorClass, code] = entry
+  return new ErrorClass(code, error.message)
+}
+
+/**
+ * Converts a failed database call into the error repositories throw
+ *
+ * @param error - Error returned by the Supabase client
+ * @param context - What failed (e.g. `Failed to fetch user`), prefixed to other messages
+ * @returns Domain error when the SQLSTATE is translated, otherwise a plain Error
+ */
+export function databaseError(error: Pick<PostgrestError, 'code' | 'message'>, context: string) {
+  return translateDatabaseError(error) ?? new Error(`${context}: ${error.message}`)
+}
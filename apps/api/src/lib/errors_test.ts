@@ -0,0 +1,66 @@
+import { assertEquals, assertInstanceOf } from '@std/assert'
+import {
+  BusinessRuleError,
+  ConflictError,
+  databaseError,
+  ForbiddenError,
+  InvalidInputError,
+  NotFoundError,
+  translateDatabaseError,
+} from './errors.ts'
+
+Deno.test('translateDatabaseError maps CT SQLSTATEs to their domain errors', () => {
+  const cases = [
+    ['CT001', BusinessRuleError, 'INSUFFICIENT_BALANCE', 422],
+    ['CT002', ConflictError, 'WALLET_FROZEN', 409],
+    ['CT005', NotFoundError, 'RECIPIENT_NOT_FOUND', 404],
+    ['CT013', BusinessRuleError, 'DAILY_LIMIT_EXCEEDED', 422],
+    ['CT027', ForbiddenError, 'NOT_ESCROW_SENDER', 403],
+    ['CT038', ConflictError, 'DELIVERY_PENDING', 409],
+  ] as const
+
+  for (const [sqlstate, ErrorClass, code, status] of cases) {
+    const error = translateDatabaseError({ code: sqlstate, message: `raised ${sqlstate}` })
+
+    assertInstanceOf(error, ErrorClass)
+    assertEquals([error.code, error.status, error.message], [code, status, `raised ${sqlstate}`])
+  }
+})
+
+Deno.test('translateDatabaseError maps integrity and data exceptions', () => {
+  const cases = [
+    ['23505', ConflictError, 'ALREADY_EXISTS'],
+    ['23503', BusinessRuleError, 'INVALID_REFERENCE'],
+    ['23514', InvalidInputError, 'INVALID_INPUT'],
+    ['22023', InvalidInputError, 'INVALID_INPUT'],
+    ['22P02', InvalidInputError, 'INVALID_INPUT'],
+  ] as const
+
+  for (const [sqlstate, ErrorClass, code] of cases) {
+    const error = translateDatabaseError({ code: sqlstate, message: 'violation' })
+
+    assertInstanceOf(error, ErrorClass)
+    assertEquals(error.code, code)
+  }
+})
+
+Deno.test('translateDatabaseError leaves unknown SQLSTATEs and PostgREST errors untranslated', () => {
+  // Unassigned CT code, serialization_failure, PostgREST's "no rows" and schema cache errors
+  for (const code of ['CT999', '40001', 'PGRST116', 'PGRST202', '']) {
+    assertEquals(translateDatabaseError({ code, message: 'failed' }), null)
+  }
+})
+
+Deno.test('databaseError prefixes the context to untranslated errors', () => {
+  const error = databaseError({ code: 'PGRST116', message: 'no rows' }, 'Failed to fetch user')
+
+  assertEquals(error.constructor, Error)
+  assertEquals(error.message, 'Failed to fetch user: no rows')
+})
+
+Deno.test('databaseError returns translated errors unchanged', () => {
+  const error = databaseError({ code: 'CT001', message: 'Insufficient balance' }, 'ignored')
+
+  assertInstanceOf(error, BusinessRuleError)
+  assertEquals(error.message, 'Insufficient balance')
+})
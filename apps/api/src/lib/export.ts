@@ -0,0 +1,162 @@
+/**
+ * Streaming exports - CSV and NDJSON bodies produced page by page
+ *
+ * An export is a sequence of flat records read from a keyset-paginated listing. The
+ * body is a pull-based stream: the next page is only fetched when the client has
+ * consumed the previous one, so memory stays at one page however large the ledger.
+ * The first page is fetched before the response starts, so that failures up to that
+ * point still produce an ordinary error response; a failure on a later page aborts
+ * the body, which clients see as an incomplete download rather than a short file.
+ */
+
+import type { Context } from 'hono'
+import type { Env } from './types.ts'
+import type { KeysetCursor } from './cursor.ts'
+
+/**
+ * Supported export formats
+ */
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+/**
+ * Content-Type of each format
+ */
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+}
+
+/**
+ * Rows fetched per page
+ */
+export const EXPORT_PAGE_SIZE = 500
+
+/**
+ * One exported row; objects (metadata) are nested in NDJSON and JSON-encoded in CSV
+ */
+export type ExportRecord = Record<string, string | number | null | object>
+
+/**
+ * Characters that make spreadsheet applications evaluate a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Formats one CSV field (RFC 4180 quoting)
+ *
+ * Text starting like a formula is prefixed with `'`, so that user-supplied memos cannot
+ * run as formulas when the file is opened in a spreadsheet.
+ */
+function formatCsvField(value: ExportRecord[string]): string {
+  if (value === null) {
+    return ''
+  }
+  if (typeof value === 'number') {
+    return String(value)
+  }
+  let text = typeof value === 'string' ? value : JSON.stringify(value)
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Formats records in the given format
+ *
+ * @param records - Records to format
+ * @param columns - Column order (CSV only; NDJSON keeps the records' own keys)
+ * @param format - Output format
+ * @returns Lines including their trailing line breaks
+ */
+function formatRecords(records: ExportRecord[], columns: readonly string[], format: ExportFormat) {
+  if (format === 'ndjson') {
+    return records.map((record) => JSON.stringify(record) + '\n').join('')
+  }
+  return records
+    .map((record) => columns.map((column) => formatCsvField(record[column] ?? null)).join(','))
+    .map((line) => line + '\r\n')
+    .join('')
+}
+
+/**
+ * Reads every page of a keyset-paginated listing
+ *
+ * @param fetchPage - Fetches the page after a cursor (undefined for the first page)
+ * @returns Async iterator over the items of each page
+ */
+export async function* paginate<T>(
+  fetchPage: (cursor: KeysetCursor | undefined) => Promise<{
+    items: T[]
+    nextCursor: KeysetCursor | null
+  }>,
+): AsyncGenerator<T[]> {
+  let cursor: KeysetCursor | undefined
+  do {
+    const page = await fetchPage(cursor)
+    yield page.items
+    cursor = page.nextCursor ?? undefined
+  } while (cursor)
+}
+
+/**
+ * Options for exportResponse()
+ */
+export type ExportOptions = {
+  format: ExportFormat
+  /** Download file name without extension */
+  filename: string
+  /** Column order of the CSV header and rows */
+  columns: readonly string[]
+  /** Pages of records, e.g. paginate() mapped to records */
+  pages: AsyncIterator<ExportRecord[]>
+}
+
+/**
+ * Builds a streaming download response
+ *
+ * @param c - Request context (its headers and logger are used)
+ * @param options - Format, file name, columns and record pages
+ * @returns Promise resolving to a 200 response once the first page is read
+ * @throws Whatever reading the first page throws
+ */
+export async function exportResponse(c: Context<Env>, options: ExportOptions): Promise<Response> {
+  const { format, columns, pages } = options
+  const encoder = new TextEncoder()
+
+  let pending: IteratorResult<ExportRecord[]> | null = await pages.next()
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(columns.join(',') + '\r\n'))
+      }
+    },
+    async pull(controller) {
+      let result: IteratorResult<ExportRecord[]>
+      try {
+        result = pending ?? await pages.next()
+      } catch (error) {
+        c.get('logger').error('Export failed after the response started', { error })
+        controller.error(error)
+        return
+      }
+      pending = null
+      if (result.done) {
+        controller.close()
+        return
+      }
+      controller.enqueue(encoder.encode(formatRecords(result.value, columns, format)))
+    },
+    async cancel() {
+      await pages.return?.()
+    },
+  })
+
+  return c.body(body, 200, {
+    'Content-Type': CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="${options.filename}.${format}"`,
+    'Cache-Control': 'no-store',
+  })
+}
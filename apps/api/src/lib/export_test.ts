@@ -0,0 +1,156 @@
+import { assertEquals, assertRejects } from '@std/assert'
+import { createTestApp, createTestToken, type TestApp } from '../testing/app.ts'
+import {
+  alice,
+  ALICE_ID,
+  ALICE_WALLET_ID,
+  BOB_WALLET_ID,
+  FIXTURE_TIME,
+} from '../testing/fixtures.ts'
+import { AsTransactionID, TransactionEntity } from '../entities/TransactionEntity.ts'
+import { EXPORT_PAGE_SIZE } from './export.ts'
+import type { KeysetCursor } from './cursor.ts'
+import type {
+  TransactionHistoryItem,
+  TransactionHistoryPage,
+  TransactionHistoryQuery,
+} from '../repositories/ITransactionRepository.ts'
+
+/**
+ * Alice's transfer of 10 to Bob with `memo`, created `offset` ms after FIXTURE_TIME
+ */
+function historyItem(offset: number, memo: string | null = null): TransactionHistoryItem {
+  return {
+    transaction: new TransactionEntity(
+      AsTransactionID(`90000000-0000-4000-8000-00000000000${offset}`),
+      ALICE_WALLET_ID,
+      BOB_WALLET_ID,
+      10,
+      4,
+      FIXTURE_TIME + offset,
+      null,
+      memo,
+    ),
+    direction: 'sent',
+    counterparty: { walletId: BOB_WALLET_ID, ownerType: 'user', ownerName: 'bob' },
+    reversedAmount: 0,
+  }
+}
+
+/**
+ * Creates the app with listByWallet() answering `pages` in turn, recording each query
+ */
+function createExportApp(pages: (TransactionHistoryPage | Error)[]) {
+  const queries: TransactionHistoryQuery[] = []
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    transactions: {
+      listByWallet: (_id, query) => {
+        const page = pages[queries.length]!
+        queries.push(query)
+        return page instanceof Error ? Promise.reject(page) : Promise.resolve(page)
+      },
+    },
+  })
+  return { app, queries }
+}
+
+/**
+ * GETs Alice's transaction export in `format`
+ */
+async function getExport(app: TestApp, format: 'csv' | 'ndjson') {
+  return app.request(`/v1/users/@me/transactions/export?format=${format}`, {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+}
+
+Deno.test('CSV exports prefix memos that spreadsheets would run as formulas', async () => {
+  const memos = ['=1+2', '+SUM(A1:A9)', '-5', '@cmd', 'plain']
+  const { app } = createExportApp([{
+    items: memos.map((memo, i) => historyItem(i + 1, memo)),
+    nextCursor: null,
+  }])
+
+  const response = await getExport(app, 'csv')
+
+  assertEquals(response.status, 200)
+  const lines = (await response.text()).split('\r\n')
+  const memoColumn = lines[0]!.split(',').indexOf('memo')
+  assertEquals(
+    lines.slice(1, -1).map((line) => line.split(',')[memoColumn]),
+    ["'=1+2", "'+SUM(A1:A9)", "'-5", "'@cmd", 'plain'],
+  )
+})
+
+Deno.test('CSV exports quote fields with commas, quotes and JSON metadata', async () => {
+  const item = historyItem(1, 'rent, "june"')
+  const { app } = createExportApp([{ items: [item], nextCursor: null }])
+
+  const response = await getExport(app, 'csv')
+
+  assertEquals(response.headers.get('Content-Type'), 'text/csv; charset=utf-8')
+  const [, row] = (await response.text()).split('\r\n')
+  assertEquals(row!.endsWith(',"rent, ""june""",{}'), true)
+})
+
+Deno.test('NDJSON exports read every page after the previous cursor', async () => {
+  const cursor: KeysetCursor = { createdAt: FIXTURE_TIME + 2, id: historyItem(2).transaction.id }
+  const { app, queries } = createExportApp([
+    { items: [historyItem(3), historyItem(2)], nextCursor: cursor },
+    { items: [historyItem(1)], nextCursor: null },
+  ])
+
+  const response = await getExport(app, 'ndjson')
+
+  assertEquals(response.headers.get('Content-Type'), 'application/x-ndjson; charset=utf-8')
+  assertEquals(
+    response.headers.get('Content-Disposition'),
+    `attachment; filename="transactions-${ALICE_WALLET_ID}.ndjson"`,
+  )
+  const records = (await response.text()).trimEnd().split('\n').map((line) => JSON.parse(line))
+  assertEquals(records.map((record) => record.created_at), [
+    FIXTURE_TIME + 3,
+    FIXTURE_TIME + 2,
+    FIXTURE_TIME + 1,
+  ])
+  assertEquals(queries.map((query) => [query.limit, query.cursor]), [
+    [EXPORT_PAGE_SIZE, undefined],
+    [EXPORT_PAGE_SIZE, cursor],
+  ])
+})
+
+Deno.test('exports fetch the next page only once the client reads the body', async () => {
+  const cursor: KeysetCursor = { createdAt: FIXTURE_TIME + 1, id: historyItem(1).transaction.id }
+  const { app, queries } = createExportApp([
+    { items: [historyItem(1)], nextCursor: cursor },
+    { items: [], nextCursor: null },
+  ])
+
+  const response = await getExport(app, 'ndjson')
+
+  assertEquals(queries.length, 1)
+  await response.text()
+  assertEquals(queries.length, 2)
+})
+
+Deno.test('exports answer a failing first page with an error response', async () => {
+  const { app } = createExportApp([new Error('database unavailable')])
+
+  const response = await getExport(app, 'csv')
+
+  assertEquals(response.status, 500)
+  await response.body?.cancel()
+})
+
+Deno.test('exports abort the body when a later page fails', async () => {
+  const cursor: KeysetCursor = { createdAt: FIXTURE_TIME + 1, id: historyItem(1).transaction.id }
+  const { app } = createExportApp([
+    { items: [historyItem(1)], nextCursor: cursor },
+    new Error('database unavailable'),
+  ])
+
+  const response = await getExport(app, 'ndjson')
+
+  assertEquals(response.status, 200)
+  await assertRejects(() => response.text())
+})
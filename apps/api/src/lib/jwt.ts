@@ -0,0 +1,447 @@
+/**
+ * JWT verification for the Community Token API
+ *
+ * Verifies compact JWS tokens issued by the external identity provider using Web Crypto.
+ * The signing key comes from a pluggable KeySource so that production can use the IdP's
+ * JWKS while local development and tests can sign tokens with a shared HS256 secret.
+ * PERMANENT - used by the authentication middleware on every /v1/* request.
+ */
+
+/**
+ * Decoded JOSE header of a JWT
+ */
+export type JwtHeader = {
+  alg: string
+  typ?: string
+  kid?: string
+}
+
+/**
+ * Registered and custom claims carried in the JWT payload
+ */
+export type JwtClaims = {
+  sub?: string
+  iss?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  iat?: number
+  [claim: string]: unknown
+}
+
+/**
+ * Raised when a token fails structural, signature or claim validation
+ */
+export class JwtVerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JwtVerificationError'
+  }
+}
+
+/**
+ * Resolves the verification key for a token header
+ *
+ * Implementations must reject algorithms they do not expect, so a token cannot
+ * downgrade verification by choosing its own `alg`.
+ */
+export interface KeySource {
+  /**
+   * @param header - Decoded JOSE header of the token being verified
+   * @returns Promise resolving to a CryptoKey usable with the header's algorithm
+   * @throws JwtVerificationError if no key matches the header
+   */
+  resolve(header: JwtHeader): Promise<CryptoKey>
+}
+
+/**
+ * JSON Web Key Set as served by `/.well-known/jwks.json`
+ */
+export type Jwks = {
+  keys: (JsonWebKey & { kid?: string })[]
+}
+
+type SignatureAlgorithm = RsaHashedImportParams | EcKeyImportParams | HmacImportParams
+
+/**
+ * Web Crypto parameters for every supported JWS algorithm
+ */
+const ALGORITHMS: Record<string, SignatureAlgorithm> = {
+  HS256: { name: 'HMAC', hash: 'SHA-256' },
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+}
+
+/**
+ * Key type (and curve) a JWK must have for each asymmetric algorithm
+ */
+const JWK_TYPES: Record<string, { kty: string; crv?: string }> = {
+  RS256: { kty: 'RSA' },
+  ES256: { kty: 'EC', crv: 'P-256' },
+}
+
+/**
+ * Builds the Web Crypto verify() parameters for a JWS algorithm
+ */
+function verifyParams(alg: string): AlgorithmIdentifier | EcdsaParams {
+  const params = ALGORITHMS[alg]
+  if (!params) {
+    throw new JwtVerificationError(`Unsupported algorithm: ${alg}`)
+  }
+  if (params.name === 'ECDSA') {
+    return { name: 'ECDSA', hash: 'SHA-256' }
+  }
+  return params.name
+}
+
+/**
+ * Decodes a base64url string into bytes
+ */
+function base64UrlDecode(input: string) {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  let binary: string
+  try {
+    binary = atob(padded)
+  } catch {
+    throw new JwtVerificationError('Malformed base64url segment')
+  }
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Decodes a base64url JSON segment of a token
+ */
+function decodeSegment<T>(segment: string, label: string): T {
+  let decoded: unknown
+  try {
+    decoded = JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)))
+  } catch {
+    throw new JwtVerificationError(`Malformed token ${label}`)
+  }
+  if (typeof decoded !== 'object' || decoded === null) {
+    throw new JwtVerificationError(`Malformed token ${label}`)
+  }
+  return decoded as T
+}
+
+/**
+ * Creates a KeySource backed by a shared HS256 secret
+ *
+ * Intended for local development and tests where tokens are signed locally.
+ *
+ * @param secret - Shared HMAC secret
+ * @returns KeySource that only accepts HS256 tokens
+ */
+export function createHs256KeySource(secret: string): KeySource {
+  const keyPromise = crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    ALGORITHMS.HS256!,
+    false,
+    ['verify'],
+  )
+
+  return {
+    resolve(header) {
+      if (header.alg !== 'HS256') {
+        return Promise.reject(new JwtVerificationError(`Unexpected algorithm: ${header.alg}`))
+      }
+      return keyPromise
+    },
+  }
+}
+
+/**
+ * Imports the JWK matching a token header from a key set
+ */
+async function importFromJwks(jwks: Jwks, header: JwtHeader): Promise<CryptoKey> {
+  const candidates = header.kid ? jwks.keys.filter((key) => key.kid === header.kid) : jwks.keys
+  const jwk = candidates.find((key) => !key.alg || key.alg === header.alg)
+  if (!jwk) {
+    throw new JwtVerificationError(`No signing key found for kid: ${header.kid ?? '(none)'}`)
+  }
+
+  const params = ALGORITHMS[header.alg]
+  const keyType = JWK_TYPES[header.alg]
+  if (!params || !keyType) {
+    throw new JwtVerificationError(`Unsupported algorithm: ${header.alg}`)
+  }
+  if (jwk.kty !== keyType.kty || (keyType.crv && jwk.crv !== keyType.crv)) {
+    throw new JwtVerificationError(`Signing key does not match algorithm ${header.alg}`)
+  }
+
+  // A malformed key is the IdP's or the token's fault, not a server error
+  try {
+    return await crypto.subtle.importKey('jwk', jwk, params, false, ['verify'])
+  } catch {
+    throw new JwtVerificationError('Invalid signing key')
+  }
+}
+
+/**
+ * Creates a KeySource backed by a static JSON Web Key Set
+ *
+ * Keys are selected by `kid`; asymmetric algorithms (RS256, ES256) only.
+ *
+ * @param jwks - Key set containing the IdP's public keys
+ * @returns KeySource resolving keys from the given set
+ */
+export function createJwksKeySource(jwks: Jwks): KeySource {
+  return {
+    resolve: (header) => importFromJwks(jwks, header),
+  }
+}
+
+/**
+ * Options for createRemoteJwksKeySource()
+ */
+export type RemoteJwksOptions = {
+  /** How long a fetched key set is reused (default 10 minutes) */
+  cacheTtlMs?: number
+  /** Minimum time between two fetches, successful or not (default 30 seconds) */
+  minRefreshIntervalMs?: number
+  /** HTTP client (defaults to the global fetch) */
+  fetch?: typeof fetch
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+}
+
+/**
+ * Fetches and parses a JSON Web Key Set
+ *
+ * @throws JwtVerificationError if the request fails or the body is not a key set
+ */
+async function fetchJwks(url: string, fetchFn: typeof fetch): Promise<Jwks> {
+  let response: Response
+  try {
+    response = await fetchFn(url)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'request failed'
+    throw new JwtVerificationError(`Failed to fetch JWKS: ${reason}`)
+  }
+  if (!response.ok) {
+    await response.body?.cancel()
+    throw new JwtVerificationError(`Failed to fetch JWKS: HTTP ${response.status}`)
+  }
+
+  let jwks: unknown
+  try {
+    jwks = await response.json()
+  } catch {
+    throw new JwtVerificationError('Failed to fetch JWKS: response is not JSON')
+  }
+  if (typeof jwks !== 'object' || jwks === null || !Array.isArray((jwks as Jwks).keys)) {
+    throw new JwtVerificationError('Failed to fetch JWKS: response is not a key set')
+  }
+  return jwks as Jwks
+}
+
+/**
+ * Creates a KeySource that fetches the IdP's JWKS over HTTP
+ *
+ * The key set is cached for `cacheTtlMs` and refetched early when a token references an
+ * unknown `kid` (key rotation). Fetches are at least `minRefreshIntervalMs` apart and
+ * concurrent requests share one, so tokens with made-up `kid`s cannot make every request
+ * call the IdP. When a refetch fails, the previous key set stays in use.
+ *
+ * @param url - JWKS endpoint URL
+ * @param options - Cache lifetime, refetch interval, HTTP client and clock
+ * @returns KeySource resolving keys from the remote set
+ */
+export function createRemoteJwksKeySource(url: string, options: RemoteJwksOptions = {}): KeySource {
+  const {
+    cacheTtlMs = 10 * 60 * 1000,
+    minRefreshIntervalMs = 30 * 1000,
+    fetch: fetchFn = fetch,
+    now = Date.now,
+  } = options
+  let cached: { jwks: Jwks; fetchedAt: number } | null = null
+  let inFlight: Promise<Jwks> | null = null
+  let lastAttemptAt = -Infinity
+
+  const canRefresh = () => inFlight !== null || now() - lastAttemptAt >= minRefreshIntervalMs
+
+  const refresh = (): Promise<Jwks> => {
+    if (!inFlight) {
+      lastAttemptAt = now()
+      inFlight = fetchJwks(url, fetchFn)
+        .then((jwks) => {
+          cached = { jwks, fetchedAt: now() }
+          return jwks
+        })
+        .finally(() => {
+          inFlight = null
+        })
+    }
+    return inFlight
+  }
+
+  // Falls back to the cached key set when a refetch fails
+  const refreshOrCached = async (): Promise<Jwks> => {
+    try {
+      return await refresh()
+    } catch (error) {
+      if (cached) return cached.jwks
+      throw error
+    }
+  }
+
+  return {
+    async resolve(header) {
+      let jwks: Jwks
+      if (cached && (now() - cached.fetchedAt < cacheTtlMs || !canRefresh())) {
+        jwks = cached.jwks
+      } else if (canRefresh()) {
+        jwks = await refreshOrCached()
+      } else {
+        throw new JwtVerificationError('Failed to fetch JWKS: retrying later')
+      }
+
+      const known = !header.kid || jwks.keys.some((key) => key.kid === header.kid)
+      if (!known && canRefresh()) {
+        jwks = await refreshOrCached()
+      }
+      return await importFromJwks(jwks, header)
+    },
+  }
+}
+
+/**
+ * Options for JWT verification
+ */
+export type JwtVerifyOptions = {
+  /** Expected `iss` claim */
+  issuer: string
+  /** Expected `aud` claim (token may carry it as a string or array) */
+  audience: string
+  /** Allowed clock skew in seconds for `exp`/`nbf` (default 30) */
+  clockToleranceSec?: number
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+}
+
+/**
+ * Verifies a compact JWT and returns its claims
+ *
+ * Checks, in order: structure, signature (via KeySource), `exp`, `nbf`, `iss`, `aud`.
+ *
+ * @param token - Compact serialized JWT
+ * @param keySource - Source of the verification key
+ * @param options - Expected issuer/audience and clock settings
+ * @returns Promise resolving to the verified claims
+ * @throws JwtVerificationError if any check fails
+ */
+export async function verifyJwt(
+  token: string,
+  keySource: KeySource,
+  options: JwtVerifyOptions,
+): Promise<JwtClaims> {
+  const segments = token.split('.')
+  if (segments.length !== 3) {
+    throw new JwtVerificationError('Malformed token')
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments as [string, string, string]
+
+  const header = decodeSegment<JwtHeader>(encodedHeader, 'header')
+  const claims = decodeSegment<JwtClaims>(encodedPayload, 'payload')
+
+  const key = await keySource.resolve(header)
+  const params = verifyParams(header.alg)
+  const signature = base64UrlDecode(encodedSignature)
+  let valid: boolean
+  // Some malformed keys (e.g. an EC point not on the curve) import fine and only fail here
+  try {
+    valid = await crypto.subtle.verify(
+      params,
+      key,
+      signature,
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+    )
+  } catch {
+    throw new JwtVerificationError('Invalid signing key')
+  }
+  if (!valid) {
+    throw new JwtVerificationError('Invalid signature')
+  }
+
+  const nowSec = Math.floor((options.now ?? Date.now)() / 1000)
+  const tolerance = options.clockToleranceSec ?? 30
+
+  if (typeof claims.exp !== 'number') {
+    throw new JwtVerificationError('Missing exp claim')
+  }
+  if (claims.exp + tolerance <= nowSec) {
+    throw new JwtVerificationError('Token expired')
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - tolerance > nowSec) {
+    throw new JwtVerificationError('Token not yet valid')
+  }
+  if (claims.iss !== options.issuer) {
+    throw new JwtVerificationError('Invalid issuer')
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!audiences.includes(options.audience)) {
+    throw new JwtVerificationError('Invalid audience')
+  }
+
+  return claims
+}
+
+/**
+ * Builds a KeySource from environment variables
+ *
+ * Reads, in order of precedence:
+ * - JWT_JWKS: Inline JSON Web Key Set (local JWKS)
+ * - JWT_JWKS_URL: Remote JWKS endpoint of the identity provider
+ * - JWT_SECRET: Shared HS256 secret (local development / tests)
+ *
+ * @returns KeySource for the configured verification method
+ * @throws Error if none of the variables are set
+ */
+export function getKeySourceFromEnv(): KeySource {
+  const jwks = Deno.env.get('JWT_JWKS')
+  if (jwks) {
+    return createJwksKeySource(JSON.parse(jwks) as Jwks)
+  }
+
+  const jwksUrl = Deno.env.get('JWT_JWKS_URL')
+  if (jwksUrl) {
+    return createRemoteJwksKeySource(jwksUrl)
+  }
+
+  const secret = Deno.env.get('JWT_SECRET')
+  if (secret) {
+    return createHs256KeySource(secret)
+  }
+
+  throw new Error(
+    'Missing required environment variables: one of JWT_JWKS, JWT_JWKS_URL or JWT_SECRET must be set',
+  )
+}
+
+/**
+ * Reads the expected issuer and audience from environment variables
+ *
+ * - JWT_ISSUER: Expected `iss` claim (identity provider)
+ * - JWT_AUDIENCE: Expected `aud` claim (this application's identifier)
+ *
+ * @returns Verification options for verifyJwt
+ * @throws Error if environment variables are not set
+ */
+export function getJwtVerifyOptionsFromEnv(): JwtVerifyOptions {
+  const issuer = Deno.env.get('JWT_ISSUER')
+  const audience = Deno.env.get('JWT_AUDIENCE')
+
+  if (!issuer || !audience) {
+    throw new Error(
+      'Missing required environment variables: JWT_ISSUER and JWT_AUDIENCE must be set',
+    )
+  }
+
+  return { issuer, audience }
+}
@@ -0,0 +1,327 @@
+import { assertEquals, assertRejects } from '@std/assert'
+import {
+  createHs256KeySource,
+  createJwksKeySource,
+  createRemoteJwksKeySource,
+  type Jwks,
+  type JwtClaims,
+  JwtVerificationError,
+  type JwtVerifyOptions,
+  verifyJwt,
+} from './jwt.ts'
+import { importHs256SigningKey, signJwt } from '../testing/jwt.ts'
+
+const NOW_MS = Date.UTC(2025, 0, 1)
+const NOW_SEC = NOW_MS / 1000
+
+const OPTIONS: JwtVerifyOptions = {
+  issuer: 'https://auth.example.test/',
+  audience: 'authenticated',
+  clockToleranceSec: 30,
+  now: () => NOW_MS,
+}
+
+const CLAIMS: JwtClaims = {
+  sub: '11111111-1111-4111-8111-111111111111',
+  iss: OPTIONS.issuer,
+  aud: OPTIONS.audience,
+  iat: NOW_SEC - 60,
+  exp: NOW_SEC + 3600,
+}
+
+const SECRET = 'jwt-test-secret'
+
+/**
+ * Signs claims with the shared HS256 secret
+ */
+async function signHs256(claims: JwtClaims, secret = SECRET): Promise<string> {
+  return signJwt({ alg: 'HS256', typ: 'JWT' }, claims, await importHs256SigningKey(secret))
+}
+
+/**
+ * Asserts that verification fails with the given message
+ */
+async function assertInvalid(
+  token: string,
+  message: string,
+  keySource = createHs256KeySource(SECRET),
+) {
+  await assertRejects(() => verifyJwt(token, keySource, OPTIONS), JwtVerificationError, message)
+}
+
+Deno.test('verifyJwt returns the claims of a valid token', async () => {
+  const token = await signHs256(CLAIMS)
+
+  assertEquals(await verifyJwt(token, createHs256KeySource(SECRET), OPTIONS), CLAIMS)
+})
+
+Deno.test('verifyJwt accepts an audience list containing the expected audience', async () => {
+  const claims = { ...CLAIMS, aud: ['other', OPTIONS.audience] }
+  const token = await signHs256(claims)
+
+  assertEquals(await verifyJwt(token, createHs256KeySource(SECRET), OPTIONS), claims)
+})
+
+Deno.test('verifyJwt rejects an expired token', async () => {
+  await assertInvalid(await signHs256({ ...CLAIMS, exp: NOW_SEC - 31 }), 'Token expired')
+})
+
+Deno.test('verifyJwt accepts a token expired within the clock tolerance', async () => {
+  const token = await signHs256({ ...CLAIMS, exp: NOW_SEC - 29 })
+
+  await verifyJwt(token, createHs256KeySource(SECRET), OPTIONS)
+})
+
+Deno.test('verifyJwt rejects a token without exp', async () => {
+  await assertInvalid(await signHs256({ ...CLAIMS, exp: undefined }), 'Missing exp claim')
+})
+
+Deno.test('verifyJwt rejects a token used before nbf', async () => {
+  await assertInvalid(await signHs256({ ...CLAIMS, nbf: NOW_SEC + 31 }), 'Token not yet valid')
+})
+
+Deno.test('verifyJwt rejects a wrong issuer', async () => {
+  await assertInvalid(
+    await signHs256({ ...CLAIMS, iss: 'https://evil.example/' }),
+    'Invalid issuer',
+  )
+})
+
+Deno.test('verifyJwt rejects a wrong audience', async () => {
+  await assertInvalid(await signHs256({ ...CLAIMS, aud: ['other'] }), 'Invalid audience')
+})
+
+Deno.test('verifyJwt rejects a token signed with another secret', async () => {
+  await assertInvalid(await signHs256(CLAIMS, 'another-secret'), 'Invalid signature')
+})
+
+Deno.test('verifyJwt rejects a token whose claims were changed after signing', async () => {
+  const [header, , signature] = (await signHs256(CLAIMS)).split('.')
+  const forged = (await signHs256({ ...CLAIMS, sub: 'someone-else' })).split('.')[1]
+
+  await assertInvalid(`${header}.${forged}.${signature}`, 'Invalid signature')
+})
+
+Deno.test('verifyJwt rejects a malformed token', async () => {
+  await assertInvalid('not-a-jwt', 'Malformed token')
+})
+
+Deno.test('createHs256KeySource rejects other algorithms', async () => {
+  const { privateKey } = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify'],
+  )
+  const token = await signJwt({ alg: 'ES256' }, CLAIMS, privateKey)
+
+  await assertInvalid(token, 'Unexpected algorithm: ES256')
+})
+
+Deno.test('createJwksKeySource verifies RS256 and ES256 tokens by kid', async () => {
+  const rsa = await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify'],
+  )
+  const ec = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify'],
+  )
+  const keySource = createJwksKeySource({
+    keys: [
+      { ...await crypto.subtle.exportKey('jwk', rsa.publicKey), kid: 'rsa-1' },
+      { ...await crypto.subtle.exportKey('jwk', ec.publicKey), kid: 'ec-1' },
+    ],
+  })
+
+  const rs256 = await signJwt({ alg: 'RS256', kid: 'rsa-1' }, CLAIMS, rsa.privateKey)
+  const es256 = await signJwt({ alg: 'ES256', kid: 'ec-1' }, CLAIMS, ec.privateKey)
+
+  assertEquals(await verifyJwt(rs256, keySource, OPTIONS), CLAIMS)
+  assertEquals(await verifyJwt(es256, keySource, OPTIONS), CLAIMS)
+  await assertInvalid(
+    await signJwt({ alg: 'ES256', kid: 'ec-2' }, CLAIMS, ec.privateKey),
+    'No signing key found for kid: ec-2',
+    keySource,
+  )
+})
+
+Deno.test('createJwksKeySource rejects a key of another type than the algorithm', async () => {
+  const rsa = await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify'],
+  )
+  const ec = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify'],
+  )
+  // Without `alg` on the JWK only its key type tells that it is not an EC key
+  const { alg: _alg, ...rsaJwk } = await crypto.subtle.exportKey('jwk', rsa.publicKey)
+  const keySource = createJwksKeySource({ keys: [{ ...rsaJwk, kid: 'rsa-1' }] })
+
+  await assertInvalid(
+    await signJwt({ alg: 'ES256', kid: 'rsa-1' }, CLAIMS, ec.privateKey),
+    'Signing key does not match algorithm ES256',
+    keySource,
+  )
+})
+
+Deno.test('createJwksKeySource rejects a malformed JWK as an invalid token', async () => {
+  const keySource = createJwksKeySource({
+    keys: [{ kty: 'EC', crv: 'P-256', x: 'AA', y: 'AA', kid: 'broken' }],
+  })
+  const { privateKey } = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify'],
+  )
+  const token = await signJwt({ alg: 'ES256', kid: 'broken' }, CLAIMS, privateKey)
+
+  await assertInvalid(token, 'Invalid signing key', keySource)
+})
+
+/**
+ * ES256 key pair published under `kid`
+ */
+async function createEs256Key(kid: string) {
+  const { privateKey, publicKey } = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify'],
+  )
+  const jwk = { ...await crypto.subtle.exportKey('jwk', publicKey), kid }
+  return { kid, privateKey, jwk }
+}
+
+/**
+ * fetch() answering with the key set in `jwks.current` (or the given failure), counting
+ * calls
+ */
+function createJwksFetch(jwks: { current: Jwks }) {
+  const calls = { count: 0, failure: null as null | 'network' | 'html' | 500 }
+  const fetchFn: typeof fetch = () => {
+    calls.count++
+    switch (calls.failure) {
+      case 'network':
+        return Promise.reject(new TypeError('error sending request: connection refused'))
+      case 'html':
+        return Promise.resolve(new Response('<html>maintenance</html>', { status: 200 }))
+      case 500:
+        return Promise.resolve(new Response('oops', { status: 500 }))
+      default:
+        return Promise.resolve(Response.json(jwks.current))
+    }
+  }
+  return { fetchFn, calls }
+}
+
+Deno.test('createRemoteJwksKeySource refetches for unknown kids at most once per interval', async () => {
+  const key = await createEs256Key('current')
+  const { fetchFn, calls } = createJwksFetch({ current: { keys: [key.jwk] } })
+  let now = NOW_MS
+  const keySource = createRemoteJwksKeySource('https://idp.example/jwks', {
+    fetch: fetchFn,
+    now: () => now,
+    minRefreshIntervalMs: 30_000,
+  })
+  const valid = await signJwt({ alg: 'ES256', kid: 'current' }, CLAIMS, key.privateKey)
+  const unknown = await signJwt({ alg: 'ES256', kid: 'made-up' }, CLAIMS, key.privateKey)
+
+  assertEquals(await verifyJwt(valid, keySource, OPTIONS), CLAIMS)
+  now += 30_000
+  for (let i = 0; i < 5; i++) {
+    await assertInvalid(unknown, 'No signing key found for kid: made-up', keySource)
+  }
+  assertEquals(calls.count, 2)
+
+  now += 29_999
+  await assertInvalid(unknown, 'No signing key found', keySource)
+  assertEquals(calls.count, 2)
+  now += 1
+  await assertInvalid(unknown, 'No signing key found', keySource)
+  assertEquals(calls.count, 3)
+})
+
+Deno.test('createRemoteJwksKeySource picks up a rotated key after the interval', async () => {
+  const [oldKey, newKey] = [await createEs256Key('old'), await createEs256Key('new')]
+  const jwks = { current: { keys: [oldKey.jwk] } }
+  const { fetchFn } = createJwksFetch(jwks)
+  let now = NOW_MS
+  const keySource = createRemoteJwksKeySource('https://idp.example/jwks', {
+    fetch: fetchFn,
+    now: () => now,
+  })
+  await verifyJwt(
+    await signJwt({ alg: 'ES256', kid: 'old' }, CLAIMS, oldKey.privateKey),
+    keySource,
+    OPTIONS,
+  )
+
+  jwks.current = { keys: [oldKey.jwk, newKey.jwk] }
+  now += 30_000
+  const rotated = await signJwt({ alg: 'ES256', kid: 'new' }, CLAIMS, newKey.privateKey)
+
+  assertEquals(await verifyJwt(rotated, keySource, OPTIONS), CLAIMS)
+})
+
+Deno.test('createRemoteJwksKeySource shares one fetch between concurrent requests', async () => {
+  const key = await createEs256Key('current')
+  const { fetchFn, calls } = createJwksFetch({ current: { keys: [key.jwk] } })
+  const keySource = createRemoteJwksKeySource('https://idp.example/jwks', { fetch: fetchFn })
+  const token = await signJwt({ alg: 'ES256', kid: 'current' }, CLAIMS, key.privateKey)
+
+  await Promise.all(Array.from({ length: 5 }, () => verifyJwt(token, keySource, OPTIONS)))
+
+  assertEquals(calls.count, 1)
+})
+
+Deno.test('createRemoteJwksKeySource reports an unreachable or invalid JWKS as an invalid token', async () => {
+  const key = await createEs256Key('current')
+  const token = await signJwt({ alg: 'ES256', kid: 'current' }, CLAIMS, key.privateKey)
+  const cases = [
+    ['network', 'Failed to fetch JWKS: error sending request: connection refused'],
+    ['html', 'Failed to fetch JWKS: response is not JSON'],
+    [500, 'Failed to fetch JWKS: HTTP 500'],
+  ] as const
+
+  for (const [failure, message] of cases) {
+    const { fetchFn, calls } = createJwksFetch({ current: { keys: [key.jwk] } })
+    calls.failure = failure
+    const keySource = createRemoteJwksKeySource('https://idp.example/jwks', { fetch: fetchFn })
+
+    await assertInvalid(token, message, keySource)
+  }
+})
+
+Deno.test('createRemoteJwksKeySource keeps using the cached keys when a refetch fails', async () => {
+  const key = await createEs256Key('current')
+  const { fetchFn, calls } = createJwksFetch({ current: { keys: [key.jwk] } })
+  let now = NOW_MS
+  const keySource = createRemoteJwksKeySource('https://idp.example/jwks', {
+    fetch: fetchFn,
+    now: () => now,
+    cacheTtlMs: 60_000,
+  })
+  const token = await signJwt({ alg: 'ES256', kid: 'current' }, CLAIMS, key.privateKey)
+  await verifyJwt(token, keySource, OPTIONS)
+
+  calls.failure = 'network'
+  now += 60_000
+
+  assertEquals(await verifyJwt(token, keySource, OPTIONS), CLAIMS)
+  assertEquals(await verifyJwt(token, keySource, OPTIONS), CLAIMS)
+  assertEquals(calls.count, 2)
+})
@@ -0,0 +1,147 @@
+/**
+ * Structured logging - one JSON object per line
+ *
+ * Every entry carries `time` (ISO 8601), `level` and `msg` plus the logger's bound
+ * fields (e.g. `requestId`) and the call's own fields. Credentials are never written:
+ * values under sensitive keys such as `authorization` are replaced before output.
+ *
+ * Usage:
+ *   const logger = createLogger({ level: getLogLevelFromEnv() })
+ *   logger.child({ requestId }).info('request', { status: 200, durationMs: 12 })
+ */
+
+/**
+ * Log levels, lowest first
+ */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const
+export type LogLevel = typeof LOG_LEVELS[number]
+
+/**
+ * Structured fields of a log entry
+ */
+export type LogFields = Record<string, unknown>
+
+/**
+ * Leveled JSON logger
+ */
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void
+  info(msg: string, fields?: LogFields): void
+  warn(msg: string, fields?: LogFields): void
+  error(msg: string, fields?: LogFields): void
+
+  /**
+   * Creates a logger that adds `fields` to every entry
+   *
+   * @param fields - Fields bound to the child logger
+   * @returns Child logger with the same level and output
+   */
+  child(fields: LogFields): Logger
+}
+
+/**
+ * Options for createLogger()
+ */
+export type LoggerOptions = {
+  /** Minimum level written (defaults to info) */
+  level?: LogLevel
+  /** Fields added to every entry */
+  fields?: LogFields
+  /** Output of one serialized entry (defaults to console.log / console.error for errors) */
+  write?: (line: string, level: LogLevel) => void
+}
+
+/**
+ * Keys whose values are replaced by REDACTED (compared case-insensitively)
+ */
+const SENSITIVE_KEYS = new Set(['authorization', 'cookie', 'set-cookie', 'apikey', 'x-api-key'])
+const REDACTED = '[REDACTED]'
+
+/**
+ * Type guard for log level names
+ *
+ * @param value - Candidate level name
+ * @returns true if value is a LogLevel
+ */
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value)
+}
+
+/**
+ * Reads the minimum log level from LOG_LEVEL (defaults to info)
+ *
+ * @returns Configured log level
+ */
+export function getLogLevelFromEnv(): LogLevel {
+  const level = Deno.env.get('LOG_LEVEL')?.toLowerCase()
+  return level && isLogLevel(level) ? level : 'info'
+}
+
+/**
+ * Converts headers to a plain object with credentials redacted
+ *
+ * @param headers - Request or response headers
+ * @returns Header names mapped to values
+ */
+export function redactHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    result[name] = SENSITIVE_KEYS.has(name.toLowerCase()) ? REDACTED : value
+  })
+  return result
+}
+
+/**
+ * JSON.stringify replacer: redacts sensitive keys and serializes errors
+ */
+function replacer(key: string, value: unknown): unknown {
+  if (key && SENSITIVE_KEYS.has(key.toLowerCase())) {
+    return REDACTED
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  if (value instanceof Headers) {
+    return redactHeaders(value)
+  }
+  return value
+}
+
+/**
+ * Writes errors to stderr and everything else to stdout
+ */
+function defaultWrite(line: string, level: LogLevel): void {
+  if (level === 'error') {
+    console.error(line)
+  } else {
+    console.log(line)
+  }
+}
+
+/**
+ * Creates a JSON logger
+ *
+ * @param options - Minimum level, bound fields and output
+ * @returns Logger instance
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const minLevel = LOG_LEVELS.indexOf(options.level ?? 'info')
+  const bound = options.fields ?? {}
+  const write = options.write ?? defaultWrite
+
+  const log = (level: LogLevel, msg: string, fields?: LogFields) => {
+    if (LOG_LEVELS.indexOf(level) < minLevel) {
+      return
+    }
+    const entry = { time: new Date().toISOString(), level, msg, ...bound, ...fields }
+    write(JSON.stringify(entry, replacer), level)
+  }
+
+  return {
+    debug: (msg, fields) => log('debug', msg, fields),
+    info: (msg, fields) => log('info', msg, fields),
+    warn: (msg, fields) => log('warn', msg, fields),
+    error: (msg, fields) => log('error', msg, fields),
+    child: (fields) => createLogger({ ...options, fields: { ...bound, ...fields } }),
+  }
+}
@@ -0,0 +1,68 @@
+import { assertEquals } from '@std/assert'
+import { createLogger, type LogLevel, redactHeaders } from './logger.ts'
+
+/**
+ * Creates a logger at `level` that collects parsed entries
+ */
+function createCapturingLogger(level: LogLevel = 'debug') {
+  const entries: Record<string, unknown>[] = []
+  const logger = createLogger({ level, write: (line) => entries.push(JSON.parse(line)) })
+  return { logger, entries }
+}
+
+Deno.test('createLogger redacts credentials under sensitive keys at any depth', () => {
+  const { logger, entries } = createCapturingLogger()
+
+  logger.info('outgoing call', {
+    Authorization: 'Bearer secret-token',
+    request: { headers: { authorization: 'Bearer secret-token', cookie: 'sb=1', accept: '*/*' } },
+    'X-Api-Key': 'key-1',
+  })
+
+  assertEquals(entries[0]!.Authorization, '[REDACTED]')
+  assertEquals(entries[0]!['X-Api-Key'], '[REDACTED]')
+  assertEquals(entries[0]!.request, {
+    headers: { authorization: '[REDACTED]', cookie: '[REDACTED]', accept: '*/*' },
+  })
+})
+
+Deno.test('createLogger redacts Authorization in Headers objects', () => {
+  const { logger, entries } = createCapturingLogger()
+
+  logger.debug('request received', {
+    headers: new Headers({ 'Authorization': 'Bearer secret-token', 'X-Request-Id': 'req-1' }),
+  })
+
+  assertEquals(entries[0]!.headers, { 'authorization': '[REDACTED]', 'x-request-id': 'req-1' })
+})
+
+Deno.test('redactHeaders keeps other headers as they are', () => {
+  const headers = new Headers({ 'Cookie': 'sb=1', 'Content-Type': 'application/json' })
+
+  assertEquals(redactHeaders(headers), {
+    'content-type': 'application/json',
+    'cookie': '[REDACTED]',
+  })
+})
+
+Deno.test('createLogger writes errors with their name and message', () => {
+  const { logger, entries } = createCapturingLogger()
+
+  logger.error('request failed', { error: new TypeError('boom') })
+
+  const error = entries[0]!.error as Record<string, unknown>
+  assertEquals([error.name, error.message], ['TypeError', 'boom'])
+})
+
+Deno.test('createLogger skips entries below its level and binds child fields', () => {
+  const { logger, entries } = createCapturingLogger('info')
+
+  logger.debug('hidden')
+  logger.child({ requestId: 'req-1' }).warn('slow request', { durationMs: 900 })
+
+  assertEquals(entries.length, 1)
+  assertEquals(
+    [entries[0]!.level, entries[0]!.msg, entries[0]!.requestId, entries[0]!.durationMs],
+    ['warn', 'slow request', 'req-1', 900],
+  )
+})
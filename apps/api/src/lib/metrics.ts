@@ -0,0 +1,178 @@
+/**
+ * Prometheus metrics - in-process counters and histograms in the text exposition format
+ *
+ * Values live in memory, so each Edge Function isolate reports its own series; Prometheus
+ * sums them across scrapes (rate(), histogram_quantile() over sum by (le)). Figures that
+ * must be global, such as transfer totals, are read from the database at scrape time and
+ * rendered with formatSamples().
+ */
+
+/**
+ * Label names mapped to values
+ */
+export type Labels = Record<string, string>
+
+/**
+ * One value of a metric family
+ */
+export type Sample = {
+  /** Suffix appended to the family name (e.g. `_bucket`) */
+  suffix?: string
+  labels: Labels
+  value: number
+}
+
+/**
+ * Request latency buckets in seconds, dense around the 500ms p95 target
+ */
+export const LATENCY_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 0.75, 1, 2.5, 5, 10]
+
+/**
+ * Escapes a label value (backslash, double quote and newline)
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+/**
+ * Formats a label set as `{name="value",...}` (empty for no labels)
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) =>
+    `${name}="${escapeLabelValue(value)}"`
+  )
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+/**
+ * Formats a metric family in the text exposition format
+ *
+ * @param name - Metric name
+ * @param type - Prometheus metric type
+ * @param help - HELP text
+ * @param samples - Values of the family
+ * @returns HELP and TYPE lines followed by one line per sample
+ */
+export function formatSamples(
+  name: string,
+  type: 'counter' | 'gauge' | 'histogram',
+  help: string,
+  samples: Sample[],
+): string {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`]
+  for (const sample of samples) {
+    lines.push(`${name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${sample.value}`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Key identifying a label set (label names are fixed per metric, so values suffice)
+ */
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.values(labels))
+}
+
+/**
+ * Monotonically increasing count per label set
+ */
+export class Counter {
+  private readonly series = new Map<string, { labels: Labels; value: number }>()
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  /**
+   * Adds to the counter
+   *
+   * @param labels - Label set of the series
+   * @param value - Amount to add (defaults to 1)
+   */
+  inc(labels: Labels, value = 1): void {
+    const key = seriesKey(labels)
+    const series = this.series.get(key)
+    if (series) {
+      series.value += value
+    } else {
+      this.series.set(key, { labels, value })
+    }
+  }
+
+  render(): string {
+    return formatSamples(this.name, 'counter', this.help, [...this.series.values()])
+  }
+}
+
+/**
+ * Distribution of observed values per label set, in cumulative buckets
+ */
+export class Histogram {
+  private readonly series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >()
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {}
+
+  /**
+   * Records one observation
+   *
+   * @param labels - Label set of the series
+   * @param value - Observed value
+   */
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++
+      }
+    })
+    series.sum += value
+    series.count++
+  }
+
+  render(): string {
+    const samples: Sample[] = []
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const bucketLabels = { ...labels, le: String(bound) }
+        samples.push({ suffix: '_bucket', labels: bucketLabels, value: counts[index] })
+      })
+      samples.push({ suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: count })
+      samples.push({ suffix: '_sum', labels, value: sum })
+      samples.push({ suffix: '_count', labels, value: count })
+    }
+    return formatSamples(this.name, 'histogram', this.help, samples)
+  }
+}
+
+/**
+ * Metrics recorded by the API process
+ */
+export class ApiMetrics {
+  /** Request latency by method, matched route and status */
+  readonly requestDuration = new Histogram(
+    'http_request_duration_seconds',
+    'HTTP request latency in seconds',
+    LATENCY_BUCKETS,
+  )
+
+  /** Rejected requests by error code (e.g. INSUFFICIENT_BALANCE, INVALID_REQUEST) */
+  readonly domainErrors = new Counter(
+    'domain_errors_total',
+    'Requests rejected with a 4xx error code, by code',
+  )
+
+  /**
+   * Renders every in-process metric
+   *
+   * @returns Text exposition format
+   */
+  render(): string {
+    return [this.requestDuration.render(), this.domainErrors.render()].join('\n')
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * OpenAPI helpers shared by all routers
+ *
+ * Routes are declared with createRoute() and Zod schemas (src/schemas/), so requests are
+ * validated before handlers run and /openapi.json is generated from the same definitions.
+ * Handlers must return one of the declared responses: a response that drifts from its
+ * schema (missing field, wrong type, undeclared status) fails `deno task check`.
+ */
+
+import { OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Hook } from '@hono/zod-openapi'
+import type { Env } from './types.ts'
+import { ErrorSchema } from '../schemas/common.ts'
+
+/**
+ * Document metadata for /openapi.json
+ */
+export const OPENAPI_DOCUMENT_INFO = {
+  title: 'Community Token API',
+  version: '1.0.0',
+  description: 'Token transfers, wallets and administration for the community token system.',
+}
+
+/**
+ * Name of the Bearer JWT security scheme required by every /v1 and /admin route
+ */
+export const BEARER_AUTH_SCHEME = 'bearerAuth'
+
+/**
+ * Formats the first validation issue as the 400 error message
+ *
+ * Custom issues come from the API's own checks and already name the field
+ * (e.g. `memo must be at most 280 characters`); Zod's built-in messages get the
+ * field path prepended (e.g. `amount: Number must be greater than 0`).
+ *
+ * @param error - Zod validation error
+ * @returns Error message for the 400 response
+ */
+function formatValidationError(error: z.ZodError): string {
+  const issue = error.issues[0]
+  if (!issue) {
+    return 'Invalid request'
+  }
+  if (issue.code === z.ZodIssueCode.custom || issue.path.length === 0) {
+    return `Invalid request: ${issue.message}`
+  }
+  return `Invalid request: ${issue.path.join('.')}: ${issue.message}`
+}
+
+/**
+ * Turns failed request validation into the API's 400 error body
+ */
+const validationHook: Hook<unknown, Env, string, unknown> = (result, c) => {
+  if (!result.success) {
+    return c.json({ error: formatValidationError(result.error), code: 'INVALID_REQUEST' }, 400)
+  }
+}
+
+/**
+ * Creates a router whose routes are validated and documented through Zod schemas
+ *
+ * @returns OpenAPIHono router instance
+ */
+export function createRouter(): OpenAPIHono<Env> {
+  return new OpenAPIHono<Env>({ defaultHook: validationHook })
+}
+
+/**
+ * Declares a JSON response
+ *
+ * @param schema - Response body schema
+ * @param description - Response description
+ * @returns Response object for createRoute()
+ */
+export function jsonContent<T extends z.ZodTypeAny>(schema: T, description: string) {
+  return {
+    content: { 'application/json': { schema } },
+    description,
+  }
+}
+
+/**
+ * Declares error responses sharing the `{ error, code, details? }` body
+ *
+ * @param descriptions - Description per status code
+ * @returns Response objects for createRoute()
+ */
+export function errorResponses<S extends number>(descriptions: Record<S, string>) {
+  return Object.fromEntries(
+    Object.entries(descriptions).map(([status, description]) => [
+      status,
+      jsonContent(ErrorSchema, description as string),
+    ]),
+  ) as Record<S, ReturnType<typeof jsonContent<typeof ErrorSchema>>>
+}
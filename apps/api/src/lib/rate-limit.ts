@@ -0,0 +1,117 @@
+/**
+ * Rate limit counters - fixed windows keyed by limit group and caller
+ *
+ * A RateLimitStore counts requests per key: the first request opens a window of
+ * `windowMs`, later ones increment it until it ends. The middleware
+ * (middleware/rate-limit.ts) decides keys and limits; stores only count. Use the
+ * in-memory store for tests and single-process runs, and the Postgres store when
+ * several Edge Function instances must share the counts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types.ts'
+import { databaseError } from './errors.ts'
+
+/**
+ * Requests allowed per window
+ */
+export type RateLimitRule = {
+  /** Maximum requests per window */
+  limit: number
+  /** Window length in milliseconds */
+  windowMs: number
+}
+
+/**
+ * State of a window after counting a request
+ */
+export type RateLimitHit = {
+  /** Requests counted in the window, including this one */
+  hits: number
+  /** End of the window (Unix timestamp in milliseconds) */
+  resetAt: number
+}
+
+/**
+ * Storage of rate limit counters
+ */
+export interface RateLimitStore {
+  /**
+   * Counts one request against a key
+   *
+   * @param key - Bucket key (limit group and caller)
+   * @param windowMs - Length of a new window in milliseconds
+   * @returns Promise resolving to the window's state
+   */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>
+}
+
+/**
+ * RateLimitStore holding counters in process memory
+ *
+ * Counts are per process (per isolate on Edge Functions). Expired windows are dropped
+ * when the store grows past `maxKeys` so that memory stays bounded.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, RateLimitHit>()
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    private readonly maxKeys = 10_000,
+  ) {}
+
+  hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = this.now()
+    const bucket = this.buckets.get(key)
+    if (bucket && bucket.resetAt > now) {
+      bucket.hits++
+      return Promise.resolve({ ...bucket })
+    }
+
+    if (this.buckets.size >= this.maxKeys) {
+      this.prune(now)
+    }
+    const opened = { hits: 1, resetAt: now + windowMs }
+    this.buckets.set(key, opened)
+    return Promise.resolve({ ...opened })
+  }
+
+  /**
+   * Removes windows that have ended
+   */
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.resetAt <= now) {
+        this.buckets.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * RateLimitStore backed by the rate_limit_buckets table via hit_rate_limit()
+ * (see migration 20251125120000_rate_limits.sql)
+ *
+ * Every API instance shares the counters. Costs one database round trip per request.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const { data, error } = await this.client.rpc('hit_rate_limit', {
+      bucket_key: key,
+      window_ms: windowMs,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to count request for rate limiting')
+    }
+
+    const row = data[0]
+    if (!row) {
+      throw new Error('Failed to count request for rate limiting: no result returned')
+    }
+
+    return { hits: row.hits, resetAt: row.reset_at }
+  }
+}
@@ -0,0 +1,47 @@
+import { assertEquals } from '@std/assert'
+import { InMemoryRateLimitStore } from './rate-limit.ts'
+
+const START = Date.UTC(2025, 0, 1)
+
+Deno.test('InMemoryRateLimitStore counts hits within a window', async () => {
+  const store = new InMemoryRateLimitStore(() => START)
+
+  assertEquals(await store.hit('read:user:a', 60_000), { hits: 1, resetAt: START + 60_000 })
+  assertEquals(await store.hit('read:user:a', 60_000), { hits: 2, resetAt: START + 60_000 })
+})
+
+Deno.test('InMemoryRateLimitStore counts each key separately', async () => {
+  const store = new InMemoryRateLimitStore(() => START)
+
+  await store.hit('read:user:a', 60_000)
+  await store.hit('read:user:a', 60_000)
+
+  assertEquals((await store.hit('read:ip:203.0.113.7', 60_000)).hits, 1)
+  assertEquals((await store.hit('transfer:user:a', 60_000)).hits, 1)
+})
+
+Deno.test('InMemoryRateLimitStore opens a new window once the previous one ended', async () => {
+  let now = START
+  const store = new InMemoryRateLimitStore(() => now)
+  await store.hit('key', 1000)
+  await store.hit('key', 1000)
+
+  now = START + 999
+  assertEquals(await store.hit('key', 1000), { hits: 3, resetAt: START + 1000 })
+  now = START + 1000
+  assertEquals(await store.hit('key', 1000), { hits: 1, resetAt: START + 2000 })
+})
+
+Deno.test('InMemoryRateLimitStore drops ended windows when full', async () => {
+  let now = START
+  const store = new InMemoryRateLimitStore(() => now, 2)
+  await store.hit('ended', 1000)
+  await store.hit('open', 5000)
+
+  now = START + 1000
+  await store.hit('new', 1000)
+
+  // The open window survived pruning; the ended one starts over
+  assertEquals((await store.hit('open', 5000)).hits, 2)
+  assertEquals((await store.hit('ended', 1000)).hits, 1)
+})
@@ -1,8 +1,14 @@
 // Hono Context用の型定義
 
+import type { Logger } from './logger.ts'
+
 export type Env = {
   Variables: {
+    // リクエスト単位のロガー (requestId 付き)
+    logger: Logger
     userId?: string
+    // JWTの app_metadata.role (例: 'admin')
+    userRole?: string
     // 将来的にDBクライアントなどを追加
   }
 }
@@ -0,0 +1,18 @@
+/**
+ * UUID validation helper
+ *
+ * All entity IDs are application-generated UUIDs (design.md §7), so request
+ * parameters referring to them are validated before reaching the database.
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Checks whether a string is a canonical UUID (any version, case-insensitive)
+ *
+ * @param value - String to check
+ * @returns true if the string is a UUID
+ */
+export function isUUID(value: string): boolean {
+  return UUID_PATTERN.test(value)
+}
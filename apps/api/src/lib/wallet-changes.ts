@@ -0,0 +1,111 @@
+/**
+ * Wallet change notifications for live event streams
+ *
+ * A WalletChangeSource only signals that something may have happened to a wallet;
+ * listeners then read the wallet's event log (list_wallet_events()) from their own
+ * position. Notifications can therefore be lossy, duplicated or coalesced without
+ * affecting what clients receive, and the source can be Supabase Realtime, Postgres
+ * LISTEN/NOTIFY or an in-process emitter in tests.
+ */
+
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from './database.types.ts'
+import type { WalletID } from '../entities/WalletEntity.ts'
+
+/**
+ * Delivers change signals for individual wallets
+ */
+export interface WalletChangeSource {
+  /**
+   * Registers a listener for changes to one wallet
+   *
+   * @param walletId - Wallet to watch
+   * @param listener - Called (without details) whenever the wallet may have changed
+   * @returns Function removing the listener
+   */
+  subscribe(walletId: WalletID, listener: () => void): () => void
+}
+
+/**
+ * WalletChangeSource fed by explicit notify() calls
+ *
+ * Used directly in tests, and by the Realtime source to fan notifications out to
+ * the streams of one process.
+ */
+export class InProcessWalletChangeSource implements WalletChangeSource {
+  private readonly listeners = new Map<string, Set<() => void>>()
+
+  subscribe(walletId: WalletID, listener: () => void): () => void {
+    let listeners = this.listeners.get(walletId)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(walletId, listeners)
+    }
+    listeners.add(listener)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0 && this.listeners.get(walletId) === listeners) {
+        this.listeners.delete(walletId)
+      }
+    }
+  }
+
+  /**
+   * Signals a change to every listener of the wallet
+   *
+   * @param walletId - Changed wallet
+   */
+  notify(walletId: string): void {
+    for (const listener of this.listeners.get(walletId) ?? []) {
+      listener()
+    }
+  }
+}
+
+/**
+ * WalletChangeSource backed by Supabase Realtime inserts on transactions and
+ * wallet_freeze_events (see migration 20251122120000_wallet_events.sql)
+ *
+ * One channel is shared by all streams of the process and opened on the first
+ * subscription.
+ */
+export class RealtimeWalletChangeSource implements WalletChangeSource {
+  private readonly emitter = new InProcessWalletChangeSource()
+  private channel: RealtimeChannel | null = null
+
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  subscribe(walletId: WalletID, listener: () => void): () => void {
+    this.connect()
+    return this.emitter.subscribe(walletId, listener)
+  }
+
+  /**
+   * Opens the shared Realtime channel unless it is already open
+   */
+  private connect(): void {
+    if (this.channel) {
+      return
+    }
+
+    this.channel = this.client
+      .channel('wallet-changes')
+      .on<Tables<'transactions'>>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'transactions' },
+        (payload) => {
+          this.emitter.notify(payload.new.from_wallet_id)
+          if (payload.new.to_wallet_id !== payload.new.from_wallet_id) {
+            this.emitter.notify(payload.new.to_wallet_id)
+          }
+        },
+      )
+      .on<Tables<'wallet_freeze_events'>>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'wallet_freeze_events' },
+        (payload) => this.emitter.notify(payload.new.wallet_id),
+      )
+      .subscribe()
+  }
+}
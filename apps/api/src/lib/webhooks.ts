@@ -0,0 +1,348 @@
+/**
+ * Outbound webhook signing and transport
+ *
+ * Every delivery is a JSON POST signed with the subscription's secret:
+ *
+ *   X-Webhook-Id: <delivery id, stable across retries>
+ *   X-Webhook-Event: transaction.created
+ *   X-Webhook-Signature: t=<unix ms>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ *
+ * Receivers recompute the HMAC over the raw body (verifyWebhookSignature) and
+ * reject stale timestamps to prevent replays. The HTTP transport is a pluggable
+ * WebhookSender so the dispatcher can run against a local stub.
+ *
+ * Endpoints must be public: subscriptions to loopback, private, link-local or internal
+ * hosts are refused when created, and the fetch sender refuses hosts that resolve to such
+ * addresses, so that webhooks cannot be used to reach services inside the deployment.
+ */
+
+/**
+ * Request headers set on every delivery
+ */
+export const WEBHOOK_ID_HEADER = 'X-Webhook-Id'
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event'
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature'
+
+/**
+ * Prefix of generated signing secrets (makes leaked secrets easy to recognize)
+ */
+const SECRET_PREFIX = 'whsec_'
+
+/**
+ * Longest accepted subscription URL (webhook_subscriptions.url_format)
+ */
+const MAX_URL_LENGTH = 2048
+
+/**
+ * Host names that only resolve inside a network (besides single-label names)
+ */
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa']
+
+/**
+ * One HTTP request to a webhook endpoint
+ */
+export type WebhookRequest = {
+  url: string
+  headers: Record<string, string>
+  body: string
+}
+
+/**
+ * Result of a webhook request that reached the endpoint
+ */
+export type WebhookResponse = {
+  status: number
+}
+
+/**
+ * Sends a webhook request
+ *
+ * Implementations resolve with the response status for any HTTP response and
+ * reject when no response was received (DNS, connection, timeout).
+ */
+export type WebhookSender = (request: WebhookRequest) => Promise<WebhookResponse>
+
+const encoder = new TextEncoder()
+
+/**
+ * Imports a signing secret as an HMAC-SHA256 key
+ */
+function importSecret(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  )
+}
+
+/**
+ * Encodes bytes as lowercase hex
+ */
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Generates a new subscription signing secret
+ *
+ * @returns `whsec_` followed by 32 random bytes in hex
+ */
+export function generateWebhookSecret(): string {
+  return SECRET_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/**
+ * Computes the X-Webhook-Signature header value for a request body
+ *
+ * @param secret - Subscription signing secret
+ * @param timestamp - Signing time (Unix ms)
+ * @param body - Raw request body
+ * @returns Header value `t=<timestamp>,v1=<hex signature>`
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): Promise<string> {
+  const key = await importSecret(secret)
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  return `t=${timestamp},v1=${toHex(signature)}`
+}
+
+/**
+ * Verifies an X-Webhook-Signature header (for receivers of our webhooks)
+ *
+ * @param secret - Subscription signing secret
+ * @param header - X-Webhook-Signature header value
+ * @param body - Raw request body, exactly as received
+ * @param options - Current time and accepted clock skew (default 5 minutes)
+ * @returns true if the signature matches and the timestamp is within tolerance
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  options: { now?: number; toleranceMs?: number } = {},
+): Promise<boolean> {
+  const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(header)
+  if (!match) {
+    return false
+  }
+  const timestamp = Number(match[1])
+  const now = options.now ?? Date.now()
+  if (Math.abs(now - timestamp) > (options.toleranceMs ?? 5 * 60 * 1000)) {
+    return false
+  }
+
+  const signature = new Uint8Array(match[2].match(/../g)!.map((byte) => parseInt(byte, 16)))
+  // crypto.subtle.verify compares in constant time
+  return crypto.subtle.verify(
+    'HMAC',
+    await importSecret(secret),
+    signature,
+    encoder.encode(`${timestamp}.${body}`),
+  )
+}
+
+/**
+ * Resolves a host name to its IPv4 and IPv6 addresses
+ */
+export type HostResolver = (hostname: string) => Promise<string[]>
+
+/**
+ * Parses a dotted-quad IPv4 address
+ *
+ * @returns The four bytes, or null if `address` is not an IPv4 address
+ */
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.')
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null
+  }
+  const bytes = parts.map(Number)
+  return bytes.every((byte) => byte <= 255) ? bytes : null
+}
+
+/**
+ * Parses an IPv6 address (without brackets)
+ *
+ * @returns The eight 16-bit groups, or null if `address` is not an IPv6 address
+ */
+function parseIPv6(address: string): number[] | null {
+  let canonical: string
+  try {
+    // The URL parser validates the address and writes embedded IPv4 parts in hex
+    canonical = new URL(`http://[${address}]/`).hostname.slice(1, -1)
+  } catch {
+    return null
+  }
+  const [head = '', tail] = canonical.split('::')
+  const groups = (part: string) => part ? part.split(':').map((group) => parseInt(group, 16)) : []
+  const left = groups(head)
+  const right = groups(tail ?? '')
+  return [...left, ...Array(8 - left.length - right.length).fill(0), ...right]
+}
+
+/**
+ * Whether an IPv4 address is loopback, private, link-local or otherwise not on the internet
+ */
+function isNonPublicIPv4([a = 0, b = 0, c = 0]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 198 && (b === 18 || b === 19)) // benchmarking
+}
+
+/**
+ * Whether an IP address may be the target of a webhook
+ *
+ * Refuses loopback, private (RFC 1918), carrier-grade NAT, link-local (including the
+ * 169.254.169.254 metadata service), unique-local, multicast and reserved addresses, also
+ * when embedded in IPv4-mapped or NAT64 IPv6 addresses.
+ *
+ * @param address - IPv4 or IPv6 address (IPv6 without brackets)
+ * @returns true for public unicast addresses; false otherwise, including non-addresses
+ */
+export function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address)
+  if (ipv4) {
+    return !isNonPublicIPv4(ipv4)
+  }
+
+  const groups = parseIPv6(address)
+  if (!groups) {
+    return false
+  }
+  const [first = 0, second = 0] = groups
+  const embeddedIPv4 = [groups[6]! >> 8, groups[6]! & 0xff, groups[7]! >> 8, groups[7]! & 0xff]
+  // ::, ::1 and IPv4-compatible ::a.b.c.d
+  if (groups.slice(0, 6).every((group) => group === 0)) {
+    return false
+  }
+  // IPv4-mapped ::ffff:a.b.c.d and NAT64 64:ff9b::a.b.c.d
+  if (
+    (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) ||
+    (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every((group) => group === 0))
+  ) {
+    return !isNonPublicIPv4(embeddedIPv4)
+  }
+  return (first & 0xfe00) !== 0xfc00 && // unique-local fc00::/7
+    (first & 0xffc0) !== 0xfe80 && // link-local fe80::/10
+    (first & 0xffc0) !== 0xfec0 && // site-local fec0::/10
+    (first & 0xff00) !== 0xff00 // multicast ff00::/8
+}
+
+/**
+ * Whether a URL host cannot be a public webhook endpoint
+ *
+ * @param hostname - `URL.hostname` (IPv6 in brackets)
+ * @returns true for non-public IP literals, localhost and internal names
+ */
+function isInternalHost(hostname: string): boolean {
+  if (hostname.startsWith('[')) {
+    return !isPublicAddress(hostname.slice(1, -1))
+  }
+  if (parseIPv4(hostname)) {
+    return !isPublicAddress(hostname)
+  }
+  const name = hostname.replace(/\.$/, '')
+  return !name.includes('.') || name === 'localhost' ||
+    INTERNAL_HOST_SUFFIXES.some((suffix) => name.endsWith(suffix))
+}
+
+/**
+ * Validates a subscription endpoint URL
+ *
+ * @param value - URL as received in the request body
+ * @param allowHttp - Whether plain http is accepted (system integrations only)
+ * @returns Normalized URL, or an error message
+ */
+export function parseWebhookUrl(
+  value: unknown,
+  allowHttp: boolean,
+): { url: string } | { error: string } {
+  if (typeof value !== 'string' || value.length === 0) {
+    return { error: 'url is required and must be a string' }
+  }
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return { error: 'url must be an absolute URL' }
+  }
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    return { error: allowHttp ? 'url must use http or https' : 'url must use https' }
+  }
+  // Credentials would be stored and shown in plain text
+  if (url.username || url.password) {
+    return { error: 'url must not contain credentials' }
+  }
+  if (url.href.length > MAX_URL_LENGTH) {
+    return { error: `url must be at most ${MAX_URL_LENGTH} characters` }
+  }
+  if (isInternalHost(url.hostname)) {
+    return { error: 'url must point to a public host' }
+  }
+
+  return { url: url.href }
+}
+
+/**
+ * Resolves a host name through DNS (A and AAAA records)
+ *
+ * @param hostname - Host name to resolve
+ * @returns Promise resolving to every address found (empty when none)
+ */
+export async function resolveHostAddresses(hostname: string): Promise<string[]> {
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ])
+  return results.flatMap((result) => result.status === 'fulfilled' ? result.value : [])
+}
+
+/**
+ * Creates a WebhookSender backed by fetch()
+ *
+ * Before each request the endpoint's host is resolved, and the request is refused (as a
+ * failure without response) unless every address is public: subscriptions cannot reach
+ * internal services through names that resolve to private addresses, whenever created.
+ *
+ * @param timeoutMs - Abort requests after this many milliseconds (default 10 seconds)
+ * @param resolveHost - Resolves endpoint host names (defaults to DNS)
+ * @returns WebhookSender instance
+ */
+export function createFetchWebhookSender(
+  timeoutMs = 10_000,
+  resolveHost: HostResolver = resolveHostAddresses,
+): WebhookSender {
+  return async (request) => {
+    const { hostname } = new URL(request.url)
+    const host = hostname.startsWith('[') ? hostname.slice(1, -1) : hostname
+    const addresses = parseIPv4(host) || host.includes(':') ? [host] : await resolveHost(host)
+    if (addresses.length === 0) {
+      throw new Error(`Could not resolve ${host}`)
+    }
+    if (!addresses.every(isPublicAddress)) {
+      throw new Error(`Endpoint host ${host} resolves to a non-public address`)
+    }
+
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+      // Redirects are not followed, so a subscription cannot be bounced elsewhere
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+    // Release the connection; the response body is not used
+    await response.body?.cancel()
+    return { status: response.status }
+  }
+}
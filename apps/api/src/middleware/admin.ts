@@ -0,0 +1,28 @@
+/**
+ * Admin authorization middleware
+ *
+ * Must run after the authentication middleware. Only callers whose JWT carries
+ * `app_metadata.role = "admin"` may use /admin/* routes (design.md §8,
+ * "admin role validation").
+ */
+
+import { createMiddleware } from 'hono/factory'
+import type { Env } from '../lib/types.ts'
+
+/**
+ * Role value granting access to administrative endpoints
+ */
+export const ADMIN_ROLE = 'admin'
+
+/**
+ * Rejects non-admin callers with 403
+ */
+export const requireAdmin = createMiddleware<Env>(async (c, next) => {
+  if (!c.get('userId')) {
+    return c.json({ error: 'Unauthorized', code: 'UNAUTHORIZED' }, 401)
+  }
+  if (c.get('userRole') !== ADMIN_ROLE) {
+    return c.json({ error: 'Forbidden: admin role required', code: 'FORBIDDEN' }, 403)
+  }
+  await next()
+})
@@ -0,0 +1,145 @@
+/**
+ * Authentication middleware - JWT validation and user auto-provisioning
+ *
+ * Implements the flow from design.md §8:
+ * 1. Read `Authorization: Bearer <token>`
+ * 2. Verify signature, `exp`, `iss` and `aud`
+ * 3. Extract the user ID from the `sub` claim into `Env.Variables.userId`
+ *    and the role from `app_metadata.role` into `Env.Variables.userRole`
+ * 4. Create the user and wallet on first sight (auto-registration)
+ */
+
+import { createMiddleware } from 'hono/factory'
+import type { Env } from '../lib/types.ts'
+import {
+  type JwtClaims,
+  JwtVerificationError,
+  type JwtVerifyOptions,
+  type KeySource,
+  verifyJwt,
+} from '../lib/jwt.ts'
+import type { IUserRepository } from '../repositories/IUserRepository.ts'
+import { AsUserID } from '../entities/UserEntity.ts'
+import { isUUID } from '../lib/uuid.ts'
+
+/**
+ * Dependencies for the authentication middleware
+ */
+export type AuthMiddlewareOptions = {
+  keySource: KeySource
+  verifyOptions: JwtVerifyOptions
+  userRepository: IUserRepository
+}
+
+/**
+ * How many provisioned user IDs an instance remembers (least recently seen are dropped)
+ */
+const PROVISIONED_CACHE_SIZE = 10_000
+
+/**
+ * Characters not allowed by the users.username_valid_chars constraint
+ */
+const INVALID_USERNAME_CHARS = /[^a-zA-Z0-9_-]/g
+
+/**
+ * Derives an initial username from IdP claims
+ *
+ * Tries the common profile claims, strips characters rejected by the users table
+ * constraints and falls back to `user_<first 8 chars of sub>` when nothing usable remains.
+ *
+ * @param claims - Verified JWT claims
+ * @param userId - User ID from the `sub` claim
+ * @returns Username satisfying username_valid_chars and username_length
+ */
+function usernameFromClaims(claims: JwtClaims, userId: string): string {
+  const metadata = (claims['user_metadata'] ?? {}) as Record<string, unknown>
+  const candidates = [
+    claims['preferred_username'],
+    metadata['user_name'],
+    metadata['preferred_username'],
+    claims['name'],
+    metadata['name'],
+  ]
+
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'string') continue
+    const sanitized = candidate.replace(INVALID_USERNAME_CHARS, '_').slice(0, 255)
+    if (sanitized.length >= 3 && /[a-zA-Z0-9]/.test(sanitized)) {
+      return sanitized
+    }
+  }
+
+  return `user_${userId.slice(0, 8)}`
+}
+
+/**
+ * Creates the authentication middleware
+ *
+ * Responds with 401 when the token is missing or invalid. Users recently provisioned
+ * by this instance are remembered so that the database is not hit on every request.
+ *
+ * @param options - Key source, expected claims and user repository
+ * @returns Hono middleware that sets `userId` and `userRole`
+ */
+export function createAuthMiddleware(options: AuthMiddlewareOptions) {
+  const { keySource, verifyOptions, userRepository } = options
+  // Insertion-ordered: re-adding a user on each request keeps the oldest entry first
+  const provisioned = new Set<string>()
+
+  return createMiddleware<Env>(async (c, next) => {
+    const authorization = c.req.header('Authorization')
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+    if (!match) {
+      c.header('WWW-Authenticate', 'Bearer')
+      return c.json({ error: 'Missing bearer token', code: 'UNAUTHORIZED' }, 401)
+    }
+
+    let claims: JwtClaims
+    try {
+      claims = await verifyJwt(match[1]!, keySource, verifyOptions)
+    } catch (error) {
+      if (error instanceof JwtVerificationError) {
+        c.header('WWW-Authenticate', 'Bearer error="invalid_token"')
+        return c.json(
+          { error: 'Invalid token', code: 'INVALID_TOKEN', details: error.message },
+          401,
+        )
+      }
+      throw error
+    }
+
+    const userId = claims.sub
+    if (typeof userId !== 'string' || !isUUID(userId)) {
+      c.header('WWW-Authenticate', 'Bearer error="invalid_token"')
+      return c.json(
+        { error: 'Invalid token', code: 'INVALID_TOKEN', details: 'sub claim must be a UUID' },
+        401,
+      )
+    }
+
+    if (provisioned.delete(userId)) {
+      provisioned.add(userId)
+    } else {
+      try {
+        await userRepository.provision(AsUserID(userId), usernameFromClaims(claims, userId))
+        provisioned.add(userId)
+        if (provisioned.size > PROVISIONED_CACHE_SIZE) {
+          provisioned.delete(provisioned.values().next().value!)
+        }
+      } catch (error) {
+        c.get('logger').error('Failed to provision user', { userId, error })
+        return c.json({ error: 'Failed to provision user', code: 'INTERNAL_ERROR' }, 500)
+      }
+    }
+
+    c.set('userId', userId)
+
+    // app_metadata can only be written with the service role key, so users cannot grant themselves roles
+    const appMetadata = (claims['app_metadata'] ?? {}) as Record<string, unknown>
+    if (typeof appMetadata['role'] === 'string') {
+      c.set('userRole', appMetadata['role'])
+    }
+
+    await next()
+  })
+}
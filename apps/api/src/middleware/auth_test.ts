@@ -0,0 +1,77 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse } from '../testing/app.ts'
+import { alice, ALICE_ID } from '../testing/fixtures.ts'
+
+Deno.test('auth middleware answers an expired token with 401 and invalid_token', async () => {
+  const app = createTestApp()
+  const token = await createTestToken(ALICE_ID, { exp: Math.floor(Date.now() / 1000) - 3600 })
+
+  const response = await app.request('/v1/users/@me', {
+    headers: { Authorization: `Bearer ${token}` },
+  })
+
+  const body = await parseResponse(app, 'get', '/v1/users/@me', response, 401)
+  assertEquals(body, { error: 'Invalid token', code: 'INVALID_TOKEN', details: 'Token expired' })
+  assertEquals(response.headers.get('WWW-Authenticate'), 'Bearer error="invalid_token"')
+})
+
+Deno.test('auth middleware rejects a sub that is not a UUID', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/v1/users/@me', {
+    headers: { Authorization: `Bearer ${await createTestToken('not-a-uuid')}` },
+  })
+
+  const body = await parseResponse(app, 'get', '/v1/users/@me', response, 401)
+  assertEquals(body.details, 'sub claim must be a UUID')
+})
+
+Deno.test('auth middleware provisions a user once per instance', async () => {
+  const provisioned: string[] = []
+  const app = createTestApp({
+    users: {
+      provision: (id, username) => {
+        provisioned.push(`${id}:${username}`)
+        return Promise.resolve(provisioned.length === 1)
+      },
+      findById: () => Promise.resolve(alice),
+    },
+  })
+  const token = await createTestToken(ALICE_ID, { preferred_username: 'alice smith' })
+
+  for (let i = 0; i < 3; i++) {
+    const response = await app.request('/v1/users/@me', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    await parseResponse(app, 'get', '/v1/users/@me', response, 200)
+  }
+
+  assertEquals(provisioned, [`${ALICE_ID}:alice_smith`])
+})
+
+Deno.test('auth middleware retries provisioning after a failure', async () => {
+  let attempts = 0
+  const app = createTestApp({
+    users: {
+      provision: () => {
+        attempts++
+        return attempts === 1
+          ? Promise.reject(new Error('connection refused'))
+          : Promise.resolve(true)
+      },
+      findById: () => Promise.resolve(alice),
+    },
+  })
+  const token = await createTestToken(ALICE_ID)
+
+  const failed = await app.request('/v1/users/@me', {
+    headers: { Authorization: `Bearer ${token}` },
+  })
+  const retried = await app.request('/v1/users/@me', {
+    headers: { Authorization: `Bearer ${token}` },
+  })
+
+  await parseResponse(app, 'get', '/v1/users/@me', failed, 500)
+  await parseResponse(app, 'get', '/v1/users/@me', retried, 200)
+  assertEquals(attempts, 2)
+})
@@ -0,0 +1,42 @@
+/**
+ * Global error handler (app.onError)
+ *
+ * Handlers return expected failures themselves; anything they throw ends up here and
+ * is answered with the `{ error, code }` envelope:
+ * - DomainError: its message, code and status (400/403/404/409/422/429)
+ * - HTTPException: its status, e.g. 400 INVALID_REQUEST for a request body that is not
+ *   valid JSON
+ * - anything else: 500 INTERNAL_ERROR, logged without exposing the message
+ */
+
+import type { ErrorHandler } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import type { Env } from '../lib/types.ts'
+import { DomainError, type ErrorCode } from '../lib/errors.ts'
+
+/**
+ * Code of an HTTPException by status (other 4xx: INVALID_REQUEST, 5xx: INTERNAL_ERROR)
+ */
+const HTTP_EXCEPTION_CODES: Partial<Record<number, ErrorCode>> = {
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+}
+
+export const errorHandler: ErrorHandler<Env> = (error, c) => {
+  if (error instanceof DomainError) {
+    return c.json({ error: error.message, code: error.code }, error.status)
+  }
+  if (error instanceof HTTPException) {
+    if (error.status === 400) {
+      return c.json({ error: `Invalid request: ${error.message}`, code: 'INVALID_REQUEST' }, 400)
+    }
+    if (error.status < 500) {
+      const code = HTTP_EXCEPTION_CODES[error.status] ?? 'INVALID_REQUEST'
+      return c.json({ error: error.message || 'Request failed', code }, error.status)
+    }
+  }
+
+  c.get('logger').error('Unhandled error', { method: c.req.method, path: c.req.path, error })
+  return c.json({ error: 'Internal server error', code: 'INTERNAL_ERROR' }, 500)
+}
@@ -0,0 +1,104 @@
+import { assertEquals } from '@std/assert'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { errorHandler } from './error-handler.ts'
+import type { Env } from '../lib/types.ts'
+import { ConflictError, TooManyRequestsError } from '../lib/errors.ts'
+import { createLogger, type LogLevel } from '../lib/logger.ts'
+import { createTestApp, createTestToken } from '../testing/app.ts'
+import { ALICE_ID } from '../testing/fixtures.ts'
+
+/**
+ * App whose only route throws `error`, with the handler's log lines collected in `logs`
+ */
+function createThrowingApp(error: unknown) {
+  const logs: [LogLevel, string][] = []
+  const app = new Hono<Env>()
+  app.use('*', async (c, next) => {
+    c.set('logger', createLogger({ write: (line, level) => logs.push([level, line]) }))
+    await next()
+  })
+  app.get('/', (c) => {
+    c.header('X-Set-Before-Throwing', 'yes')
+    throw error
+  })
+  app.onError(errorHandler)
+  return { app, logs }
+}
+
+Deno.test('errorHandler answers domain errors with their status and code', async () => {
+  const { app } = createThrowingApp(new ConflictError('WALLET_FROZEN', 'Wallet is frozen'))
+
+  const response = await app.request('/')
+
+  assertEquals(response.status, 409)
+  assertEquals(await response.json(), { error: 'Wallet is frozen', code: 'WALLET_FROZEN' })
+})
+
+Deno.test('errorHandler keeps headers set before a domain error was thrown', async () => {
+  const { app } = createThrowingApp(new TooManyRequestsError('Slow down'))
+
+  const response = await app.request('/')
+
+  assertEquals(response.status, 429)
+  assertEquals(response.headers.get('X-Set-Before-Throwing'), 'yes')
+  assertEquals(await response.json(), { error: 'Slow down', code: 'RATE_LIMITED' })
+})
+
+Deno.test('errorHandler gives HTTP exceptions the error envelope', async () => {
+  const badRequest = createThrowingApp(new HTTPException(400, { message: 'Malformed JSON' }))
+  const forbidden = createThrowingApp(new HTTPException(403, { message: 'Nope' }))
+  const payloadTooLarge = createThrowingApp(new HTTPException(413, { message: 'Too large' }))
+
+  assertEquals(await (await badRequest.app.request('/')).json(), {
+    error: 'Invalid request: Malformed JSON',
+    code: 'INVALID_REQUEST',
+  })
+  assertEquals(await (await forbidden.app.request('/')).json(), {
+    error: 'Nope',
+    code: 'FORBIDDEN',
+  })
+  const response = await payloadTooLarge.app.request('/')
+  assertEquals(response.status, 413)
+  assertEquals(await response.json(), { error: 'Too large', code: 'INVALID_REQUEST' })
+})
+
+Deno.test('errorHandler hides unexpected errors behind 500 INTERNAL_ERROR and logs them', async () => {
+  const { app, logs } = createThrowingApp(new Error('connection string has password=hunter2'))
+
+  const response = await app.request('/')
+
+  assertEquals(response.status, 500)
+  assertEquals(await response.json(), { error: 'Internal server error', code: 'INTERNAL_ERROR' })
+  assertEquals(logs.map(([level]) => level), ['error'])
+})
+
+Deno.test('unmatched routes answer 404 NOT_FOUND', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/v1/nothing-here', {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  assertEquals(response.status, 404)
+  assertEquals(await response.json(), {
+    error: 'Not Found',
+    code: 'NOT_FOUND',
+    details: '/v1/nothing-here',
+  })
+})
+
+Deno.test('admin routes answer non-admins with 403 FORBIDDEN', async () => {
+  const app = createTestApp()
+
+  const response = await app.request(`/admin/v1/users/${ALICE_ID}/restore`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  assertEquals(response.status, 403)
+  assertEquals(await response.json(), {
+    error: 'Forbidden: admin role required',
+    code: 'FORBIDDEN',
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Rate limiting middleware - per-user limits with a per-IP fallback
+ *
+ * Requests are sorted into limit groups (reads, writes and the stricter transfer
+ * creation) and counted per caller: the authenticated user when the authentication
+ * middleware ran before, the client IP otherwise. The `client` group counts every request
+ * of an IP before authentication, so that callers without a valid token are limited too.
+ * Every counted response carries the
+ * `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and `RateLimit-Policy`
+ * headers; requests over the limit fail with 429 RATE_LIMITED and `Retry-After`.
+ */
+
+import type { Context } from 'hono'
+import { createMiddleware } from 'hono/factory'
+import type { Env } from '../lib/types.ts'
+import type { RateLimitRule, RateLimitStore } from '../lib/rate-limit.ts'
+import { TooManyRequestsError } from '../lib/errors.ts'
+
+/**
+ * Limit groups, each with its own rule and counters
+ */
+export type RateLimitGroup = 'read' | 'write' | 'transfer' | 'client'
+
+/**
+ * Default rules (per caller, per minute)
+ */
+export const DEFAULT_RATE_LIMITS: Record<RateLimitGroup, RateLimitRule> = {
+  read: { limit: 300, windowMs: 60_000 },
+  write: { limit: 60, windowMs: 60_000 },
+  transfer: { limit: 20, windowMs: 60_000 },
+  client: { limit: 600, windowMs: 60_000 },
+}
+
+/**
+ * Routes whose POST creates a transfer (directly, scheduled or as an escrow hold)
+ */
+const TRANSFER_CREATION_PATHS = new Set(['/v1/transfers', '/v1/scheduled-transfers', '/v1/escrows'])
+
+/**
+ * Options for createRateLimitMiddleware()
+ */
+export type RateLimitMiddlewareOptions = {
+  store: RateLimitStore
+  /** Rule of each group (defaults to DEFAULT_RATE_LIMITS) */
+  rules?: Record<RateLimitGroup, RateLimitRule>
+  /** Picks the group of a request (defaults to rateLimitGroup()) */
+  group?: (c: Context<Env>) => RateLimitGroup
+}
+
+/**
+ * Grouping of the limiter that runs before authentication: every request of a client
+ *
+ * @returns The `client` group
+ */
+export function clientRateLimitGroup(): RateLimitGroup {
+  return 'client'
+}
+
+/**
+ * Default grouping: transfer creation, other writes, and reads
+ *
+ * @param c - Request context
+ * @returns Limit group of the request
+ */
+export function rateLimitGroup(c: Context<Env>): RateLimitGroup {
+  const method = c.req.method
+  if (method === 'GET' || method === 'HEAD') {
+    return 'read'
+  }
+  if (method === 'POST' && TRANSFER_CREATION_PATHS.has(c.req.path.replace(/\/$/, ''))) {
+    return 'transfer'
+  }
+  return 'write'
+}
+
+/**
+ * Client address for callers without a user ID
+ *
+ * Uses the last `X-Forwarded-For` entry, which the platform proxy appends; earlier
+ * entries are supplied by the client and could be rotated to evade the limit.
+ *
+ * @param c - Request context
+ * @returns Client IP, or `unknown` when no proxy header is present
+ */
+function clientIp(c: Context<Env>): string {
+  const forwarded = c.req.header('X-Forwarded-For')?.split(',').at(-1)?.trim()
+  return forwarded || c.req.header('X-Real-IP')?.trim() || 'unknown'
+}
+
+/**
+ * Creates the rate limiting middleware
+ *
+ * When the store fails the request is let through (and the failure logged), so that a
+ * counter outage does not take the API down with it.
+ *
+ * @param options - Counter store, rules and grouping
+ * @returns Hono middleware
+ * @throws TooManyRequestsError when the caller is over the group's limit
+ */
+export function createRateLimitMiddleware(options: RateLimitMiddlewareOptions) {
+  const { store, rules = DEFAULT_RATE_LIMITS, group = rateLimitGroup } = options
+
+  return createMiddleware<Env>(async (c, next) => {
+    const name = group(c)
+    const rule = rules[name]
+    const userId = c.get('userId')
+    const key = userId ? `${name}:user:${userId}` : `${name}:ip:${clientIp(c)}`
+
+    let hit
+    try {
+      hit = await store.hit(key, rule.windowMs)
+    } catch (error) {
+      c.get('logger').error('Rate limit store failed; request not limited', { key, error })
+      return await next()
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((hit.resetAt - Date.now()) / 1000))
+    c.header('RateLimit-Limit', String(rule.limit))
+    c.header('RateLimit-Remaining', String(Math.max(0, rule.limit - hit.hits)))
+    c.header('RateLimit-Reset', String(resetSeconds))
+    c.header('RateLimit-Policy', `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`)
+
+    if (hit.hits > rule.limit) {
+      c.header('Retry-After', String(resetSeconds))
+      throw new TooManyRequestsError(
+        `Rate limit exceeded: ${rule.limit} ${name} requests per ${rule.windowMs / 1000}s`,
+      )
+    }
+
+    await next()
+  })
+}
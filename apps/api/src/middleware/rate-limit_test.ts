@@ -0,0 +1,145 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse, type TestApp } from '../testing/app.ts'
+import { alice, ALICE_ID, BOB_ID } from '../testing/fixtures.ts'
+import {
+  InMemoryRateLimitStore,
+  type RateLimitRule,
+  type RateLimitStore,
+} from '../lib/rate-limit.ts'
+import type { RateLimitGroup } from './rate-limit.ts'
+
+const RULES: Record<RateLimitGroup, RateLimitRule> = {
+  read: { limit: 3, windowMs: 60_000 },
+  write: { limit: 3, windowMs: 60_000 },
+  transfer: { limit: 1, windowMs: 60_000 },
+  client: { limit: 10, windowMs: 60_000 },
+}
+
+/**
+ * Creates the app with RULES, counting in `store`
+ */
+function createLimitedApp(store: RateLimitStore = new InMemoryRateLimitStore()): TestApp {
+  return createTestApp(
+    { users: { findById: () => Promise.resolve(alice) } },
+    { rateLimitStore: store, rateLimits: RULES },
+  )
+}
+
+/**
+ * Calls the app `count` times with the same request
+ *
+ * @returns Status of each response
+ */
+async function statuses(app: TestApp, count: number, path: string, init: RequestInit = {}) {
+  const result: number[] = []
+  for (let i = 0; i < count; i++) {
+    const response = await app.request(path, init)
+    await response.body?.cancel()
+    result.push(response.status)
+  }
+  return result
+}
+
+/**
+ * Headers of an authenticated request from `ip`
+ */
+async function userHeaders(userId: string, ip = '203.0.113.7') {
+  return {
+    'Authorization': `Bearer ${await createTestToken(userId)}`,
+    'X-Forwarded-For': ip,
+  }
+}
+
+Deno.test('rate limiting reports the remaining budget in RateLimit-* headers', async () => {
+  const app = createLimitedApp()
+
+  const response = await app.request('/v1/users/@me', { headers: await userHeaders(ALICE_ID) })
+
+  await parseResponse(app, 'get', '/v1/users/@me', response, 200)
+  assertEquals(response.headers.get('RateLimit-Limit'), '3')
+  assertEquals(response.headers.get('RateLimit-Remaining'), '2')
+  assertEquals(response.headers.get('RateLimit-Reset'), '60')
+  assertEquals(response.headers.get('RateLimit-Policy'), '3;w=60')
+})
+
+Deno.test('rate limiting answers requests over the limit with 429 RATE_LIMITED', async () => {
+  const app = createLimitedApp()
+  const headers = await userHeaders(ALICE_ID)
+
+  assertEquals(await statuses(app, 3, '/v1/users/@me', { headers }), [200, 200, 200])
+  const response = await app.request('/v1/users/@me', { headers })
+
+  assertEquals(response.status, 429)
+  assertEquals(await response.json(), {
+    error: 'Rate limit exceeded: 3 read requests per 60s',
+    code: 'RATE_LIMITED',
+  })
+  assertEquals(response.headers.get('RateLimit-Remaining'), '0')
+  assertEquals(response.headers.get('Retry-After'), '60')
+})
+
+Deno.test('rate limiting limits transfer creation more strictly than reads', async () => {
+  const app = createLimitedApp()
+  const headers = await userHeaders(ALICE_ID)
+  // Invalid bodies are enough: the limit applies before validation
+  const transfer = { method: 'POST', headers, body: '{}' }
+
+  assertEquals(await statuses(app, 2, '/v1/transfers', transfer), [400, 429])
+  assertEquals(await statuses(app, 3, '/v1/users/@me', { headers }), [200, 200, 200])
+})
+
+Deno.test('rate limiting counts users separately, whatever their IP', async () => {
+  const app = createLimitedApp()
+
+  const alices = await statuses(app, 4, '/v1/users/@me', { headers: await userHeaders(ALICE_ID) })
+  const bobs = await statuses(app, 1, '/v1/users/@me', { headers: await userHeaders(BOB_ID) })
+
+  assertEquals(alices, [200, 200, 200, 429])
+  assertEquals(bobs, [200])
+})
+
+Deno.test('rate limiting counts public routes per client IP, apart from users', async () => {
+  const app = createLimitedApp()
+  const fromIp = { headers: { 'X-Forwarded-For': '198.51.100.1, 203.0.113.7' } }
+
+  const docs = await statuses(app, 4, '/openapi.json', fromIp)
+  const otherIp = await statuses(app, 1, '/openapi.json', {
+    headers: { 'X-Forwarded-For': '203.0.113.8' },
+  })
+  const user = await statuses(app, 1, '/v1/users/@me', { headers: await userHeaders(ALICE_ID) })
+
+  assertEquals(docs, [200, 200, 200, 429])
+  assertEquals(otherIp, [200])
+  assertEquals(user, [200])
+})
+
+Deno.test('rate limiting limits callers without a valid token by IP before authentication', async () => {
+  const app = createLimitedApp()
+  const invalid = {
+    headers: { 'Authorization': 'Bearer invalid', 'X-Forwarded-For': '203.0.113.9' },
+  }
+
+  const responses = await statuses(app, 11, '/v1/users/@me', invalid)
+
+  assertEquals(responses, [...Array(10).fill(401), 429])
+})
+
+Deno.test('rate limiting allows requests again once the window has passed', async () => {
+  let now = Date.now()
+  const app = createLimitedApp(new InMemoryRateLimitStore(() => now))
+  const headers = await userHeaders(ALICE_ID)
+
+  assertEquals(await statuses(app, 4, '/v1/users/@me', { headers }), [200, 200, 200, 429])
+  now += RULES.read.windowMs
+
+  assertEquals(await statuses(app, 1, '/v1/users/@me', { headers }), [200])
+})
+
+Deno.test('rate limiting lets requests through when the store fails', async () => {
+  const app = createLimitedApp({ hit: () => Promise.reject(new Error('database unavailable')) })
+
+  const response = await app.request('/v1/users/@me', { headers: await userHeaders(ALICE_ID) })
+
+  await parseResponse(app, 'get', '/v1/users/@me', response, 200)
+  assertEquals(response.headers.get('RateLimit-Limit'), null)
+})
@@ -0,0 +1,85 @@
+/**
+ * Request logging and metrics middleware
+ *
+ * Must run after the request ID middleware. Binds a logger carrying the request ID to
+ * the context (`c.get('logger')`), then logs one entry per request with status, latency
+ * and, once authentication has run, the user ID. Latency is recorded per matched route
+ * and error responses are counted by their `code`.
+ */
+
+import { createMiddleware } from 'hono/factory'
+import { routePath } from 'hono/route'
+import type { Env } from '../lib/types.ts'
+import type { Logger } from '../lib/logger.ts'
+import type { ApiMetrics } from '../lib/metrics.ts'
+
+/**
+ * Reads the `code` of a JSON error response
+ *
+ * @param response - Response with an error status
+ * @returns Error code, or undefined for bodies without one
+ */
+async function readErrorCode(response: Response): Promise<string | undefined> {
+  if (!response.headers.get('Content-Type')?.includes('application/json')) {
+    return undefined
+  }
+  try {
+    const body = await response.clone().json() as { code?: unknown }
+    return typeof body.code === 'string' ? body.code : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Creates the request logging middleware
+ *
+ * @param logger - Root logger
+ * @param metrics - Metrics recorded per request
+ * @returns Hono middleware that sets `logger`
+ */
+export function createRequestLogging(logger: Logger, metrics: ApiMetrics) {
+  return createMiddleware<Env>(async (c, next) => {
+    const requestLogger = logger.child({ requestId: c.get('requestId') })
+    c.set('logger', requestLogger)
+    requestLogger.debug('request received', {
+      method: c.req.method,
+      path: c.req.path,
+      headers: c.req.raw.headers,
+    })
+
+    const startedAt = performance.now()
+    await next()
+    const durationMs = performance.now() - startedAt
+
+    const status = c.res.status
+    // Route pattern (e.g. /v1/escrows/:id) keeps the label set small
+    const route = routePath(c)
+    const code = status >= 400 ? await readErrorCode(c.res) : undefined
+
+    metrics.requestDuration.observe(
+      { method: c.req.method, route, status: String(status) },
+      durationMs / 1000,
+    )
+    if (code && status < 500) {
+      metrics.domainErrors.inc({ code })
+    }
+
+    const fields = {
+      method: c.req.method,
+      path: c.req.path,
+      route,
+      status,
+      durationMs: Math.round(durationMs * 10) / 10,
+      userId: c.get('userId'),
+      code,
+    }
+    if (status >= 500) {
+      requestLogger.error('request completed', fields)
+    } else if (status >= 400) {
+      requestLogger.warn('request completed', fields)
+    } else {
+      requestLogger.info('request completed', fields)
+    }
+  })
+}
@@ -0,0 +1,26 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken } from '../testing/app.ts'
+import { alice, ALICE_ID } from '../testing/fixtures.ts'
+import { createLogger } from '../lib/logger.ts'
+
+Deno.test('request logging never writes the bearer token', async () => {
+  const lines: string[] = []
+  const app = createTestApp(
+    { users: { findById: () => Promise.resolve(alice) } },
+    { logger: createLogger({ level: 'debug', write: (line) => lines.push(line) }) },
+  )
+  const token = await createTestToken(ALICE_ID)
+
+  const response = await app.request('/v1/users/@me', {
+    headers: { 'Authorization': `Bearer ${token}`, 'X-Request-Id': 'req-1' },
+  })
+  await response.body?.cancel()
+
+  const entries = lines.map((line) => JSON.parse(line))
+  assertEquals(entries.map((entry) => [entry.msg, entry.requestId]), [
+    ['request received', 'req-1'],
+    ['request completed', 'req-1'],
+  ])
+  assertEquals(entries[0].headers.authorization, '[REDACTED]')
+  assertEquals(lines.some((line) => line.includes(token)), false)
+})
@@ -0,0 +1,159 @@
+/**
+ * AuditLogRepository - Supabase implementation of IAuditLogRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from '../lib/database.types.ts'
+import type { AuditLogPage, AuditLogQuery, IAuditLogRepository } from './IAuditLogRepository.ts'
+import {
+  type AuditAction,
+  AuditLogEntity,
+  type AuditLogID,
+  AsAuditLogID,
+} from '../entities/AuditLogEntity.ts'
+import { AsTransactionID, type TransactionID } from '../entities/TransactionEntity.ts'
+import { AsUserID } from '../entities/UserEntity.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import { databaseError } from '../lib/errors.ts'
+
+/**
+ * Maps an audit_log table row to a domain entity
+ *
+ * @param row - Row from the audit_log table
+ * @returns AuditLogEntity instance
+ */
+export function auditLogFromRow(row: Tables<'audit_log'>): AuditLogEntity {
+  return new AuditLogEntity(
+    AsAuditLogID(row.id),
+    AsUserID(row.actor_user_id),
+    row.action as AuditAction,
+    row.target_wallet_id ? AsWalletID(row.target_wallet_id) : null,
+    row.reason,
+    row.details as Record<string, unknown>,
+    row.created_at,
+  )
+}
+
+/**
+ * Supabase implementation of AuditLog repository
+ */
+export class AuditLogRepository implements IAuditLogRepository {
+  private readonly tableName = 'audit_log'
+
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Retrieves an audit entry by ID
+   *
+   * @param id - AuditLogID (branded type)
+   * @returns Promise resolving to AuditLogEntity or null if not found
+   * @throws Error if database query fails
+   */
+  async findById(id: AuditLogID): Promise<AuditLogEntity | null> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch audit entry by ID')
+    }
+
+    return data ? auditLogFromRow(data) : null
+  }
+
+  /**
+   * Resolves a transaction's audit entry through transactions.audit_log_id
+   *
+   * @param transactionId - Transaction to look up
+   * @returns Promise resolving to AuditLogEntity or null
+   * @throws Error if database query fails
+   */
+  async findByTransactionId(transactionId: TransactionID): Promise<AuditLogEntity | null> {
+    const { data, error } = await this.client
+      .from('transactions')
+      .select('audit_log_id')
+      .eq('id', transactionId)
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch audit entry by transaction')
+    }
+
+    return data?.audit_log_id ? this.findById(AsAuditLogID(data.audit_log_id)) : null
+  }
+
+  /**
+   * Lists the transactions referencing an audit entry, oldest first
+   *
+   * @param id - AuditLogID (branded type)
+   * @returns Promise resolving to transaction IDs
+   * @throws Error if database query fails
+   */
+  async listTransactionIds(id: AuditLogID): Promise<TransactionID[]> {
+    const { data, error } = await this.client
+      .from('transactions')
+      .select('id')
+      .eq('audit_log_id', id)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch audit entry transactions')
+    }
+
+    return data.map((row) => AsTransactionID(row.id))
+  }
+
+  /**
+   * Lists audit entries, keyset-paginated on (created_at, id)
+   *
+   * Fetches one extra row to detect whether another page exists.
+   *
+   * @param query - Filters and page position
+   * @returns Promise resolving to one page of entries
+   * @throws Error if database query fails
+   */
+  async list(query: AuditLogQuery): Promise<AuditLogPage> {
+    let request = this.client.from(this.tableName).select('*')
+
+    if (query.actorUserId) {
+      request = request.eq('actor_user_id', query.actorUserId)
+    }
+    if (query.action) {
+      request = request.eq('action', query.action)
+    }
+    if (query.targetWalletId) {
+      request = request.eq('target_wallet_id', query.targetWalletId)
+    }
+    if (query.createdFrom !== undefined) {
+      request = request.gte('created_at', query.createdFrom)
+    }
+    if (query.createdTo !== undefined) {
+      request = request.lt('created_at', query.createdTo)
+    }
+    if (query.cursor) {
+      const { createdAt, id } = query.cursor
+      request = request.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${id})`)
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(query.limit + 1)
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch audit log')
+    }
+
+    const rows = data.slice(0, query.limit)
+    const last = rows[rows.length - 1]
+    return {
+      items: rows.map(auditLogFromRow),
+      nextCursor: data.length > query.limit && last
+        ? { createdAt: last.created_at, id: last.id }
+        : null,
+    }
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * DistributionRepository - Supabase implementation of IDistributionRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types.ts'
+import {
+  type DistributionPlan,
+  type DistributionRequest,
+  type DistributionResult,
+  type IDistributionRepository,
+} from './IDistributionRepository.ts'
+import { AsAuditLogID } from '../entities/AuditLogEntity.ts'
+import { AsTransactionID } from '../entities/TransactionEntity.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import { databaseError } from '../lib/errors.ts'
+
+/**
+ * Supabase implementation of Distribution repository
+ */
+export class DistributionRepository implements IDistributionRepository {
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Validates a distribution via plan_distribution()
+   *
+   * @param request - System account and recipients
+   * @returns Promise resolving to the distribution plan
+   * @throws DomainError if the distribution is invalid
+   * @throws Error if the database call fails
+   */
+  async plan(request: DistributionRequest): Promise<DistributionPlan> {
+    const { data, error } = await this.client.rpc('plan_distribution', {
+      account_name: request.systemAccountName,
+      recipient_wallet_ids: request.recipients.map((recipient) => recipient.walletId),
+      amounts: request.recipients.map((recipient) => recipient.amount),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to plan distribution')
+    }
+
+    const row = data[0]
+    if (!row) {
+      throw new Error('Failed to plan distribution: no result returned')
+    }
+
+    return {
+      systemWalletId: AsWalletID(row.system_wallet_id),
+      systemBalance: row.system_balance,
+      totalAmount: row.total_amount,
+      requiredIssuance: row.required_issuance,
+    }
+  }
+
+  /**
+   * Executes a distribution via distribute_tokens()
+   *
+   * Transaction and audit entry IDs are generated here (application-generated
+   * UUIDs, design.md §7).
+   *
+   * @param request - System account and recipients
+   * @param reason - Audit reason
+   * @param actorId - Administrator performing the distribution
+   * @returns Promise resolving to the created transactions
+   * @throws DomainError if the distribution is invalid
+   * @throws Error if the database call fails
+   */
+  async distribute(
+    request: DistributionRequest,
+    reason: string,
+    actorId: UserID,
+  ): Promise<DistributionResult> {
+    const auditLogId = crypto.randomUUID()
+    const { data, error } = await this.client.rpc('distribute_tokens', {
+      account_name: request.systemAccountName,
+      recipient_wallet_ids: request.recipients.map((recipient) => recipient.walletId),
+      amounts: request.recipients.map((recipient) => recipient.amount),
+      transaction_ids: request.recipients.map(() => crypto.randomUUID()),
+      issuance_transaction_id: crypto.randomUUID(),
+      reason,
+      actor_uuid: actorId,
+      audit_uuid: auditLogId,
+      ...(request.memo && { distribution_memo: request.memo }),
+      ...(request.metadata && { distribution_metadata: request.metadata }),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to distribute tokens')
+    }
+
+    const issuance = data.find((row) => row.is_issuance)
+    return {
+      auditLogId: AsAuditLogID(auditLogId),
+      issuanceTransactionId: issuance ? AsTransactionID(issuance.transaction_id) : null,
+      issuedAmount: issuance?.amount ?? 0,
+      transactions: data
+        .filter((row) => !row.is_issuance)
+        .map((row) => ({
+          id: AsTransactionID(row.transaction_id),
+          toWalletId: AsWalletID(row.to_wallet_id),
+          amount: row.amount,
+        })),
+    }
+  }
+}
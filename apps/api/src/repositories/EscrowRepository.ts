@@ -0,0 +1,249 @@
+/**
+ * EscrowRepository - Supabase implementation of IEscrowRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from '../lib/database.types.ts'
+import {
+  type CreateEscrowParams,
+  type EscrowPage,
+  type EscrowQuery,
+  type IEscrowRepository,
+} from './IEscrowRepository.ts'
+import {
+  AsEscrowID,
+  EscrowEntity,
+  type EscrowID,
+  type EscrowStatus,
+} from '../entities/EscrowEntity.ts'
+import { AsTransactionID, type TransactionMetadata } from '../entities/TransactionEntity.ts'
+import { AsUserID, type UserID } from '../entities/UserEntity.ts'
+import { AsWalletID, type WalletID } from '../entities/WalletEntity.ts'
+import { databaseError } from '../lib/errors.ts'
+
+/**
+ * Maps an escrows table row to a domain entity
+ *
+ * @param row - Row from the escrows table
+ * @returns EscrowEntity instance
+ */
+export function escrowFromRow(row: Tables<'escrows'>): EscrowEntity {
+  return new EscrowEntity(
+    AsEscrowID(row.id),
+    AsUserID(row.sender_user_id),
+    AsWalletID(row.sender_wallet_id),
+    AsWalletID(row.beneficiary_wallet_id),
+    row.amount,
+    row.status as EscrowStatus,
+    row.expires_at,
+    AsTransactionID(row.hold_transaction_id),
+    row.settlement_transaction_id ? AsTransactionID(row.settlement_transaction_id) : null,
+    row.settled_by_user_id ? AsUserID(row.settled_by_user_id) : null,
+    row.settled_at,
+    row.memo,
+    row.metadata as TransactionMetadata,
+    row.created_at,
+    row.updated_at,
+  )
+}
+
+/**
+ * Supabase implementation of Escrow repository
+ */
+export class EscrowRepository implements IEscrowRepository {
+  private readonly tableName = 'escrows'
+
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Retrieves an escrow by ID
+   *
+   * @param id - EscrowID (branded type)
+   * @returns Promise resolving to EscrowEntity or null if not found
+   * @throws Error if database query fails
+   */
+  async findById(id: EscrowID): Promise<EscrowEntity | null> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch escrow by ID')
+    }
+
+    return data ? escrowFromRow(data) : null
+  }
+
+  /**
+   * Locks tokens via the create_escrow() database function
+   *
+   * @param params - Sender, beneficiary, amount and expiry
+   * @returns Promise resolving to the created escrow
+   * @throws DomainError if a business rule rejects the escrow
+   * @throws Error if the database call fails
+   */
+  async create(params: CreateEscrowParams): Promise<EscrowEntity> {
+    const id = AsEscrowID(crypto.randomUUID())
+    const { error } = await this.client.rpc('create_escrow', {
+      escrow_uuid: id,
+      user_uuid: params.userId,
+      beneficiary_wallet_uuid: params.beneficiaryWalletId,
+      escrow_amount: params.amount,
+      escrow_expires_at: params.expiresAt,
+      hold_transaction_uuid: crypto.randomUUID(),
+      ...(params.memo && { escrow_memo: params.memo }),
+      ...(params.metadata && { escrow_metadata: params.metadata }),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to create escrow')
+    }
+
+    return await this.findAfterWrite(id, 'create escrow')
+  }
+
+  /**
+   * Lists escrows the user sent or is the beneficiary of, newest first
+   *
+   * Fetches one extra row to detect whether another page exists.
+   *
+   * @param userId - Participant
+   * @param walletId - The participant's wallet (matches escrows received)
+   * @param query - Filters and page position
+   * @returns Promise resolving to one page of escrows
+   * @throws Error if database query fails
+   */
+  async listByParticipant(
+    userId: UserID,
+    walletId: WalletID,
+    query: EscrowQuery,
+  ): Promise<EscrowPage> {
+    let request = this.client.from(this.tableName).select('*')
+
+    if (query.role === 'sent') {
+      request = request.eq('sender_user_id', userId)
+    } else if (query.role === 'received') {
+      request = request.eq('beneficiary_wallet_id', walletId)
+    } else {
+      request = request.or(`sender_user_id.eq.${userId},beneficiary_wallet_id.eq.${walletId}`)
+    }
+    if (query.status) {
+      request = request.eq('status', query.status)
+    }
+    if (query.cursor) {
+      const { createdAt, id } = query.cursor
+      request = request.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${id})`)
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(query.limit + 1)
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch escrows')
+    }
+
+    const rows = data.slice(0, query.limit)
+    const last = rows[rows.length - 1]
+    return {
+      items: rows.map(escrowFromRow),
+      nextCursor: data.length > query.limit && last
+        ? { createdAt: last.created_at, id: last.id }
+        : null,
+    }
+  }
+
+  /**
+   * Pays a held escrow out via the release_escrow() database function
+   *
+   * @param id - Target escrow
+   * @param userId - Acting user (must be the sender)
+   * @param asOf - Current time (Unix ms)
+   * @returns Promise resolving to the released escrow
+   * @throws DomainError if a business rule rejects the release
+   * @throws Error if the database call fails
+   */
+  async release(id: EscrowID, userId: UserID, asOf: number): Promise<EscrowEntity> {
+    const { error } = await this.client.rpc('release_escrow', {
+      escrow_uuid: id,
+      user_uuid: userId,
+      settlement_transaction_uuid: crypto.randomUUID(),
+      as_of: asOf,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to release escrow')
+    }
+
+    return await this.findAfterWrite(id, 'release escrow')
+  }
+
+  /**
+   * Returns a held escrow via the refund_escrow() database function
+   *
+   * @param id - Target escrow
+   * @param userId - Acting user, or null for the automatic expiry refund
+   * @param asOf - Current time (Unix ms)
+   * @returns Promise resolving to the refunded escrow
+   * @throws DomainError if a business rule rejects the refund
+   * @throws Error if the database call fails
+   */
+  async refund(id: EscrowID, userId: UserID | null, asOf: number): Promise<EscrowEntity> {
+    const { error } = await this.client.rpc('refund_escrow', {
+      escrow_uuid: id,
+      // NULL marks the expiry refund
+      user_uuid: userId,
+      settlement_transaction_uuid: crypto.randomUUID(),
+      as_of: asOf,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to refund escrow')
+    }
+
+    return await this.findAfterWrite(id, 'refund escrow')
+  }
+
+  /**
+   * Lists held escrows that have expired (idx_escrows_expiring)
+   *
+   * @param asOf - Current time (Unix ms)
+   * @param limit - Maximum number of escrows
+   * @returns Promise resolving to the expired escrow IDs, earliest first
+   * @throws Error if database query fails
+   */
+  async listExpired(asOf: number, limit: number): Promise<EscrowID[]> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .select('id')
+      .eq('status', 'held')
+      .lte('expires_at', asOf)
+      .order('expires_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch expired escrows')
+    }
+
+    return data.map((row) => AsEscrowID(row.id))
+  }
+
+  /**
+   * Re-reads an escrow after a write
+   *
+   * @param id - Escrow written by the previous call
+   * @param action - Description of the write, for the error message
+   * @returns Promise resolving to the current escrow
+   * @throws Error if the escrow cannot be read back
+   */
+  private async findAfterWrite(id: EscrowID, action: string): Promise<EscrowEntity> {
+    const escrow = await this.findById(id)
+    if (!escrow) {
+      throw new Error(`Failed to ${action}: escrow missing after write`)
+    }
+    return escrow
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * IAuditLogRepository - Repository interface for the administrative audit log
+ *
+ * The audit log is append-only and written by the administrative database
+ * functions themselves, so the contract only reads it.
+ */
+
+import type { AuditAction, AuditLogEntity, AuditLogID } from '../entities/AuditLogEntity.ts'
+import type { TransactionID } from '../entities/TransactionEntity.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import type { WalletID } from '../entities/WalletEntity.ts'
+import type { KeysetCursor } from '../lib/cursor.ts'
+
+/**
+ * Filters and page position for audit log queries
+ */
+export type AuditLogQuery = {
+  /** Page size */
+  limit: number
+  /** Position after which to continue (from the previous page) */
+  cursor?: KeysetCursor
+  actorUserId?: UserID
+  action?: AuditAction
+  targetWalletId?: WalletID
+  /** Inclusive lower bound on created_at (Unix ms) */
+  createdFrom?: number
+  /** Exclusive upper bound on created_at (Unix ms) */
+  createdTo?: number
+}
+
+/**
+ * One page of audit entries, newest first
+ */
+export type AuditLogPage = {
+  items: AuditLogEntity[]
+  /** Position of the last item, or null if this is the last page */
+  nextCursor: KeysetCursor | null
+}
+
+/**
+ * Repository contract for audit log read operations
+ */
+export interface IAuditLogRepository {
+  /**
+   * Retrieves an audit entry by ID
+   *
+   * @param id - AuditLogID (branded type)
+   * @returns Promise resolving to AuditLogEntity or null if not found
+   */
+  findById(id: AuditLogID): Promise<AuditLogEntity | null>
+
+  /**
+   * Resolves the audit entry of the administrative operation that created a transaction
+   *
+   * @param transactionId - Transaction to look up
+   * @returns Promise resolving to AuditLogEntity, or null if the transaction does not
+   *   exist or was not created by an administrative operation
+   */
+  findByTransactionId(transactionId: TransactionID): Promise<AuditLogEntity | null>
+
+  /**
+   * Lists the transactions created by the operation an audit entry records
+   *
+   * @param id - AuditLogID (branded type)
+   * @returns Promise resolving to transaction IDs (empty for operations without transactions)
+   */
+  listTransactionIds(id: AuditLogID): Promise<TransactionID[]>
+
+  /**
+   * Lists audit entries matching the query, newest first
+   *
+   * @param query - Filters and page position
+   * @returns Promise resolving to one page of entries
+   */
+  list(query: AuditLogQuery): Promise<AuditLogPage>
+}
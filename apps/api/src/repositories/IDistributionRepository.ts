@@ -0,0 +1,90 @@
+/**
+ * IDistributionRepository - Repository interface for batch distributions
+ *
+ * A distribution moves tokens from a system account to many user wallets in one
+ * all-or-nothing operation, issuing the shortfall first (features.md UC-2).
+ */
+
+import type { AuditLogID } from '../entities/AuditLogEntity.ts'
+import type { TransactionID, TransactionMetadata } from '../entities/TransactionEntity.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import type { WalletID } from '../entities/WalletEntity.ts'
+
+/**
+ * One line of a distribution
+ */
+export type DistributionRecipient = {
+  walletId: WalletID
+  amount: number
+}
+
+/**
+ * Distribution input shared by planning and execution
+ */
+export type DistributionRequest = {
+  /** Name of the distributing system account */
+  systemAccountName: string
+  /** At most 100 distinct active user wallets */
+  recipients: DistributionRecipient[]
+  /** Sanitized memo for every distribution transaction (not used when planning) */
+  memo?: string | null
+  /** Metadata for every created transaction (not used when planning) */
+  metadata?: TransactionMetadata
+}
+
+/**
+ * Outcome of validating a distribution without executing it
+ */
+export type DistributionPlan = {
+  systemWalletId: WalletID
+  systemBalance: number
+  totalAmount: number
+  /** Amount that will be issued via self-transfer before distributing (0 if balance suffices) */
+  requiredIssuance: number
+}
+
+/**
+ * Transactions created by an executed distribution
+ */
+export type DistributionResult = {
+  /** Audit entry recording the distribution; every created transaction references it */
+  auditLogId: AuditLogID
+  /** Auto-issuance transaction, or null if the system balance was sufficient */
+  issuanceTransactionId: TransactionID | null
+  issuedAmount: number
+  transactions: {
+    id: TransactionID
+    toWalletId: WalletID
+    amount: number
+  }[]
+}
+
+/**
+ * Repository contract for batch distribution operations
+ */
+export interface IDistributionRepository {
+  /**
+   * Validates a distribution and computes the required issuance without writing anything
+   *
+   * @param request - System account and recipients
+   * @returns Promise resolving to the distribution plan
+   * @throws DomainError if the distribution is invalid (unknown account, invalid or frozen
+   *   recipient, malformed lists)
+   */
+  plan(request: DistributionRequest): Promise<DistributionPlan>
+
+  /**
+   * Executes a distribution atomically, including any auto-issuance
+   *
+   * @param request - System account and recipients
+   * @param reason - Audit reason (required, non-empty)
+   * @param actorId - Administrator performing the distribution
+   * @returns Promise resolving to the created transactions
+   * @throws DomainError if the distribution is invalid or the reason is missing
+   */
+  distribute(
+    request: DistributionRequest,
+    reason: string,
+    actorId: UserID,
+  ): Promise<DistributionResult>
+}
@@ -0,0 +1,116 @@
+/**
+ * IEscrowRepository - Repository interface for escrow holds
+ *
+ * Every operation moves tokens through the escrow system account's wallet with
+ * the regular transaction triggers, so balance and frozen checks apply as for
+ * any transfer.
+ */
+
+import type { EscrowEntity, EscrowID, EscrowStatus } from '../entities/EscrowEntity.ts'
+import type { TransactionMetadata } from '../entities/TransactionEntity.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import type { WalletID } from '../entities/WalletEntity.ts'
+import type { KeysetCursor } from '../lib/cursor.ts'
+
+/**
+ * Parameters for locking tokens from the user's wallet into an escrow
+ */
+export type CreateEscrowParams = {
+  userId: UserID
+  beneficiaryWalletId: WalletID
+  amount: number
+  /** From this time (Unix ms) the escrow can no longer be released */
+  expiresAt: number
+  memo?: string | null
+  metadata?: TransactionMetadata
+}
+
+/**
+ * Filters and page position for listing a user's escrows
+ */
+export type EscrowQuery = {
+  /** Page size */
+  limit: number
+  /** Position after which to continue (from the previous page) */
+  cursor?: KeysetCursor
+  /** sent = created by the user, received = the user is the beneficiary (default both) */
+  role?: 'sent' | 'received'
+  status?: EscrowStatus
+}
+
+/**
+ * One page of escrows, newest first
+ */
+export type EscrowPage = {
+  items: EscrowEntity[]
+  /** Position of the last item, or null if there are no more pages */
+  nextCursor: KeysetCursor | null
+}
+
+/**
+ * Repository contract for escrow data access operations
+ * All methods use Entity types (not raw database types)
+ */
+export interface IEscrowRepository {
+  /**
+   * Retrieves an escrow by ID
+   *
+   * @param id - EscrowID (branded type)
+   * @returns Promise resolving to EscrowEntity or null if not found
+   */
+  findById(id: EscrowID): Promise<EscrowEntity | null>
+
+  /**
+   * Locks tokens from the user's wallet into a new escrow
+   *
+   * @param params - Sender, beneficiary, amount and expiry
+   * @returns Promise resolving to the created escrow
+   * @throws DomainError if the sender or beneficiary is not active, the
+   *   beneficiary or sender wallet is frozen, or the balance is insufficient
+   */
+  create(params: CreateEscrowParams): Promise<EscrowEntity>
+
+  /**
+   * Lists escrows the user sent or is the beneficiary of, newest first
+   *
+   * @param userId - Participant
+   * @param walletId - The participant's wallet (matches escrows received)
+   * @param query - Filters and page position
+   * @returns Promise resolving to one page of escrows
+   */
+  listByParticipant(userId: UserID, walletId: WalletID, query: EscrowQuery): Promise<EscrowPage>
+
+  /**
+   * Pays a held escrow to its beneficiary
+   *
+   * @param id - Target escrow
+   * @param userId - Acting user (must be the sender)
+   * @param asOf - Current time (Unix ms), judged against expiresAt
+   * @returns Promise resolving to the released escrow
+   * @throws DomainError if the user is not the sender, the escrow is settled
+   *   or expired, or the beneficiary can no longer receive tokens
+   */
+  release(id: EscrowID, userId: UserID, asOf: number): Promise<EscrowEntity>
+
+  /**
+   * Returns a held escrow to its sender
+   *
+   * @param id - Target escrow
+   * @param userId - Acting user (beneficiary at any time, sender once expired),
+   *   or null for the automatic expiry refund
+   * @param asOf - Current time (Unix ms), judged against expiresAt
+   * @returns Promise resolving to the refunded escrow
+   * @throws DomainError if the user may not refund yet, the escrow is settled,
+   *   or the sender wallet is frozen
+   */
+  refund(id: EscrowID, userId: UserID | null, asOf: number): Promise<EscrowEntity>
+
+  /**
+   * Lists held escrows that have expired, earliest first
+   *
+   * @param asOf - Current time (Unix ms)
+   * @param limit - Maximum number of escrows
+   * @returns Promise resolving to the expired escrow IDs
+   */
+  listExpired(asOf: number, limit: number): Promise<EscrowID[]>
+}
@@ -0,0 +1,33 @@
+/**
+ * IReconciliationRepository - Repository interface for ledger reconciliation
+ *
+ * wallets.balance is denormalized from the immutable transactions ledger; this
+ * contract reports where the two disagree.
+ */
+
+import type { WalletID } from '../entities/WalletEntity.ts'
+
+/**
+ * A wallet that failed reconciliation
+ */
+export type WalletDiscrepancy = {
+  walletId: WalletID
+  /** wallets.balance */
+  storedBalance: number
+  /** Balance replayed from transactions */
+  ledgerBalance: number
+  /** Wallet is referenced by neither a user nor a system account */
+  isOrphan: boolean
+}
+
+/**
+ * Repository contract for reconciliation read operations
+ */
+export interface IReconciliationRepository {
+  /**
+   * Lists wallets whose stored balance differs from the ledger, or that have no owner
+   *
+   * @returns Promise resolving to discrepancies (empty if the ledger is consistent)
+   */
+  findDiscrepancies(): Promise<WalletDiscrepancy[]>
+}
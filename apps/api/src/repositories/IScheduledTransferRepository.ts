@@ -0,0 +1,146 @@
+/**
+ * IScheduledTransferRepository - Repository interface for scheduled transfers
+ *
+ * Covers the user-facing schedule lifecycle (create, list, cancel) and the
+ * executor operations that materialize due occurrences into the ledger.
+ */
+
+import type {
+  ScheduledTransferEntity,
+  ScheduledTransferID,
+  ScheduledTransferRun,
+  ScheduleRecurrence,
+  ScheduleStatus,
+} from '../entities/ScheduledTransferEntity.ts'
+import type { TransactionID, TransactionMetadata } from '../entities/TransactionEntity.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import type { WalletID } from '../entities/WalletEntity.ts'
+import type { KeysetCursor } from '../lib/cursor.ts'
+
+/**
+ * Parameters for scheduling a transfer from the user's own wallet
+ */
+export type CreateScheduledTransferParams = {
+  userId: UserID
+  toWalletId: WalletID
+  amount: number
+  recurrence: ScheduleRecurrence
+  /** First occurrence (Unix ms) */
+  startsAt: number
+  /** No occurrence after this time (Unix ms, inclusive); recurring only */
+  endsAt?: number
+  /** Maximum number of occurrences; recurring only */
+  maxRuns?: number
+  memo?: string | null
+  metadata?: TransactionMetadata
+}
+
+/**
+ * Filters and page position for listing a user's schedules
+ */
+export type ScheduledTransferQuery = {
+  /** Page size */
+  limit: number
+  /** Position after which to continue (from the previous page) */
+  cursor?: KeysetCursor
+  status?: ScheduleStatus
+}
+
+/**
+ * One page of schedules, newest first
+ */
+export type ScheduledTransferPage = {
+  items: ScheduledTransferEntity[]
+  /** Position of the last item, or null if there are no more pages */
+  nextCursor: KeysetCursor | null
+}
+
+/**
+ * Result of processing one occurrence
+ *
+ * - executed: the transfer was created
+ * - failed: the transfer was rejected (recorded on the schedule as a run)
+ * - skipped: nothing was due (already processed by another executor, or no longer active)
+ */
+export type ScheduledExecution = {
+  outcome: 'executed' | 'failed' | 'skipped'
+  transactionId: TransactionID | null
+  error: string | null
+  /** Schedule state after the call */
+  status: ScheduleStatus
+  nextRunAt: number | null
+}
+
+/**
+ * Repository contract for scheduled transfer data access operations
+ * All methods use Entity types (not raw database types)
+ */
+export interface IScheduledTransferRepository {
+  /**
+   * Retrieves a schedule by ID
+   *
+   * @param id - ScheduledTransferID (branded type)
+   * @returns Promise resolving to ScheduledTransferEntity or null if not found
+   */
+  findById(id: ScheduledTransferID): Promise<ScheduledTransferEntity | null>
+
+  /**
+   * Schedules a transfer from the user's wallet
+   *
+   * Balance and frozen state are checked when each occurrence runs, not here.
+   *
+   * @param params - Owner, recipient, amount and recurrence
+   * @returns Promise resolving to the created schedule
+   * @throws DomainError if the sender or recipient is not active
+   */
+  create(params: CreateScheduledTransferParams): Promise<ScheduledTransferEntity>
+
+  /**
+   * Lists a user's schedules, newest first
+   *
+   * @param userId - Schedule owner
+   * @param query - Filters and page position
+   * @returns Promise resolving to one page of schedules
+   */
+  listByUser(userId: UserID, query: ScheduledTransferQuery): Promise<ScheduledTransferPage>
+
+  /**
+   * Lists the processed occurrences of a schedule, newest first
+   *
+   * @param id - Target schedule
+   * @returns Promise resolving to the schedule's runs
+   */
+  listRuns(id: ScheduledTransferID): Promise<ScheduledTransferRun[]>
+
+  /**
+   * Cancels an active schedule owned by the user
+   *
+   * @param id - Target schedule
+   * @param userId - Schedule owner
+   * @returns Promise resolving to the cancelled schedule
+   * @throws DomainError if the schedule does not exist for this user
+   *   or is no longer active
+   */
+  cancel(id: ScheduledTransferID, userId: UserID): Promise<ScheduledTransferEntity>
+
+  /**
+   * Lists active schedules whose next occurrence is due, earliest first
+   *
+   * @param asOf - Current time (Unix ms)
+   * @param limit - Maximum number of schedules
+   * @returns Promise resolving to the due schedule IDs
+   */
+  listDue(asOf: number, limit: number): Promise<ScheduledTransferID[]>
+
+  /**
+   * Processes the next occurrence of a schedule if it is due
+   *
+   * Safe to call concurrently: each occurrence is processed exactly once.
+   *
+   * @param id - Target schedule
+   * @param asOf - Current time (Unix ms)
+   * @returns Promise resolving to the outcome
+   * @throws Error if the schedule does not exist or the database call fails
+   */
+  execute(id: ScheduledTransferID, asOf: number): Promise<ScheduledExecution>
+}
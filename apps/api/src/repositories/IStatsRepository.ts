@@ -0,0 +1,52 @@
+/**
+ * IStatsRepository - Repository interface for economic statistics (features.md UC-5)
+ */
+
+/**
+ * Supply and user figures taken from a single database snapshot
+ */
+export type SupplyStats = {
+  /** Sum of system wallet self-transfers */
+  totalIssuance: number
+  /** Sum of user wallet balances (including soft-deleted users' wallets) */
+  circulatingSupply: number
+  /** Sum of system wallet balances */
+  systemPool: number
+  /** Non-deleted users */
+  totalUsers: number
+  /** Non-deleted users with a non-zero balance */
+  activeUsers: number
+  /** Unix timestamp in milliseconds */
+  calculatedAt: number
+}
+
+/**
+ * Transaction count and volume of one transaction type
+ */
+export type TransactionTotals = {
+  transactionType: number
+  /** Registry name (e.g. P2P) */
+  typeName: string
+  transactionCount: number
+  /** Sum of amounts */
+  totalAmount: number
+}
+
+/**
+ * Repository contract for statistics read operations
+ */
+export interface IStatsRepository {
+  /**
+   * Calculates current supply statistics
+   *
+   * @returns Promise resolving to SupplyStats
+   */
+  getSupplyStats(): Promise<SupplyStats>
+
+  /**
+   * Counts transactions and sums their amounts per transaction type
+   *
+   * @returns Promise resolving to one entry per registered type, ordered by code
+   */
+  getTransactionTotals(): Promise<TransactionTotals[]>
+}
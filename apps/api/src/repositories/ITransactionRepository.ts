@@ -0,0 +1,238 @@
+/**
+ * ITransactionRepository - Repository interface for Transaction data access
+ *
+ * Transactions are immutable: the contract only creates and reads them.
+ */
+
+import type {
+  TransactionEntity,
+  TransactionID,
+  TransactionMetadata,
+} from '../entities/TransactionEntity.ts'
+import type { TransactionTypeCode } from '../entities/TransactionType.ts'
+import type { WalletID, WalletOwnerType } from '../entities/WalletEntity.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import type { AuditLogID } from '../entities/AuditLogEntity.ts'
+import type { KeysetCursor } from '../lib/cursor.ts'
+
+/**
+ * Input for an admin reversal
+ */
+export type ReverseTransactionParams = {
+  /** Original transaction to compensate */
+  transactionId: TransactionID
+  /** Amount to reverse; defaults to everything not yet reversed */
+  amount?: number
+  /** Audit reason (required, non-empty) */
+  reason: string
+  /** Administrator performing the reversal */
+  actorId: UserID
+}
+
+/**
+ * Result of an admin reversal
+ */
+export type ReverseTransactionResult = {
+  /** The new REVERSAL transaction */
+  transaction: TransactionEntity
+  auditLogId: AuditLogID
+  /** Amount of the original that can still be reversed */
+  remainingAmount: number
+}
+
+/**
+ * Input for a user-initiated transfer
+ */
+export type CreateTransferParams = {
+  /** Sender; tokens are taken from this user's wallet */
+  userId: UserID
+  /** Client-supplied Idempotency-Key header value */
+  idempotencyKey: string
+  toWalletId: WalletID
+  amount: number
+  /** Sanitized memo */
+  memo?: string | null
+  metadata?: TransactionMetadata
+}
+
+/**
+ * Result of a transfer request
+ */
+export type CreateTransferResult = {
+  transaction: TransactionEntity
+  /** true when the idempotency key was already used and the original transaction is returned */
+  replayed: boolean
+}
+
+/**
+ * Direction of a transaction relative to the wallet whose history is listed
+ */
+export type TransactionDirection = 'sent' | 'received'
+
+/**
+ * Filters and page position for a wallet's transaction history
+ */
+export type TransactionHistoryQuery = {
+  /** Page size */
+  limit: number
+  /** Position after which to continue (from the previous page) */
+  cursor?: KeysetCursor
+  direction?: TransactionDirection
+  transactionType?: TransactionTypeCode
+  /** Inclusive lower bound on created_at (Unix ms) */
+  createdFrom?: number
+  /** Exclusive upper bound on created_at (Unix ms) */
+  createdTo?: number
+  counterpartyWalletId?: WalletID
+  /** Only transactions whose metadata contains all of these key/value pairs */
+  metadata?: TransactionMetadata
+}
+
+/**
+ * Other side of a transaction, resolved through the wallet_owners view
+ *
+ * `ownerType`/`ownerName` are null when the wallet has no active owner (soft-deleted user).
+ */
+export type Counterparty = {
+  walletId: WalletID
+  ownerType: WalletOwnerType | null
+  ownerName: string | null
+}
+
+/**
+ * One entry of a wallet's transaction history
+ */
+export type TransactionHistoryItem = {
+  transaction: TransactionEntity
+  direction: TransactionDirection
+  counterparty: Counterparty
+  /** Total reversed so far by later REVERSAL transactions (0 if never reversed) */
+  reversedAmount: number
+}
+
+/**
+ * One page of a wallet's transaction history, newest first
+ */
+export type TransactionHistoryPage = {
+  items: TransactionHistoryItem[]
+  /** Position of the last item, or null if there are no more pages */
+  nextCursor: KeysetCursor | null
+}
+
+/**
+ * Ledger-wide search by metadata (admin)
+ */
+export type TransactionSearchQuery = {
+  /** Page size */
+  limit: number
+  /** Position after which to continue (from the previous page) */
+  cursor?: KeysetCursor
+  /** Transactions whose metadata contains all of these key/value pairs */
+  metadata: TransactionMetadata
+}
+
+/**
+ * One page of search results, newest first
+ */
+export type TransactionSearchPage = {
+  items: TransactionEntity[]
+  /** Position of the last item, or null if there are no more pages */
+  nextCursor: KeysetCursor | null
+}
+
+/**
+ * Date range and page position for the ledger-wide listing (admin)
+ */
+export type LedgerQuery = {
+  /** Page size */
+  limit: number
+  /** Position after which to continue (from the previous page) */
+  cursor?: KeysetCursor
+  /** Inclusive lower bound on created_at (Unix ms) */
+  createdFrom?: number
+  /** Exclusive upper bound on created_at (Unix ms) */
+  createdTo?: number
+}
+
+/**
+ * One transaction of the ledger with both wallets' owners resolved
+ */
+export type LedgerEntry = {
+  transaction: TransactionEntity
+  sender: Counterparty
+  recipient: Counterparty
+}
+
+/**
+ * One page of the ledger, newest first
+ */
+export type LedgerPage = {
+  items: LedgerEntry[]
+  /** Position of the last item, or null if there are no more pages */
+  nextCursor: KeysetCursor | null
+}
+
+/**
+ * Repository contract for Transaction data access operations
+ * All methods use Entity types (not raw database types)
+ */
+export interface ITransactionRepository {
+  /**
+   * Retrieves a transaction by ID
+   *
+   * @param id - TransactionID (branded type)
+   * @returns Promise resolving to TransactionEntity or null if not found
+   */
+  findById(id: TransactionID): Promise<TransactionEntity | null>
+
+  /**
+   * Transfers tokens from the user's wallet, at most once per idempotency key
+   *
+   * @param params - Sender, idempotency key, recipient and amount
+   * @returns Promise resolving to the (original or new) transaction
+   * @throws DomainError if a business rule rejects the transfer (e.g. INSUFFICIENT_BALANCE)
+   */
+  createTransfer(params: CreateTransferParams): Promise<CreateTransferResult>
+
+  /**
+   * Lists transactions where the wallet is sender or recipient, newest first
+   *
+   * @param walletId - Wallet whose history is listed
+   * @param query - Filters and page position
+   * @returns Promise resolving to one page of history
+   */
+  listByWallet(walletId: WalletID, query: TransactionHistoryQuery): Promise<TransactionHistoryPage>
+
+  /**
+   * Lists transactions across all wallets with sender and recipient owners, newest first
+   *
+   * @param query - Date range and page position
+   * @returns Promise resolving to one page of the ledger
+   */
+  listLedger(query: LedgerQuery): Promise<LedgerPage>
+
+  /**
+   * Finds transactions across all wallets by metadata, newest first
+   *
+   * @param query - Metadata filter and page position
+   * @returns Promise resolving to one page of matches
+   */
+  searchByMetadata(query: TransactionSearchQuery): Promise<TransactionSearchPage>
+
+  /**
+   * Compensates a transaction with an opposite-direction REVERSAL (full or partial)
+   *
+   * @param params - Original transaction, amount, reason and actor
+   * @returns Promise resolving to the created reversal
+   * @throws DomainError if a business rule rejects the reversal (e.g. ALREADY_REVERSED)
+   */
+  reverse(params: ReverseTransactionParams): Promise<ReverseTransactionResult>
+
+  /**
+   * Lists the reversals of a transaction, oldest first
+   *
+   * @param id - Original transaction
+   * @returns Promise resolving to REVERSAL transactions referencing it
+   */
+  listReversals(id: TransactionID): Promise<TransactionEntity[]>
+}
@@ -0,0 +1,103 @@
+/**
+ * ITransferPolicyRepository - Repository interface for transfer limits
+ *
+ * Limits are enforced by the check_transaction_policy trigger on every P2P, POOL_FEE and
+ * ESCROW_HOLD transaction; this contract only reads and changes them. Global defaults
+ * apply to every wallet; per-wallet overrides replace them field by field.
+ */
+
+import type { UserID } from '../entities/UserEntity.ts'
+import type { WalletID } from '../entities/WalletEntity.ts'
+
+/**
+ * Transfer limits of a sending wallet
+ *
+ * null means "no limit" in defaults and effective limits, and "use the default" in a
+ * wallet's overrides, where 0 means "no limit for this wallet". Days are UTC.
+ */
+export type TransferLimits = {
+  /** Maximum amount of one transfer */
+  maxTransferAmount: number | null
+  /** Maximum outgoing amount per day */
+  dailyAmountLimit: number | null
+  /** Maximum outgoing transfers per day */
+  dailyCountLimit: number | null
+  /** Length of the rolling window in milliseconds */
+  windowMs: number | null
+  /** Maximum outgoing amount within the rolling window */
+  windowAmountLimit: number | null
+  /** Maximum outgoing transfers within the rolling window */
+  windowCountLimit: number | null
+  /** Minimum time since the sender's account was created, in milliseconds */
+  minAccountAgeMs: number | null
+  /** Maximum P2P recipients per day that the wallet has never sent to before */
+  dailyNewCounterpartyLimit: number | null
+}
+
+/**
+ * A wallet's overrides and the limits in force for it
+ */
+export type WalletTransferLimits = {
+  walletId: WalletID
+  /** null if the wallet uses the defaults */
+  overrides: TransferLimits | null
+  effective: TransferLimits
+}
+
+/**
+ * Repository contract for transfer limit operations
+ */
+export interface ITransferPolicyRepository {
+  /**
+   * Retrieves the default limits
+   *
+   * @returns Promise resolving to the defaults
+   */
+  getDefaults(): Promise<TransferLimits>
+
+  /**
+   * Replaces the default limits and records the change in the audit log
+   *
+   * @param limits - New defaults
+   * @param reason - Operator-supplied reason (required)
+   * @param actorId - Administrator performing the operation
+   * @returns Promise resolving to the update time (Unix ms)
+   */
+  setDefaults(limits: TransferLimits, reason: string, actorId: UserID): Promise<number>
+
+  /**
+   * Retrieves a wallet's overrides and effective limits
+   *
+   * @param walletId - Sending wallet
+   * @returns Promise resolving to the wallet's limits
+   */
+  getWalletLimits(walletId: WalletID): Promise<WalletTransferLimits>
+
+  /**
+   * Replaces a wallet's overrides and records the change in the audit log
+   *
+   * @param walletId - Sending wallet
+   * @param limits - New overrides (null fields use the default, 0 lifts the limit)
+   * @param reason - Operator-supplied reason (required)
+   * @param actorId - Administrator performing the operation
+   * @returns Promise resolving to the update time (Unix ms)
+   * @throws BusinessRuleError (INVALID_REFERENCE) if the wallet does not exist
+   */
+  setWalletLimits(
+    walletId: WalletID,
+    limits: TransferLimits,
+    reason: string,
+    actorId: UserID,
+  ): Promise<number>
+
+  /**
+   * Removes a wallet's overrides and records the change in the audit log
+   *
+   * @param walletId - Sending wallet
+   * @param reason - Operator-supplied reason (required)
+   * @param actorId - Administrator performing the operation
+   * @returns Promise resolving to the removal time (Unix ms), or null if the wallet had no
+   *   overrides
+   */
+  clearWalletLimits(walletId: WalletID, reason: string, actorId: UserID): Promise<number | null>
+}
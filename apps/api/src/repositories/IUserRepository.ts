@@ -0,0 +1,84 @@
+/**
+ * IUserRepository - Repository interface for User data access
+ *
+ * Abstracts user persistence so that routes and middleware can be
+ * tested without a live database.
+ */
+
+import type { UserEntity, UserID } from '../entities/UserEntity.ts'
+import type { TransactionID } from '../entities/TransactionEntity.ts'
+
+/**
+ * Outcome of a self-service account deletion
+ */
+export type AccountDeletion = {
+  /** ACCOUNT_CLOSURE transaction that emptied the wallet, or null if it was already empty */
+  sweepTransactionId: TransactionID | null
+  /** Balance moved to the primary system account */
+  sweptAmount: number
+  /** Unix timestamp in milliseconds */
+  deletedAt: number
+}
+
+/**
+ * Repository contract for User data access operations
+ * All methods use Entity types (not raw database types)
+ */
+export interface IUserRepository {
+  /**
+   * Retrieves a user by ID, including soft-deleted users
+   *
+   * Callers decide how to treat deleted users via `UserEntity.isDeleted`.
+   *
+   * @param id - UserID (branded type)
+   * @returns Promise resolving to UserEntity or null if not found
+   */
+  findById(id: UserID): Promise<UserEntity | null>
+
+  /**
+   * Creates the user and its wallet atomically if the user does not exist yet
+   * (auto-registration on first JWT validation)
+   *
+   * @param id - User ID taken from the JWT `sub` claim
+   * @param username - Initial display name (must satisfy users table constraints)
+   * @returns Promise resolving to true if the user was created, false if it already existed
+   */
+  provision(id: UserID, username: string): Promise<boolean>
+
+  /**
+   * Changes the display name of an active user
+   *
+   * @param id - UserID (branded type)
+   * @param username - New display name (must satisfy users table constraints)
+   * @returns Promise resolving to the updated UserEntity, or null if the user does not
+   *   exist or has been deleted
+   */
+  updateUsername(id: UserID, username: string): Promise<UserEntity | null>
+
+  /**
+   * Deletes an active user's account
+   *
+   * Sweeps the wallet's balance to the primary system account, cancels the user's active
+   * scheduled transfers and soft-deletes the user, all in one database transaction.
+   *
+   * @param id - UserID (branded type)
+   * @returns Promise resolving to the sweep and deletion time
+   * @throws ConflictError (WALLET_FROZEN) if the wallet is frozen
+   * @throws ConflictError (OPEN_ESCROWS) if the user has held escrows
+   * @throws NotFoundError (SENDER_NOT_FOUND) if the user does not exist or is already deleted
+   */
+  deleteAccount(id: UserID): Promise<AccountDeletion>
+
+  /**
+   * Reactivates a soft-deleted user and records the operation in the audit log
+   *
+   * Tokens swept at deletion are not returned.
+   *
+   * @param id - UserID (branded type)
+   * @param reason - Operator-supplied reason (required)
+   * @param actorId - Administrator performing the operation
+   * @returns Promise resolving to the restore time (Unix ms), or null if the user does not
+   *   exist or is not deleted
+   */
+  restore(id: UserID, reason: string, actorId: UserID): Promise<number | null>
+}
@@ -0,0 +1,181 @@
+/**
+ * IWalletRepository - Repository interface for Wallet data access
+ *
+ * Covers wallets and their owners (users or system accounts) resolved
+ * through the wallet_owners view.
+ */
+
+import type {
+  WalletEntity,
+  WalletEvent,
+  WalletEventPosition,
+  WalletFreezeEvent,
+  WalletID,
+  WalletOwner,
+} from '../entities/WalletEntity.ts'
+import type { SystemAccountEntity } from '../entities/SystemAccountEntity.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import type { TransactionDirection } from './ITransactionRepository.ts'
+
+/**
+ * One transaction of a wallet statement
+ */
+export type StatementLine = {
+  transactionId: string
+  direction: TransactionDirection
+  counterpartyWalletId: WalletID
+  amount: number
+  transactionType: number
+  memo: string | null
+  createdAt: number
+  /** Wallet balance right after the transaction */
+  balance: number
+}
+
+/**
+ * Account statement of a wallet for the period [from, to)
+ *
+ * Derived from the ledger in one snapshot: closingBalance = openingBalance + totalIn -
+ * totalOut, which is also the balance of the last line and the balance at `to`.
+ */
+export type WalletStatement = {
+  walletId: WalletID
+  from: number
+  to: number
+  /** Balance before the first transaction of the period */
+  openingBalance: number
+  /** Sum of received amounts (including issuance) */
+  totalIn: number
+  /** Sum of sent amounts */
+  totalOut: number
+  closingBalance: number
+  /** Transactions of the period, oldest first */
+  lines: StatementLine[]
+}
+
+/**
+ * Repository contract for Wallet data access operations
+ * All methods use Entity types (not raw database types)
+ */
+export interface IWalletRepository {
+  /**
+   * Retrieves a wallet by ID
+   *
+   * @param id - WalletID (branded type)
+   * @returns Promise resolving to WalletEntity or null if not found
+   */
+  findById(id: WalletID): Promise<WalletEntity | null>
+
+  /**
+   * Resolves the active owner of a wallet
+   *
+   * Wallets of soft-deleted users have no active owner.
+   *
+   * @param id - WalletID (branded type)
+   * @returns Promise resolving to WalletOwner or null if the wallet has no active owner
+   */
+  findOwner(id: WalletID): Promise<WalletOwner | null>
+
+  /**
+   * Finds wallets of active users whose username starts with a prefix
+   *
+   * Matching is case-insensitive; soft-deleted users and system accounts are never returned.
+   *
+   * @param namePrefix - Start of the username
+   * @param limit - Maximum number of results
+   * @returns Promise resolving to the owners, ordered by username
+   */
+  searchUserWallets(namePrefix: string, limit: number): Promise<WalletOwner[]>
+
+  /**
+   * Retrieves a system account by its unique name
+   *
+   * @param name - System account name (e.g. system_account_communitytoken)
+   * @returns Promise resolving to SystemAccountEntity or null if not found
+   */
+  findSystemAccountByName(name: string): Promise<SystemAccountEntity | null>
+
+  /**
+   * Freezes or unfreezes a wallet and records the operation
+   *
+   * @param id - Target wallet
+   * @param frozen - true to freeze, false to unfreeze
+   * @param reason - Operator-supplied reason (required)
+   * @param actorId - Administrator performing the operation
+   * @returns Promise resolving to the recorded event
+   * @throws DomainError (WALLET_NOT_FOUND, SYSTEM_WALLET, ALREADY_FROZEN, NOT_FROZEN) if
+   *   the wallet is missing, a system wallet, or already in that state
+   */
+  setFrozen(
+    id: WalletID,
+    frozen: boolean,
+    reason: string,
+    actorId: UserID,
+  ): Promise<WalletFreezeEvent>
+
+  /**
+   * Lists freeze/unfreeze operations on a wallet, newest first
+   *
+   * @param id - Target wallet
+   * @returns Promise resolving to the wallet's freeze history
+   */
+  listFreezeEvents(id: WalletID): Promise<WalletFreezeEvent[]>
+
+  /**
+   * Lists wallet activity (transfers, freeze changes) after a position, oldest first
+   *
+   * Only returns events that no still-running transaction can commit ahead of.
+   *
+   * @param id - Target wallet
+   * @param after - Position of the last event already seen
+   * @param limit - Maximum number of events
+   * @returns Promise resolving to the events, each with the balance after it
+   */
+  listEvents(id: WalletID, after: WalletEventPosition, limit: number): Promise<WalletEvent[]>
+
+  /**
+   * Finds the position of the wallet's most recent event
+   *
+   * @param id - Target wallet
+   * @returns Promise resolving to the position, or null if the wallet has no events
+   */
+  findLatestEventPosition(id: WalletID): Promise<WalletEventPosition | null>
+
+  /**
+   * Finds the position of one transaction or freeze event of the wallet
+   *
+   * @param id - Target wallet
+   * @param eventId - Transaction or freeze event ID
+   * @returns Promise resolving to the position, or null if the event is not the wallet's
+   */
+  findEventPosition(id: WalletID, eventId: string): Promise<WalletEventPosition | null>
+
+  /**
+   * Replays the ledger to a wallet's balance at a point in time
+   *
+   * @param id - Target wallet
+   * @param at - Unix timestamp in milliseconds; transactions created before it count
+   * @returns Promise resolving to the balance (0 before the first transaction)
+   */
+  getBalanceAt(id: WalletID, at: number): Promise<number>
+
+  /**
+   * Builds the account statement of a wallet
+   *
+   * @param id - Target wallet
+   * @param from - Start of the period (Unix ms, inclusive)
+   * @param to - End of the period (Unix ms, exclusive)
+   * @param maxLines - Maximum number of transactions in one statement
+   * @returns Promise resolving to the statement
+   * @throws InvalidInputError if the period has more than maxLines transactions
+   */
+  getStatement(id: WalletID, from: number, to: number, maxLines: number): Promise<WalletStatement>
+
+  /**
+   * Records balance checkpoints for wallets active since their previous checkpoint
+   *
+   * @param asOf - Checkpoint time (Unix ms, at least one hour in the past)
+   * @returns Promise resolving to the number of checkpoints created
+   */
+  createBalanceCheckpoints(asOf: number): Promise<number>
+}
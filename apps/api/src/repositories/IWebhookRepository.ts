@@ -0,0 +1,178 @@
+/**
+ * IWebhookRepository - Repository interface for webhook subscriptions and the delivery outbox
+ *
+ * Deliveries are written by a database trigger on transactions, so the contract
+ * only manages subscriptions and moves deliveries through their states.
+ * Methods taking an owner use `null` for system integration subscriptions.
+ */
+
+import type {
+  WebhookDelivery,
+  WebhookDeliveryID,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscriptionEntity,
+  WebhookSubscriptionID,
+} from '../entities/WebhookEntity.ts'
+import type { TransactionID } from '../entities/TransactionEntity.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import type { KeysetCursor } from '../lib/cursor.ts'
+
+/**
+ * Parameters for registering a webhook endpoint
+ */
+export type CreateWebhookSubscriptionParams = {
+  /** Owning user; null for a system integration */
+  userId: UserID | null
+  url: string
+  /** Signing secret (see generateWebhookSecret()) */
+  secret: string
+  description?: string | null
+}
+
+/**
+ * Filters and page position for listing a subscription's deliveries
+ */
+export type WebhookDeliveryQuery = {
+  /** Page size */
+  limit: number
+  /** Position after which to continue (from the previous page) */
+  cursor?: KeysetCursor
+  status?: WebhookDeliveryStatus
+}
+
+/**
+ * One page of deliveries, newest first
+ */
+export type WebhookDeliveryPage = {
+  items: WebhookDelivery[]
+  /** Position of the last item, or null if there are no more pages */
+  nextCursor: KeysetCursor | null
+}
+
+/**
+ * A due delivery leased to the dispatcher, with what it needs to send it
+ */
+export type ClaimedWebhookDelivery = {
+  id: WebhookDeliveryID
+  subscriptionId: WebhookSubscriptionID
+  url: string
+  secret: string
+  eventType: WebhookEventType
+  transactionId: TransactionID
+  payload: Record<string, unknown>
+  /** Attempts made before this one */
+  attemptCount: number
+  createdAt: number
+}
+
+/**
+ * Outcome of one delivery attempt
+ */
+export type WebhookAttempt = {
+  attemptedAt: number
+  /** HTTP status; null if no response was received */
+  responseStatus: number | null
+  /** null if the attempt succeeded */
+  error: string | null
+  /** When to try again after a failure; null moves the delivery to dead */
+  retryAt: number | null
+}
+
+/**
+ * Repository contract for webhook data access operations
+ * All methods use Entity types (not raw database types)
+ */
+export interface IWebhookRepository {
+  /**
+   * Retrieves a subscription by ID
+   *
+   * @param id - WebhookSubscriptionID (branded type)
+   * @returns Promise resolving to WebhookSubscriptionEntity or null if not found
+   */
+  findSubscriptionById(id: WebhookSubscriptionID): Promise<WebhookSubscriptionEntity | null>
+
+  /**
+   * Registers a webhook endpoint
+   *
+   * @param params - Owner, URL, secret and description
+   * @returns Promise resolving to the created subscription
+   * @throws DomainError if the user is not active or has too many subscriptions
+   */
+  createSubscription(params: CreateWebhookSubscriptionParams): Promise<WebhookSubscriptionEntity>
+
+  /**
+   * Lists an owner's subscriptions, newest first
+   *
+   * @param userId - Owning user, or null for system integrations
+   * @returns Promise resolving to the subscriptions, disabled ones included
+   */
+  listSubscriptions(userId: UserID | null): Promise<WebhookSubscriptionEntity[]>
+
+  /**
+   * Disables a subscription and moves its pending deliveries to dead
+   *
+   * @param id - Target subscription
+   * @param userId - Owning user, or null for system integrations
+   * @returns Promise resolving to the disabled subscription
+   * @throws DomainError if the owner has no such subscription or it is
+   *   already disabled
+   */
+  disableSubscription(
+    id: WebhookSubscriptionID,
+    userId: UserID | null,
+  ): Promise<WebhookSubscriptionEntity>
+
+  /**
+   * Lists deliveries of a subscription, newest first
+   *
+   * @param subscriptionId - Subscription
+   * @param query - Filters and page position
+   * @returns Promise resolving to one page of deliveries
+   */
+  listDeliveries(
+    subscriptionId: WebhookSubscriptionID,
+    query: WebhookDeliveryQuery,
+  ): Promise<WebhookDeliveryPage>
+
+  /**
+   * Queues a delivered or dead delivery again with a fresh retry budget
+   *
+   * @param subscriptionId - Subscription the delivery belongs to
+   * @param id - Target delivery
+   * @param userId - Owning user of the subscription, or null for system integrations
+   * @param asOf - Current time (Unix ms); the delivery is due immediately
+   * @returns Promise resolving to the queued delivery
+   * @throws DomainError if the owner has no such delivery, it is already
+   *   pending, or the subscription is disabled
+   */
+  redeliver(
+    subscriptionId: WebhookSubscriptionID,
+    id: WebhookDeliveryID,
+    userId: UserID | null,
+    asOf: number,
+  ): Promise<WebhookDelivery>
+
+  /**
+   * Leases due pending deliveries to the calling dispatcher
+   *
+   * @param asOf - Current time (Unix ms)
+   * @param limit - Maximum number of deliveries
+   * @param leaseMs - How long other dispatchers skip the leased deliveries
+   * @returns Promise resolving to the leased deliveries, oldest first
+   */
+  claimDue(asOf: number, limit: number, leaseMs: number): Promise<ClaimedWebhookDelivery[]>
+
+  /**
+   * Records the outcome of an attempt of a leased delivery
+   *
+   * @param id - Attempted delivery
+   * @param attempt - Response status, error and retry time
+   * @returns Promise resolving to the new status, or null if the delivery stopped
+   *   being pending meanwhile (e.g. its subscription was disabled)
+   */
+  recordAttempt(
+    id: WebhookDeliveryID,
+    attempt: WebhookAttempt,
+  ): Promise<WebhookDeliveryStatus | null>
+}
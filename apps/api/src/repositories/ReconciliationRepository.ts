@@ -0,0 +1,40 @@
+/**
+ * ReconciliationRepository - Supabase implementation of IReconciliationRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types.ts'
+import type {
+  IReconciliationRepository,
+  WalletDiscrepancy,
+} from './IReconciliationRepository.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import { databaseError } from '../lib/errors.ts'
+
+/**
+ * Supabase implementation of Reconciliation repository
+ */
+export class ReconciliationRepository implements IReconciliationRepository {
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Replays the ledger via the reconcile_wallet_balances() database function
+   *
+   * @returns Promise resolving to discrepancies
+   * @throws Error if the database call fails
+   */
+  async findDiscrepancies(): Promise<WalletDiscrepancy[]> {
+    const { data, error } = await this.client.rpc('reconcile_wallet_balances')
+
+    if (error) {
+      throw databaseError(error, 'Failed to reconcile wallet balances')
+    }
+
+    return data.map((row) => ({
+      walletId: AsWalletID(row.wallet_id),
+      storedBalance: row.stored_balance,
+      ledgerBalance: row.ledger_balance,
+      isOrphan: row.is_orphan,
+    }))
+  }
+}
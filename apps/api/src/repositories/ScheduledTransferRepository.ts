@@ -0,0 +1,273 @@
+/**
+ * ScheduledTransferRepository - Supabase implementation of IScheduledTransferRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from '../lib/database.types.ts'
+import {
+  type CreateScheduledTransferParams,
+  type IScheduledTransferRepository,
+  type ScheduledExecution,
+  type ScheduledTransferPage,
+  type ScheduledTransferQuery,
+} from './IScheduledTransferRepository.ts'
+import {
+  AsScheduledTransferID,
+  ScheduledTransferEntity,
+  type ScheduledTransferID,
+  type ScheduledTransferRun,
+  type ScheduleRecurrence,
+  type ScheduleStatus,
+} from '../entities/ScheduledTransferEntity.ts'
+import { AsTransactionID, type TransactionMetadata } from '../entities/TransactionEntity.ts'
+import { AsUserID, type UserID } from '../entities/UserEntity.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import { databaseError } from '../lib/errors.ts'
+
+/**
+ * Maps a scheduled_transfers table row to a domain entity
+ *
+ * @param row - Row from the scheduled_transfers table
+ * @returns ScheduledTransferEntity instance
+ */
+export function scheduledTransferFromRow(
+  row: Tables<'scheduled_transfers'>,
+): ScheduledTransferEntity {
+  return new ScheduledTransferEntity(
+    AsScheduledTransferID(row.id),
+    AsUserID(row.user_id),
+    AsWalletID(row.from_wallet_id),
+    AsWalletID(row.to_wallet_id),
+    row.amount,
+    row.recurrence as ScheduleRecurrence,
+    row.starts_at,
+    row.ends_at,
+    row.max_runs,
+    row.status as ScheduleStatus,
+    row.next_run_at,
+    row.run_count,
+    row.failure_count,
+    row.last_run_at,
+    row.last_error,
+    row.memo,
+    row.metadata as TransactionMetadata,
+    row.created_at,
+    row.updated_at,
+  )
+}
+
+/**
+ * Supabase implementation of ScheduledTransfer repository
+ */
+export class ScheduledTransferRepository implements IScheduledTransferRepository {
+  private readonly tableName = 'scheduled_transfers'
+
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Retrieves a schedule by ID
+   *
+   * @param id - ScheduledTransferID (branded type)
+   * @returns Promise resolving to ScheduledTransferEntity or null if not found
+   * @throws Error if database query fails
+   */
+  async findById(id: ScheduledTransferID): Promise<ScheduledTransferEntity | null> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch scheduled transfer by ID')
+    }
+
+    return data ? scheduledTransferFromRow(data) : null
+  }
+
+  /**
+   * Schedules a transfer via the create_scheduled_transfer() database function
+   *
+   * @param params - Owner, recipient, amount and recurrence
+   * @returns Promise resolving to the created schedule
+   * @throws DomainError if the sender or recipient is not active
+   * @throws Error if the database call fails
+   */
+  async create(params: CreateScheduledTransferParams): Promise<ScheduledTransferEntity> {
+    const id = AsScheduledTransferID(crypto.randomUUID())
+    const { error } = await this.client.rpc('create_scheduled_transfer', {
+      schedule_uuid: id,
+      user_uuid: params.userId,
+      recipient_wallet_uuid: params.toWalletId,
+      transfer_amount: params.amount,
+      schedule_recurrence: params.recurrence,
+      schedule_starts_at: params.startsAt,
+      ...(params.endsAt !== undefined && { schedule_ends_at: params.endsAt }),
+      ...(params.maxRuns !== undefined && { schedule_max_runs: params.maxRuns }),
+      ...(params.memo && { transfer_memo: params.memo }),
+      ...(params.metadata && { transfer_metadata: params.metadata }),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to create scheduled transfer')
+    }
+
+    const schedule = await this.findById(id)
+    if (!schedule) {
+      throw new Error('Failed to create scheduled transfer: schedule missing after insert')
+    }
+    return schedule
+  }
+
+  /**
+   * Lists a user's schedules, newest first
+   *
+   * Fetches one extra row to detect whether another page exists.
+   *
+   * @param userId - Schedule owner
+   * @param query - Filters and page position
+   * @returns Promise resolving to one page of schedules
+   * @throws Error if database query fails
+   */
+  async listByUser(userId: UserID, query: ScheduledTransferQuery): Promise<ScheduledTransferPage> {
+    let request = this.client.from(this.tableName).select('*').eq('user_id', userId)
+
+    if (query.status) {
+      request = request.eq('status', query.status)
+    }
+    if (query.cursor) {
+      const { createdAt, id } = query.cursor
+      request = request.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${id})`)
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(query.limit + 1)
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch scheduled transfers')
+    }
+
+    const rows = data.slice(0, query.limit)
+    const last = rows[rows.length - 1]
+    return {
+      items: rows.map(scheduledTransferFromRow),
+      nextCursor: data.length > query.limit && last
+        ? { createdAt: last.created_at, id: last.id }
+        : null,
+    }
+  }
+
+  /**
+   * Lists the processed occurrences of a schedule, newest first
+   *
+   * @param id - Target schedule
+   * @returns Promise resolving to the schedule's runs
+   * @throws Error if database query fails
+   */
+  async listRuns(id: ScheduledTransferID): Promise<ScheduledTransferRun[]> {
+    const { data, error } = await this.client
+      .from('scheduled_transfer_runs')
+      .select('*')
+      .eq('scheduled_transfer_id', id)
+      .order('occurrence', { ascending: false })
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch scheduled transfer runs')
+    }
+
+    return data.map((row) => ({
+      id: row.id,
+      occurrence: row.occurrence,
+      scheduledFor: row.scheduled_for,
+      transactionId: row.transaction_id ? AsTransactionID(row.transaction_id) : null,
+      error: row.error,
+      executedAt: row.executed_at,
+    }))
+  }
+
+  /**
+   * Cancels a schedule via the cancel_scheduled_transfer() database function
+   *
+   * @param id - Target schedule
+   * @param userId - Schedule owner
+   * @returns Promise resolving to the cancelled schedule
+   * @throws DomainError if the schedule does not exist for this user
+   *   or is no longer active
+   * @throws Error if the database call fails
+   */
+  async cancel(id: ScheduledTransferID, userId: UserID): Promise<ScheduledTransferEntity> {
+    const { error } = await this.client.rpc('cancel_scheduled_transfer', {
+      schedule_uuid: id,
+      user_uuid: userId,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to cancel scheduled transfer')
+    }
+
+    const schedule = await this.findById(id)
+    if (!schedule) {
+      throw new Error('Failed to cancel scheduled transfer: schedule missing after update')
+    }
+    return schedule
+  }
+
+  /**
+   * Lists active schedules whose next occurrence is due (idx_scheduled_transfers_due)
+   *
+   * @param asOf - Current time (Unix ms)
+   * @param limit - Maximum number of schedules
+   * @returns Promise resolving to the due schedule IDs, earliest first
+   * @throws Error if database query fails
+   */
+  async listDue(asOf: number, limit: number): Promise<ScheduledTransferID[]> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .select('id')
+      .eq('status', 'active')
+      .lte('next_run_at', asOf)
+      .order('next_run_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch due scheduled transfers')
+    }
+
+    return data.map((row) => AsScheduledTransferID(row.id))
+  }
+
+  /**
+   * Processes the next occurrence via the execute_scheduled_transfer() database function
+   *
+   * @param id - Target schedule
+   * @param asOf - Current time (Unix ms)
+   * @returns Promise resolving to the outcome
+   * @throws Error if the schedule does not exist or the database call fails
+   */
+  async execute(id: ScheduledTransferID, asOf: number): Promise<ScheduledExecution> {
+    const { data, error } = await this.client.rpc('execute_scheduled_transfer', {
+      schedule_uuid: id,
+      as_of: asOf,
+      run_uuid: crypto.randomUUID(),
+      transaction_uuid: crypto.randomUUID(),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to execute scheduled transfer')
+    }
+
+    const row = data[0]
+    if (!row) {
+      throw new Error('Failed to execute scheduled transfer: no result returned')
+    }
+    return {
+      outcome: row.outcome as ScheduledExecution['outcome'],
+      transactionId: row.transaction_id ? AsTransactionID(row.transaction_id) : null,
+      error: row.error ?? null,
+      status: row.status as ScheduleStatus,
+      nextRunAt: row.next_run_at ?? null,
+    }
+  }
+}
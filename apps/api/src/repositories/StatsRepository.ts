@@ -0,0 +1,64 @@
+/**
+ * StatsRepository - Supabase implementation of IStatsRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types.ts'
+import type { IStatsRepository, SupplyStats, TransactionTotals } from './IStatsRepository.ts'
+import { databaseError } from '../lib/errors.ts'
+
+/**
+ * Supabase implementation of Stats repository
+ */
+export class StatsRepository implements IStatsRepository {
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Calculates supply statistics via the get_supply_stats() database function
+   *
+   * @returns Promise resolving to SupplyStats
+   * @throws Error if the database call fails
+   */
+  async getSupplyStats(): Promise<SupplyStats> {
+    const { data, error } = await this.client.rpc('get_supply_stats')
+
+    if (error) {
+      throw databaseError(error, 'Failed to calculate supply statistics')
+    }
+
+    const row = data[0]
+    if (!row) {
+      throw new Error('Failed to calculate supply statistics: no result returned')
+    }
+
+    return {
+      totalIssuance: row.total_issuance,
+      circulatingSupply: row.circulating_supply,
+      systemPool: row.system_pool,
+      totalUsers: row.total_users,
+      activeUsers: row.active_users,
+      calculatedAt: row.calculated_at,
+    }
+  }
+
+  /**
+   * Aggregates transactions per type via the get_transaction_totals() database function
+   *
+   * @returns Promise resolving to one entry per registered type
+   * @throws Error if the database call fails
+   */
+  async getTransactionTotals(): Promise<TransactionTotals[]> {
+    const { data, error } = await this.client.rpc('get_transaction_totals')
+
+    if (error) {
+      throw databaseError(error, 'Failed to calculate transaction totals')
+    }
+
+    return data.map((row) => ({
+      transactionType: row.transaction_type,
+      typeName: row.type_name,
+      transactionCount: row.transaction_count,
+      totalAmount: row.total_amount,
+    }))
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * TransactionRepository - Supabase implementation of ITransactionRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from '../lib/database.types.ts'
+import {
+  type CreateTransferParams,
+  type CreateTransferResult,
+  type ITransactionRepository,
+  type LedgerPage,
+  type LedgerQuery,
+  type ReverseTransactionParams,
+  type ReverseTransactionResult,
+  type TransactionDirection,
+  type TransactionHistoryPage,
+  type TransactionHistoryQuery,
+  type TransactionSearchPage,
+  type TransactionSearchQuery,
+} from './ITransactionRepository.ts'
+import {
+  AsTransactionID,
+  TransactionEntity,
+  type TransactionID,
+  type TransactionMetadata,
+} from '../entities/TransactionEntity.ts'
+import type { TransactionTypeCode } from '../entities/TransactionType.ts'
+import { AsAuditLogID } from '../entities/AuditLogEntity.ts'
+import { AsWalletID, type WalletID, type WalletOwnerType } from '../entities/WalletEntity.ts'
+import { databaseError } from '../lib/errors.ts'
+
+/**
+ * Maps a transactions table row to a domain entity
+ *
+ * Accepts any row carrying the transactions columns the entity needs, so rows
+ * returned by list_wallet_transactions() map the same way.
+ *
+ * @param row - Row from the transactions table
+ * @returns TransactionEntity instance
+ */
+export function transactionFromRow(
+  row: Omit<Tables<'transactions'>, 'audit_log_id'>,
+): TransactionEntity {
+  return new TransactionEntity(
+    AsTransactionID(row.id),
+    AsWalletID(row.from_wallet_id),
+    AsWalletID(row.to_wallet_id),
+    row.amount,
+    row.transaction_type as TransactionTypeCode,
+    row.created_at,
+    row.reverses_transaction_id ? AsTransactionID(row.reverses_transaction_id) : null,
+    row.memo ?? null,
+    row.metadata as TransactionMetadata,
+  )
+}
+
+/**
+ * Supabase implementation of Transaction repository
+ */
+export class TransactionRepository implements ITransactionRepository {
+  private readonly tableName = 'transactions'
+
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Retrieves a transaction by ID
+   *
+   * @param id - TransactionID (branded type)
+   * @returns Promise resolving to TransactionEntity or null if not found
+   * @throws Error if database query fails
+   */
+  async findById(id: TransactionID): Promise<TransactionEntity | null> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch transaction by ID')
+    }
+
+    return data ? transactionFromRow(data) : null
+  }
+
+  /**
+   * Transfers tokens via the create_transfer() database function
+   *
+   * The transaction insert and the idempotency key are written in one database
+   * transaction, so a retried request can never move tokens twice.
+   *
+   * @param params - Sender, idempotency key, recipient and amount
+   * @returns Promise resolving to the (original or new) transaction
+   * @throws DomainError if a business rule rejects the transfer (e.g. INSUFFICIENT_BALANCE)
+   * @throws Error if the database call fails
+   */
+  async createTransfer(params: CreateTransferParams): Promise<CreateTransferResult> {
+    const { data, error } = await this.client.rpc('create_transfer', {
+      user_uuid: params.userId,
+      request_key: params.idempotencyKey,
+      transaction_uuid: crypto.randomUUID(),
+      recipient_wallet_uuid: params.toWalletId,
+      transfer_amount: params.amount,
+      ...(params.memo && { transfer_memo: params.memo }),
+      ...(params.metadata && { transfer_metadata: params.metadata }),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to create transfer')
+    }
+
+    const result = data[0]
+    if (!result) {
+      throw new Error('Failed to create transfer: no result returned')
+    }
+
+    const transaction = await this.findById(AsTransactionID(result.transaction_id))
+    if (!transaction) {
+      throw new Error(`Failed to create transfer: transaction ${result.transaction_id} not found`)
+    }
+
+    return { transaction, replayed: result.replayed }
+  }
+
+  /**
+   * Lists a wallet's transactions via the list_wallet_transactions() database function
+   *
+   * Fetches one extra row to detect whether another page exists.
+   *
+   * @param walletId - Wallet whose history is listed
+   * @param query - Filters and page position
+   * @returns Promise resolving to one page of history
+   * @throws Error if database query fails
+   */
+  async listByWallet(
+    walletId: WalletID,
+    query: TransactionHistoryQuery,
+  ): Promise<TransactionHistoryPage> {
+    const { data, error } = await this.client.rpc('list_wallet_transactions', {
+      wallet_uuid: walletId,
+      page_size: query.limit + 1,
+      ...(query.cursor && {
+        cursor_created_at: query.cursor.createdAt,
+        cursor_id: query.cursor.id,
+      }),
+      ...(query.direction && { filter_direction: query.direction }),
+      ...(query.transactionType !== undefined &&
+        { filter_transaction_type: query.transactionType }),
+      ...(query.createdFrom !== undefined && { filter_created_from: query.createdFrom }),
+      ...(query.createdTo !== undefined && { filter_created_to: query.createdTo }),
+      ...(query.counterpartyWalletId &&
+        { filter_counterparty_wallet: query.counterpartyWalletId }),
+      ...(query.metadata && { filter_metadata: query.metadata }),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch transaction history')
+    }
+
+    const rows = data.slice(0, query.limit)
+    const items = rows.map((row) => ({
+      transaction: transactionFromRow(row),
+      direction: row.direction as TransactionDirection,
+      counterparty: {
+        walletId: AsWalletID(row.counterparty_wallet_id),
+        ownerType: (row.counterparty_type ?? null) as WalletOwnerType | null,
+        ownerName: row.counterparty_name ?? null,
+      },
+      reversedAmount: row.reversed_amount,
+    }))
+
+    const last = rows[rows.length - 1]
+    return {
+      items,
+      nextCursor: data.length > query.limit && last
+        ? { createdAt: last.created_at, id: last.id }
+        : null,
+    }
+  }
+
+  /**
+   * Lists all transactions via the list_ledger_transactions() database function
+   *
+   * Fetches one extra row to detect whether another page exists.
+   *
+   * @param query - Date range and page position
+   * @returns Promise resolving to one page of the ledger
+   * @throws Error if database query fails
+   */
+  async listLedger(query: LedgerQuery): Promise<LedgerPage> {
+    const { data, error } = await this.client.rpc('list_ledger_transactions', {
+      page_size: query.limit + 1,
+      ...(query.cursor && {
+        cursor_created_at: query.cursor.createdAt,
+        cursor_id: query.cursor.id,
+      }),
+      ...(query.createdFrom !== undefined && { filter_created_from: query.createdFrom }),
+      ...(query.createdTo !== undefined && { filter_created_to: query.createdTo }),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch ledger')
+    }
+
+    const rows = data.slice(0, query.limit)
+    const items = rows.map((row) => ({
+      transaction: transactionFromRow(row),
+      sender: {
+        walletId: AsWalletID(row.from_wallet_id),
+        ownerType: (row.from_owner_type ?? null) as WalletOwnerType | null,
+        ownerName: row.from_owner_name ?? null,
+      },
+      recipient: {
+        walletId: AsWalletID(row.to_wallet_id),
+        ownerType: (row.to_owner_type ?? null) as WalletOwnerType | null,
+        ownerName: row.to_owner_name ?? null,
+      },
+    }))
+
+    const last = rows[rows.length - 1]
+    return {
+      items,
+      nextCursor: data.length > query.limit && last
+        ? { createdAt: last.created_at, id: last.id }
+        : null,
+    }
+  }
+
+  /**
+   * Finds transactions by metadata containment (served by idx_transactions_metadata)
+   *
+   * Fetches one extra row to detect whether another page exists.
+   *
+   * @param query - Metadata filter and page position
+   * @returns Promise resolving to one page of matches
+   * @throws Error if database query fails
+   */
+  async searchByMetadata(query: TransactionSearchQuery): Promise<TransactionSearchPage> {
+    let request = this.client
+      .from(this.tableName)
+      .select('*')
+      .contains('metadata', query.metadata)
+
+    if (query.cursor) {
+      const { createdAt, id } = query.cursor
+      request = request.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${id})`)
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(query.limit + 1)
+
+    if (error) {
+      throw databaseError(error, 'Failed to search transactions')
+    }
+
+    const rows = data.slice(0, query.limit)
+    const last = rows[rows.length - 1]
+    return {
+      items: rows.map(transactionFromRow),
+      nextCursor: data.length > query.limit && last
+        ? { createdAt: last.created_at, id: last.id }
+        : null,
+    }
+  }
+
+  /**
+   * Reverses a transaction via the reverse_transaction() database function
+   *
+   * The reversal, its audit entry and the balance updates are written in one
+   * database transaction.
+   *
+   * @param params - Original transaction, amount, reason and actor
+   * @returns Promise resolving to the created reversal
+   * @throws DomainError if a business rule rejects the reversal
+   * @throws Error if the database call fails
+   */
+  async reverse(params: ReverseTransactionParams): Promise<ReverseTransactionResult> {
+    const auditLogId = crypto.randomUUID()
+    const { data, error } = await this.client.rpc('reverse_transaction', {
+      original_uuid: params.transactionId,
+      reversal_uuid: crypto.randomUUID(),
+      reason: params.reason,
+      actor_uuid: params.actorId,
+      audit_uuid: auditLogId,
+      ...(params.amount !== undefined && { reversal_amount: params.amount }),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to reverse transaction')
+    }
+
+    const result = data[0]
+    if (!result) {
+      throw new Error('Failed to reverse transaction: no result returned')
+    }
+
+    const transaction = await this.findById(AsTransactionID(result.transaction_id))
+    if (!transaction) {
+      throw new Error(`Failed to reverse transaction: reversal ${result.transaction_id} not found`)
+    }
+
+    return {
+      transaction,
+      auditLogId: AsAuditLogID(auditLogId),
+      remainingAmount: result.remaining_amount,
+    }
+  }
+
+  /**
+   * Lists the reversals of a transaction, oldest first
+   *
+   * @param id - Original transaction
+   * @returns Promise resolving to REVERSAL transactions referencing it
+   * @throws Error if database query fails
+   */
+  async listReversals(id: TransactionID): Promise<TransactionEntity[]> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .select('*')
+      .eq('reverses_transaction_id', id)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch reversals')
+    }
+
+    return data.map(transactionFromRow)
+  }
+}
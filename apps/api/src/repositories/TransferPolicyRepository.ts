@@ -0,0 +1,211 @@
+/**
+ * TransferPolicyRepository - Supabase implementation of ITransferPolicyRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from '../lib/database.types.ts'
+import type {
+  ITransferPolicyRepository,
+  TransferLimits,
+  WalletTransferLimits,
+} from './ITransferPolicyRepository.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import type { WalletID } from '../entities/WalletEntity.ts'
+import { databaseError } from '../lib/errors.ts'
+
+/**
+ * Limit columns shared by transfer_limit_defaults, wallet_transfer_limits and
+ * effective_transfer_limits()
+ */
+type LimitColumns = Omit<Tables<'wallet_transfer_limits'>, 'wallet_id' | 'updated_at'>
+
+/**
+ * Maps limit columns to TransferLimits
+ *
+ * effective_transfer_limits() columns are typed as non-null by the generator but are NULL
+ * for "no limit", hence the `?? null`.
+ *
+ * @param row - Row with the limit columns
+ * @returns TransferLimits
+ */
+function limitsFromRow(row: LimitColumns): TransferLimits {
+  return {
+    maxTransferAmount: row.max_transfer_amount ?? null,
+    dailyAmountLimit: row.daily_amount_limit ?? null,
+    dailyCountLimit: row.daily_count_limit ?? null,
+    windowMs: row.window_ms ?? null,
+    windowAmountLimit: row.window_amount_limit ?? null,
+    windowCountLimit: row.window_count_limit ?? null,
+    minAccountAgeMs: row.min_account_age_ms ?? null,
+    dailyNewCounterpartyLimit: row.daily_new_counterparty_limit ?? null,
+  }
+}
+
+/**
+ * Maps TransferLimits to the `limits` argument of set_transfer_limits()
+ *
+ * @param limits - Limits to store
+ * @returns JSON object keyed by limit column
+ */
+function limitsToJson(limits: TransferLimits): LimitColumns {
+  return {
+    max_transfer_amount: limits.maxTransferAmount,
+    daily_amount_limit: limits.dailyAmountLimit,
+    daily_count_limit: limits.dailyCountLimit,
+    window_ms: limits.windowMs,
+    window_amount_limit: limits.windowAmountLimit,
+    window_count_limit: limits.windowCountLimit,
+    min_account_age_ms: limits.minAccountAgeMs,
+    daily_new_counterparty_limit: limits.dailyNewCounterpartyLimit,
+  }
+}
+
+/**
+ * Supabase implementation of TransferPolicy repository
+ */
+export class TransferPolicyRepository implements ITransferPolicyRepository {
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Retrieves the single transfer_limit_defaults row
+   *
+   * @returns Promise resolving to the defaults
+   * @throws Error if database query fails or the row is missing
+   */
+  async getDefaults(): Promise<TransferLimits> {
+    const { data, error } = await this.client
+      .from('transfer_limit_defaults')
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch transfer limit defaults')
+    }
+    if (!data) {
+      throw new Error('Failed to fetch transfer limit defaults: no row found')
+    }
+
+    return limitsFromRow(data)
+  }
+
+  /**
+   * Replaces the defaults via set_transfer_limits()
+   * (see migration 20251130120000_transfer_policies.sql)
+   *
+   * @param limits - New defaults
+   * @param reason - Operator-supplied reason
+   * @param actorId - Administrator performing the operation
+   * @returns Promise resolving to the update time
+   * @throws DomainError if a limit is out of range
+   * @throws Error if the database call fails
+   */
+  async setDefaults(limits: TransferLimits, reason: string, actorId: UserID): Promise<number> {
+    return await this.setLimits(null, limits, reason, actorId)
+  }
+
+  /**
+   * Retrieves a wallet's overrides and its limits from effective_transfer_limits()
+   *
+   * @param walletId - Sending wallet
+   * @returns Promise resolving to the wallet's limits
+   * @throws Error if a database call fails
+   */
+  async getWalletLimits(walletId: WalletID): Promise<WalletTransferLimits> {
+    const [overrides, effective] = await Promise.all([
+      this.client.from('wallet_transfer_limits').select('*').eq('wallet_id', walletId)
+        .maybeSingle(),
+      this.client.rpc('effective_transfer_limits', { wallet_uuid: walletId }),
+    ])
+
+    if (overrides.error) {
+      throw databaseError(overrides.error, 'Failed to fetch wallet transfer limits')
+    }
+    if (effective.error) {
+      throw databaseError(effective.error, 'Failed to fetch effective transfer limits')
+    }
+
+    const row = effective.data[0]
+    if (!row) {
+      throw new Error('Failed to fetch effective transfer limits: no result returned')
+    }
+
+    return {
+      walletId,
+      overrides: overrides.data ? limitsFromRow(overrides.data) : null,
+      effective: limitsFromRow(row),
+    }
+  }
+
+  /**
+   * Replaces a wallet's overrides via set_transfer_limits()
+   *
+   * @param walletId - Sending wallet
+   * @param limits - New overrides
+   * @param reason - Operator-supplied reason
+   * @param actorId - Administrator performing the operation
+   * @returns Promise resolving to the update time
+   * @throws DomainError if the wallet does not exist or a limit is out of range
+   * @throws Error if the database call fails
+   */
+  async setWalletLimits(
+    walletId: WalletID,
+    limits: TransferLimits,
+    reason: string,
+    actorId: UserID,
+  ): Promise<number> {
+    return await this.setLimits(walletId, limits, reason, actorId)
+  }
+
+  /**
+   * Removes a wallet's overrides via clear_wallet_transfer_limits()
+   *
+   * @param walletId - Sending wallet
+   * @param reason - Operator-supplied reason
+   * @param actorId - Administrator performing the operation
+   * @returns Promise resolving to the removal time, or null if there were no overrides
+   * @throws Error if the database call fails
+   */
+  async clearWalletLimits(
+    walletId: WalletID,
+    reason: string,
+    actorId: UserID,
+  ): Promise<number | null> {
+    const { data, error } = await this.client.rpc('clear_wallet_transfer_limits', {
+      wallet_uuid: walletId,
+      actor_uuid: actorId,
+      audit_uuid: crypto.randomUUID(),
+      reason,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to clear wallet transfer limits')
+    }
+
+    return data ?? null
+  }
+
+  /**
+   * Calls set_transfer_limits() for the defaults (walletId null) or a wallet
+   */
+  private async setLimits(
+    walletId: WalletID | null,
+    limits: TransferLimits,
+    reason: string,
+    actorId: UserID,
+  ): Promise<number> {
+    const { data, error } = await this.client.rpc('set_transfer_limits', {
+      // NULL selects the defaults
+      wallet_uuid: walletId,
+      limits: limitsToJson(limits),
+      actor_uuid: actorId,
+      audit_uuid: crypto.randomUUID(),
+      reason,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to update transfer limits')
+    }
+
+    return data
+  }
+}
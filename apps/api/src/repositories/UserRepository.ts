@@ -0,0 +1,164 @@
+/**
+ * UserRepository - Supabase implementation of IUserRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from '../lib/database.types.ts'
+import type { AccountDeletion, IUserRepository } from './IUserRepository.ts'
+import { AsUserID, UserEntity, type UserID } from '../entities/UserEntity.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import { AsTransactionID } from '../entities/TransactionEntity.ts'
+import { databaseError } from '../lib/errors.ts'
+
+/**
+ * Supabase implementation of User repository
+ */
+export class UserRepository implements IUserRepository {
+  private readonly tableName = 'users'
+
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Maps database row to domain entity
+   *
+   * @param row - Row from the users table
+   * @returns UserEntity instance
+   */
+  private fromDatabase(row: Tables<'users'>): UserEntity {
+    return new UserEntity(
+      AsUserID(row.id),
+      AsWalletID(row.wallet_id),
+      row.username,
+      row.created_at,
+      row.updated_at,
+      row.deleted_at,
+    )
+  }
+
+  /**
+   * Retrieves a user by ID, including soft-deleted users
+   *
+   * @param id - UserID (branded type)
+   * @returns Promise resolving to UserEntity or null if not found
+   * @throws Error if database query fails
+   */
+  async findById(id: UserID): Promise<UserEntity | null> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch user by ID')
+    }
+
+    return data ? this.fromDatabase(data) : null
+  }
+
+  /**
+   * Creates the user and its wallet via the provision_user() database function
+   *
+   * Both rows are inserted in a single database transaction, so a user never
+   * exists without a wallet.
+   *
+   * @param id - User ID taken from the JWT `sub` claim
+   * @param username - Initial display name
+   * @returns Promise resolving to true if the user was created, false if it already existed
+   * @throws Error if the database call fails
+   */
+  async provision(id: UserID, username: string): Promise<boolean> {
+    const { data, error } = await this.client.rpc('provision_user', {
+      user_uuid: id,
+      wallet_uuid: crypto.randomUUID(),
+      user_name: username,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to provision user')
+    }
+
+    return data
+  }
+
+  /**
+   * Changes the display name of an active user
+   *
+   * updated_at is set by the update_users_updated_at trigger.
+   *
+   * @param id - UserID (branded type)
+   * @param username - New display name
+   * @returns Promise resolving to the updated UserEntity, or null if not found or deleted
+   * @throws Error if the database call fails (e.g. a username constraint is violated)
+   */
+  async updateUsername(id: UserID, username: string): Promise<UserEntity | null> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .update({ username })
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to update username')
+    }
+
+    return data ? this.fromDatabase(data) : null
+  }
+
+  /**
+   * Deletes an account via the delete_user_account() database function
+   * (see migration 20251129120000_account_deletion.sql)
+   *
+   * @param id - UserID (branded type)
+   * @returns Promise resolving to the sweep and deletion time
+   * @throws DomainError if a business rule rejects the deletion
+   * @throws Error if the database call fails
+   */
+  async deleteAccount(id: UserID): Promise<AccountDeletion> {
+    const { data, error } = await this.client.rpc('delete_user_account', {
+      user_uuid: id,
+      transaction_uuid: crypto.randomUUID(),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to delete account')
+    }
+
+    const row = data[0]
+    if (!row) {
+      throw new Error('Failed to delete account: no result returned')
+    }
+
+    return {
+      sweepTransactionId: row.transaction_id ? AsTransactionID(row.transaction_id) : null,
+      sweptAmount: row.swept_amount,
+      deletedAt: row.deleted_at,
+    }
+  }
+
+  /**
+   * Reactivates a soft-deleted user via the restore_user() database function
+   *
+   * @param id - UserID (branded type)
+   * @param reason - Operator-supplied reason
+   * @param actorId - Administrator performing the operation
+   * @returns Promise resolving to the restore time, or null if not found or not deleted
+   * @throws Error if the database call fails
+   */
+  async restore(id: UserID, reason: string, actorId: UserID): Promise<number | null> {
+    const { data, error } = await this.client.rpc('restore_user', {
+      user_uuid: id,
+      actor_uuid: actorId,
+      audit_uuid: crypto.randomUUID(),
+      reason,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to restore user')
+    }
+
+    return data ?? null
+  }
+}
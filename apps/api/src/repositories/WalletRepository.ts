@@ -0,0 +1,437 @@
+/**
+ * WalletRepository - Supabase implementation of IWalletRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from '../lib/database.types.ts'
+import {
+  type IWalletRepository,
+  type StatementLine,
+  type WalletStatement,
+} from './IWalletRepository.ts'
+import type { TransactionDirection } from './ITransactionRepository.ts'
+import {
+  AsWalletID,
+  WalletEntity,
+  type WalletEvent,
+  type WalletEventPosition,
+  type WalletEventType,
+  type WalletFreezeEvent,
+  type WalletID,
+  type WalletOwner,
+  type WalletOwnerType,
+} from '../entities/WalletEntity.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import { AsSystemAccountID, SystemAccountEntity } from '../entities/SystemAccountEntity.ts'
+import { databaseError, InvalidInputError } from '../lib/errors.ts'
+
+/**
+ * Maps a wallet_owners view row to a WalletOwner
+ *
+ * View columns are nullable in the generated types (UNION ALL view), but every
+ * row produced by the view has all columns set.
+ *
+ * @param row - Row from the wallet_owners view
+ * @returns WalletOwner
+ */
+export function walletOwnerFromRow(row: Tables<'wallet_owners'>): WalletOwner {
+  return {
+    walletId: AsWalletID(row.wallet_id!),
+    ownerType: row.owner_type as WalletOwnerType,
+    ownerId: row.owner_id!,
+    ownerName: row.owner_name!,
+  }
+}
+
+/**
+ * Supabase implementation of Wallet repository
+ */
+export class WalletRepository implements IWalletRepository {
+  private readonly tableName = 'wallets'
+
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Maps database row to domain entity
+   *
+   * @param row - Row from the wallets table
+   * @returns WalletEntity instance
+   */
+  private fromDatabase(row: Tables<'wallets'>): WalletEntity {
+    return new WalletEntity(
+      AsWalletID(row.id),
+      row.balance,
+      row.is_frozen,
+      row.created_at,
+      row.updated_at,
+    )
+  }
+
+  /**
+   * Retrieves a wallet by ID
+   *
+   * @param id - WalletID (branded type)
+   * @returns Promise resolving to WalletEntity or null if not found
+   * @throws Error if database query fails
+   */
+  async findById(id: WalletID): Promise<WalletEntity | null> {
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch wallet by ID')
+    }
+
+    return data ? this.fromDatabase(data) : null
+  }
+
+  /**
+   * Resolves the active owner of a wallet via the wallet_owners view
+   *
+   * @param id - WalletID (branded type)
+   * @returns Promise resolving to WalletOwner or null if the wallet has no active owner
+   * @throws Error if database query fails
+   */
+  async findOwner(id: WalletID): Promise<WalletOwner | null> {
+    const { data, error } = await this.client
+      .from('wallet_owners')
+      .select('*')
+      .eq('wallet_id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch wallet owner')
+    }
+
+    return data ? walletOwnerFromRow(data) : null
+  }
+
+  /**
+   * Finds wallets of active users by username prefix via search_user_wallets()
+   * (see migration 20251128120000_recipient_search.sql)
+   *
+   * @param namePrefix - Start of the username
+   * @param limit - Maximum number of results
+   * @returns Promise resolving to the owners, ordered by username
+   * @throws Error if the database call fails
+   */
+  async searchUserWallets(namePrefix: string, limit: number): Promise<WalletOwner[]> {
+    const { data, error } = await this.client.rpc('search_user_wallets', {
+      name_prefix: namePrefix,
+      max_rows: limit,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to search user wallets')
+    }
+
+    return data.map((row) => ({
+      walletId: AsWalletID(row.wallet_id),
+      ownerType: 'user',
+      ownerId: row.owner_id,
+      ownerName: row.owner_name,
+    }))
+  }
+
+  /**
+   * Retrieves a system account by its unique name
+   *
+   * @param name - System account name
+   * @returns Promise resolving to SystemAccountEntity or null if not found
+   * @throws Error if database query fails
+   */
+  async findSystemAccountByName(name: string): Promise<SystemAccountEntity | null> {
+    const { data, error } = await this.client
+      .from('system_accounts')
+      .select('*')
+      .eq('name', name)
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch system account')
+    }
+
+    return data
+      ? new SystemAccountEntity(
+        AsSystemAccountID(data.id),
+        AsWalletID(data.wallet_id),
+        data.name,
+        data.created_at,
+        data.updated_at,
+      )
+      : null
+  }
+
+  /**
+   * Freezes or unfreezes a wallet via the set_wallet_frozen() database function
+   *
+   * The wallet update, the history entry and the audit entry are written in one
+   * database transaction.
+   *
+   * @param id - Target wallet
+   * @param frozen - true to freeze, false to unfreeze
+   * @param reason - Operator-supplied reason
+   * @param actorId - Administrator performing the operation
+   * @returns Promise resolving to the recorded event
+   * @throws DomainError if a business rule refuses the operation
+   * @throws Error if the database call fails
+   */
+  async setFrozen(
+    id: WalletID,
+    frozen: boolean,
+    reason: string,
+    actorId: UserID,
+  ): Promise<WalletFreezeEvent> {
+    const eventId = crypto.randomUUID()
+    const { data, error } = await this.client.rpc('set_wallet_frozen', {
+      wallet_uuid: id,
+      frozen,
+      reason,
+      actor_uuid: actorId,
+      event_uuid: eventId,
+      audit_uuid: crypto.randomUUID(),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to update wallet frozen state')
+    }
+
+    return {
+      id: eventId,
+      walletId: id,
+      isFrozen: frozen,
+      reason,
+      actorUserId: actorId,
+      createdAt: data,
+    }
+  }
+
+  /**
+   * Lists freeze/unfreeze operations on a wallet, newest first
+   *
+   * @param id - Target wallet
+   * @returns Promise resolving to the wallet's freeze history
+   * @throws Error if database query fails
+   */
+  async listFreezeEvents(id: WalletID): Promise<WalletFreezeEvent[]> {
+    const { data, error } = await this.client
+      .from('wallet_freeze_events')
+      .select('*')
+      .eq('wallet_id', id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch freeze history')
+    }
+
+    return data.map((row) => ({
+      id: row.id,
+      walletId: AsWalletID(row.wallet_id),
+      isFrozen: row.is_frozen,
+      reason: row.reason,
+      actorUserId: row.actor_user_id,
+      createdAt: row.created_at,
+    }))
+  }
+
+  /**
+   * Lists wallet activity via the list_wallet_events() database function
+   *
+   * @param id - Target wallet
+   * @param after - Position of the last event already seen
+   * @param limit - Maximum number of events
+   * @returns Promise resolving to the events, oldest first
+   * @throws Error if database query fails
+   */
+  async listEvents(
+    id: WalletID,
+    after: WalletEventPosition,
+    limit: number,
+  ): Promise<WalletEvent[]> {
+    const { data, error } = await this.client.rpc('list_wallet_events', {
+      wallet_uuid: id,
+      after_xact_id: after.xactId,
+      after_position: after.position,
+      max_rows: limit,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch wallet events')
+    }
+
+    return data.map((row) => ({
+      type: row.event_type as WalletEventType,
+      position: { xactId: row.xact_id, position: row.log_position },
+      id: row.id,
+      walletId: id,
+      balance: row.balance,
+      createdAt: row.created_at,
+      // Transfer columns are NULL for freeze changes
+      transfer: row.counterparty_wallet_id === null ? null : {
+        counterpartyWalletId: AsWalletID(row.counterparty_wallet_id),
+        amount: row.amount,
+        transactionType: row.transaction_type,
+        memo: row.memo,
+      },
+    }))
+  }
+
+  /**
+   * Finds the position of the wallet's most recent event via latest_wallet_event_position()
+   *
+   * @param id - Target wallet
+   * @returns Promise resolving to the position, or null if the wallet has no events
+   * @throws Error if database query fails
+   */
+  async findLatestEventPosition(id: WalletID): Promise<WalletEventPosition | null> {
+    const { data, error } = await this.client
+      .rpc('latest_wallet_event_position', { wallet_uuid: id })
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch latest wallet event')
+    }
+
+    return data ? { xactId: data.xact_id, position: data.log_position } : null
+  }
+
+  /**
+   * Finds the position of one event via find_wallet_event_position()
+   *
+   * @param id - Target wallet
+   * @param eventId - Transaction or freeze event ID
+   * @returns Promise resolving to the position, or null if the event is not the wallet's
+   * @throws Error if database query fails
+   */
+  async findEventPosition(id: WalletID, eventId: string): Promise<WalletEventPosition | null> {
+    const { data, error } = await this.client
+      .rpc('find_wallet_event_position', { wallet_uuid: id, event_uuid: eventId })
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch wallet event position')
+    }
+
+    return data ? { xactId: data.xact_id, position: data.log_position } : null
+  }
+
+  /**
+   * Computes a balance at a point in time via wallet_balance_at()
+   *
+   * @param id - Target wallet
+   * @param at - Unix timestamp in milliseconds (exclusive)
+   * @returns Promise resolving to the balance
+   * @throws Error if the database call fails
+   */
+  async getBalanceAt(id: WalletID, at: number): Promise<number> {
+    const { data, error } = await this.client.rpc('wallet_balance_at', {
+      wallet_uuid: id,
+      as_of_ms: at,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to calculate balance')
+    }
+
+    return data
+  }
+
+  /**
+   * Builds a statement via get_wallet_statement()
+   *
+   * One extra row is requested to tell a complete statement from a truncated one.
+   *
+   * @param id - Target wallet
+   * @param from - Start of the period (Unix ms, inclusive)
+   * @param to - End of the period (Unix ms, exclusive)
+   * @param maxLines - Maximum number of transactions
+   * @returns Promise resolving to the statement
+   * @throws InvalidInputError if the period has more than maxLines transactions
+   * @throws Error if the database call fails
+   */
+  async getStatement(
+    id: WalletID,
+    from: number,
+    to: number,
+    maxLines: number,
+  ): Promise<WalletStatement> {
+    const { data, error } = await this.client.rpc('get_wallet_statement', {
+      wallet_uuid: id,
+      from_ms: from,
+      to_ms: to,
+      max_rows: maxLines + 1,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to build statement')
+    }
+
+    const first = data[0]
+    if (!first) {
+      throw new Error('Failed to build statement: no result returned')
+    }
+    if (data.length > maxLines) {
+      throw new InvalidInputError(
+        'INVALID_INPUT',
+        `Statement period has more than ${maxLines} transactions; request a shorter period`,
+      )
+    }
+
+    // A period without transactions yields one row with NULL line columns
+    const lines: StatementLine[] = data
+      .filter((row) => row.id !== null)
+      .map((row) => ({
+        transactionId: row.id,
+        direction: row.direction as TransactionDirection,
+        counterpartyWalletId: AsWalletID(row.counterparty_wallet_id),
+        amount: row.amount,
+        transactionType: row.transaction_type,
+        memo: row.memo,
+        createdAt: row.created_at,
+        balance: row.balance,
+      }))
+
+    let totalIn = 0
+    let totalOut = 0
+    for (const line of lines) {
+      if (line.direction === 'received') {
+        totalIn += line.amount
+      } else {
+        totalOut += line.amount
+      }
+    }
+
+    return {
+      walletId: id,
+      from,
+      to,
+      openingBalance: first.opening_balance,
+      totalIn,
+      totalOut,
+      closingBalance: first.opening_balance + totalIn - totalOut,
+      lines,
+    }
+  }
+
+  /**
+   * Records balance checkpoints via create_balance_checkpoints()
+   *
+   * @param asOf - Checkpoint time (Unix ms, at least one hour in the past)
+   * @returns Promise resolving to the number of checkpoints created
+   * @throws Error if the database call fails
+   */
+  async createBalanceCheckpoints(asOf: number): Promise<number> {
+    const { data, error } = await this.client.rpc('create_balance_checkpoints', {
+      checkpoint_as_of: asOf,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to create balance checkpoints')
+    }
+
+    return data
+  }
+}
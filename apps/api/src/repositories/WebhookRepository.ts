@@ -0,0 +1,347 @@
+/**
+ * WebhookRepository - Supabase implementation of IWebhookRepository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from '../lib/database.types.ts'
+import {
+  type ClaimedWebhookDelivery,
+  type CreateWebhookSubscriptionParams,
+  type IWebhookRepository,
+  type WebhookAttempt,
+  type WebhookDeliveryPage,
+  type WebhookDeliveryQuery,
+} from './IWebhookRepository.ts'
+import {
+  AsWebhookDeliveryID,
+  AsWebhookSubscriptionID,
+  type WebhookDelivery,
+  type WebhookDeliveryID,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+  WebhookSubscriptionEntity,
+  type WebhookSubscriptionID,
+} from '../entities/WebhookEntity.ts'
+import { AsTransactionID } from '../entities/TransactionEntity.ts'
+import { AsUserID, type UserID } from '../entities/UserEntity.ts'
+import { databaseError } from '../lib/errors.ts'
+
+/**
+ * Subscription columns (everything but the signing secret)
+ */
+const SUBSCRIPTION_COLUMNS = 'id, user_id, url, description, is_active, created_at, updated_at'
+
+/**
+ * Maps a webhook_subscriptions table row to a domain entity
+ *
+ * @param row - Row from the webhook_subscriptions table (secret not needed)
+ * @returns WebhookSubscriptionEntity instance
+ */
+export function webhookSubscriptionFromRow(
+  row: Omit<Tables<'webhook_subscriptions'>, 'secret'>,
+): WebhookSubscriptionEntity {
+  return new WebhookSubscriptionEntity(
+    AsWebhookSubscriptionID(row.id),
+    row.user_id ? AsUserID(row.user_id) : null,
+    row.url,
+    row.description,
+    row.is_active,
+    row.created_at,
+    row.updated_at,
+  )
+}
+
+/**
+ * Maps a webhook_deliveries table row to a domain object
+ *
+ * @param row - Row from the webhook_deliveries table
+ * @returns WebhookDelivery
+ */
+export function webhookDeliveryFromRow(row: Tables<'webhook_deliveries'>): WebhookDelivery {
+  return {
+    id: AsWebhookDeliveryID(row.id),
+    subscriptionId: AsWebhookSubscriptionID(row.subscription_id),
+    eventType: row.event_type as WebhookEventType,
+    transactionId: AsTransactionID(row.transaction_id),
+    payload: row.payload as Record<string, unknown>,
+    status: row.status as WebhookDeliveryStatus,
+    attemptCount: row.attempt_count,
+    nextAttemptAt: row.next_attempt_at,
+    lastAttemptAt: row.last_attempt_at,
+    lastResponseStatus: row.last_response_status,
+    lastError: row.last_error,
+    deliveredAt: row.delivered_at,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Supabase implementation of Webhook repository
+ */
+export class WebhookRepository implements IWebhookRepository {
+  constructor(private readonly client: SupabaseClient<Database>) {}
+
+  /**
+   * Retrieves a subscription by ID
+   *
+   * @param id - WebhookSubscriptionID (branded type)
+   * @returns Promise resolving to WebhookSubscriptionEntity or null if not found
+   * @throws Error if database query fails
+   */
+  async findSubscriptionById(
+    id: WebhookSubscriptionID,
+  ): Promise<WebhookSubscriptionEntity | null> {
+    const { data, error } = await this.client
+      .from('webhook_subscriptions')
+      .select(SUBSCRIPTION_COLUMNS)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch webhook subscription by ID')
+    }
+
+    return data ? webhookSubscriptionFromRow(data) : null
+  }
+
+  /**
+   * Registers an endpoint via the create_webhook_subscription() database function
+   *
+   * @param params - Owner, URL, secret and description
+   * @returns Promise resolving to the created subscription
+   * @throws DomainError if a business rule rejects the subscription
+   * @throws Error if the database call fails
+   */
+  async createSubscription(
+    params: CreateWebhookSubscriptionParams,
+  ): Promise<WebhookSubscriptionEntity> {
+    const id = AsWebhookSubscriptionID(crypto.randomUUID())
+    const { error } = await this.client.rpc('create_webhook_subscription', {
+      subscription_uuid: id,
+      // NULL creates a system subscription
+      user_uuid: params.userId,
+      subscription_url: params.url,
+      subscription_secret: params.secret,
+      ...(params.description && { subscription_description: params.description }),
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to create webhook subscription')
+    }
+
+    return await this.findSubscriptionAfterWrite(id, 'create webhook subscription')
+  }
+
+  /**
+   * Lists an owner's subscriptions, newest first
+   *
+   * @param userId - Owning user, or null for system integrations
+   * @returns Promise resolving to the subscriptions, disabled ones included
+   * @throws Error if database query fails
+   */
+  async listSubscriptions(userId: UserID | null): Promise<WebhookSubscriptionEntity[]> {
+    let request = this.client.from('webhook_subscriptions').select(SUBSCRIPTION_COLUMNS)
+    request = userId ? request.eq('user_id', userId) : request.is('user_id', null)
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch webhook subscriptions')
+    }
+
+    return data.map(webhookSubscriptionFromRow)
+  }
+
+  /**
+   * Disables a subscription via the disable_webhook_subscription() database function
+   *
+   * @param id - Target subscription
+   * @param userId - Owning user, or null for system integrations
+   * @returns Promise resolving to the disabled subscription
+   * @throws DomainError if a business rule rejects the operation
+   * @throws Error if the database call fails
+   */
+  async disableSubscription(
+    id: WebhookSubscriptionID,
+    userId: UserID | null,
+  ): Promise<WebhookSubscriptionEntity> {
+    const { error } = await this.client.rpc('disable_webhook_subscription', {
+      subscription_uuid: id,
+      user_uuid: userId,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to disable webhook subscription')
+    }
+
+    return await this.findSubscriptionAfterWrite(id, 'disable webhook subscription')
+  }
+
+  /**
+   * Lists deliveries of a subscription, newest first
+   *
+   * Fetches one extra row to detect whether another page exists.
+   *
+   * @param subscriptionId - Subscription
+   * @param query - Filters and page position
+   * @returns Promise resolving to one page of deliveries
+   * @throws Error if database query fails
+   */
+  async listDeliveries(
+    subscriptionId: WebhookSubscriptionID,
+    query: WebhookDeliveryQuery,
+  ): Promise<WebhookDeliveryPage> {
+    let request = this.client
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('subscription_id', subscriptionId)
+
+    if (query.status) {
+      request = request.eq('status', query.status)
+    }
+    if (query.cursor) {
+      const { createdAt, id } = query.cursor
+      request = request.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${id})`)
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(query.limit + 1)
+
+    if (error) {
+      throw databaseError(error, 'Failed to fetch webhook deliveries')
+    }
+
+    const rows = data.slice(0, query.limit)
+    const last = rows[rows.length - 1]
+    return {
+      items: rows.map(webhookDeliveryFromRow),
+      nextCursor: data.length > query.limit && last
+        ? { createdAt: last.created_at, id: last.id }
+        : null,
+    }
+  }
+
+  /**
+   * Queues a delivery again via the redeliver_webhook() database function
+   *
+   * @param subscriptionId - Subscription the delivery belongs to
+   * @param id - Target delivery
+   * @param userId - Owning user of the subscription, or null for system integrations
+   * @param asOf - Current time (Unix ms)
+   * @returns Promise resolving to the queued delivery
+   * @throws DomainError if a business rule rejects the redelivery
+   * @throws Error if the database call fails
+   */
+  async redeliver(
+    subscriptionId: WebhookSubscriptionID,
+    id: WebhookDeliveryID,
+    userId: UserID | null,
+    asOf: number,
+  ): Promise<WebhookDelivery> {
+    const { error } = await this.client.rpc('redeliver_webhook', {
+      delivery_uuid: id,
+      subscription_uuid: subscriptionId,
+      user_uuid: userId,
+      as_of: asOf,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to redeliver webhook')
+    }
+
+    const { data, error: fetchError } = await this.client
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (fetchError) {
+      throw new Error(`Failed to redeliver webhook: ${fetchError.message}`)
+    }
+
+    return webhookDeliveryFromRow(data)
+  }
+
+  /**
+   * Leases due deliveries via the claim_webhook_deliveries() database function
+   *
+   * @param asOf - Current time (Unix ms)
+   * @param limit - Maximum number of deliveries
+   * @param leaseMs - How long other dispatchers skip the leased deliveries
+   * @returns Promise resolving to the leased deliveries, oldest first
+   * @throws Error if the database call fails
+   */
+  async claimDue(asOf: number, limit: number, leaseMs: number): Promise<ClaimedWebhookDelivery[]> {
+    const { data, error } = await this.client.rpc('claim_webhook_deliveries', {
+      as_of: asOf,
+      batch_size: limit,
+      lease_ms: leaseMs,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to claim webhook deliveries')
+    }
+
+    return data.map((row) => ({
+      id: AsWebhookDeliveryID(row.id),
+      subscriptionId: AsWebhookSubscriptionID(row.subscription_id),
+      url: row.url,
+      secret: row.secret,
+      eventType: row.event_type as WebhookEventType,
+      transactionId: AsTransactionID(row.transaction_id),
+      payload: row.payload as Record<string, unknown>,
+      attemptCount: row.attempt_count,
+      createdAt: row.created_at,
+    }))
+  }
+
+  /**
+   * Records an attempt via the record_webhook_attempt() database function
+   *
+   * @param id - Attempted delivery
+   * @param attempt - Response status, error and retry time
+   * @returns Promise resolving to the new status, or null if no longer pending
+   * @throws Error if the database call fails
+   */
+  async recordAttempt(
+    id: WebhookDeliveryID,
+    attempt: WebhookAttempt,
+  ): Promise<WebhookDeliveryStatus | null> {
+    const { data, error } = await this.client.rpc('record_webhook_attempt', {
+      delivery_uuid: id,
+      attempted_at: attempt.attemptedAt,
+      response_status: attempt.responseStatus,
+      attempt_error: attempt.error,
+      retry_at: attempt.retryAt,
+    })
+
+    if (error) {
+      throw databaseError(error, 'Failed to record webhook attempt')
+    }
+
+    return data as WebhookDeliveryStatus | null
+  }
+
+  /**
+   * Re-reads a subscription after a write
+   *
+   * @param id - Subscription written by the previous call
+   * @param action - Description of the write, for the error message
+   * @returns Promise resolving to the current subscription
+   * @throws Error if the subscription cannot be read back
+   */
+  private async findSubscriptionAfterWrite(
+    id: WebhookSubscriptionID,
+    action: string,
+  ): Promise<WebhookSubscriptionEntity> {
+    const subscription = await this.findSubscriptionById(id)
+    if (!subscription) {
+      throw new Error(`Failed to ${action}: subscription missing after write`)
+    }
+    return subscription
+  }
+}
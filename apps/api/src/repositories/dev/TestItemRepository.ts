@@ -18,6 +18,7 @@ import {
   TestItemEntity,
   type TestItemID,
 } from "../../entities/dev/TestItemEntity.ts";
+import { databaseError } from "../../lib/errors.ts";
 
 /**
  * Database row type matching dev_test_items table schema
@@ -80,7 +81,7 @@ export class TestItemRepository implements ITestItemRepository {
       .order("created_at", { ascending: false });
 
     if (error) {
-      throw new Error(`Failed to fetch test items: ${error.message}`);
+      throw databaseError(error, "Failed to fetch test items");
     }
 
     return (data as DevTestItemRow[]).map((row) => this.fromDatabase(row));
@@ -105,7 +106,7 @@ export class TestItemRepository implements ITestItemRepository {
       if (error.code === "PGRST116") {
         return null;
       }
-      throw new Error(`Failed to fetch test item by ID: ${error.message}`);
+      throw databaseError(error, "Failed to fetch test item by ID");
     }
 
     return this.fromDatabase(data as DevTestItemRow);
@@ -128,7 +129,7 @@ export class TestItemRepository implements ITestItemRepository {
       .single();
 
     if (error) {
-      throw new Error(`Failed to create test item: ${error.message}`);
+      throw databaseError(error, "Failed to create test item");
     }
 
     return this.fromDatabase(data as DevTestItemRow);
@@ -148,7 +149,7 @@ export class TestItemRepository implements ITestItemRepository {
       .eq("id", id);
 
     if (error) {
-      throw new Error(`Failed to delete test item: ${error.message}`);
+      throw databaseError(error, "Failed to delete test item");
     }
 
     return (count ?? 0) > 0;
@@ -0,0 +1,176 @@
+/**
+ * Admin Audit Log HTTP Routes - read access to the administrative audit trail
+ *
+ * Endpoints:
+ * - GET /admin/v1/audit-log - Audit entries, newest first (cursor-paginated, filterable)
+ * - GET /admin/v1/audit-log/:id - One audit entry with the transactions it created
+ * - GET /admin/v1/audit-log/transactions/:transactionId - Audit entry behind a transaction
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../../lib/openapi.ts'
+import { encodeCursor } from '../../lib/cursor.ts'
+import type { IAuditLogRepository } from '../../repositories/IAuditLogRepository.ts'
+import { AsAuditLogID, AUDIT_ACTIONS, type AuditLogEntity } from '../../entities/AuditLogEntity.ts'
+import { AsTransactionID } from '../../entities/TransactionEntity.ts'
+import { AsUserID } from '../../entities/UserEntity.ts'
+import { AsWalletID } from '../../entities/WalletEntity.ts'
+import {
+  IdParamsSchema,
+  PageQuerySchema,
+  pageSchema,
+  UnixMsQuerySchema,
+  UnixMsSchema,
+  UUIDSchema,
+} from '../../schemas/common.ts'
+
+const AuditEntrySchema = z
+  .object({
+    id: z.string().uuid(),
+    actorUserId: z.string().uuid(),
+    action: z.enum(AUDIT_ACTIONS),
+    targetWalletId: z.string().uuid().nullable(),
+    reason: z.string(),
+    details: z.record(z.unknown()),
+    createdAt: UnixMsSchema,
+  })
+  .openapi('AuditEntry')
+
+const AuditLogQuerySchema = PageQuerySchema.extend({
+  actor: UUIDSchema.optional().openapi({ description: 'Administrator user ID' }),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  wallet: UUIDSchema.optional().openapi({ description: 'Target wallet ID' }),
+  from: UnixMsQuerySchema.optional().openapi({ description: 'Created at or after (Unix ms)' }),
+  to: UnixMsQuerySchema.optional().openapi({ description: 'Created before (Unix ms)' }),
+})
+
+const listAuditLogRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Admin'],
+  summary: 'Audit entries, newest first',
+  request: { query: AuditLogQuerySchema },
+  responses: {
+    200: jsonContent(pageSchema(AuditEntrySchema), 'Page of audit entries'),
+    ...errorResponses({ 400: 'Invalid request', 500: 'Unexpected failure' }),
+  },
+})
+
+const getAuditEntryByTransactionRoute = createRoute({
+  method: 'get',
+  path: '/transactions/{transactionId}',
+  tags: ['Admin'],
+  summary: 'Audit entry of the administrative operation that created a transaction',
+  request: { params: z.object({ transactionId: UUIDSchema }) },
+  responses: {
+    200: jsonContent(AuditEntrySchema, 'Audit entry'),
+    ...errorResponses({
+      400: 'Invalid transaction ID',
+      404: 'No audit entry for this transaction',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const getAuditEntryRoute = createRoute({
+  method: 'get',
+  path: '/{id}',
+  tags: ['Admin'],
+  summary: 'One audit entry with the IDs of the transactions it created',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(
+      AuditEntrySchema.extend({ transactionIds: z.array(z.string().uuid()) }),
+      'Audit entry',
+    ),
+    ...errorResponses({
+      400: 'Invalid audit entry ID',
+      404: 'Audit entry not found',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+/**
+ * Serializes an audit entry for API responses
+ */
+function toAuditEntryResponse(entry: AuditLogEntity) {
+  return {
+    id: entry.id,
+    actorUserId: entry.actorUserId,
+    action: entry.action,
+    targetWalletId: entry.targetWalletId,
+    reason: entry.reason,
+    details: entry.details,
+    createdAt: entry.createdAt,
+  }
+}
+
+/**
+ * Creates a Hono router for /admin/v1/audit-log endpoints
+ *
+ * @param repository - IAuditLogRepository implementation
+ * @returns Hono router instance
+ */
+export function createAuditLogRouter(repository: IAuditLogRepository): OpenAPIHono<Env> {
+  const router = createRouter()
+
+  /**
+   * GET /admin/v1/audit-log
+   * Audit entries, newest first
+   *
+   * Filterable by actor, action, target wallet and created_at range
+   * (from inclusive, to exclusive).
+   */
+  router.openapi(listAuditLogRoute, async (c) => {
+    const params = c.req.valid('query')
+    const page = await repository.list({
+      limit: params.limit,
+      cursor: params.cursor,
+      actorUserId: params.actor ? AsUserID(params.actor) : undefined,
+      action: params.action,
+      targetWalletId: params.wallet ? AsWalletID(params.wallet) : undefined,
+      createdFrom: params.from,
+      createdTo: params.to,
+    })
+    return c.json({
+      items: page.items.map(toAuditEntryResponse),
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    }, 200)
+  })
+
+  /**
+   * GET /admin/v1/audit-log/transactions/:transactionId
+   * Audit entry of the administrative operation that created a transaction
+   */
+  router.openapi(getAuditEntryByTransactionRoute, async (c) => {
+    const entry = await repository.findByTransactionId(
+      AsTransactionID(c.req.valid('param').transactionId),
+    )
+    if (!entry) {
+      return c.json({ error: 'No audit entry for this transaction', code: 'NOT_FOUND' }, 404)
+    }
+
+    return c.json(toAuditEntryResponse(entry), 200)
+  })
+
+  /**
+   * GET /admin/v1/audit-log/:id
+   * One audit entry with the IDs of the transactions it created
+   */
+  router.openapi(getAuditEntryRoute, async (c) => {
+    const auditLogId = AsAuditLogID(c.req.valid('param').id)
+    const [entry, transactionIds] = await Promise.all([
+      repository.findById(auditLogId),
+      repository.listTransactionIds(auditLogId),
+    ])
+    if (!entry) {
+      return c.json({ error: 'Audit entry not found', code: 'NOT_FOUND' }, 404)
+    }
+
+    return c.json({ ...toAuditEntryResponse(entry), transactionIds }, 200)
+  })
+
+  return router
+}
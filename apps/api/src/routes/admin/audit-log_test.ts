@@ -0,0 +1,159 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse } from '../../testing/app.ts'
+import { ALICE_ID, BOB_WALLET_ID, FIXTURE_TIME } from '../../testing/fixtures.ts'
+import { AsAuditLogID, AuditLogEntity } from '../../entities/AuditLogEntity.ts'
+import { AsTransactionID } from '../../entities/TransactionEntity.ts'
+import { encodeCursor } from '../../lib/cursor.ts'
+import type { AuditLogQuery } from '../../repositories/IAuditLogRepository.ts'
+
+const ENTRY_ID = AsAuditLogID('70000000-0000-4000-8000-000000000001')
+const TRANSACTION_ID = AsTransactionID('80000000-0000-4000-8000-000000000001')
+
+/**
+ * Freeze of Bob's wallet by Alice
+ */
+const freezeEntry = new AuditLogEntity(
+  ENTRY_ID,
+  ALICE_ID,
+  'wallet_freeze',
+  BOB_WALLET_ID,
+  'suspicious activity',
+  { isFrozen: true },
+  FIXTURE_TIME,
+)
+
+/**
+ * Authorization header of an admin
+ */
+async function adminHeaders() {
+  return {
+    Authorization: `Bearer ${await createTestToken(ALICE_ID, {
+      app_metadata: { role: 'admin' },
+    })}`,
+  }
+}
+
+Deno.test('GET /admin/v1/audit-log passes filters and the cursor to the repository', async () => {
+  const queries: AuditLogQuery[] = []
+  const app = createTestApp({
+    auditLog: {
+      list: (query) => {
+        queries.push(query)
+        return Promise.resolve({
+          items: [freezeEntry],
+          nextCursor: { createdAt: FIXTURE_TIME, id: ENTRY_ID },
+        })
+      },
+    },
+  })
+  const cursor = encodeCursor({ createdAt: FIXTURE_TIME + 1, id: ENTRY_ID })
+  const query = `action=wallet_freeze&actor=${ALICE_ID}&wallet=${BOB_WALLET_ID}` +
+    `&from=${FIXTURE_TIME}&to=${FIXTURE_TIME + 1000}&limit=1&cursor=${cursor}`
+
+  const response = await app.request(`/admin/v1/audit-log?${query}`, {
+    headers: await adminHeaders(),
+  })
+
+  const body = await parseResponse(app, 'get', '/admin/v1/audit-log', response, 200)
+  assertEquals(queries, [{
+    limit: 1,
+    cursor: { createdAt: FIXTURE_TIME + 1, id: ENTRY_ID },
+    actorUserId: ALICE_ID,
+    action: 'wallet_freeze',
+    targetWalletId: BOB_WALLET_ID,
+    createdFrom: FIXTURE_TIME,
+    createdTo: FIXTURE_TIME + 1000,
+  }])
+  assertEquals(body, {
+    items: [{
+      id: ENTRY_ID,
+      actorUserId: ALICE_ID,
+      action: 'wallet_freeze',
+      targetWalletId: BOB_WALLET_ID,
+      reason: 'suspicious activity',
+      details: { isFrozen: true },
+      createdAt: FIXTURE_TIME,
+    }],
+    nextCursor: encodeCursor({ createdAt: FIXTURE_TIME, id: ENTRY_ID }),
+  })
+})
+
+Deno.test('GET /admin/v1/audit-log rejects an unknown action', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/admin/v1/audit-log?action=wallet_delete', {
+    headers: await adminHeaders(),
+  })
+
+  await parseResponse(app, 'get', '/admin/v1/audit-log', response, 400)
+})
+
+Deno.test('GET /admin/v1/audit-log is closed to non-admins', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/admin/v1/audit-log', {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  assertEquals(response.status, 403)
+  await response.body?.cancel()
+})
+
+Deno.test('GET /admin/v1/audit-log/{id} returns the entry with the transactions it created', async () => {
+  const app = createTestApp({
+    auditLog: {
+      findById: (id) => Promise.resolve(id === ENTRY_ID ? freezeEntry : null),
+      listTransactionIds: () => Promise.resolve([TRANSACTION_ID]),
+    },
+  })
+
+  const response = await app.request(`/admin/v1/audit-log/${ENTRY_ID}`, {
+    headers: await adminHeaders(),
+  })
+
+  const body = await parseResponse(app, 'get', '/admin/v1/audit-log/{id}', response, 200)
+  assertEquals(body.reason, 'suspicious activity')
+  assertEquals(body.transactionIds, [TRANSACTION_ID])
+})
+
+Deno.test('GET /admin/v1/audit-log/{id} answers 404 for an unknown entry', async () => {
+  const app = createTestApp({
+    auditLog: {
+      findById: () => Promise.resolve(null),
+      listTransactionIds: () => Promise.resolve([]),
+    },
+  })
+
+  const response = await app.request(`/admin/v1/audit-log/${ENTRY_ID}`, {
+    headers: await adminHeaders(),
+  })
+
+  const body = await parseResponse(app, 'get', '/admin/v1/audit-log/{id}', response, 404)
+  assertEquals(body.code, 'NOT_FOUND')
+})
+
+Deno.test('GET /admin/v1/audit-log/transactions/{transactionId} returns the entry behind a transaction', async () => {
+  const transactionIds: string[] = []
+  const app = createTestApp({
+    auditLog: {
+      findByTransactionId: (transactionId) => {
+        transactionIds.push(transactionId)
+        return Promise.resolve(freezeEntry)
+      },
+    },
+  })
+
+  const response = await app.request(`/admin/v1/audit-log/transactions/${TRANSACTION_ID}`, {
+    headers: await adminHeaders(),
+  })
+
+  const body = await parseResponse(
+    app,
+    'get',
+    '/admin/v1/audit-log/transactions/{transactionId}',
+    response,
+    200,
+  )
+  assertEquals(transactionIds, [TRANSACTION_ID])
+  assertEquals(body.id, ENTRY_ID)
+})
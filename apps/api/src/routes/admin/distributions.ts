@@ -0,0 +1,166 @@
+/**
+ * Admin Distribution HTTP Routes - batch token distribution (features.md UC-2 / UC-7)
+ *
+ * Endpoints:
+ * - POST /admin/v1/distributions - Distribute tokens from a system account (supports dry run)
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../../lib/openapi.ts'
+import type {
+  DistributionRequest,
+  IDistributionRepository,
+} from '../../repositories/IDistributionRepository.ts'
+import { AsWalletID } from '../../entities/WalletEntity.ts'
+import { PRIMARY_SYSTEM_ACCOUNT_NAME } from '../../entities/SystemAccountEntity.ts'
+import { AsUserID } from '../../entities/UserEntity.ts'
+import {
+  AmountSchema,
+  MemoInputSchema,
+  MetadataInputSchema,
+  MetadataSchema,
+  ReasonSchema,
+  UUIDSchema,
+} from '../../schemas/common.ts'
+
+/**
+ * Maximum recipients per batch (features.md §2.7)
+ */
+const MAX_RECIPIENTS = 100
+
+const CreateDistributionSchema = z
+  .object({
+    systemAccount: z.string().optional().openapi({
+      description: `Distributing system account (defaults to ${PRIMARY_SYSTEM_ACCOUNT_NAME})`,
+    }),
+    recipients: z
+      .array(z.object({ walletId: UUIDSchema, amount: AmountSchema }))
+      .min(1)
+      .max(MAX_RECIPIENTS),
+    reason: ReasonSchema,
+    memo: MemoInputSchema,
+    metadata: MetadataInputSchema,
+    dryRun: z.boolean().optional(),
+  })
+  .openapi('CreateDistributionRequest')
+
+const DistributionPlanSchema = z
+  .object({
+    dryRun: z.literal(true),
+    systemAccount: z.string(),
+    systemWalletId: z.string().uuid(),
+    systemBalance: z.number().int(),
+    totalAmount: z.number().int(),
+    requiredIssuance: z.number().int(),
+    recipientCount: z.number().int(),
+  })
+  .openapi('DistributionPlan')
+
+const DistributionResultSchema = z
+  .object({
+    dryRun: z.literal(false),
+    systemAccount: z.string(),
+    auditLogId: z.string().uuid(),
+    issuanceTransactionId: z.string().uuid().nullable(),
+    issuedAmount: z.number().int(),
+    memo: z.string().nullable(),
+    metadata: MetadataSchema,
+    transactions: z.array(z.object({
+      id: z.string().uuid(),
+      toWalletId: z.string().uuid(),
+      amount: z.number().int(),
+    })),
+  })
+  .openapi('DistributionResult')
+
+const createDistributionRoute = createRoute({
+  method: 'post',
+  path: '/',
+  tags: ['Admin'],
+  summary: 'Distribute tokens to up to 100 user wallets, all-or-nothing',
+  description: 'With `dryRun: true` the distribution is only validated and the required ' +
+    'auto-issuance is reported; nothing is written.',
+  request: {
+    body: {
+      content: { 'application/json': { schema: CreateDistributionSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    200: jsonContent(DistributionPlanSchema, 'Dry run plan'),
+    201: jsonContent(DistributionResultSchema, 'Distribution executed'),
+    ...errorResponses({
+      400: 'Invalid request',
+      404: 'System account or recipient wallet not found',
+      409: 'A recipient wallet is frozen',
+      422: 'Distribution rejected by a transaction rule',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+/**
+ * Creates a Hono router for /admin/v1/distributions endpoints
+ *
+ * @param repository - IDistributionRepository implementation
+ * @returns Hono router instance
+ */
+export function createDistributionsRouter(repository: IDistributionRepository): OpenAPIHono<Env> {
+  const router = createRouter()
+
+  /**
+   * POST /admin/v1/distributions
+   * Distribute tokens to up to 100 user wallets, all-or-nothing
+   *
+   * With `dryRun: true` the distribution is only validated and the required
+   * auto-issuance is reported; nothing is written.
+   */
+  router.openapi(createDistributionRoute, async (c) => {
+    const body = c.req.valid('json')
+
+    const request: DistributionRequest = {
+      systemAccountName: body.systemAccount ?? PRIMARY_SYSTEM_ACCOUNT_NAME,
+      recipients: body.recipients.map((recipient) => ({
+        walletId: AsWalletID(recipient.walletId),
+        amount: recipient.amount,
+      })),
+      memo: body.memo,
+      metadata: body.metadata,
+    }
+
+    if (body.dryRun) {
+      const plan = await repository.plan(request)
+      return c.json({
+        dryRun: true as const,
+        systemAccount: request.systemAccountName,
+        systemWalletId: plan.systemWalletId,
+        systemBalance: plan.systemBalance,
+        totalAmount: plan.totalAmount,
+        requiredIssuance: plan.requiredIssuance,
+        recipientCount: request.recipients.length,
+      }, 200)
+    }
+
+    const result = await repository.distribute(
+      request,
+      body.reason,
+      AsUserID(c.get('userId')!),
+    )
+    return c.json(
+      {
+        dryRun: false as const,
+        systemAccount: request.systemAccountName,
+        auditLogId: result.auditLogId,
+        issuanceTransactionId: result.issuanceTransactionId,
+        issuedAmount: result.issuedAmount,
+        memo: body.memo,
+        metadata: body.metadata,
+        transactions: result.transactions,
+      },
+      201,
+    )
+  })
+
+  return router
+}
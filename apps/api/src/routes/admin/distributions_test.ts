@@ -0,0 +1,102 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse, type TestApp } from '../../testing/app.ts'
+import { ALICE_ID, ALICE_WALLET_ID, BOB_WALLET_ID } from '../../testing/fixtures.ts'
+import { AsWalletID } from '../../entities/WalletEntity.ts'
+import { AsAuditLogID } from '../../entities/AuditLogEntity.ts'
+import { AsTransactionID } from '../../entities/TransactionEntity.ts'
+import { NotFoundError } from '../../lib/errors.ts'
+import type { DistributionRequest } from '../../repositories/IDistributionRepository.ts'
+
+const SYSTEM_WALLET_ID = AsWalletID('00000000-0000-4000-8000-000000000001')
+
+/**
+ * POSTs a distribution of 100 to Alice and 200 to Bob as an admin
+ */
+async function postDistribution(app: TestApp, dryRun: boolean) {
+  return app.request('/admin/v1/distributions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID, {
+        app_metadata: { role: 'admin' },
+      })}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      recipients: [
+        { walletId: ALICE_WALLET_ID, amount: 100 },
+        { walletId: BOB_WALLET_ID, amount: 200 },
+      ],
+      reason: 'monthly grant',
+      dryRun,
+    }),
+  })
+}
+
+Deno.test('POST /admin/v1/distributions with dryRun reports the plan', async () => {
+  const requests: DistributionRequest[] = []
+  const app = createTestApp({
+    distributions: {
+      plan: (request) => {
+        requests.push(request)
+        return Promise.resolve({
+          systemWalletId: SYSTEM_WALLET_ID,
+          systemBalance: 50,
+          totalAmount: 300,
+          requiredIssuance: 250,
+        })
+      },
+    },
+  })
+
+  const response = await postDistribution(app, true)
+
+  const body = await parseResponse(app, 'post', '/admin/v1/distributions', response, 200)
+  assertEquals(body, {
+    dryRun: true,
+    systemAccount: requests[0]!.systemAccountName,
+    systemWalletId: SYSTEM_WALLET_ID,
+    systemBalance: 50,
+    totalAmount: 300,
+    requiredIssuance: 250,
+    recipientCount: 2,
+  })
+})
+
+Deno.test('POST /admin/v1/distributions records the admin and returns the audit entry', async () => {
+  const calls: unknown[][] = []
+  const auditLogId = AsAuditLogID('70000000-0000-4000-8000-000000000001')
+  const transactionId = AsTransactionID('80000000-0000-4000-8000-000000000001')
+  const app = createTestApp({
+    distributions: {
+      distribute: (request, reason, actorId) => {
+        calls.push([request.recipients.length, reason, actorId])
+        return Promise.resolve({
+          auditLogId,
+          issuanceTransactionId: null,
+          issuedAmount: 0,
+          transactions: [{ id: transactionId, toWalletId: ALICE_WALLET_ID, amount: 100 }],
+        })
+      },
+    },
+  })
+
+  const response = await postDistribution(app, false)
+
+  const body = await parseResponse(app, 'post', '/admin/v1/distributions', response, 201)
+  assertEquals(calls, [[2, 'monthly grant', ALICE_ID]])
+  assertEquals(body.auditLogId, auditLogId)
+})
+
+Deno.test('POST /admin/v1/distributions maps a DomainError to its status and code', async () => {
+  const app = createTestApp({
+    distributions: {
+      distribute: () =>
+        Promise.reject(new NotFoundError('WALLET_NOT_FOUND', 'Recipient wallet not found')),
+    },
+  })
+
+  const response = await postDistribution(app, false)
+
+  const body = await parseResponse(app, 'post', '/admin/v1/distributions', response, 404)
+  assertEquals(body, { error: 'Recipient wallet not found', code: 'WALLET_NOT_FOUND' })
+})
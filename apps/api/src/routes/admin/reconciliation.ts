@@ -0,0 +1,69 @@
+/**
+ * Admin Reconciliation HTTP Routes - ledger vs. wallet balance consistency
+ *
+ * Endpoints:
+ * - GET /admin/v1/reconciliation - Run a reconciliation and return the report
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../../lib/openapi.ts'
+import type { IReconciliationRepository } from '../../repositories/IReconciliationRepository.ts'
+import { runReconciliation } from '../../jobs/reconcile.ts'
+import { UnixMsSchema } from '../../schemas/common.ts'
+
+const ReconciliationReportSchema = z
+  .object({
+    ok: z.boolean().openapi({ description: 'true when no wallet drifted and no orphan exists' }),
+    checkedAt: UnixMsSchema,
+    drift: z.array(z.object({
+      walletId: z.string().uuid(),
+      storedBalance: z.number().int(),
+      ledgerBalance: z.number().int(),
+      difference: z.number().int().openapi({ description: 'storedBalance - ledgerBalance' }),
+    })),
+    orphans: z.array(z.object({
+      walletId: z.string().uuid(),
+      balance: z.number().int(),
+    })),
+  })
+  .openapi('ReconciliationReport')
+
+const reconcileRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Admin'],
+  summary: 'Replay the ledger and report drifted and orphan wallets',
+  responses: {
+    200: jsonContent(ReconciliationReportSchema, 'Reconciliation report; inspect `ok`'),
+    ...errorResponses({ 500: 'Unexpected failure' }),
+  },
+})
+
+/**
+ * Creates a Hono router for /admin/v1/reconciliation endpoints
+ *
+ * @param repository - IReconciliationRepository implementation
+ * @returns Hono router instance
+ */
+export function createReconciliationRouter(
+  repository: IReconciliationRepository,
+): OpenAPIHono<Env> {
+  const router = createRouter()
+
+  /**
+   * GET /admin/v1/reconciliation
+   * Replays the ledger and reports drifted and orphan wallets
+   *
+   * Always 200 when the check itself succeeds; inspect `ok` for the outcome.
+   */
+  router.openapi(reconcileRoute, async (c) => {
+    const report = await runReconciliation(repository)
+    if (!report.ok) {
+      c.get('logger').error('Ledger reconciliation found discrepancies', { report })
+    }
+    return c.json(report, 200)
+  })
+
+  return router
+}
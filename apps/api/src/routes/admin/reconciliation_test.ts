@@ -0,0 +1,57 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse } from '../../testing/app.ts'
+import { ALICE_ID, ALICE_WALLET_ID } from '../../testing/fixtures.ts'
+import { createLogger, type LogLevel } from '../../lib/logger.ts'
+
+/**
+ * Authorization header of an admin
+ */
+async function adminHeaders() {
+  return {
+    Authorization: `Bearer ${await createTestToken(ALICE_ID, {
+      app_metadata: { role: 'admin' },
+    })}`,
+  }
+}
+
+Deno.test('GET /admin/v1/reconciliation returns the report and logs discrepancies', async () => {
+  const logs: [LogLevel, string][] = []
+  const app = createTestApp({
+    reconciliation: {
+      findDiscrepancies: () =>
+        Promise.resolve([
+          { walletId: ALICE_WALLET_ID, storedBalance: 120, ledgerBalance: 100, isOrphan: false },
+        ]),
+    },
+  }, { logger: createLogger({ write: (line, level) => logs.push([level, line]) }) })
+
+  const response = await app.request('/admin/v1/reconciliation', { headers: await adminHeaders() })
+
+  const body = await parseResponse(app, 'get', '/admin/v1/reconciliation', response, 200)
+  assertEquals(body.ok, false)
+  assertEquals(body.drift, [
+    { walletId: ALICE_WALLET_ID, storedBalance: 120, ledgerBalance: 100, difference: 20 },
+  ])
+  const errors = logs.filter(([level]) => level === 'error').map(([, line]) => JSON.parse(line))
+  assertEquals(errors.map((entry) => entry.msg), ['Ledger reconciliation found discrepancies'])
+})
+
+Deno.test('GET /admin/v1/reconciliation answers 200 with ok for a consistent ledger', async () => {
+  const app = createTestApp({ reconciliation: { findDiscrepancies: () => Promise.resolve([]) } })
+
+  const response = await app.request('/admin/v1/reconciliation', { headers: await adminHeaders() })
+
+  const body = await parseResponse(app, 'get', '/admin/v1/reconciliation', response, 200)
+  assertEquals([body.ok, body.drift, body.orphans], [true, [], []])
+})
+
+Deno.test('GET /admin/v1/reconciliation is closed to non-admins', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/admin/v1/reconciliation', {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  assertEquals(response.status, 403)
+  await response.body?.cancel()
+})
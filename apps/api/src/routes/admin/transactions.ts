@@ -0,0 +1,301 @@
+/**
+ * Admin Transaction HTTP Routes - inspection and compensating reversals
+ *
+ * Endpoints:
+ * - GET /admin/v1/transactions - Search all transactions by metadata (cursor-paginated)
+ * - GET /admin/v1/transactions/export - Full ledger or one wallet's history as CSV or NDJSON
+ * - GET /admin/v1/transactions/:id - Transaction with its reversals
+ * - POST /admin/v1/transactions/:id/reversals - Reverse a transaction (full or partial)
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../../lib/openapi.ts'
+import { encodeCursor } from '../../lib/cursor.ts'
+import { parseMetadataFilter } from '../../lib/annotations.ts'
+import { EXPORT_PAGE_SIZE, exportResponse, paginate } from '../../lib/export.ts'
+import type { ITransactionRepository } from '../../repositories/ITransactionRepository.ts'
+import { AsTransactionID, type TransactionEntity } from '../../entities/TransactionEntity.ts'
+import { AsUserID } from '../../entities/UserEntity.ts'
+import { AsWalletID } from '../../entities/WalletEntity.ts'
+import {
+  ExportQuerySchema,
+  exportResponse200,
+  LEDGER_EXPORT_COLUMNS,
+  mapPages,
+  toLedgerExportRecord,
+  toWalletExportRecord,
+  WALLET_EXPORT_COLUMNS,
+} from '../transaction-export.ts'
+import {
+  AmountSchema,
+  IdParamsSchema,
+  MetadataSchema,
+  PageQuerySchema,
+  pageSchema,
+  ReasonSchema,
+  UnixMsSchema,
+  UUIDSchema,
+} from '../../schemas/common.ts'
+
+const AdminTransactionSchema = z
+  .object({
+    id: z.string().uuid(),
+    fromWalletId: z.string().uuid(),
+    toWalletId: z.string().uuid(),
+    amount: z.number().int(),
+    transactionType: z.number().int(),
+    transactionTypeLabel: z.string(),
+    reversesTransactionId: z.string().uuid().nullable(),
+    memo: z.string().nullable(),
+    metadata: MetadataSchema,
+    createdAt: UnixMsSchema,
+  })
+  .openapi('AdminTransaction')
+
+const TransactionDetailSchema = AdminTransactionSchema
+  .extend({
+    reversals: z.array(AdminTransactionSchema),
+    reversedAmount: z.number().int(),
+    remainingAmount: z.number().int().openapi({ description: 'Amount that can still be reversed' }),
+  })
+  .openapi('AdminTransactionDetail')
+
+const CreateReversalSchema = z
+  .object({
+    amount: AmountSchema.optional().openapi({
+      description: 'Amount to reverse (defaults to everything not yet reversed)',
+    }),
+    reason: ReasonSchema,
+  })
+  .openapi('CreateReversalRequest')
+
+const searchTransactionsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Admin'],
+  summary: 'Transactions across all wallets whose metadata matches, newest first',
+  description: 'At least one `meta.<key>=<value>` parameter is required; all must match.',
+  request: { query: PageQuerySchema },
+  responses: {
+    200: jsonContent(pageSchema(AdminTransactionSchema), 'Page of transactions'),
+    ...errorResponses({ 400: 'Invalid request', 500: 'Unexpected failure' }),
+  },
+})
+
+const ExportLedgerQuerySchema = ExportQuerySchema.extend({
+  wallet: UUIDSchema.optional().openapi({
+    description: 'Export only this wallet\'s history (defaults to the full ledger)',
+  }),
+})
+
+const exportTransactionsRoute = createRoute({
+  method: 'get',
+  path: '/export',
+  tags: ['Admin'],
+  summary: 'Full ledger, or one wallet\'s history, as a CSV or NDJSON file',
+  description: 'Transactions in [`from`, `to`), newest first, streamed page by page. Ledger ' +
+    'rows name both sender and recipient owners; with `wallet`, rows have the same columns as ' +
+    'the user export. `created_at` is Unix ms and `created_at_iso` the same instant in ISO 8601.',
+  request: { query: ExportLedgerQuerySchema },
+  responses: {
+    200: exportResponse200,
+    ...errorResponses({ 400: 'Invalid query parameters', 500: 'Unexpected failure' }),
+  },
+})
+
+const getTransactionRoute = createRoute({
+  method: 'get',
+  path: '/{id}',
+  tags: ['Admin'],
+  summary: 'Transaction with its reversals and the amount that can still be reversed',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(TransactionDetailSchema, 'Transaction'),
+    ...errorResponses({
+      400: 'Invalid transaction ID',
+      404: 'Transaction not found',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const createReversalRoute = createRoute({
+  method: 'post',
+  path: '/{id}/reversals',
+  tags: ['Admin'],
+  summary: 'Move tokens back from the original recipient to the original sender',
+  description: 'Omit `amount` to reverse everything not yet reversed. Reversals of the same ' +
+    'transaction can never add up to more than its amount.',
+  request: {
+    params: IdParamsSchema,
+    body: { content: { 'application/json': { schema: CreateReversalSchema } }, required: true },
+  },
+  responses: {
+    201: jsonContent(
+      z.object({
+        transaction: AdminTransactionSchema,
+        auditLogId: z.string().uuid(),
+        remainingAmount: z.number().int(),
+      }),
+      'Reversal created',
+    ),
+    ...errorResponses({
+      400: 'Invalid request',
+      404: 'Transaction not found',
+      409: 'Transaction not reversible, already reversed, or a wallet is frozen',
+      422: 'Amount exceeds the remaining amount, or insufficient balance',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+/**
+ * Serializes a transaction for API responses
+ */
+function toTransactionResponse(transaction: TransactionEntity) {
+  return {
+    id: transaction.id,
+    fromWalletId: transaction.fromWalletId,
+    toWalletId: transaction.toWalletId,
+    amount: transaction.amount,
+    transactionType: transaction.transactionType,
+    transactionTypeLabel: transaction.transactionTypeLabel,
+    reversesTransactionId: transaction.reversesTransactionId,
+    memo: transaction.memo,
+    metadata: transaction.metadata,
+    createdAt: transaction.createdAt,
+  }
+}
+
+/**
+ * Creates a Hono router for /admin/v1/transactions endpoints
+ *
+ * @param repository - ITransactionRepository implementation
+ * @returns Hono router instance
+ */
+export function createAdminTransactionsRouter(
+  repository: ITransactionRepository,
+): OpenAPIHono<Env> {
+  const router = createRouter()
+
+  /**
+   * GET /admin/v1/transactions
+   * Transactions across all wallets whose metadata matches, newest first
+   *
+   * `meta.<key>` filters are read from the raw query because their names are not fixed.
+   */
+  router.openapi(searchTransactionsRoute, async (c) => {
+    const { limit, cursor } = c.req.valid('query')
+    const metadata = parseMetadataFilter(c.req.query())
+    if ('error' in metadata) {
+      return c.json({ error: `Invalid request: ${metadata.error}`, code: 'INVALID_REQUEST' }, 400)
+    }
+    if (!metadata.filter) {
+      return c.json(
+        {
+          error: 'Invalid request: at least one meta.<key> filter is required',
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      )
+    }
+
+    const page = await repository.searchByMetadata({ limit, cursor, metadata: metadata.filter })
+    return c.json({
+      items: page.items.map(toTransactionResponse),
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    }, 200)
+  })
+
+  /**
+   * GET /admin/v1/transactions/export
+   * Ledger or wallet history as a download, read EXPORT_PAGE_SIZE rows at a time
+   *
+   * Registered before /:id so that "export" is not taken for a transaction ID.
+   */
+  router.openapi(exportTransactionsRoute, (c) => {
+    const { format, from, to, wallet } = c.req.valid('query')
+
+    if (wallet) {
+      const walletId = AsWalletID(wallet)
+      const pages = paginate((cursor) =>
+        repository.listByWallet(walletId, {
+          limit: EXPORT_PAGE_SIZE,
+          cursor,
+          createdFrom: from,
+          createdTo: to,
+        })
+      )
+      return exportResponse(c, {
+        format,
+        filename: `transactions-${walletId}`,
+        columns: WALLET_EXPORT_COLUMNS,
+        pages: mapPages(pages, toWalletExportRecord),
+      })
+    }
+
+    const pages = paginate((cursor) =>
+      repository.listLedger({ limit: EXPORT_PAGE_SIZE, cursor, createdFrom: from, createdTo: to })
+    )
+    return exportResponse(c, {
+      format,
+      filename: 'ledger',
+      columns: LEDGER_EXPORT_COLUMNS,
+      pages: mapPages(pages, toLedgerExportRecord),
+    })
+  })
+
+  /**
+   * GET /admin/v1/transactions/:id
+   * Transaction with its reversals and the amount that can still be reversed
+   */
+  router.openapi(getTransactionRoute, async (c) => {
+    const transactionId = AsTransactionID(c.req.valid('param').id)
+    const [transaction, reversals] = await Promise.all([
+      repository.findById(transactionId),
+      repository.listReversals(transactionId),
+    ])
+    if (!transaction) {
+      return c.json({ error: 'Transaction not found', code: 'TRANSACTION_NOT_FOUND' }, 404)
+    }
+
+    const reversedAmount = reversals.reduce((sum, reversal) => sum + reversal.amount, 0)
+    const reversible = !transaction.isReversal && !transaction.isIssuance && !transaction.isEscrow
+    return c.json({
+      ...toTransactionResponse(transaction),
+      reversals: reversals.map(toTransactionResponse),
+      reversedAmount,
+      remainingAmount: reversible ? transaction.amount - reversedAmount : 0,
+    }, 200)
+  })
+
+  /**
+   * POST /admin/v1/transactions/:id/reversals
+   * Move tokens back from the original recipient to the original sender
+   *
+   * Omit `amount` to reverse everything not yet reversed. Reversals of the same
+   * transaction can never add up to more than its amount.
+   */
+  router.openapi(createReversalRoute, async (c) => {
+    const body = c.req.valid('json')
+
+    const result = await repository.reverse({
+      transactionId: AsTransactionID(c.req.valid('param').id),
+      amount: body.amount,
+      reason: body.reason,
+      actorId: AsUserID(c.get('userId')!),
+    })
+
+    return c.json(
+      {
+        transaction: toTransactionResponse(result.transaction),
+        auditLogId: result.auditLogId,
+        remainingAmount: result.remainingAmount,
+      },
+      201,
+    )
+  })
+
+  return router
+}
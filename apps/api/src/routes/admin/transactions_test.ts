@@ -0,0 +1,238 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse, type TestApp } from '../../testing/app.ts'
+import { ALICE_ID, ALICE_WALLET_ID, BOB_WALLET_ID, FIXTURE_TIME } from '../../testing/fixtures.ts'
+import { AsAuditLogID } from '../../entities/AuditLogEntity.ts'
+import { AsTransactionID, TransactionEntity } from '../../entities/TransactionEntity.ts'
+import { translateDatabaseError } from '../../lib/errors.ts'
+import type { ReverseTransactionParams } from '../../repositories/ITransactionRepository.ts'
+
+const ORIGINAL_ID = AsTransactionID('90000000-0000-4000-8000-000000000001')
+const REVERSAL_ID = AsTransactionID('90000000-0000-4000-8000-000000000002')
+const AUDIT_LOG_ID = AsAuditLogID('70000000-0000-4000-8000-000000000001')
+
+/**
+ * P2P transfer of 100 from Alice to Bob
+ */
+const original = new TransactionEntity(
+  ORIGINAL_ID,
+  ALICE_WALLET_ID,
+  BOB_WALLET_ID,
+  100,
+  4,
+  FIXTURE_TIME,
+)
+
+/**
+ * Partial reversal of `original`: 40 back from Bob to Alice
+ */
+const reversal = new TransactionEntity(
+  REVERSAL_ID,
+  BOB_WALLET_ID,
+  ALICE_WALLET_ID,
+  40,
+  6,
+  FIXTURE_TIME + 1000,
+  ORIGINAL_ID,
+)
+
+/**
+ * `reversal` as the API serializes it
+ */
+const reversalResponse = {
+  id: REVERSAL_ID,
+  fromWalletId: BOB_WALLET_ID,
+  toWalletId: ALICE_WALLET_ID,
+  amount: 40,
+  transactionType: 6,
+  transactionTypeLabel: 'Reversal',
+  reversesTransactionId: ORIGINAL_ID,
+  memo: null,
+  metadata: {},
+  createdAt: FIXTURE_TIME + 1000,
+}
+
+/**
+ * Authorization header of an admin
+ */
+async function adminHeaders() {
+  return {
+    Authorization: `Bearer ${await createTestToken(ALICE_ID, {
+      app_metadata: { role: 'admin' },
+    })}`,
+  }
+}
+
+/**
+ * POSTs a reversal of `id` as an admin
+ */
+async function postReversal(app: TestApp, id: string, body: Record<string, unknown>) {
+  return app.request(`/admin/v1/transactions/${id}/reversals`, {
+    method: 'POST',
+    headers: { ...await adminHeaders(), 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+/**
+ * Creates the app with reverse() failing as reverse_transaction() does with `sqlstate`
+ */
+function createRejectingApp(sqlstate: string, message: string) {
+  return createTestApp({
+    transactions: {
+      reverse: () => Promise.reject(translateDatabaseError({ code: sqlstate, message })),
+    },
+  })
+}
+
+Deno.test('POST /admin/v1/transactions/{id}/reversals records the reversal and its actor', async () => {
+  const calls: ReverseTransactionParams[] = []
+  const app = createTestApp({
+    transactions: {
+      reverse: (params) => {
+        calls.push(params)
+        return Promise.resolve({
+          transaction: reversal,
+          auditLogId: AUDIT_LOG_ID,
+          remainingAmount: 60,
+        })
+      },
+    },
+  })
+
+  const response = await postReversal(app, ORIGINAL_ID, { amount: 40, reason: 'duplicate' })
+
+  const body = await parseResponse(
+    app,
+    'post',
+    '/admin/v1/transactions/{id}/reversals',
+    response,
+    201,
+  )
+  assertEquals(calls, [{
+    transactionId: ORIGINAL_ID,
+    amount: 40,
+    reason: 'duplicate',
+    actorId: ALICE_ID,
+  }])
+  assertEquals(body, {
+    transaction: reversalResponse,
+    auditLogId: AUDIT_LOG_ID,
+    remainingAmount: 60,
+  })
+})
+
+Deno.test('POST /admin/v1/transactions/{id}/reversals rejects reversing a reversal', async () => {
+  const app = createRejectingApp(
+    'CT021',
+    'Transaction is not reversible: reversals cannot be reversed',
+  )
+
+  const response = await postReversal(app, REVERSAL_ID, { reason: 'duplicate' })
+
+  const body = await parseResponse(
+    app,
+    'post',
+    '/admin/v1/transactions/{id}/reversals',
+    response,
+    409,
+  )
+  assertEquals(body.code, 'NOT_REVERSIBLE')
+})
+
+Deno.test('POST /admin/v1/transactions/{id}/reversals rejects reversing a transaction twice', async () => {
+  const app = createRejectingApp('CT022', 'Transaction is already fully reversed')
+
+  const response = await postReversal(app, ORIGINAL_ID, { reason: 'duplicate' })
+
+  const body = await parseResponse(
+    app,
+    'post',
+    '/admin/v1/transactions/{id}/reversals',
+    response,
+    409,
+  )
+  assertEquals(body, { error: 'Transaction is already fully reversed', code: 'ALREADY_REVERSED' })
+})
+
+Deno.test('POST /admin/v1/transactions/{id}/reversals rejects more than the remaining amount', async () => {
+  const app = createRejectingApp(
+    'CT023',
+    'Reversal amount exceeds remaining reversible amount: 70 > 60',
+  )
+
+  const response = await postReversal(app, ORIGINAL_ID, { amount: 70, reason: 'duplicate' })
+
+  const body = await parseResponse(
+    app,
+    'post',
+    '/admin/v1/transactions/{id}/reversals',
+    response,
+    422,
+  )
+  assertEquals(body.code, 'AMOUNT_EXCEEDS_REMAINING')
+})
+
+Deno.test('POST /admin/v1/transactions/{id}/reversals requires a reason', async () => {
+  const app = createTestApp()
+
+  const response = await postReversal(app, ORIGINAL_ID, { amount: 40 })
+
+  await parseResponse(app, 'post', '/admin/v1/transactions/{id}/reversals', response, 400)
+})
+
+Deno.test('GET /admin/v1/transactions/{id} reports the reversals and the remaining amount', async () => {
+  const app = createTestApp({
+    transactions: {
+      findById: () => Promise.resolve(original),
+      listReversals: () => Promise.resolve([reversal]),
+    },
+  })
+
+  const response = await app.request(`/admin/v1/transactions/${ORIGINAL_ID}`, {
+    headers: await adminHeaders(),
+  })
+
+  const body = await parseResponse(app, 'get', '/admin/v1/transactions/{id}', response, 200)
+  assertEquals(body.reversals, [reversalResponse])
+  assertEquals([body.reversedAmount, body.remainingAmount], [40, 60])
+})
+
+Deno.test('GET /admin/v1/transactions/{id} reports nothing left to reverse on a reversal', async () => {
+  const app = createTestApp({
+    transactions: {
+      findById: () => Promise.resolve(reversal),
+      listReversals: () => Promise.resolve([]),
+    },
+  })
+
+  const response = await app.request(`/admin/v1/transactions/${REVERSAL_ID}`, {
+    headers: await adminHeaders(),
+  })
+
+  const body = await parseResponse(app, 'get', '/admin/v1/transactions/{id}', response, 200)
+  assertEquals([body.reversesTransactionId, body.remainingAmount], [ORIGINAL_ID, 0])
+})
+
+Deno.test('GET /admin/v1/transactions/{id} reports nothing left to reverse on an escrow hold', async () => {
+  const hold = new TransactionEntity(
+    ORIGINAL_ID,
+    ALICE_WALLET_ID,
+    BOB_WALLET_ID,
+    100,
+    7,
+    FIXTURE_TIME,
+  )
+  const app = createTestApp({
+    transactions: {
+      findById: () => Promise.resolve(hold),
+      listReversals: () => Promise.resolve([]),
+    },
+  })
+
+  const response = await app.request(`/admin/v1/transactions/${ORIGINAL_ID}`, {
+    headers: await adminHeaders(),
+  })
+
+  const body = await parseResponse(app, 'get', '/admin/v1/transactions/{id}', response, 200)
+  assertEquals([body.reversedAmount, body.remainingAmount], [0, 0])
+})
@@ -0,0 +1,294 @@
+/**
+ * Admin Transfer Limit HTTP Routes - default limits and per-wallet overrides
+ *
+ * Endpoints:
+ * - GET /admin/v1/transfer-limits - Default limits
+ * - PUT /admin/v1/transfer-limits - Replace the default limits (reason required)
+ * - GET /admin/v1/transfer-limits/wallets/:id - A wallet's overrides and effective limits
+ * - PUT /admin/v1/transfer-limits/wallets/:id - Replace a wallet's overrides (reason required)
+ * - DELETE /admin/v1/transfer-limits/wallets/:id - Remove a wallet's overrides (reason required)
+ *
+ * Limits are enforced by the database on P2P transfers, pool fees and escrow holds; a
+ * rejected transfer fails with 422 and a code naming the limit (see the transfer routes).
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../../lib/openapi.ts'
+import type { ITransferPolicyRepository } from '../../repositories/ITransferPolicyRepository.ts'
+import type { IWalletRepository } from '../../repositories/IWalletRepository.ts'
+import { AsWalletID } from '../../entities/WalletEntity.ts'
+import { AsUserID } from '../../entities/UserEntity.ts'
+import { IdParamsSchema, ReasonSchema, UnixMsSchema } from '../../schemas/common.ts'
+
+/**
+ * Largest value of the INTEGER count columns
+ */
+const MAX_COUNT = 2_147_483_647
+
+const amountLimit = z.number().int().positive().max(Number.MAX_SAFE_INTEGER).nullable()
+const countLimit = z.number().int().positive().max(MAX_COUNT).nullable()
+
+/**
+ * Limits object over the given field schemas (defaults and overrides differ in whether 0
+ * is allowed)
+ */
+function limitsSchema(
+  amount: z.ZodType<number | null>,
+  count: z.ZodType<number | null>,
+  age: z.ZodType<number | null>,
+) {
+  return z.object({
+    maxTransferAmount: amount.openapi({ description: 'Maximum amount of one transfer' }),
+    dailyAmountLimit: amount.openapi({ description: 'Maximum outgoing amount per UTC day' }),
+    dailyCountLimit: count.openapi({ description: 'Maximum outgoing transfers per UTC day' }),
+    windowMs: amount.openapi({ description: 'Length of the rolling window (ms)' }),
+    windowAmountLimit: amount.openapi({
+      description: 'Maximum outgoing amount within the rolling window',
+    }),
+    windowCountLimit: count.openapi({
+      description: 'Maximum outgoing transfers within the rolling window',
+    }),
+    minAccountAgeMs: age.openapi({ description: 'Minimum age of the sender\'s account (ms)' }),
+    dailyNewCounterpartyLimit: count.openapi({
+      description: 'Maximum P2P recipients per UTC day not paid before',
+    }),
+  })
+}
+
+const ageLimit = z.number().int().nonnegative().max(Number.MAX_SAFE_INTEGER).nullable()
+
+const TransferLimitsSchema = limitsSchema(amountLimit, countLimit, ageLimit)
+  .openapi('TransferLimits', {
+    description: 'Defaults or effective limits of a wallet; null means "no limit"',
+  })
+
+/**
+ * Overrides also accept 0, which exempts the wallet from a limit the defaults set
+ */
+const TransferLimitOverridesSchema = limitsSchema(
+  z.number().int().nonnegative().max(Number.MAX_SAFE_INTEGER).nullable(),
+  z.number().int().nonnegative().max(MAX_COUNT).nullable(),
+  ageLimit,
+).openapi('TransferLimitOverrides', {
+  description: 'Per-wallet overrides; null means "use the default" and 0 means "no limit for ' +
+    'this wallet" (windowMs 0 lifts both rolling-window caps)',
+})
+
+/**
+ * Rolling-window caps need a window; a wallet's overrides may take it from the defaults
+ */
+const DefaultLimitsSchema = TransferLimitsSchema.refine(
+  (limits) =>
+    limits.windowMs !== null ||
+    (limits.windowAmountLimit === null && limits.windowCountLimit === null),
+  { message: 'windowMs is required when a window limit is set', path: ['windowMs'] },
+)
+
+const UpdateDefaultsRequestSchema = z
+  .object({ limits: DefaultLimitsSchema, reason: ReasonSchema })
+  .openapi('UpdateTransferLimitsRequest')
+
+const UpdateWalletLimitsRequestSchema = z
+  .object({ limits: TransferLimitOverridesSchema, reason: ReasonSchema })
+  .openapi('UpdateWalletTransferLimitsRequest')
+
+const ClearWalletLimitsRequestSchema = z
+  .object({ reason: ReasonSchema })
+  .openapi('ClearWalletTransferLimitsRequest')
+
+const WalletTransferLimitsSchema = z
+  .object({
+    walletId: z.string().uuid(),
+    overrides: TransferLimitOverridesSchema.nullable(),
+    effective: TransferLimitsSchema,
+  })
+  .openapi('WalletTransferLimits')
+
+const getDefaultsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Admin'],
+  summary: 'Default transfer limits',
+  responses: {
+    200: jsonContent(TransferLimitsSchema, 'Default limits'),
+    ...errorResponses({ 500: 'Unexpected failure' }),
+  },
+})
+
+const updateDefaultsRoute = createRoute({
+  method: 'put',
+  path: '/',
+  tags: ['Admin'],
+  summary: 'Replace the default transfer limits',
+  description: 'Applies to every wallet without an override for the field. Records a ' +
+    '`transfer_limits_update` audit entry.',
+  request: {
+    body: {
+      content: { 'application/json': { schema: UpdateDefaultsRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    200: jsonContent(
+      z.object({ limits: TransferLimitsSchema, updatedAt: UnixMsSchema }),
+      'Updated defaults',
+    ),
+    ...errorResponses({ 400: 'Invalid request', 500: 'Unexpected failure' }),
+  },
+})
+
+const getWalletLimitsRoute = createRoute({
+  method: 'get',
+  path: '/wallets/{id}',
+  tags: ['Admin'],
+  summary: 'Transfer limits of a wallet',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(WalletTransferLimitsSchema, 'Overrides and effective limits'),
+    ...errorResponses({
+      400: 'Invalid wallet ID',
+      404: 'Wallet not found',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const updateWalletLimitsRoute = createRoute({
+  method: 'put',
+  path: '/wallets/{id}',
+  tags: ['Admin'],
+  summary: 'Replace the transfer limit overrides of a wallet',
+  description: 'Fields set to null use the default; 0 exempts the wallet from that limit. ' +
+    'Records a `transfer_limits_update` audit entry for the wallet.',
+  request: {
+    params: IdParamsSchema,
+    body: {
+      content: { 'application/json': { schema: UpdateWalletLimitsRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    200: jsonContent(
+      WalletTransferLimitsSchema.extend({ updatedAt: UnixMsSchema }),
+      'Updated limits',
+    ),
+    ...errorResponses({
+      400: 'Invalid request',
+      404: 'Wallet not found',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const clearWalletLimitsRoute = createRoute({
+  method: 'delete',
+  path: '/wallets/{id}',
+  tags: ['Admin'],
+  summary: 'Remove the transfer limit overrides of a wallet',
+  description: 'The defaults apply again. Records a `transfer_limits_clear` audit entry.',
+  request: {
+    params: IdParamsSchema,
+    body: {
+      content: { 'application/json': { schema: ClearWalletLimitsRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    200: jsonContent(
+      WalletTransferLimitsSchema.extend({ clearedAt: UnixMsSchema }),
+      'Limits after removal',
+    ),
+    ...errorResponses({
+      400: 'Invalid request',
+      404: 'Wallet not found or has no overrides',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+/**
+ * Creates a Hono router for /admin/v1/transfer-limits endpoints
+ *
+ * @param repository - ITransferPolicyRepository implementation
+ * @param walletRepository - IWalletRepository implementation (wallet existence)
+ * @returns Hono router instance
+ */
+export function createAdminTransferLimitsRouter(
+  repository: ITransferPolicyRepository,
+  walletRepository: IWalletRepository,
+): OpenAPIHono<Env> {
+  const router = createRouter()
+
+  /**
+   * GET /admin/v1/transfer-limits
+   * Default limits
+   */
+  router.openapi(getDefaultsRoute, async (c) => {
+    return c.json(await repository.getDefaults(), 200)
+  })
+
+  /**
+   * PUT /admin/v1/transfer-limits
+   * Replace the default limits
+   */
+  router.openapi(updateDefaultsRoute, async (c) => {
+    const { limits, reason } = c.req.valid('json')
+    const updatedAt = await repository.setDefaults(limits, reason, AsUserID(c.get('userId')!))
+    return c.json({ limits, updatedAt }, 200)
+  })
+
+  /**
+   * GET /admin/v1/transfer-limits/wallets/:id
+   * A wallet's overrides and effective limits
+   */
+  router.openapi(getWalletLimitsRoute, async (c) => {
+    const walletId = AsWalletID(c.req.valid('param').id)
+    if (!await walletRepository.findById(walletId)) {
+      return c.json({ error: 'Wallet not found', code: 'WALLET_NOT_FOUND' }, 404)
+    }
+    return c.json(await repository.getWalletLimits(walletId), 200)
+  })
+
+  /**
+   * PUT /admin/v1/transfer-limits/wallets/:id
+   * Replace a wallet's overrides
+   */
+  router.openapi(updateWalletLimitsRoute, async (c) => {
+    const walletId = AsWalletID(c.req.valid('param').id)
+    const { limits, reason } = c.req.valid('json')
+
+    if (!await walletRepository.findById(walletId)) {
+      return c.json({ error: 'Wallet not found', code: 'WALLET_NOT_FOUND' }, 404)
+    }
+
+    const updatedAt = await repository.setWalletLimits(
+      walletId,
+      limits,
+      reason,
+      AsUserID(c.get('userId')!),
+    )
+    return c.json({ ...await repository.getWalletLimits(walletId), updatedAt }, 200)
+  })
+
+  /**
+   * DELETE /admin/v1/transfer-limits/wallets/:id
+   * Remove a wallet's overrides
+   */
+  router.openapi(clearWalletLimitsRoute, async (c) => {
+    const walletId = AsWalletID(c.req.valid('param').id)
+    const { reason } = c.req.valid('json')
+
+    const clearedAt = await repository.clearWalletLimits(
+      walletId,
+      reason,
+      AsUserID(c.get('userId')!),
+    )
+    if (clearedAt === null) {
+      return c.json({ error: 'Wallet not found or has no overrides', code: 'NOT_FOUND' }, 404)
+    }
+    return c.json({ ...await repository.getWalletLimits(walletId), clearedAt }, 200)
+  })
+
+  return router
+}
@@ -0,0 +1,72 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse } from '../../testing/app.ts'
+import { ALICE_ID, BOB_WALLET_ID, createWallet } from '../../testing/fixtures.ts'
+import type { TransferLimits } from '../../repositories/ITransferPolicyRepository.ts'
+
+const NO_LIMITS: TransferLimits = {
+  maxTransferAmount: null,
+  dailyAmountLimit: null,
+  dailyCountLimit: null,
+  windowMs: null,
+  windowAmountLimit: null,
+  windowCountLimit: null,
+  minAccountAgeMs: null,
+  dailyNewCounterpartyLimit: null,
+}
+
+const adminToken = () => createTestToken(ALICE_ID, { app_metadata: { role: 'admin' } })
+
+Deno.test('GET /admin/v1/transfer-limits/wallets/{id} returns overrides of 0', async () => {
+  const overrides = { ...NO_LIMITS, dailyAmountLimit: 0 }
+  const app = createTestApp({
+    wallets: { findById: (id) => Promise.resolve(createWallet(id)) },
+    transferPolicies: {
+      getWalletLimits: (walletId) => Promise.resolve({ walletId, overrides, effective: NO_LIMITS }),
+    },
+  })
+
+  const response = await app.request(`/admin/v1/transfer-limits/wallets/${BOB_WALLET_ID}`, {
+    headers: { Authorization: `Bearer ${await adminToken()}` },
+  })
+
+  const body = await parseResponse(
+    app,
+    'get',
+    '/admin/v1/transfer-limits/wallets/{id}',
+    response,
+    200,
+  )
+  assertEquals(body, { walletId: BOB_WALLET_ID, overrides, effective: NO_LIMITS })
+})
+
+Deno.test('PUT /admin/v1/transfer-limits rejects a default limit of 0', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/admin/v1/transfer-limits', {
+    method: 'PUT',
+    headers: {
+      'Authorization': `Bearer ${await adminToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ limits: { ...NO_LIMITS, dailyAmountLimit: 0 }, reason: 'test' }),
+  })
+
+  await parseResponse(app, 'put', '/admin/v1/transfer-limits', response, 400)
+})
+
+Deno.test('DELETE /admin/v1/transfer-limits/wallets/{id} answers 404 without overrides', async () => {
+  const app = createTestApp({
+    transferPolicies: { clearWalletLimits: () => Promise.resolve(null) },
+  })
+
+  const response = await app.request(`/admin/v1/transfer-limits/wallets/${BOB_WALLET_ID}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${await adminToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ reason: 'test' }),
+  })
+
+  await parseResponse(app, 'delete', '/admin/v1/transfer-limits/wallets/{id}', response, 404)
+})
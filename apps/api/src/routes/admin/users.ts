@@ -0,0 +1,86 @@
+/**
+ * Admin User HTTP Routes - account recovery
+ *
+ * Endpoints:
+ * - POST /admin/v1/users/:id/restore - Reactivate a deleted account (reason required)
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../../lib/openapi.ts'
+import type { IUserRepository } from '../../repositories/IUserRepository.ts'
+import { AsUserID } from '../../entities/UserEntity.ts'
+import { IdParamsSchema, ReasonSchema, UnixMsSchema } from '../../schemas/common.ts'
+
+const RestoreRequestSchema = z.object({ reason: ReasonSchema }).openapi('RestoreUserRequest')
+
+const restoreUserRoute = createRoute({
+  method: 'post',
+  path: '/{id}/restore',
+  tags: ['Admin'],
+  summary: 'Reactivate a deleted user account',
+  description: 'Clears `deleted_at` and records a `user_restore` audit entry. Tokens swept at ' +
+    'deletion stay in the system pool; return them with a separate distribution if needed.',
+  request: {
+    params: IdParamsSchema,
+    body: { content: { 'application/json': { schema: RestoreRequestSchema } }, required: true },
+  },
+  responses: {
+    200: jsonContent(
+      z.object({
+        id: z.string().uuid(),
+        username: z.string(),
+        walletId: z.string().uuid(),
+        restoredAt: UnixMsSchema,
+      }),
+      'Restored user',
+    ),
+    ...errorResponses({
+      400: 'Invalid request',
+      404: 'User not found',
+      409: 'User is not deleted',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+/**
+ * Creates a Hono router for /admin/v1/users endpoints
+ *
+ * @param repository - IUserRepository implementation
+ * @returns Hono router instance
+ */
+export function createAdminUsersRouter(repository: IUserRepository): OpenAPIHono<Env> {
+  const router = createRouter()
+
+  /**
+   * POST /admin/v1/users/:id/restore
+   * Reactivate a deleted user account
+   */
+  router.openapi(restoreUserRoute, async (c) => {
+    const userId = AsUserID(c.req.valid('param').id)
+    const { reason } = c.req.valid('json')
+
+    const user = await repository.findById(userId)
+    if (!user) {
+      return c.json({ error: 'User not found', code: 'USER_NOT_FOUND' }, 404)
+    }
+
+    // null also when a concurrent request restored the user first
+    const restoredAt = user.isDeleted
+      ? await repository.restore(userId, reason, AsUserID(c.get('userId')!))
+      : null
+    if (restoredAt === null) {
+      return c.json({ error: 'User is not deleted', code: 'NOT_DELETED' }, 409)
+    }
+
+    return c.json({
+      id: user.id,
+      username: user.username,
+      walletId: user.walletId,
+      restoredAt,
+    }, 200)
+  })
+
+  return router
+}
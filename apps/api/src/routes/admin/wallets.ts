@@ -0,0 +1,204 @@
+/**
+ * Admin Wallet HTTP Routes - wallet inspection and freeze management
+ *
+ * Endpoints:
+ * - GET /admin/v1/wallets/:id - Wallet state including frozen status and owner
+ * - GET /admin/v1/wallets/:id/freeze-history - Freeze/unfreeze operations, newest first
+ * - POST /admin/v1/wallets/:id/freeze - Freeze a wallet (reason required)
+ * - POST /admin/v1/wallets/:id/unfreeze - Unfreeze a wallet (reason required)
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Context } from 'hono'
+import type { Env } from '../../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../../lib/openapi.ts'
+import type { IWalletRepository } from '../../repositories/IWalletRepository.ts'
+import { AsWalletID, type WalletFreezeEvent } from '../../entities/WalletEntity.ts'
+import { AsUserID } from '../../entities/UserEntity.ts'
+import { IdParamsSchema, ReasonSchema, UnixMsSchema } from '../../schemas/common.ts'
+
+const FreezeRequestSchema = z.object({ reason: ReasonSchema }).openapi('FreezeRequest')
+
+const FreezeEventSchema = z
+  .object({
+    id: z.string().uuid(),
+    action: z.enum(['freeze', 'unfreeze']),
+    reason: z.string(),
+    actorUserId: z.string().uuid(),
+    createdAt: UnixMsSchema,
+  })
+  .openapi('WalletFreezeEvent')
+
+const AdminWalletSchema = z
+  .object({
+    id: z.string().uuid(),
+    balance: z.number().int(),
+    isFrozen: z.boolean(),
+    owner: z
+      .object({
+        type: z.enum(['user', 'system_account']),
+        id: z.string().uuid(),
+        name: z.string(),
+      })
+      .nullable(),
+    createdAt: UnixMsSchema,
+    updatedAt: UnixMsSchema,
+  })
+  .openapi('AdminWallet')
+
+const getWalletRoute = createRoute({
+  method: 'get',
+  path: '/{id}',
+  tags: ['Admin'],
+  summary: 'Wallet state including frozen status and owner',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(AdminWalletSchema, 'Wallet'),
+    ...errorResponses({
+      400: 'Invalid wallet ID',
+      404: 'Wallet not found',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const getFreezeHistoryRoute = createRoute({
+  method: 'get',
+  path: '/{id}/freeze-history',
+  tags: ['Admin'],
+  summary: 'Freeze/unfreeze operations on the wallet, newest first',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(z.object({ items: z.array(FreezeEventSchema) }), 'Freeze history'),
+    ...errorResponses({ 400: 'Invalid wallet ID', 500: 'Unexpected failure' }),
+  },
+})
+
+/**
+ * Declares the freeze or unfreeze route (same request and responses)
+ *
+ * @param action - Path segment and verb
+ * @returns Route definition
+ */
+function setFrozenRoute<A extends 'freeze' | 'unfreeze'>(action: A) {
+  return createRoute({
+    method: 'post',
+    path: `/{id}/${action}` as `/{id}/${A}`,
+    tags: ['Admin'],
+    summary: action === 'freeze'
+      ? 'Freeze a wallet; system wallets are refused with 409'
+      : 'Unfreeze a wallet',
+    request: {
+      params: IdParamsSchema,
+      body: { content: { 'application/json': { schema: FreezeRequestSchema } }, required: true },
+    },
+    responses: {
+      200: jsonContent(
+        z.object({
+          wallet: z.object({ id: z.string().uuid(), isFrozen: z.boolean() }),
+          event: FreezeEventSchema,
+        }),
+        'Updated wallet state and the recorded event',
+      ),
+      ...errorResponses({
+        400: 'Invalid request',
+        404: 'Wallet not found',
+        409: 'System wallet, or wallet already in that state',
+        500: 'Unexpected failure',
+      }),
+    },
+  })
+}
+
+/**
+ * Serializes a freeze event for API responses
+ */
+function toFreezeEventResponse(event: WalletFreezeEvent) {
+  return {
+    id: event.id,
+    action: event.isFrozen ? 'freeze' as const : 'unfreeze' as const,
+    reason: event.reason,
+    actorUserId: event.actorUserId,
+    createdAt: event.createdAt,
+  }
+}
+
+/**
+ * Creates a Hono router for /admin/v1/wallets endpoints
+ *
+ * @param repository - IWalletRepository implementation
+ * @returns Hono router instance
+ */
+export function createAdminWalletsRouter(repository: IWalletRepository): OpenAPIHono<Env> {
+  const router = createRouter()
+
+  /**
+   * Shared handler for freeze and unfreeze
+   */
+  const setFrozen = async (c: Context<Env>, id: string, reason: string, frozen: boolean) => {
+    const event = await repository.setFrozen(
+      AsWalletID(id),
+      frozen,
+      reason,
+      AsUserID(c.get('userId')!),
+    )
+
+    return c.json({
+      wallet: { id: event.walletId, isFrozen: event.isFrozen },
+      event: toFreezeEventResponse(event),
+    }, 200)
+  }
+
+  /**
+   * GET /admin/v1/wallets/:id
+   * Wallet state including frozen status and owner
+   */
+  router.openapi(getWalletRoute, async (c) => {
+    const walletId = AsWalletID(c.req.valid('param').id)
+    const [wallet, owner] = await Promise.all([
+      repository.findById(walletId),
+      repository.findOwner(walletId),
+    ])
+    if (!wallet) {
+      return c.json({ error: 'Wallet not found', code: 'WALLET_NOT_FOUND' }, 404)
+    }
+
+    return c.json({
+      id: wallet.id,
+      balance: wallet.balance,
+      isFrozen: wallet.isFrozen,
+      owner: owner ? { type: owner.ownerType, id: owner.ownerId, name: owner.ownerName } : null,
+      createdAt: wallet.createdAt,
+      updatedAt: wallet.updatedAt,
+    }, 200)
+  })
+
+  /**
+   * GET /admin/v1/wallets/:id/freeze-history
+   * Freeze/unfreeze operations on the wallet, newest first
+   */
+  router.openapi(getFreezeHistoryRoute, async (c) => {
+    const events = await repository.listFreezeEvents(AsWalletID(c.req.valid('param').id))
+    return c.json({ items: events.map(toFreezeEventResponse) }, 200)
+  })
+
+  /**
+   * POST /admin/v1/wallets/:id/freeze
+   * Freeze a wallet; system wallets are refused with 409
+   */
+  router.openapi(
+    setFrozenRoute('freeze'),
+    (c) => setFrozen(c, c.req.valid('param').id, c.req.valid('json').reason, true),
+  )
+
+  /**
+   * POST /admin/v1/wallets/:id/unfreeze
+   * Unfreeze a wallet
+   */
+  router.openapi(
+    setFrozenRoute('unfreeze'),
+    (c) => setFrozen(c, c.req.valid('param').id, c.req.valid('json').reason, false),
+  )
+
+  return router
+}
@@ -0,0 +1,106 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse } from '../../testing/app.ts'
+import {
+  ALICE_ID,
+  BOB_ID,
+  BOB_WALLET_ID,
+  createWallet,
+  FIXTURE_TIME,
+} from '../../testing/fixtures.ts'
+import { ErrorSchema } from '../../schemas/common.ts'
+
+Deno.test('GET /admin/v1/wallets/{id} rejects callers without the admin role', async () => {
+  const app = createTestApp()
+
+  const response = await app.request(`/admin/v1/wallets/${BOB_WALLET_ID}`, {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  assertEquals(response.status, 403)
+  ErrorSchema.parse(await response.json())
+})
+
+Deno.test('GET /admin/v1/wallets/{id} returns balance and owner to admins', async () => {
+  const app = createTestApp({
+    wallets: {
+      findById: (id) => Promise.resolve(createWallet(id, 500, true)),
+      findOwner: (walletId) =>
+        Promise.resolve({ walletId, ownerType: 'user', ownerId: BOB_ID, ownerName: 'bob' }),
+    },
+  })
+
+  const response = await app.request(`/admin/v1/wallets/${BOB_WALLET_ID}`, {
+    headers: {
+      Authorization: `Bearer ${await createTestToken(ALICE_ID, {
+        app_metadata: { role: 'admin' },
+      })}`,
+    },
+  })
+
+  const body = await parseResponse(app, 'get', '/admin/v1/wallets/{id}', response, 200)
+  assertEquals(body, {
+    id: BOB_WALLET_ID,
+    balance: 500,
+    isFrozen: true,
+    owner: { type: 'user', id: BOB_ID, name: 'bob' },
+    createdAt: FIXTURE_TIME,
+    updatedAt: FIXTURE_TIME,
+  })
+})
+
+Deno.test('POST /admin/v1/wallets/{id}/freeze records the calling admin and the reason', async () => {
+  const calls: unknown[][] = []
+  const app = createTestApp({
+    wallets: {
+      setFrozen: (id, frozen, reason, actorId) => {
+        calls.push([id, frozen, reason, actorId])
+        return Promise.resolve({
+          id: '90000000-0000-4000-8000-000000000001',
+          walletId: id,
+          isFrozen: frozen,
+          reason,
+          actorUserId: actorId,
+          createdAt: FIXTURE_TIME,
+        })
+      },
+    },
+  })
+
+  const response = await app.request(`/admin/v1/wallets/${BOB_WALLET_ID}/freeze`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID, {
+        app_metadata: { role: 'admin' },
+      })}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ reason: 'suspicious activity' }),
+  })
+
+  const body = await parseResponse(app, 'post', '/admin/v1/wallets/{id}/freeze', response, 200)
+  assertEquals(calls, [[BOB_WALLET_ID, true, 'suspicious activity', ALICE_ID]])
+  assertEquals(body.event, {
+    id: '90000000-0000-4000-8000-000000000001',
+    action: 'freeze',
+    reason: 'suspicious activity',
+    actorUserId: ALICE_ID,
+    createdAt: FIXTURE_TIME,
+  })
+})
+
+Deno.test('POST /admin/v1/wallets/{id}/freeze requires a reason', async () => {
+  const app = createTestApp()
+
+  const response = await app.request(`/admin/v1/wallets/${BOB_WALLET_ID}/freeze`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID, {
+        app_metadata: { role: 'admin' },
+      })}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ reason: '   ' }),
+  })
+
+  await parseResponse(app, 'post', '/admin/v1/wallets/{id}/freeze', response, 400)
+})
@@ -0,0 +1,38 @@
+/**
+ * Admin Webhook HTTP Routes - system integration subscriptions
+ *
+ * Endpoints:
+ * - POST /admin/v1/webhooks - Register an endpoint notified of every transaction
+ * - GET /admin/v1/webhooks - System integration subscriptions
+ * - GET /admin/v1/webhooks/:id - One subscription
+ * - POST /admin/v1/webhooks/:id/disable - Stop deliveries to a subscription
+ * - GET /admin/v1/webhooks/:id/deliveries - Deliveries of a subscription (cursor-paginated)
+ * - POST /admin/v1/webhooks/:id/deliveries/:deliveryId/redeliver - Queue a delivered or
+ *   dead delivery again
+ *
+ * Same handlers as /v1/webhooks (routes/webhooks.ts), scoped to subscriptions without
+ * an owning user. Plain http endpoints are accepted for integrations on a private network.
+ */
+
+import type { OpenAPIHono } from '@hono/zod-openapi'
+import type { Env } from '../../lib/types.ts'
+import type { IWebhookRepository } from '../../repositories/IWebhookRepository.ts'
+import { createWebhookRoutes, type WebhooksRouterOptions } from '../webhooks.ts'
+
+/**
+ * Creates a Hono router for /admin/v1/webhooks endpoints
+ *
+ * @param repository - IWebhookRepository implementation
+ * @param options - Clock used for redelivery
+ * @returns Hono router instance
+ */
+export function createAdminWebhooksRouter(
+  repository: IWebhookRepository,
+  options: WebhooksRouterOptions = {},
+): OpenAPIHono<Env> {
+  return createWebhookRoutes(
+    () => Promise.resolve({ userId: null }),
+    repository,
+    { ...options, allowHttp: true },
+  )
+}
@@ -0,0 +1,53 @@
+/**
+ * Shared helper for routes scoped to the authenticated user
+ */
+
+import type { Context, TypedResponse } from 'hono'
+import type { Env } from '../lib/types.ts'
+import { errorResponses } from '../lib/openapi.ts'
+import type { IUserRepository } from '../repositories/IUserRepository.ts'
+import { AsUserID, type UserEntity } from '../entities/UserEntity.ts'
+
+/**
+ * Response returned by loadCurrentUser() instead of a user
+ */
+export type CurrentUserErrorResponse =
+  & Response
+  & TypedResponse<{ error: string; code: string }, 401 | 404 | 410, 'json'>
+
+/**
+ * Responses of loadCurrentUser(), to declare on every route that calls it
+ */
+export const currentUserErrorResponses = errorResponses({
+  401: 'Missing or invalid access token',
+  404: 'User not found',
+  410: 'User account has been deleted',
+})
+
+/**
+ * Loads the authenticated user, or builds the error response to return instead
+ *
+ * Soft-deleted users keep valid IdP tokens, so they are rejected here with 410.
+ *
+ * @param c - Hono context with `userId` set by the auth middleware
+ * @param repository - IUserRepository implementation
+ * @returns The active user, or a Response to return as-is
+ */
+export async function loadCurrentUser(
+  c: Context<Env>,
+  repository: IUserRepository,
+): Promise<UserEntity | CurrentUserErrorResponse> {
+  const userId = c.get('userId')
+  if (!userId) {
+    return c.json({ error: 'Unauthorized', code: 'UNAUTHORIZED' }, 401)
+  }
+
+  const user = await repository.findById(AsUserID(userId))
+  if (!user) {
+    return c.json({ error: 'User not found', code: 'USER_NOT_FOUND' }, 404)
+  }
+  if (user.isDeleted) {
+    return c.json({ error: 'User account has been deleted', code: 'ACCOUNT_DELETED' }, 410)
+  }
+  return user
+}
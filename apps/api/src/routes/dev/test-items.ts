@@ -11,18 +11,76 @@
  * - DELETE /dev/test-items/:id - Delete item
  */
 
-import { Hono } from 'hono'
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
 import type { Env } from '../../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../../lib/openapi.ts'
 import type { ITestItemRepository } from '../../repositories/dev/ITestItemRepository.ts'
 import { AsTestItemID, TestItemEntity } from '../../entities/dev/TestItemEntity.ts'
 
-/**
- * Request body type for creating test items
- */
-type CreateTestItemRequest = {
-  name: string
-  value: number
-}
+const TestItemSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    value: z.number(),
+    createdAt: z.number().int(),
+  })
+  .openapi('TestItem')
+
+const CreateTestItemSchema = z.object({
+  name: z.string().min(1),
+  value: z.number(),
+})
+
+const TestItemParamsSchema = z.object({ id: z.string() })
+
+const listTestItemsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Dev'],
+  summary: 'List all test items',
+  responses: {
+    200: jsonContent(z.object({ items: z.array(TestItemSchema) }), 'Test items'),
+    ...errorResponses({ 500: 'Unexpected failure' }),
+  },
+})
+
+const createTestItemRoute = createRoute({
+  method: 'post',
+  path: '/',
+  tags: ['Dev'],
+  summary: 'Create a new test item',
+  request: {
+    body: { content: { 'application/json': { schema: CreateTestItemSchema } }, required: true },
+  },
+  responses: {
+    201: jsonContent(z.object({ item: TestItemSchema }), 'Created test item'),
+    ...errorResponses({ 400: 'Invalid request', 500: 'Unexpected failure' }),
+  },
+})
+
+const getTestItemRoute = createRoute({
+  method: 'get',
+  path: '/{id}',
+  tags: ['Dev'],
+  summary: 'Get a test item by ID',
+  request: { params: TestItemParamsSchema },
+  responses: {
+    200: jsonContent(z.object({ item: TestItemSchema }), 'Test item'),
+    ...errorResponses({ 404: 'Test item not found', 500: 'Unexpected failure' }),
+  },
+})
+
+const deleteTestItemRoute = createRoute({
+  method: 'delete',
+  path: '/{id}',
+  tags: ['Dev'],
+  summary: 'Delete a test item by ID',
+  request: { params: TestItemParamsSchema },
+  responses: {
+    200: jsonContent(z.object({ message: z.string() }), 'Test item deleted'),
+    ...errorResponses({ 404: 'Test item not found', 500: 'Unexpected failure' }),
+  },
+})
 
 /**
  * Creates a Hono router for test-items endpoints
@@ -33,136 +91,84 @@ type CreateTestItemRequest = {
  * @param repository - ITestItemRepository implementation
  * @returns Hono router instance
  */
-export function createTestItemsRouter(repository: ITestItemRepository): Hono<Env> {
-  const router = new Hono<Env>()
+export function createTestItemsRouter(repository: ITestItemRepository): OpenAPIHono<Env> {
+  const router = createRouter()
 
   /**
    * GET /dev/test-items
    * List all test items
    */
-  router.get('/', async (c) => {
-    try {
-      const items = await repository.findAll()
-      return c.json({
-        items: items.map((item) => ({
-          id: item.id,
-          name: item.name,
-          value: item.value,
-          createdAt: item.createdAt,
-        })),
-      })
-    } catch (error) {
-      console.error('Failed to fetch test items:', error)
-      return c.json(
-        {
-          error: 'Failed to fetch test items',
-          details: error instanceof Error ? error.message : 'Unknown error',
-        },
-        500,
-      )
-    }
+  router.openapi(listTestItemsRoute, async (c) => {
+    const items = await repository.findAll()
+    return c.json({
+      items: items.map((item) => ({
+        id: item.id,
+        name: item.name,
+        value: item.value,
+        createdAt: item.createdAt,
+      })),
+    }, 200)
   })
 
   /**
    * POST /dev/test-items
    * Create a new test item
    */
-  router.post('/', async (c) => {
-    try {
-      const body = await c.req.json() as CreateTestItemRequest
-
-      // Validate request body
-      if (!body.name || typeof body.name !== 'string') {
-        return c.json({ error: 'Invalid request: name is required and must be a string' }, 400)
-      }
-      if (typeof body.value !== 'number') {
-        return c.json({ error: 'Invalid request: value is required and must be a number' }, 400)
-      }
-
-      // Create entity and save to database
-      const item = TestItemEntity.create(body.name, body.value)
-      const created = await repository.create(item)
-
-      return c.json(
-        {
-          item: {
-            id: created.id,
-            name: created.name,
-            value: created.value,
-            createdAt: created.createdAt,
-          },
-        },
-        201,
-      )
-    } catch (error) {
-      console.error('Failed to create test item:', error)
-      return c.json(
-        {
-          error: 'Failed to create test item',
-          details: error instanceof Error ? error.message : 'Unknown error',
+  router.openapi(createTestItemRoute, async (c) => {
+    const body = c.req.valid('json')
+
+    // Create entity and save to database
+    const item = TestItemEntity.create(body.name, body.value)
+    const created = await repository.create(item)
+
+    return c.json(
+      {
+        item: {
+          id: created.id,
+          name: created.name,
+          value: created.value,
+          createdAt: created.createdAt,
         },
-        500,
-      )
-    }
+      },
+      201,
+    )
   })
 
   /**
    * GET /dev/test-items/:id
    * Get a test item by ID
    */
-  router.get('/:id', async (c) => {
-    try {
-      const id = AsTestItemID(c.req.param('id'))
-      const item = await repository.findById(id)
-
-      if (!item) {
-        return c.json({ error: 'Test item not found' }, 404)
-      }
+  router.openapi(getTestItemRoute, async (c) => {
+    const id = AsTestItemID(c.req.valid('param').id)
+    const item = await repository.findById(id)
 
-      return c.json({
-        item: {
-          id: item.id,
-          name: item.name,
-          value: item.value,
-          createdAt: item.createdAt,
-        },
-      })
-    } catch (error) {
-      console.error('Failed to fetch test item:', error)
-      return c.json(
-        {
-          error: 'Failed to fetch test item',
-          details: error instanceof Error ? error.message : 'Unknown error',
-        },
-        500,
-      )
+    if (!item) {
+      return c.json({ error: 'Test item not found', code: 'NOT_FOUND' }, 404)
     }
+
+    return c.json({
+      item: {
+        id: item.id,
+        name: item.name,
+        value: item.value,
+        createdAt: item.createdAt,
+      },
+    }, 200)
   })
 
   /**
    * DELETE /dev/test-items/:id
    * Delete a test item by ID
    */
-  router.delete('/:id', async (c) => {
-    try {
-      const id = AsTestItemID(c.req.param('id'))
-      const deleted = await repository.delete(id)
-
-      if (!deleted) {
-        return c.json({ error: 'Test item not found' }, 404)
-      }
-
-      return c.json({ message: 'Test item deleted successfully' })
-    } catch (error) {
-      console.error('Failed to delete test item:', error)
-      return c.json(
-        {
-          error: 'Failed to delete test item',
-          details: error instanceof Error ? error.message : 'Unknown error',
-        },
-        500,
-      )
+  router.openapi(deleteTestItemRoute, async (c) => {
+    const id = AsTestItemID(c.req.valid('param').id)
+    const deleted = await repository.delete(id)
+
+    if (!deleted) {
+      return c.json({ error: 'Test item not found', code: 'NOT_FOUND' }, 404)
     }
+
+    return c.json({ message: 'Test item deleted successfully' }, 200)
   })
 
   return router
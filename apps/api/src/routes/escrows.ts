@@ -0,0 +1,332 @@
+/**
+ * Escrow HTTP Routes - conditional transfers of the authenticated user
+ *
+ * Endpoints:
+ * - POST /v1/escrows - Lock tokens for a beneficiary until released or refunded
+ * - GET /v1/escrows - Escrows the caller sent or receives (cursor-paginated)
+ * - GET /v1/escrows/:id - One escrow the caller takes part in
+ * - POST /v1/escrows/:id/release - Pay the escrow to the beneficiary (sender, before expiry)
+ * - POST /v1/escrows/:id/refund - Return the escrow to the sender (beneficiary any time,
+ *   sender after expiry)
+ *
+ * Expired escrows are refunded automatically by the expire-escrows job
+ * (src/jobs/expire-escrows.ts).
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../lib/openapi.ts'
+import type { IUserRepository } from '../repositories/IUserRepository.ts'
+import type { IEscrowRepository } from '../repositories/IEscrowRepository.ts'
+import { AsEscrowID, type EscrowEntity, ESCROW_STATUSES } from '../entities/EscrowEntity.ts'
+import { AsWalletID, type WalletID } from '../entities/WalletEntity.ts'
+import { currentUserErrorResponses, loadCurrentUser } from './current-user.ts'
+import { encodeCursor } from '../lib/cursor.ts'
+import {
+  AmountSchema,
+  IdParamsSchema,
+  MemoInputSchema,
+  MetadataInputSchema,
+  MetadataSchema,
+  PageQuerySchema,
+  pageSchema,
+  UnixMsSchema,
+  UUIDSchema,
+} from '../schemas/common.ts'
+
+/**
+ * Options for createEscrowsRouter()
+ */
+export type EscrowsRouterOptions = {
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+}
+
+/**
+ * Longest allowed escrow (tokens should not stay locked indefinitely)
+ */
+const MAX_ESCROW_DURATION_MS = 365 * 24 * 60 * 60 * 1000
+
+const CreateEscrowSchema = z
+  .object({
+    beneficiaryWalletId: UUIDSchema,
+    amount: AmountSchema,
+    expiresAt: UnixMsSchema,
+    memo: MemoInputSchema,
+    metadata: MetadataInputSchema,
+  })
+  .openapi('CreateEscrowRequest')
+
+const EscrowSchema = z
+  .object({
+    id: z.string().uuid(),
+    role: z.enum(['sender', 'beneficiary']).openapi({ description: "Caller's side" }),
+    senderWalletId: z.string().uuid(),
+    beneficiaryWalletId: z.string().uuid(),
+    amount: z.number().int(),
+    status: z.enum(ESCROW_STATUSES),
+    expiresAt: UnixMsSchema,
+    holdTransactionId: z.string().uuid(),
+    settlementTransactionId: z.string().uuid().nullable(),
+    settledAt: UnixMsSchema.nullable(),
+    memo: z.string().nullable(),
+    metadata: MetadataSchema,
+    createdAt: UnixMsSchema,
+  })
+  .openapi('Escrow')
+
+const EscrowResponseSchema = z.object({ escrow: EscrowSchema })
+
+/**
+ * Error responses of release and refund
+ */
+const settlementErrorResponses = {
+  ...currentUserErrorResponses,
+  ...errorResponses({
+    400: 'Invalid escrow ID',
+    403: 'Only the sender may release',
+    404: 'Escrow not found',
+    409: 'Escrow is not held, has expired or has not expired yet, or a wallet is frozen',
+    422: 'Insufficient balance',
+    500: 'Unexpected failure',
+  }),
+}
+
+const createEscrowRoute = createRoute({
+  method: 'post',
+  path: '/',
+  tags: ['Escrows'],
+  summary: "Move tokens from the caller's wallet into escrow for a beneficiary",
+  description: '`expiresAt` must lie in the future, at most one year ahead.',
+  request: {
+    body: { content: { 'application/json': { schema: CreateEscrowSchema } }, required: true },
+  },
+  responses: {
+    201: jsonContent(EscrowResponseSchema, 'Escrow held'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid request',
+      404: 'Sender or beneficiary not found',
+      409: 'A wallet is frozen',
+      422: 'Insufficient balance or transfer limit exceeded',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const listEscrowsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Escrows'],
+  summary: 'Escrows the caller sent or is the beneficiary of, newest first',
+  request: {
+    query: PageQuerySchema.extend({
+      role: z.enum(['sent', 'received']).optional(),
+      status: z.enum(ESCROW_STATUSES).optional(),
+    }),
+  },
+  responses: {
+    200: jsonContent(pageSchema(EscrowSchema), 'Page of escrows'),
+    ...currentUserErrorResponses,
+    ...errorResponses({ 400: 'Invalid query parameters', 500: 'Unexpected failure' }),
+  },
+})
+
+const getEscrowRoute = createRoute({
+  method: 'get',
+  path: '/{id}',
+  tags: ['Escrows'],
+  summary: 'One escrow the caller is the sender or beneficiary of',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(EscrowResponseSchema, 'Escrow'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid escrow ID',
+      404: 'Escrow not found',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const releaseEscrowRoute = createRoute({
+  method: 'post',
+  path: '/{id}/release',
+  tags: ['Escrows'],
+  summary: 'Pay a held escrow to its beneficiary (sender only, before expiresAt)',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(EscrowResponseSchema, 'Released escrow'),
+    ...settlementErrorResponses,
+  },
+})
+
+const refundEscrowRoute = createRoute({
+  method: 'post',
+  path: '/{id}/refund',
+  tags: ['Escrows'],
+  summary: 'Return a held escrow to its sender',
+  description: 'The beneficiary may refund (decline) at any time; the sender only once the ' +
+    'escrow has expired and the expiry job has not refunded it yet.',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(EscrowResponseSchema, 'Refunded escrow'),
+    ...settlementErrorResponses,
+  },
+})
+
+/**
+ * Serializes an escrow for API responses
+ *
+ * @param escrow - Escrow to serialize
+ * @param walletId - Caller's wallet, to report the caller's role
+ */
+function toEscrowResponse(escrow: EscrowEntity, walletId: WalletID) {
+  return {
+    id: escrow.id,
+    role: escrow.senderWalletId === walletId ? 'sender' as const : 'beneficiary' as const,
+    senderWalletId: escrow.senderWalletId,
+    beneficiaryWalletId: escrow.beneficiaryWalletId,
+    amount: escrow.amount,
+    status: escrow.status,
+    expiresAt: escrow.expiresAt,
+    holdTransactionId: escrow.holdTransactionId,
+    settlementTransactionId: escrow.settlementTransactionId,
+    settledAt: escrow.settledAt,
+    memo: escrow.memo,
+    metadata: escrow.metadata,
+    createdAt: escrow.createdAt,
+  }
+}
+
+/**
+ * Creates a Hono router for /v1/escrows endpoints
+ *
+ * @param userRepository - IUserRepository implementation
+ * @param escrowRepository - IEscrowRepository implementation
+ * @param options - Clock used for expiry decisions
+ * @returns Hono router instance
+ */
+export function createEscrowsRouter(
+  userRepository: IUserRepository,
+  escrowRepository: IEscrowRepository,
+  options: EscrowsRouterOptions = {},
+): OpenAPIHono<Env> {
+  const router = createRouter()
+  const now = options.now ?? Date.now
+
+  /**
+   * POST /v1/escrows
+   * Move tokens from the caller's wallet into escrow for a beneficiary
+   */
+  router.openapi(createEscrowRoute, async (c) => {
+    const body = c.req.valid('json')
+
+    const currentTime = now()
+    if (body.expiresAt <= currentTime || body.expiresAt > currentTime + MAX_ESCROW_DURATION_MS) {
+      return c.json(
+        {
+          error:
+            'Invalid request: expiresAt must be a future Unix timestamp in milliseconds, at most one year ahead',
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      )
+    }
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const beneficiaryWalletId = AsWalletID(body.beneficiaryWalletId)
+    if (beneficiaryWalletId === user.walletId) {
+      return c.json(
+        { error: 'Invalid request: cannot escrow to your own wallet', code: 'INVALID_REQUEST' },
+        400,
+      )
+    }
+
+    const escrow = await escrowRepository.create({
+      userId: user.id,
+      beneficiaryWalletId,
+      amount: body.amount,
+      expiresAt: body.expiresAt,
+      memo: body.memo,
+      metadata: body.metadata,
+    })
+
+    return c.json({ escrow: toEscrowResponse(escrow, user.walletId) }, 201)
+  })
+
+  /**
+   * GET /v1/escrows
+   * Escrows the caller sent or is the beneficiary of, newest first
+   * (filterable by role and status)
+   */
+  router.openapi(listEscrowsRoute, async (c) => {
+    const query = c.req.valid('query')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const page = await escrowRepository.listByParticipant(user.id, user.walletId, query)
+    return c.json({
+      items: page.items.map((escrow) => toEscrowResponse(escrow, user.walletId)),
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    }, 200)
+  })
+
+  /**
+   * GET /v1/escrows/:id
+   * One escrow the caller is the sender or beneficiary of
+   */
+  router.openapi(getEscrowRoute, async (c) => {
+    const { id } = c.req.valid('param')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const escrow = await escrowRepository.findById(AsEscrowID(id))
+    // Other users' escrows are reported as missing rather than forbidden
+    if (
+      !escrow ||
+      (escrow.senderUserId !== user.id && escrow.beneficiaryWalletId !== user.walletId)
+    ) {
+      return c.json({ error: 'Escrow not found', code: 'ESCROW_NOT_FOUND' }, 404)
+    }
+
+    return c.json({ escrow: toEscrowResponse(escrow, user.walletId) }, 200)
+  })
+
+  /**
+   * POST /v1/escrows/:id/release
+   * Pay a held escrow to its beneficiary (sender only, before expiresAt)
+   */
+  router.openapi(releaseEscrowRoute, async (c) => {
+    const { id } = c.req.valid('param')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const escrow = await escrowRepository.release(AsEscrowID(id), user.id, now())
+    return c.json({ escrow: toEscrowResponse(escrow, user.walletId) }, 200)
+  })
+
+  /**
+   * POST /v1/escrows/:id/refund
+   * Return a held escrow to its sender
+   *
+   * The beneficiary may refund (decline) at any time; the sender only once the
+   * escrow has expired and the expiry job has not refunded it yet.
+   */
+  router.openapi(refundEscrowRoute, async (c) => {
+    const { id } = c.req.valid('param')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const escrow = await escrowRepository.refund(AsEscrowID(id), user.id, now())
+    return c.json({ escrow: toEscrowResponse(escrow, user.walletId) }, 200)
+  })
+
+  return router
+}
@@ -0,0 +1,121 @@
+import { assertEquals, assertObjectMatch } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse } from '../testing/app.ts'
+import {
+  alice,
+  ALICE_ID,
+  ALICE_WALLET_ID,
+  BOB_ID,
+  BOB_WALLET_ID,
+  FIXTURE_TIME,
+} from '../testing/fixtures.ts'
+import { AsEscrowID, EscrowEntity } from '../entities/EscrowEntity.ts'
+import { AsTransactionID } from '../entities/TransactionEntity.ts'
+import { AsUserID } from '../entities/UserEntity.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import type { CreateEscrowParams } from '../repositories/IEscrowRepository.ts'
+
+const ESCROW_ID = AsEscrowID('dddddddd-dddd-4ddd-8ddd-dddddddddddd')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Creates a held escrow
+ */
+function heldEscrow(
+  senderUserId: string,
+  senderWalletId: string,
+  beneficiaryWalletId: string,
+  expiresAt: number,
+): EscrowEntity {
+  return new EscrowEntity(
+    ESCROW_ID,
+    AsUserID(senderUserId),
+    AsWalletID(senderWalletId),
+    AsWalletID(beneficiaryWalletId),
+    300,
+    'held',
+    expiresAt,
+    AsTransactionID('eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee'),
+    null,
+    null,
+    null,
+    null,
+    {},
+    FIXTURE_TIME,
+    FIXTURE_TIME,
+  )
+}
+
+Deno.test('POST /v1/escrows holds tokens for the beneficiary', async () => {
+  const expiresAt = Date.now() + DAY_MS
+  const calls: CreateEscrowParams[] = []
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    escrows: {
+      create: (params) => {
+        calls.push(params)
+        return Promise.resolve(
+          heldEscrow(params.userId, ALICE_WALLET_ID, params.beneficiaryWalletId, expiresAt),
+        )
+      },
+    },
+  })
+
+  const response = await app.request('/v1/escrows', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ beneficiaryWalletId: BOB_WALLET_ID, amount: 300, expiresAt }),
+  })
+
+  const body = await parseResponse(app, 'post', '/v1/escrows', response, 201)
+  assertObjectMatch(body, {
+    escrow: { id: ESCROW_ID, role: 'sender', status: 'held', amount: 300, expiresAt },
+  })
+  assertObjectMatch(calls[0]!, { userId: ALICE_ID, beneficiaryWalletId: BOB_WALLET_ID })
+})
+
+Deno.test('POST /v1/escrows rejects an expiry in the past', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/v1/escrows', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      beneficiaryWalletId: BOB_WALLET_ID,
+      amount: 300,
+      expiresAt: Date.now() - 1,
+    }),
+  })
+
+  await parseResponse(app, 'post', '/v1/escrows', response, 400)
+})
+
+Deno.test("GET /v1/escrows/{id} reports other users' escrows as missing", async () => {
+  const strangerWalletId = 'ffffffff-ffff-4fff-8fff-ffffffffffff'
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    escrows: {
+      findById: () =>
+        Promise.resolve(
+          heldEscrow(
+            BOB_ID,
+            strangerWalletId,
+            BOB_WALLET_ID,
+            FIXTURE_TIME + DAY_MS,
+          ),
+        ),
+    },
+  })
+
+  const response = await app.request(`/v1/escrows/${ESCROW_ID}`, {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  const body = await parseResponse(app, 'get', '/v1/escrows/{id}', response, 404)
+  assertEquals(body.error, 'Escrow not found')
+})
@@ -0,0 +1,95 @@
+/**
+ * Metrics HTTP Route - Prometheus scrape endpoint
+ *
+ * Endpoints:
+ * - GET /metrics - Request latency, domain error counts and transaction totals
+ *
+ * Latency and error counts are in-process (see lib/metrics.ts); transaction counts and
+ * volumes come from the database, so they cover every writer (API, jobs) exactly. They
+ * are read at most once per cache TTL, however often the endpoint is scraped.
+ * Scrapers must send the configured token as a Bearer token; without one the endpoint
+ * is disabled.
+ */
+
+import { Hono } from 'hono'
+import type { Env } from '../lib/types.ts'
+import { type ApiMetrics, formatSamples } from '../lib/metrics.ts'
+import type { IStatsRepository, TransactionTotals } from '../repositories/IStatsRepository.ts'
+
+/**
+ * Options for createMetricsRouter()
+ */
+export type MetricsRouterOptions = {
+  /** Bearer token required from scrapers (the endpoint answers 404 when unset) */
+  token?: string
+  /** How long transaction totals read from the database are reused (default 30 seconds) */
+  cacheTtlMs?: number
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+}
+
+/**
+ * Creates a Hono router for /metrics
+ *
+ * @param metrics - In-process metrics
+ * @param statsRepository - IStatsRepository implementation
+ * @param options - Scrape token and cache settings
+ * @returns Hono router instance
+ */
+export function createMetricsRouter(
+  metrics: ApiMetrics,
+  statsRepository: IStatsRepository,
+  options: MetricsRouterOptions = {},
+): Hono<Env> {
+  const router = new Hono<Env>()
+  const cacheTtlMs = options.cacheTtlMs ?? 30 * 1000
+  const now = options.now ?? Date.now
+  let cached: { totals: TransactionTotals[]; fetchedAt: number } | null = null
+
+  /**
+   * GET /metrics
+   * Prometheus text exposition format
+   */
+  router.get('/', async (c) => {
+    if (!options.token) {
+      return c.json(
+        { error: 'Metrics are disabled: METRICS_TOKEN is not set', code: 'NOT_FOUND' },
+        404,
+      )
+    }
+    if (c.req.header('Authorization') !== `Bearer ${options.token}`) {
+      c.header('WWW-Authenticate', 'Bearer')
+      return c.json({ error: 'Invalid metrics token', code: 'UNAUTHORIZED' }, 401)
+    }
+
+    if (!cached || now() - cached.fetchedAt >= cacheTtlMs) {
+      cached = { totals: await statsRepository.getTransactionTotals(), fetchedAt: now() }
+    }
+    const totals = cached.totals
+    const body = [
+      metrics.render(),
+      formatSamples(
+        'token_transactions_total',
+        'counter',
+        'Transactions by transaction type',
+        totals.map((total) => ({
+          labels: { type: total.typeName },
+          value: total.transactionCount,
+        })),
+      ),
+      formatSamples(
+        'token_transaction_volume_total',
+        'counter',
+        'Sum of transaction amounts by transaction type',
+        totals.map((total) => ({
+          labels: { type: total.typeName },
+          value: total.totalAmount,
+        })),
+      ),
+    ].join('\n')
+
+    return c.text(body, 200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+  })
+
+  return router
+}
@@ -0,0 +1,141 @@
+import { assertEquals, assertStringIncludes } from '@std/assert'
+import { createTestApp, createTestToken, type TestApp } from '../testing/app.ts'
+import { alice, ALICE_ID, FIXTURE_TIME } from '../testing/fixtures.ts'
+import { stub } from '../testing/stubs.ts'
+import { ApiMetrics } from '../lib/metrics.ts'
+import { InMemoryRateLimitStore } from '../lib/rate-limit.ts'
+import { DEFAULT_RATE_LIMITS } from '../middleware/rate-limit.ts'
+import { createMetricsRouter } from './metrics.ts'
+import type { IStatsRepository, TransactionTotals } from '../repositories/IStatsRepository.ts'
+
+const METRICS_TOKEN = 'scrape-secret'
+
+const TOTALS: TransactionTotals[] = [
+  { transactionType: 3, typeName: 'DISTRIBUTION', transactionCount: 2, totalAmount: 500 },
+  { transactionType: 4, typeName: 'P2P', transactionCount: 3, totalAmount: 120 },
+]
+
+/**
+ * Creates the app with a metrics token and a stats repository counting its calls
+ */
+function createMetricsApp(options: Parameters<typeof createTestApp>[1] = {}) {
+  const counter = { calls: 0 }
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    stats: {
+      getTransactionTotals: () => {
+        counter.calls++
+        return Promise.resolve(TOTALS)
+      },
+    },
+  }, { metricsToken: METRICS_TOKEN, ...options })
+  return { app, counter }
+}
+
+/**
+ * GETs /metrics with the scrape token
+ */
+function scrape(app: TestApp, headers: Record<string, string> = {}) {
+  return app.request('/metrics', {
+    headers: { Authorization: `Bearer ${METRICS_TOKEN}`, ...headers },
+  })
+}
+
+Deno.test('GET /metrics renders request, error and transaction metrics', async () => {
+  const { app } = createMetricsApp()
+  const user = await app.request('/v1/users/@me', {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+  await user.body?.cancel()
+  await (await app.request('/v1/users/@me')).body?.cancel()
+
+  const response = await scrape(app)
+
+  assertEquals(response.status, 200)
+  assertEquals(response.headers.get('Content-Type'), 'text/plain; version=0.0.4; charset=utf-8')
+  const body = await response.text()
+  assertStringIncludes(
+    body,
+    'http_request_duration_seconds_count{method="GET",route="/v1/users/@me",status="200"} 1\n',
+  )
+  assertStringIncludes(body, 'domain_errors_total{code="UNAUTHORIZED"} 1\n')
+  assertStringIncludes(body, '# TYPE token_transactions_total counter\n')
+  assertStringIncludes(body, 'token_transactions_total{type="P2P"} 3\n')
+  assertStringIncludes(body, 'token_transaction_volume_total{type="DISTRIBUTION"} 500\n')
+})
+
+Deno.test('GET /metrics rejects scrapes without the token', async () => {
+  const { app, counter } = createMetricsApp()
+
+  const missing = await app.request('/metrics')
+  const wrong = await scrape(app, { Authorization: 'Bearer guess' })
+
+  for (const response of [missing, wrong]) {
+    assertEquals(response.status, 401)
+    assertEquals(response.headers.get('WWW-Authenticate'), 'Bearer')
+    assertEquals(await response.json(), { error: 'Invalid metrics token', code: 'UNAUTHORIZED' })
+  }
+  assertEquals(counter.calls, 0)
+})
+
+Deno.test('GET /metrics is disabled when no token is configured', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/metrics')
+
+  assertEquals(response.status, 404)
+  assertEquals((await response.json()).code, 'NOT_FOUND')
+})
+
+Deno.test('GET /metrics reads transaction totals once per cache TTL', async () => {
+  const { app, counter } = createMetricsApp()
+
+  for (let i = 0; i < 3; i++) {
+    await (await scrape(app)).body?.cancel()
+  }
+
+  assertEquals(counter.calls, 1)
+})
+
+Deno.test('createMetricsRouter reads transaction totals again once the TTL has passed', async () => {
+  let now = FIXTURE_TIME
+  let calls = 0
+  const router = createMetricsRouter(
+    new ApiMetrics(),
+    stub<IStatsRepository>({
+      getTransactionTotals: () => {
+        calls++
+        return Promise.resolve(TOTALS)
+      },
+    }),
+    { token: METRICS_TOKEN, cacheTtlMs: 1000, now: () => now },
+  )
+  const headers = { Authorization: `Bearer ${METRICS_TOKEN}` }
+
+  await (await router.request('/', { headers })).body?.cancel()
+  now += 999
+  await (await router.request('/', { headers })).body?.cancel()
+  assertEquals(calls, 1)
+  now += 1
+  await (await router.request('/', { headers })).body?.cancel()
+  assertEquals(calls, 2)
+})
+
+Deno.test('GET /metrics is rate limited per client IP', async () => {
+  const { app } = createMetricsApp({
+    rateLimitStore: new InMemoryRateLimitStore(),
+    rateLimits: { ...DEFAULT_RATE_LIMITS, client: { limit: 2, windowMs: 60_000 } },
+  })
+  const statuses: number[] = []
+
+  for (let i = 0; i < 3; i++) {
+    const response = await scrape(app, { 'X-Forwarded-For': '203.0.113.7' })
+    await response.body?.cancel()
+    statuses.push(response.status)
+  }
+  const otherIp = await scrape(app, { 'X-Forwarded-For': '203.0.113.8' })
+  await otherIp.body?.cancel()
+
+  assertEquals(statuses, [200, 200, 429])
+  assertEquals(otherIp.status, 200)
+})
@@ -0,0 +1,362 @@
+/**
+ * Scheduled Transfer HTTP Routes - future and recurring transfers of the authenticated user
+ *
+ * Endpoints:
+ * - POST /v1/scheduled-transfers - Schedule a one-off or recurring transfer
+ * - GET /v1/scheduled-transfers - Caller's schedules (cursor-paginated)
+ * - GET /v1/scheduled-transfers/:id - One schedule with its processed occurrences
+ * - POST /v1/scheduled-transfers/:id/cancel - Cancel an active schedule
+ *
+ * Occurrences are executed by the scheduled-transfers job (src/jobs/scheduled-transfers.ts).
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../lib/openapi.ts'
+import type { IUserRepository } from '../repositories/IUserRepository.ts'
+import type { IScheduledTransferRepository } from '../repositories/IScheduledTransferRepository.ts'
+import {
+  AsScheduledTransferID,
+  SCHEDULE_RECURRENCES,
+  SCHEDULE_STATUSES,
+  type ScheduledTransferEntity,
+  type ScheduledTransferRun,
+} from '../entities/ScheduledTransferEntity.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import { currentUserErrorResponses, loadCurrentUser } from './current-user.ts'
+import { encodeCursor } from '../lib/cursor.ts'
+import {
+  AmountSchema,
+  IdParamsSchema,
+  MemoInputSchema,
+  MetadataInputSchema,
+  MetadataSchema,
+  PageQuerySchema,
+  pageSchema,
+  UnixMsSchema,
+  UUIDSchema,
+} from '../schemas/common.ts'
+
+/**
+ * Options for createScheduledTransfersRouter()
+ */
+export type ScheduledTransfersRouterOptions = {
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+}
+
+/**
+ * Upper bound on maxRuns (keeps run counts well inside scheduled_transfers INTEGER columns)
+ */
+const MAX_SCHEDULE_RUNS = 10_000
+
+const CreateScheduledTransferSchema = z
+  .object({
+    toWalletId: UUIDSchema,
+    amount: AmountSchema,
+    recurrence: z.enum(SCHEDULE_RECURRENCES).default('once'),
+    startsAt: UnixMsSchema,
+    endsAt: UnixMsSchema.optional(),
+    maxRuns: z.number().int().min(1).max(MAX_SCHEDULE_RUNS).optional(),
+    memo: MemoInputSchema,
+    metadata: MetadataInputSchema,
+  })
+  .openapi('CreateScheduledTransferRequest')
+
+const ScheduledTransferSchema = z
+  .object({
+    id: z.string().uuid(),
+    fromWalletId: z.string().uuid(),
+    toWalletId: z.string().uuid(),
+    amount: z.number().int(),
+    recurrence: z.enum(SCHEDULE_RECURRENCES),
+    startsAt: UnixMsSchema,
+    endsAt: UnixMsSchema.nullable(),
+    maxRuns: z.number().int().nullable(),
+    status: z.enum(SCHEDULE_STATUSES),
+    nextRunAt: UnixMsSchema.nullable(),
+    runCount: z.number().int(),
+    failureCount: z.number().int(),
+    lastRunAt: UnixMsSchema.nullable(),
+    lastError: z.string().nullable(),
+    memo: z.string().nullable(),
+    metadata: MetadataSchema,
+    createdAt: UnixMsSchema,
+    updatedAt: UnixMsSchema,
+  })
+  .openapi('ScheduledTransfer')
+
+const ScheduledTransferRunSchema = z
+  .object({
+    occurrence: z.number().int(),
+    scheduledFor: UnixMsSchema,
+    status: z.enum(['executed', 'failed']),
+    transactionId: z.string().uuid().nullable(),
+    error: z.string().nullable(),
+    executedAt: UnixMsSchema,
+  })
+  .openapi('ScheduledTransferRun')
+
+const ScheduledTransferResponseSchema = z.object({ scheduledTransfer: ScheduledTransferSchema })
+
+const createScheduleRoute = createRoute({
+  method: 'post',
+  path: '/',
+  tags: ['Scheduled transfers'],
+  summary: "Schedule a transfer from the caller's wallet",
+  description: '`recurrence` is once (default), daily, weekly or monthly. Recurring schedules ' +
+    'may be bounded by `endsAt` (inclusive) and/or `maxRuns`; without either they run until ' +
+    'cancelled. Balance and frozen state are checked when each occurrence runs.',
+  request: {
+    body: {
+      content: { 'application/json': { schema: CreateScheduledTransferSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    201: jsonContent(ScheduledTransferResponseSchema, 'Schedule created'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid request',
+      404: 'Sender or recipient not found',
+      409: 'Rejected by a business rule',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const listSchedulesRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Scheduled transfers'],
+  summary: "Caller's schedules, newest first",
+  request: {
+    query: PageQuerySchema.extend({ status: z.enum(SCHEDULE_STATUSES).optional() }),
+  },
+  responses: {
+    200: jsonContent(pageSchema(ScheduledTransferSchema), 'Page of schedules'),
+    ...currentUserErrorResponses,
+    ...errorResponses({ 400: 'Invalid query parameters', 500: 'Unexpected failure' }),
+  },
+})
+
+const getScheduleRoute = createRoute({
+  method: 'get',
+  path: '/{id}',
+  tags: ['Scheduled transfers'],
+  summary: "One of the caller's schedules with its processed occurrences (newest first)",
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(
+      ScheduledTransferResponseSchema.extend({ runs: z.array(ScheduledTransferRunSchema) }),
+      'Schedule and occurrences',
+    ),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid schedule ID',
+      404: 'Scheduled transfer not found',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const cancelScheduleRoute = createRoute({
+  method: 'post',
+  path: '/{id}/cancel',
+  tags: ['Scheduled transfers'],
+  summary: "Cancel one of the caller's active schedules",
+  description: 'Occurrences already executed are unaffected.',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(ScheduledTransferResponseSchema, 'Cancelled schedule'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid schedule ID',
+      404: 'Scheduled transfer not found',
+      409: 'Schedule is no longer active',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+/**
+ * Serializes a schedule for API responses
+ */
+function toScheduleResponse(schedule: ScheduledTransferEntity) {
+  return {
+    id: schedule.id,
+    fromWalletId: schedule.fromWalletId,
+    toWalletId: schedule.toWalletId,
+    amount: schedule.amount,
+    recurrence: schedule.recurrence,
+    startsAt: schedule.startsAt,
+    endsAt: schedule.endsAt,
+    maxRuns: schedule.maxRuns,
+    status: schedule.status,
+    nextRunAt: schedule.nextRunAt,
+    runCount: schedule.runCount,
+    failureCount: schedule.failureCount,
+    lastRunAt: schedule.lastRunAt,
+    lastError: schedule.lastError,
+    memo: schedule.memo,
+    metadata: schedule.metadata,
+    createdAt: schedule.createdAt,
+    updatedAt: schedule.updatedAt,
+  }
+}
+
+/**
+ * Serializes a processed occurrence for API responses
+ */
+function toRunResponse(run: ScheduledTransferRun) {
+  return {
+    occurrence: run.occurrence,
+    scheduledFor: run.scheduledFor,
+    status: run.transactionId ? 'executed' as const : 'failed' as const,
+    transactionId: run.transactionId,
+    error: run.error,
+    executedAt: run.executedAt,
+  }
+}
+
+/**
+ * Creates a Hono router for /v1/scheduled-transfers endpoints
+ *
+ * @param userRepository - IUserRepository implementation
+ * @param scheduledTransferRepository - IScheduledTransferRepository implementation
+ * @param options - Clock used to reject start times in the past
+ * @returns Hono router instance
+ */
+export function createScheduledTransfersRouter(
+  userRepository: IUserRepository,
+  scheduledTransferRepository: IScheduledTransferRepository,
+  options: ScheduledTransfersRouterOptions = {},
+): OpenAPIHono<Env> {
+  const router = createRouter()
+  const now = options.now ?? Date.now
+
+  /**
+   * POST /v1/scheduled-transfers
+   * Schedule a transfer from the caller's wallet
+   *
+   * `recurrence` is once (default), daily, weekly or monthly. Recurring schedules may
+   * be bounded by `endsAt` (inclusive) and/or `maxRuns`; without either they run until
+   * cancelled. Balance and frozen state are checked when each occurrence runs.
+   */
+  router.openapi(createScheduleRoute, async (c) => {
+    const body = c.req.valid('json')
+
+    // Rules relative to the current time or across fields
+    if (body.startsAt <= now()) {
+      return c.json(
+        {
+          error: 'Invalid request: startsAt must be a future Unix timestamp in milliseconds',
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      )
+    }
+    if (
+      body.recurrence === 'once' && (body.endsAt !== undefined || body.maxRuns !== undefined)
+    ) {
+      return c.json(
+        {
+          error: 'Invalid request: endsAt and maxRuns apply to recurring schedules only',
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      )
+    }
+    if (body.endsAt !== undefined && body.endsAt < body.startsAt) {
+      return c.json(
+        {
+          error: 'Invalid request: endsAt must be a Unix timestamp not before startsAt',
+          code: 'INVALID_REQUEST',
+        },
+        400,
+      )
+    }
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const toWalletId = AsWalletID(body.toWalletId)
+    if (toWalletId === user.walletId) {
+      return c.json(
+        { error: 'Invalid request: cannot transfer to your own wallet', code: 'INVALID_REQUEST' },
+        400,
+      )
+    }
+
+    const schedule = await scheduledTransferRepository.create({
+      userId: user.id,
+      toWalletId,
+      amount: body.amount,
+      recurrence: body.recurrence,
+      startsAt: body.startsAt,
+      endsAt: body.endsAt,
+      maxRuns: body.maxRuns,
+      memo: body.memo,
+      metadata: body.metadata,
+    })
+
+    return c.json({ scheduledTransfer: toScheduleResponse(schedule) }, 201)
+  })
+
+  /**
+   * GET /v1/scheduled-transfers
+   * Caller's schedules, newest first (filterable by status)
+   */
+  router.openapi(listSchedulesRoute, async (c) => {
+    const query = c.req.valid('query')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const page = await scheduledTransferRepository.listByUser(user.id, query)
+    return c.json({
+      items: page.items.map(toScheduleResponse),
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    }, 200)
+  })
+
+  /**
+   * GET /v1/scheduled-transfers/:id
+   * One of the caller's schedules with its processed occurrences (newest first)
+   */
+  router.openapi(getScheduleRoute, async (c) => {
+    const { id } = c.req.valid('param')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const scheduleId = AsScheduledTransferID(id)
+    const schedule = await scheduledTransferRepository.findById(scheduleId)
+    // Other users' schedules are reported as missing rather than forbidden
+    if (!schedule || schedule.userId !== user.id) {
+      return c.json({ error: 'Scheduled transfer not found', code: 'SCHEDULE_NOT_FOUND' }, 404)
+    }
+
+    const runs = await scheduledTransferRepository.listRuns(scheduleId)
+    return c.json({
+      scheduledTransfer: toScheduleResponse(schedule),
+      runs: runs.map(toRunResponse),
+    }, 200)
+  })
+
+  /**
+   * POST /v1/scheduled-transfers/:id/cancel
+   * Cancel one of the caller's active schedules (executed occurrences are unaffected)
+   */
+  router.openapi(cancelScheduleRoute, async (c) => {
+    const { id } = c.req.valid('param')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const schedule = await scheduledTransferRepository.cancel(AsScheduledTransferID(id), user.id)
+    return c.json({ scheduledTransfer: toScheduleResponse(schedule) }, 200)
+  })
+
+  return router
+}
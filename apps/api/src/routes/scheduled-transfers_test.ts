@@ -0,0 +1,84 @@
+import { assertObjectMatch } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse } from '../testing/app.ts'
+import { alice, ALICE_ID, ALICE_WALLET_ID, BOB_WALLET_ID } from '../testing/fixtures.ts'
+import {
+  AsScheduledTransferID,
+  ScheduledTransferEntity,
+} from '../entities/ScheduledTransferEntity.ts'
+
+const SCHEDULE_ID = AsScheduledTransferID('77777777-7777-4777-8777-777777777777')
+
+Deno.test('POST /v1/scheduled-transfers creates an active schedule', async () => {
+  const now = Date.now()
+  const startsAt = now + 60_000
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    scheduledTransfers: {
+      create: (params) =>
+        Promise.resolve(
+          new ScheduledTransferEntity(
+            SCHEDULE_ID,
+            params.userId,
+            ALICE_WALLET_ID,
+            params.toWalletId,
+            params.amount,
+            params.recurrence,
+            params.startsAt,
+            null,
+            params.maxRuns ?? null,
+            'active',
+            params.startsAt,
+            0,
+            0,
+            null,
+            null,
+            null,
+            {},
+            now,
+            now,
+          ),
+        ),
+    },
+  })
+
+  const response = await app.request('/v1/scheduled-transfers', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      toWalletId: BOB_WALLET_ID,
+      amount: 50,
+      recurrence: 'weekly',
+      startsAt,
+      maxRuns: 4,
+    }),
+  })
+
+  const body = await parseResponse(app, 'post', '/v1/scheduled-transfers', response, 201)
+  assertObjectMatch(body, {
+    scheduledTransfer: {
+      id: SCHEDULE_ID,
+      recurrence: 'weekly',
+      status: 'active',
+      nextRunAt: startsAt,
+      maxRuns: 4,
+    },
+  })
+})
+
+Deno.test('POST /v1/scheduled-transfers rejects a start in the past', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/v1/scheduled-transfers', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ toWalletId: BOB_WALLET_ID, amount: 50, startsAt: Date.now() - 1 }),
+  })
+
+  await parseResponse(app, 'post', '/v1/scheduled-transfers', response, 400)
+})
@@ -0,0 +1,102 @@
+/**
+ * Statistics HTTP Routes - economic statistics for community members (features.md UC-5)
+ *
+ * Endpoints:
+ * - GET /v1/stats/supply - Supply figures with issuance invariant check (cached)
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../lib/openapi.ts'
+import type { IStatsRepository, SupplyStats } from '../repositories/IStatsRepository.ts'
+import { UnixMsSchema } from '../schemas/common.ts'
+
+/**
+ * Options for createStatsRouter()
+ */
+export type StatsRouterOptions = {
+  /** How long calculated statistics are reused (default 15 minutes, features.md) */
+  cacheTtlMs?: number
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+}
+
+const SupplyStatsSchema = z
+  .object({
+    totalIssuance: z.number().int(),
+    circulatingSupply: z.number().int(),
+    systemPool: z.number().int(),
+    totalUsers: z.number().int(),
+    activeUsers: z.number().int(),
+    consistent: z.boolean(),
+    discrepancy: z.number().int(),
+    calculatedAt: UnixMsSchema,
+  })
+  .openapi('SupplyStats')
+
+const getSupplyRoute = createRoute({
+  method: 'get',
+  path: '/supply',
+  tags: ['Stats'],
+  summary: 'Total issuance, circulating supply, system pool and user counts',
+  description: '`consistent` is false when Total Issuance != Circulating Supply + System Pool; ' +
+    '`discrepancy` is then the unexplained difference (issuance minus holdings).',
+  responses: {
+    200: jsonContent(SupplyStatsSchema, 'Supply statistics'),
+    ...errorResponses({ 500: 'Unexpected failure' }),
+  },
+})
+
+/**
+ * Creates a Hono router for /v1/stats endpoints
+ *
+ * Statistics are cached per isolate. Inconsistent results are returned but not
+ * cached, so the next request recalculates instead of repeating a stale alarm.
+ *
+ * @param repository - IStatsRepository implementation
+ * @param options - Cache settings
+ * @returns Hono router instance
+ */
+export function createStatsRouter(
+  repository: IStatsRepository,
+  options: StatsRouterOptions = {},
+): OpenAPIHono<Env> {
+  const router = createRouter()
+  const cacheTtlMs = options.cacheTtlMs ?? 15 * 60 * 1000
+  const now = options.now ?? Date.now
+  let cached: { stats: SupplyStats; fetchedAt: number } | null = null
+
+  /**
+   * GET /v1/stats/supply
+   * Total issuance, circulating supply, system pool and user counts
+   *
+   * `consistent` is false when Total Issuance != Circulating Supply + System Pool;
+   * `discrepancy` is then the unexplained difference (issuance minus holdings).
+   */
+  router.openapi(getSupplyRoute, async (c) => {
+    const stats = cached && now() - cached.fetchedAt < cacheTtlMs
+      ? cached.stats
+      : await repository.getSupplyStats()
+
+    const discrepancy = stats.totalIssuance - (stats.circulatingSupply + stats.systemPool)
+    if (discrepancy !== 0) {
+      c.get('logger').error('Supply invariant violated', { stats, discrepancy })
+      cached = null
+    } else if (cached?.stats !== stats) {
+      cached = { stats, fetchedAt: now() }
+    }
+
+    return c.json({
+      totalIssuance: stats.totalIssuance,
+      circulatingSupply: stats.circulatingSupply,
+      systemPool: stats.systemPool,
+      totalUsers: stats.totalUsers,
+      activeUsers: stats.activeUsers,
+      consistent: discrepancy === 0,
+      discrepancy,
+      calculatedAt: stats.calculatedAt,
+    }, 200)
+  })
+
+  return router
+}
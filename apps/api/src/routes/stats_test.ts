@@ -0,0 +1,93 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse, type TestApp } from '../testing/app.ts'
+import { alice, ALICE_ID, FIXTURE_TIME } from '../testing/fixtures.ts'
+import { stub } from '../testing/stubs.ts'
+import { createStatsRouter } from './stats.ts'
+import type { IStatsRepository, SupplyStats } from '../repositories/IStatsRepository.ts'
+
+/**
+ * Consistent figures: 1000 issued = 700 held by users + 300 in the system pool
+ */
+const STATS: SupplyStats = {
+  totalIssuance: 1000,
+  circulatingSupply: 700,
+  systemPool: 300,
+  totalUsers: 2,
+  activeUsers: 1,
+  calculatedAt: FIXTURE_TIME,
+}
+
+/**
+ * Creates the app with a stats repository answering `results` in turn, counting its calls
+ */
+function createStatsApp(...results: SupplyStats[]) {
+  const counter = { calls: 0 }
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    stats: {
+      getSupplyStats: () =>
+        Promise.resolve(results[Math.min(counter.calls++, results.length - 1)]!),
+    },
+  })
+  return { app, counter }
+}
+
+/**
+ * GETs /v1/stats/supply as Alice and parses the body
+ */
+async function getSupply(app: TestApp) {
+  const response = await app.request('/v1/stats/supply', {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+  return parseResponse(app, 'get', '/v1/stats/supply', response, 200)
+}
+
+Deno.test('GET /v1/stats/supply reports the issuance invariant as consistent', async () => {
+  const { app } = createStatsApp(STATS)
+
+  assertEquals(await getSupply(app), {
+    ...STATS,
+    consistent: true,
+    discrepancy: 0,
+  })
+})
+
+Deno.test('GET /v1/stats/supply reuses calculated statistics', async () => {
+  const { app, counter } = createStatsApp(STATS, { ...STATS, totalUsers: 3 })
+
+  await getSupply(app)
+  const second = await getSupply(app)
+
+  assertEquals(counter.calls, 1)
+  assertEquals(second.totalUsers, 2)
+})
+
+Deno.test('GET /v1/stats/supply recalculates after an inconsistent result instead of caching it', async () => {
+  const { app, counter } = createStatsApp({ ...STATS, systemPool: 250 }, STATS)
+
+  const first = await getSupply(app)
+  const second = await getSupply(app)
+
+  assertEquals([first.consistent, first.discrepancy], [false, 50])
+  assertEquals([second.consistent, second.discrepancy], [true, 0])
+  assertEquals(counter.calls, 2)
+})
+
+Deno.test('createStatsRouter recalculates once the cache TTL has passed', async () => {
+  let now = FIXTURE_TIME
+  let calls = 0
+  const router = createStatsRouter(
+    stub<IStatsRepository>({
+      getSupplyStats: () => Promise.resolve({ ...STATS, calculatedAt: FIXTURE_TIME + ++calls }),
+    }),
+    { cacheTtlMs: 1000, now: () => now },
+  )
+
+  const calculatedAt = async () => (await (await router.request('/supply')).json()).calculatedAt
+
+  assertEquals(await calculatedAt(), FIXTURE_TIME + 1)
+  now += 999
+  assertEquals(await calculatedAt(), FIXTURE_TIME + 1)
+  now += 1
+  assertEquals(await calculatedAt(), FIXTURE_TIME + 2)
+})
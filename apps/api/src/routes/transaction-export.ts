@@ -0,0 +1,141 @@
+/**
+ * Shared helper for transaction export routes (user history and admin ledger)
+ *
+ * Column names are snake_case like the database, since the files are read by
+ * spreadsheets and audit tools rather than API clients.
+ */
+
+import { z } from '@hono/zod-openapi'
+import { EXPORT_FORMATS, type ExportRecord } from '../lib/export.ts'
+import type {
+  LedgerEntry,
+  TransactionHistoryItem,
+} from '../repositories/ITransactionRepository.ts'
+import type { TransactionEntity } from '../entities/TransactionEntity.ts'
+import { UnixMsQuerySchema } from '../schemas/common.ts'
+
+/**
+ * Export query parameters
+ */
+export const ExportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv').openapi({ description: 'File format' }),
+  from: UnixMsQuerySchema.optional().openapi({ description: 'Created at or after (Unix ms)' }),
+  to: UnixMsQuerySchema.optional().openapi({ description: 'Created before (Unix ms)' }),
+})
+
+/**
+ * Successful response of export routes (the body is not JSON)
+ */
+export const exportResponse200 = {
+  description: 'CSV (`text/csv`) or NDJSON (`application/x-ndjson`) download, newest first',
+}
+
+/**
+ * Columns of a wallet's history export
+ */
+export const WALLET_EXPORT_COLUMNS = [
+  'id',
+  'created_at',
+  'created_at_iso',
+  'direction',
+  'transaction_type',
+  'transaction_type_label',
+  'amount',
+  'counterparty_wallet_id',
+  'counterparty_type',
+  'counterparty_name',
+  'reverses_transaction_id',
+  'memo',
+  'metadata',
+] as const
+
+/**
+ * Columns of a ledger export
+ */
+export const LEDGER_EXPORT_COLUMNS = [
+  'id',
+  'created_at',
+  'created_at_iso',
+  'transaction_type',
+  'transaction_type_label',
+  'amount',
+  'from_wallet_id',
+  'from_owner_type',
+  'from_owner_name',
+  'to_wallet_id',
+  'to_owner_type',
+  'to_owner_name',
+  'reverses_transaction_id',
+  'memo',
+  'metadata',
+] as const
+
+/**
+ * Timestamp columns; created_at_iso is the same instant as unix_to_timestamp(created_at)
+ */
+function timestampFields(transaction: TransactionEntity) {
+  return {
+    created_at: transaction.createdAt,
+    created_at_iso: new Date(transaction.createdAt).toISOString(),
+  }
+}
+
+/**
+ * Flattens a wallet history entry into an export record
+ */
+export function toWalletExportRecord(item: TransactionHistoryItem): ExportRecord {
+  const { transaction, counterparty } = item
+  return {
+    id: transaction.id,
+    ...timestampFields(transaction),
+    direction: item.direction,
+    transaction_type: transaction.transactionType,
+    transaction_type_label: transaction.transactionTypeLabel,
+    amount: transaction.amount,
+    counterparty_wallet_id: counterparty.walletId,
+    counterparty_type: counterparty.ownerType,
+    counterparty_name: counterparty.ownerName,
+    reverses_transaction_id: transaction.reversesTransactionId,
+    memo: transaction.memo,
+    metadata: transaction.metadata,
+  }
+}
+
+/**
+ * Flattens a ledger entry into an export record
+ */
+export function toLedgerExportRecord(entry: LedgerEntry): ExportRecord {
+  const { transaction, sender, recipient } = entry
+  return {
+    id: transaction.id,
+    ...timestampFields(transaction),
+    transaction_type: transaction.transactionType,
+    transaction_type_label: transaction.transactionTypeLabel,
+    amount: transaction.amount,
+    from_wallet_id: sender.walletId,
+    from_owner_type: sender.ownerType,
+    from_owner_name: sender.ownerName,
+    to_wallet_id: recipient.walletId,
+    to_owner_type: recipient.ownerType,
+    to_owner_name: recipient.ownerName,
+    reverses_transaction_id: transaction.reversesTransactionId,
+    memo: transaction.memo,
+    metadata: transaction.metadata,
+  }
+}
+
+/**
+ * Maps every page of an iterator
+ *
+ * @param pages - Source pages
+ * @param map - Item mapper
+ * @returns Async iterator over the mapped pages
+ */
+export async function* mapPages<T, U>(
+  pages: AsyncIterable<T[]>,
+  map: (item: T) => U,
+): AsyncGenerator<U[]> {
+  for await (const page of pages) {
+    yield page.map(map)
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Transfer HTTP Routes - user-initiated token transfers
+ *
+ * Endpoints:
+ * - POST /v1/transfers - Transfer tokens from the caller's wallet (requires Idempotency-Key)
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../lib/openapi.ts'
+import type { IUserRepository } from '../repositories/IUserRepository.ts'
+import type { ITransactionRepository } from '../repositories/ITransactionRepository.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import type { TransactionEntity } from '../entities/TransactionEntity.ts'
+import { currentUserErrorResponses, loadCurrentUser } from './current-user.ts'
+import {
+  AmountSchema,
+  MemoInputSchema,
+  MetadataInputSchema,
+  MetadataSchema,
+  UnixMsSchema,
+  UUIDSchema,
+} from '../schemas/common.ts'
+
+/**
+ * Matches idempotency_keys.idempotency_key (VARCHAR(255))
+ */
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255
+
+const CreateTransferSchema = z
+  .object({
+    toWalletId: UUIDSchema,
+    amount: AmountSchema,
+    memo: MemoInputSchema,
+    metadata: MetadataInputSchema,
+  })
+  .openapi('CreateTransferRequest')
+
+const TransactionSchema = z
+  .object({
+    id: z.string().uuid(),
+    fromWalletId: z.string().uuid(),
+    toWalletId: z.string().uuid(),
+    amount: z.number().int(),
+    transactionType: z.number().int(),
+    transactionTypeLabel: z.string(),
+    memo: z.string().nullable(),
+    metadata: MetadataSchema,
+    createdAt: UnixMsSchema,
+  })
+  .openapi('Transaction')
+
+const TransferResponseSchema = z.object({ transaction: TransactionSchema })
+
+const createTransferRoute = createRoute({
+  method: 'post',
+  path: '/',
+  tags: ['Transfers'],
+  summary: "Transfer tokens from the caller's wallet to another wallet",
+  description: 'A retry with the same Idempotency-Key returns the original transaction ' +
+    '(200 + `Idempotent-Replayed: true`) instead of transferring again. Transfers beyond the ' +
+    "sender's transfer limits fail with 422 and the code of the limit (e.g. " +
+    '`DAILY_LIMIT_EXCEEDED`).',
+  request: {
+    headers: z.object({
+      'idempotency-key': z.string().trim().min(1).max(MAX_IDEMPOTENCY_KEY_LENGTH),
+    }),
+    body: { content: { 'application/json': { schema: CreateTransferSchema } }, required: true },
+  },
+  responses: {
+    200: jsonContent(TransferResponseSchema, 'Replay of an earlier request with the same key'),
+    201: jsonContent(TransferResponseSchema, 'Transfer created'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid request',
+      404: 'Sender or recipient not found',
+      409: 'A wallet is frozen',
+      422: 'Transfer rejected (insufficient balance, recipient not allowed, key reused, ' +
+        'transfer limit)',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+/**
+ * Serializes a transaction for API responses
+ */
+function toTransactionResponse(transaction: TransactionEntity) {
+  return {
+    id: transaction.id,
+    fromWalletId: transaction.fromWalletId,
+    toWalletId: transaction.toWalletId,
+    amount: transaction.amount,
+    transactionType: transaction.transactionType,
+    transactionTypeLabel: transaction.transactionTypeLabel,
+    memo: transaction.memo,
+    metadata: transaction.metadata,
+    createdAt: transaction.createdAt,
+  }
+}
+
+/**
+ * Creates a Hono router for /v1/transfers endpoints
+ *
+ * @param userRepository - IUserRepository implementation
+ * @param transactionRepository - ITransactionRepository implementation
+ * @returns Hono router instance
+ */
+export function createTransfersRouter(
+  userRepository: IUserRepository,
+  transactionRepository: ITransactionRepository,
+): OpenAPIHono<Env> {
+  const router = createRouter()
+
+  /**
+   * POST /v1/transfers
+   * Transfer tokens from the caller's wallet to another wallet
+   *
+   * A retry with the same Idempotency-Key returns the original transaction
+   * (200 + `Idempotent-Replayed: true`) instead of transferring again.
+   */
+  router.openapi(createTransferRoute, async (c) => {
+    const { 'idempotency-key': idempotencyKey } = c.req.valid('header')
+    const body = c.req.valid('json')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const toWalletId = AsWalletID(body.toWalletId)
+    if (toWalletId === user.walletId) {
+      return c.json(
+        { error: 'Invalid request: cannot transfer to your own wallet', code: 'INVALID_REQUEST' },
+        400,
+      )
+    }
+
+    const { transaction, replayed } = await transactionRepository.createTransfer({
+      userId: user.id,
+      idempotencyKey,
+      toWalletId,
+      amount: body.amount,
+      memo: body.memo,
+      metadata: body.metadata,
+    })
+
+    c.header('Idempotent-Replayed', String(replayed))
+    return c.json({ transaction: toTransactionResponse(transaction) }, replayed ? 200 : 201)
+  })
+
+  return router
+}
@@ -0,0 +1,154 @@
+import { assertEquals, assertObjectMatch } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse, type TestApp } from '../testing/app.ts'
+import {
+  alice,
+  ALICE_ID,
+  ALICE_WALLET_ID,
+  BOB_WALLET_ID,
+  FIXTURE_TIME,
+} from '../testing/fixtures.ts'
+import { AsTransactionID, TransactionEntity } from '../entities/TransactionEntity.ts'
+import { TRANSACTION_TYPES } from '../entities/TransactionType.ts'
+import { BusinessRuleError } from '../lib/errors.ts'
+import type { CreateTransferParams } from '../repositories/ITransactionRepository.ts'
+
+const transaction = new TransactionEntity(
+  AsTransactionID('cccccccc-cccc-4ccc-8ccc-cccccccccccc'),
+  ALICE_WALLET_ID,
+  BOB_WALLET_ID,
+  100,
+  TRANSACTION_TYPES.P2P.code,
+  FIXTURE_TIME,
+  null,
+  'lunch',
+)
+
+/**
+ * POSTs a transfer of 100 to Bob as Alice
+ */
+async function postTransfer(app: TestApp) {
+  return app.request('/v1/transfers', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Content-Type': 'application/json',
+      'Idempotency-Key': 'key-1',
+    },
+    body: JSON.stringify({ toWalletId: BOB_WALLET_ID, amount: 100, memo: 'lunch' }),
+  })
+}
+
+Deno.test('POST /v1/transfers creates a transfer', async () => {
+  const calls: CreateTransferParams[] = []
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    transactions: {
+      createTransfer: (params) => {
+        calls.push(params)
+        return Promise.resolve({ transaction, replayed: false })
+      },
+    },
+  })
+
+  const response = await postTransfer(app)
+
+  const body = await parseResponse(app, 'post', '/v1/transfers', response, 201)
+  assertObjectMatch(body, {
+    transaction: { id: transaction.id, amount: 100, transactionType: 4, memo: 'lunch' },
+  })
+  assertEquals(response.headers.get('Idempotent-Replayed'), 'false')
+  assertObjectMatch(calls[0]!, {
+    userId: ALICE_ID,
+    idempotencyKey: 'key-1',
+    toWalletId: BOB_WALLET_ID,
+    amount: 100,
+  })
+})
+
+Deno.test('POST /v1/transfers stores the sanitized memo', async () => {
+  const calls: CreateTransferParams[] = []
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    transactions: {
+      createTransfer: (params) => {
+        calls.push(params)
+        return Promise.resolve({ transaction, replayed: false })
+      },
+    },
+  })
+
+  const response = await app.request('/v1/transfers', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Content-Type': 'application/json',
+      'Idempotency-Key': 'key-1',
+    },
+    body: JSON.stringify({
+      toWalletId: BOB_WALLET_ID,
+      amount: 100,
+      memo: ' lunch\n\u202Eat noon ',
+    }),
+  })
+
+  await parseResponse(app, 'post', '/v1/transfers', response, 201)
+  assertEquals(calls[0]!.memo, 'lunch at noon')
+})
+
+Deno.test('POST /v1/transfers answers a replayed key with 200', async () => {
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    transactions: { createTransfer: () => Promise.resolve({ transaction, replayed: true }) },
+  })
+
+  const response = await postTransfer(app)
+
+  await parseResponse(app, 'post', '/v1/transfers', response, 200)
+  assertEquals(response.headers.get('Idempotent-Replayed'), 'true')
+})
+
+Deno.test('POST /v1/transfers maps a DomainError to its status and code', async () => {
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    transactions: {
+      createTransfer: () =>
+        Promise.reject(new BusinessRuleError('INSUFFICIENT_BALANCE', 'Insufficient balance')),
+    },
+  })
+
+  const response = await postTransfer(app)
+
+  const body = await parseResponse(app, 'post', '/v1/transfers', response, 422)
+  assertEquals(body, { error: 'Insufficient balance', code: 'INSUFFICIENT_BALANCE' })
+})
+
+Deno.test('POST /v1/transfers rejects a missing Idempotency-Key', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/v1/transfers', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ toWalletId: BOB_WALLET_ID, amount: 100 }),
+  })
+
+  await parseResponse(app, 'post', '/v1/transfers', response, 400)
+})
+
+Deno.test('POST /v1/transfers rejects a transfer to the own wallet', async () => {
+  const app = createTestApp({ users: { findById: () => Promise.resolve(alice) } })
+
+  const response = await app.request('/v1/transfers', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Content-Type': 'application/json',
+      'Idempotency-Key': 'key-1',
+    },
+    body: JSON.stringify({ toWalletId: ALICE_WALLET_ID, amount: 100 }),
+  })
+
+  await parseResponse(app, 'post', '/v1/transfers', response, 400)
+})
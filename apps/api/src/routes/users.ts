@@ -1,22 +1,606 @@
-import { Hono } from 'hono'
+/**
+ * User HTTP Routes - endpoints scoped to the authenticated user
+ *
+ * Endpoints:
+ * - GET /v1/users/@me - Current user's profile
+ * - PATCH /v1/users/@me - Change the current user's username
+ * - DELETE /v1/users/@me - Delete the current user's account, sweeping its balance
+ * - GET /v1/users/search - Find recipients by username prefix
+ * - GET /v1/users/@me/wallet - Current user's wallet
+ * - GET /v1/users/@me/transactions - Current user's transaction history (cursor-paginated)
+ * - GET /v1/users/@me/transactions/export - Current user's transaction history as CSV or NDJSON
+ * - GET /v1/users/@me/balance - Current user's balance at a point in time
+ * - GET /v1/users/@me/statements - Current user's account statement for a period
+ *
+ * The live event stream (GET /v1/users/@me/events) lives in routes/wallet-events.ts.
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
 import type { Env } from '../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../lib/openapi.ts'
+import type { IUserRepository } from '../repositories/IUserRepository.ts'
+import type { IWalletRepository } from '../repositories/IWalletRepository.ts'
+import type {
+  ITransactionRepository,
+  TransactionHistoryQuery,
+} from '../repositories/ITransactionRepository.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import {
+  USERNAME_MAX_LENGTH,
+  USERNAME_MIN_LENGTH,
+  USERNAME_PATTERN,
+} from '../entities/UserEntity.ts'
+import { encodeCursor } from '../lib/cursor.ts'
+import { EXPORT_PAGE_SIZE, exportResponse, paginate } from '../lib/export.ts'
+import { currentUserErrorResponses, loadCurrentUser } from './current-user.ts'
+import { parseMetadataFilter } from '../lib/annotations.ts'
+import {
+  ExportQuerySchema,
+  exportResponse200,
+  mapPages,
+  toWalletExportRecord,
+  WALLET_EXPORT_COLUMNS,
+} from './transaction-export.ts'
+import {
+  MetadataSchema,
+  PageQuerySchema,
+  pageSchema,
+  TransactionTypeQuerySchema,
+  UnixMsQuerySchema,
+  UnixMsSchema,
+  UUIDSchema,
+} from '../schemas/common.ts'
+
+const UserSchema = z
+  .object({
+    id: z.string().uuid(),
+    username: z.string(),
+    walletId: z.string().uuid(),
+    createdAt: UnixMsSchema,
+  })
+  .openapi('User')
 
-const users = new Hono<Env>()
+/**
+ * Username as accepted in requests, mirroring the users table constraints
+ * (username_valid_chars, username_length)
+ */
+const UsernameSchema = z
+  .string()
+  .trim()
+  .min(USERNAME_MIN_LENGTH)
+  .max(USERNAME_MAX_LENGTH)
+  .regex(USERNAME_PATTERN, 'may only contain alphanumerics, underscore and hyphen')
 
-// GET /v1/users/@me
-users.get('/@me', (c) => {
-  return c.json({
-    id: 'mock-user-id',
-    username: 'mock-user',
+const UpdateMeSchema = z.object({ username: UsernameSchema }).openapi('UpdateUserRequest')
+
+const DeleteMeSchema = z
+  .object({
+    confirm: z.string().openapi({ description: 'Current username, to confirm the deletion' }),
   })
-})
+  .openapi('DeleteAccountRequest')
+
+const AccountDeletionSchema = z
+  .object({
+    id: z.string().uuid(),
+    sweptAmount: z.number().int().openapi({
+      description: 'Balance moved to the system pool by the ACCOUNT_CLOSURE transaction',
+    }),
+    sweepTransactionId: z.string().uuid().nullable().openapi({
+      description: 'null if the wallet was already empty',
+    }),
+    deletedAt: UnixMsSchema,
+  })
+  .openapi('AccountDeletion')
+
+const RecipientSchema = z
+  .object({
+    walletId: z.string().uuid(),
+    username: z.string(),
+  })
+  .openapi('Recipient')
+
+const WalletSchema = z
+  .object({
+    id: z.string().uuid(),
+    balance: z.number().int(),
+    isFrozen: z.boolean(),
+    updatedAt: UnixMsSchema,
+  })
+  .openapi('Wallet')
 
-// GET /v1/users/@me/wallet
-users.get('/@me/wallet', (c) => {
-  return c.json({
-    id: 'mock-wallet-id',
-    balance: 0,
+const HistoryItemSchema = z
+  .object({
+    id: z.string().uuid(),
+    direction: z.enum(['sent', 'received']),
+    amount: z.number().int(),
+    transactionType: z.number().int(),
+    transactionTypeLabel: z.string(),
+    fromWalletId: z.string().uuid(),
+    toWalletId: z.string().uuid(),
+    counterparty: z.object({
+      walletId: z.string().uuid(),
+      type: z.enum(['user', 'system_account']).nullable(),
+      name: z.string().nullable(),
+    }),
+    reversesTransactionId: z.string().uuid().nullable(),
+    reversedAmount: z.number().int(),
+    memo: z.string().nullable(),
+    metadata: MetadataSchema,
+    createdAt: UnixMsSchema,
   })
+  .openapi('TransactionHistoryItem')
+
+const BalanceAtSchema = z
+  .object({
+    walletId: z.string().uuid(),
+    at: UnixMsSchema,
+    balance: z.number().int(),
+  })
+  .openapi('BalanceAt')
+
+const StatementLineSchema = z
+  .object({
+    transactionId: z.string().uuid(),
+    direction: z.enum(['sent', 'received']),
+    counterpartyWalletId: z.string().uuid(),
+    amount: z.number().int(),
+    transactionType: z.number().int(),
+    memo: z.string().nullable(),
+    createdAt: UnixMsSchema,
+    balance: z.number().int().openapi({ description: 'Running balance after the transaction' }),
+  })
+  .openapi('StatementLine')
+
+const StatementSchema = z
+  .object({
+    walletId: z.string().uuid(),
+    from: UnixMsSchema,
+    to: UnixMsSchema,
+    openingBalance: z.number().int(),
+    totalIn: z.number().int(),
+    totalOut: z.number().int(),
+    closingBalance: z.number().int(),
+    lines: z.array(StatementLineSchema),
+  })
+  .openapi('Statement')
+
+/**
+ * Maximum number of transactions in one statement
+ */
+const MAX_STATEMENT_LINES = 10_000
+
+/**
+ * Transaction history query parameters; `meta.<key>` filters are read separately
+ * because their names are not fixed
+ */
+const HistoryQuerySchema = PageQuerySchema.extend({
+  direction: z.enum(['sent', 'received']).optional(),
+  type: TransactionTypeQuerySchema.optional(),
+  from: UnixMsQuerySchema.optional(),
+  to: UnixMsQuerySchema.optional(),
+  counterparty: UUIDSchema.optional().openapi({ description: 'Counterparty wallet ID' }),
+})
+
+/**
+ * Default and maximum number of recipient search results
+ */
+const DEFAULT_SEARCH_LIMIT = 20
+const MAX_SEARCH_LIMIT = 50
+
+const SearchQuerySchema = z.object({
+  username: z
+    .string()
+    .min(1)
+    .max(USERNAME_MAX_LENGTH)
+    .regex(USERNAME_PATTERN, 'may only contain alphanumerics, underscore and hyphen')
+    .openapi({ description: 'Start of the username (case-insensitive)' }),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).default(DEFAULT_SEARCH_LIMIT),
+})
+
+const BalanceQuerySchema = z.object({
+  at: UnixMsQuerySchema.openapi({
+    description: 'Point in time (Unix ms, exclusive)',
+    param: { required: true },
+  }),
+})
+
+const StatementQuerySchema = z.object({
+  from: UnixMsQuerySchema.openapi({
+    description: 'Start of the period (Unix ms, inclusive)',
+    param: { required: true },
+  }),
+  to: UnixMsQuerySchema.openapi({
+    description: 'End of the period (Unix ms, exclusive)',
+    param: { required: true },
+  }),
+})
+
+const getMeRoute = createRoute({
+  method: 'get',
+  path: '/@me',
+  tags: ['Users'],
+  summary: "Current user's profile",
+  responses: {
+    200: jsonContent(UserSchema, 'Profile'),
+    ...currentUserErrorResponses,
+    ...errorResponses({ 500: 'Unexpected failure' }),
+  },
+})
+
+const updateMeRoute = createRoute({
+  method: 'patch',
+  path: '/@me',
+  tags: ['Users'],
+  summary: "Change the current user's username",
+  description: 'Usernames are display names: 3-255 alphanumerics, underscores and hyphens, ' +
+    'and not unique.',
+  request: {
+    body: { content: { 'application/json': { schema: UpdateMeSchema } }, required: true },
+  },
+  responses: {
+    200: jsonContent(UserSchema, 'Updated profile'),
+    ...currentUserErrorResponses,
+    ...errorResponses({ 400: 'Invalid request', 500: 'Unexpected failure' }),
+  },
+})
+
+const deleteMeRoute = createRoute({
+  method: 'delete',
+  path: '/@me',
+  tags: ['Users'],
+  summary: "Delete the current user's account",
+  description: 'Send the current username as `confirm`. Any remaining balance is swept to the ' +
+    'system pool as an ACCOUNT_CLOSURE transaction, active scheduled transfers are cancelled, ' +
+    'and the account is soft-deleted; later requests with the same token get 410. Frozen ' +
+    'wallets and accounts with held escrows (as sender or beneficiary) cannot be deleted. ' +
+    'Swept tokens are not returned if an administrator restores the account.',
+  request: {
+    body: { content: { 'application/json': { schema: DeleteMeSchema } }, required: true },
+  },
+  responses: {
+    200: jsonContent(AccountDeletionSchema, 'Account deleted'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid request, or `confirm` does not match the username',
+      409: 'Wallet is frozen, or escrows are still held',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const searchRecipientsRoute = createRoute({
+  method: 'get',
+  path: '/search',
+  tags: ['Users'],
+  summary: 'Find recipients by username prefix',
+  description: 'Active users whose username starts with `username` (case-insensitive), ordered ' +
+    'by username. Usernames are not unique, so show the wallet ID to tell matches apart. ' +
+    'Deleted users and system accounts are never returned.',
+  request: { query: SearchQuerySchema },
+  responses: {
+    200: jsonContent(z.object({ items: z.array(RecipientSchema) }), 'Matching users'),
+    ...errorResponses({ 400: 'Invalid query parameters', 500: 'Unexpected failure' }),
+  },
+})
+
+const getWalletRoute = createRoute({
+  method: 'get',
+  path: '/@me/wallet',
+  tags: ['Users'],
+  summary: "Current user's wallet balance and frozen state",
+  responses: {
+    200: jsonContent(WalletSchema, 'Wallet'),
+    ...currentUserErrorResponses,
+    ...errorResponses({ 404: 'User or wallet not found', 500: 'Unexpected failure' }),
+  },
+})
+
+const listTransactionsRoute = createRoute({
+  method: 'get',
+  path: '/@me/transactions',
+  tags: ['Users'],
+  summary: "Current user's transaction history, newest first",
+  description: 'Transactions where the caller\'s wallet is sender or recipient. Add ' +
+    '`meta.<key>=<value>` parameters (repeatable, all must match) to filter by metadata. ' +
+    '`from` is inclusive, `to` exclusive. Reversals carry `reversesTransactionId`; originals ' +
+    'carry `reversedAmount` (total compensated so far), so clients can pair them.',
+  request: { query: HistoryQuerySchema },
+  responses: {
+    200: jsonContent(pageSchema(HistoryItemSchema), 'Page of transactions'),
+    ...currentUserErrorResponses,
+    ...errorResponses({ 400: 'Invalid query parameters', 500: 'Unexpected failure' }),
+  },
+})
+
+const exportTransactionsRoute = createRoute({
+  method: 'get',
+  path: '/@me/transactions/export',
+  tags: ['Users'],
+  summary: "Current user's transaction history as a CSV or NDJSON file",
+  description: 'Every transaction of the caller\'s wallet in [`from`, `to`), newest first, ' +
+    'streamed page by page. `created_at` is Unix ms and `created_at_iso` the same instant ' +
+    'in ISO 8601 (UTC).',
+  request: { query: ExportQuerySchema },
+  responses: {
+    200: exportResponse200,
+    ...currentUserErrorResponses,
+    ...errorResponses({ 400: 'Invalid query parameters', 500: 'Unexpected failure' }),
+  },
+})
+
+const getBalanceRoute = createRoute({
+  method: 'get',
+  path: '/@me/balance',
+  tags: ['Users'],
+  summary: "Current user's balance at a point in time",
+  description: 'Replayed from the ledger: the balance after every transaction created before ' +
+    '`at`. For the balance at the end of September, pass the first millisecond of October.',
+  request: { query: BalanceQuerySchema },
+  responses: {
+    200: jsonContent(BalanceAtSchema, 'Balance'),
+    ...currentUserErrorResponses,
+    ...errorResponses({ 400: 'Invalid query parameters', 500: 'Unexpected failure' }),
+  },
+})
+
+const getStatementRoute = createRoute({
+  method: 'get',
+  path: '/@me/statements',
+  tags: ['Users'],
+  summary: "Current user's account statement for a period",
+  description: 'Opening balance at `from`, the transactions of [`from`, `to`) oldest first with ' +
+    'the running balance after each, totals in and out, and the closing balance at `to`. ' +
+    `Periods with more than ${MAX_STATEMENT_LINES} transactions are rejected.`,
+  request: { query: StatementQuerySchema },
+  responses: {
+    200: jsonContent(StatementSchema, 'Statement'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid period, or too many transactions in it',
+      500: 'Unexpected failure',
+    }),
+  },
 })
 
-export { users }
+/**
+ * Creates a Hono router for /v1/users endpoints
+ *
+ * @param userRepository - IUserRepository implementation
+ * @param walletRepository - IWalletRepository implementation
+ * @param transactionRepository - ITransactionRepository implementation
+ * @returns Hono router instance
+ */
+export function createUsersRouter(
+  userRepository: IUserRepository,
+  walletRepository: IWalletRepository,
+  transactionRepository: ITransactionRepository,
+): OpenAPIHono<Env> {
+  const router = createRouter()
+
+  /**
+   * GET /v1/users/@me
+   * Current user's profile
+   */
+  router.openapi(getMeRoute, async (c) => {
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    return c.json({
+      id: user.id,
+      username: user.username,
+      walletId: user.walletId,
+      createdAt: user.createdAt,
+    }, 200)
+  })
+
+  /**
+   * PATCH /v1/users/@me
+   * Change the current user's username
+   */
+  router.openapi(updateMeRoute, async (c) => {
+    const { username } = c.req.valid('json')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const updated = await userRepository.updateUsername(user.id, username)
+    if (!updated) {
+      return c.json({ error: 'User account has been deleted', code: 'ACCOUNT_DELETED' }, 410)
+    }
+
+    return c.json({
+      id: updated.id,
+      username: updated.username,
+      walletId: updated.walletId,
+      createdAt: updated.createdAt,
+    }, 200)
+  })
+
+  /**
+   * DELETE /v1/users/@me
+   * Sweep the balance to the system pool and soft-delete the account
+   *
+   * Frozen wallets and held escrows are rejected by the database function as
+   * WALLET_FROZEN / OPEN_ESCROWS and rendered by the global error handler.
+   */
+  router.openapi(deleteMeRoute, async (c) => {
+    const { confirm } = c.req.valid('json')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    if (confirm !== user.username) {
+      return c.json(
+        { error: 'Invalid request: confirm must match your username', code: 'INVALID_REQUEST' },
+        400,
+      )
+    }
+
+    const deletion = await userRepository.deleteAccount(user.id)
+
+    return c.json({
+      id: user.id,
+      sweptAmount: deletion.sweptAmount,
+      sweepTransactionId: deletion.sweepTransactionId,
+      deletedAt: deletion.deletedAt,
+    }, 200)
+  })
+
+  /**
+   * GET /v1/users/search
+   * Active users whose username starts with a prefix
+   */
+  router.openapi(searchRecipientsRoute, async (c) => {
+    const { username, limit } = c.req.valid('query')
+
+    const owners = await walletRepository.searchUserWallets(username, limit)
+
+    return c.json({
+      items: owners.map((owner) => ({ walletId: owner.walletId, username: owner.ownerName })),
+    }, 200)
+  })
+
+  /**
+   * GET /v1/users/@me/wallet
+   * Current user's wallet balance and frozen state
+   */
+  router.openapi(getWalletRoute, async (c) => {
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const wallet = await walletRepository.findById(user.walletId)
+    if (!wallet) {
+      return c.json({ error: 'Wallet not found', code: 'WALLET_NOT_FOUND' }, 404)
+    }
+
+    return c.json({
+      id: wallet.id,
+      balance: wallet.balance,
+      isFrozen: wallet.isFrozen,
+      updatedAt: wallet.updatedAt,
+    }, 200)
+  })
+
+  /**
+   * GET /v1/users/@me/transactions
+   * Transactions where the caller's wallet is sender or recipient, newest first
+   *
+   * Filters: direction, type, from/to (created_at range), counterparty and
+   * meta.<key> (metadata values, all must match).
+   */
+  router.openapi(listTransactionsRoute, async (c) => {
+    const params = c.req.valid('query')
+    const metadata = parseMetadataFilter(c.req.query())
+    if ('error' in metadata) {
+      return c.json({ error: `Invalid request: ${metadata.error}`, code: 'INVALID_REQUEST' }, 400)
+    }
+    const query: TransactionHistoryQuery = {
+      limit: params.limit,
+      cursor: params.cursor,
+      direction: params.direction,
+      transactionType: params.type,
+      createdFrom: params.from,
+      createdTo: params.to,
+      counterpartyWalletId: params.counterparty ? AsWalletID(params.counterparty) : undefined,
+      metadata: metadata.filter,
+    }
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const page = await transactionRepository.listByWallet(user.walletId, query)
+
+    return c.json({
+      items: page.items.map(({ transaction, direction, counterparty, reversedAmount }) => ({
+        id: transaction.id,
+        direction,
+        amount: transaction.amount,
+        transactionType: transaction.transactionType,
+        transactionTypeLabel: transaction.transactionTypeLabel,
+        fromWalletId: transaction.fromWalletId,
+        toWalletId: transaction.toWalletId,
+        counterparty: {
+          walletId: counterparty.walletId,
+          type: counterparty.ownerType,
+          name: counterparty.ownerName,
+        },
+        reversesTransactionId: transaction.reversesTransactionId,
+        reversedAmount,
+        memo: transaction.memo,
+        metadata: transaction.metadata,
+        createdAt: transaction.createdAt,
+      })),
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    }, 200)
+  })
+
+  /**
+   * GET /v1/users/@me/transactions/export
+   * Whole transaction history as a download, read EXPORT_PAGE_SIZE rows at a time
+   */
+  router.openapi(exportTransactionsRoute, async (c) => {
+    const { format, from, to } = c.req.valid('query')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const pages = paginate((cursor) =>
+      transactionRepository.listByWallet(user.walletId, {
+        limit: EXPORT_PAGE_SIZE,
+        cursor,
+        createdFrom: from,
+        createdTo: to,
+      })
+    )
+
+    return exportResponse(c, {
+      format,
+      filename: `transactions-${user.walletId}`,
+      columns: WALLET_EXPORT_COLUMNS,
+      pages: mapPages(pages, toWalletExportRecord),
+    })
+  })
+
+  /**
+   * GET /v1/users/@me/balance
+   * Balance at a point in time, replayed from the ledger
+   */
+  router.openapi(getBalanceRoute, async (c) => {
+    const { at } = c.req.valid('query')
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const balance = await walletRepository.getBalanceAt(user.walletId, at)
+
+    return c.json({ walletId: user.walletId, at, balance }, 200)
+  })
+
+  /**
+   * GET /v1/users/@me/statements
+   * Account statement for [from, to)
+   */
+  router.openapi(getStatementRoute, async (c) => {
+    const { from, to } = c.req.valid('query')
+    if (from >= to) {
+      return c.json(
+        { error: 'Invalid request: from must be before to', code: 'INVALID_REQUEST' },
+        400,
+      )
+    }
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const statement = await walletRepository.getStatement(
+      user.walletId,
+      from,
+      to,
+      MAX_STATEMENT_LINES,
+    )
+
+    return c.json(statement, 200)
+  })
+
+  return router
+}
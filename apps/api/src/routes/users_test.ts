@@ -0,0 +1,223 @@
+import { assertEquals, assertObjectMatch } from '@std/assert'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createTestApp, createTestToken, parseResponse, type TestApp } from '../testing/app.ts'
+import {
+  alice,
+  ALICE_ID,
+  ALICE_WALLET_ID,
+  BOB_WALLET_ID,
+  createWallet,
+  FIXTURE_TIME,
+} from '../testing/fixtures.ts'
+import { UserEntity } from '../entities/UserEntity.ts'
+import { WalletRepository } from '../repositories/WalletRepository.ts'
+import type { Database } from '../lib/database.types.ts'
+
+type StatementRow = Database['public']['Functions']['get_wallet_statement']['Returns'][number]
+
+const HOUR_MS = 60 * 60 * 1000
+
+const TRANSACTION_IDS = [
+  '90000000-0000-4000-8000-000000000001',
+  '90000000-0000-4000-8000-000000000002',
+  '90000000-0000-4000-8000-000000000003',
+] as const
+
+/**
+ * Statement row of a transaction of Alice's wallet
+ */
+function statementLine(
+  id: string,
+  direction: 'sent' | 'received',
+  amount: number,
+  balance: number,
+  createdAt: number,
+): StatementRow {
+  return {
+    id,
+    direction,
+    counterparty_wallet_id: BOB_WALLET_ID,
+    amount,
+    transaction_type: 4,
+    memo: 'lunch',
+    created_at: createdAt,
+    balance,
+    opening_balance: 100,
+  }
+}
+
+/**
+ * The statement line statementLine() describes, as the API serializes it
+ */
+function statementLineResponse(
+  transactionId: string,
+  direction: 'sent' | 'received',
+  amount: number,
+  balance: number,
+  createdAt: number,
+) {
+  return {
+    transactionId,
+    direction,
+    counterpartyWalletId: BOB_WALLET_ID,
+    amount,
+    transactionType: 4,
+    memo: 'lunch',
+    createdAt,
+    balance,
+  }
+}
+
+/**
+ * Creates the app with a WalletRepository whose get_wallet_statement() answers `rows`
+ *
+ * @returns App and the arguments of each RPC call
+ */
+function createStatementApp(rows: StatementRow[]) {
+  const calls: Record<string, unknown>[] = []
+  const client = {
+    rpc: (_name: string, args: Record<string, unknown>) => {
+      calls.push(args)
+      return Promise.resolve({ data: rows, error: null })
+    },
+  } as unknown as SupabaseClient<Database>
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    wallets: new WalletRepository(client),
+  })
+  return { app, calls }
+}
+
+/**
+ * GETs Alice's statement for [from, to)
+ */
+async function getStatement(app: TestApp, from: number, to: number) {
+  return app.request(`/v1/users/@me/statements?from=${from}&to=${to}`, {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+}
+
+Deno.test('GET /v1/users/@me rejects requests without a token', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/v1/users/@me')
+
+  const body = await parseResponse(app, 'get', '/v1/users/@me', response, 401)
+  assertEquals(body.error, 'Missing bearer token')
+})
+
+Deno.test('GET /v1/users/@me provisions and returns the caller', async () => {
+  const provisioned: string[] = []
+  const app = createTestApp({
+    users: {
+      provision: (id) => {
+        provisioned.push(id)
+        return Promise.resolve(true)
+      },
+      findById: () => Promise.resolve(alice),
+    },
+  })
+
+  const response = await app.request('/v1/users/@me', {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  const body = await parseResponse(app, 'get', '/v1/users/@me', response, 200)
+  assertEquals(body, {
+    id: ALICE_ID,
+    username: 'alice',
+    walletId: ALICE_WALLET_ID,
+    createdAt: FIXTURE_TIME,
+  })
+  assertEquals(provisioned, [ALICE_ID])
+})
+
+Deno.test('GET /v1/users/@me answers 410 for a deleted account', async () => {
+  const deleted = new UserEntity(
+    ALICE_ID,
+    ALICE_WALLET_ID,
+    'alice',
+    FIXTURE_TIME,
+    FIXTURE_TIME,
+    FIXTURE_TIME,
+  )
+  const app = createTestApp({ users: { findById: () => Promise.resolve(deleted) } })
+
+  const response = await app.request('/v1/users/@me', {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  await parseResponse(app, 'get', '/v1/users/@me', response, 410)
+})
+
+Deno.test("GET /v1/users/@me/wallet returns the caller's balance", async () => {
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    wallets: { findById: (id) => Promise.resolve(createWallet(id, 250)) },
+  })
+
+  const response = await app.request('/v1/users/@me/wallet', {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  const body = await parseResponse(app, 'get', '/v1/users/@me/wallet', response, 200)
+  assertObjectMatch(body, { id: ALICE_WALLET_ID, balance: 250, isFrozen: false })
+})
+
+Deno.test('GET /v1/users/@me/statements adds up the running balance of the period', async () => {
+  const { app, calls } = createStatementApp([
+    statementLine(TRANSACTION_IDS[0], 'received', 50, 150, FIXTURE_TIME + 1),
+    statementLine(TRANSACTION_IDS[1], 'sent', 30, 120, FIXTURE_TIME + 2),
+    statementLine(TRANSACTION_IDS[2], 'received', 5, 125, FIXTURE_TIME + 3),
+  ])
+
+  const response = await getStatement(app, FIXTURE_TIME, FIXTURE_TIME + 24 * HOUR_MS)
+
+  const body = await parseResponse(app, 'get', '/v1/users/@me/statements', response, 200)
+  assertEquals(calls, [{
+    wallet_uuid: ALICE_WALLET_ID,
+    from_ms: FIXTURE_TIME,
+    to_ms: FIXTURE_TIME + 24 * HOUR_MS,
+    max_rows: 10_001,
+  }])
+  assertObjectMatch(body, { openingBalance: 100, totalIn: 55, totalOut: 30, closingBalance: 125 })
+  assertEquals(body.lines, [
+    statementLineResponse(TRANSACTION_IDS[0], 'received', 50, 150, FIXTURE_TIME + 1),
+    statementLineResponse(TRANSACTION_IDS[1], 'sent', 30, 120, FIXTURE_TIME + 2),
+    statementLineResponse(TRANSACTION_IDS[2], 'received', 5, 125, FIXTURE_TIME + 3),
+  ])
+})
+
+Deno.test('GET /v1/users/@me/statements reports the opening balance for a quiet period', async () => {
+  // A period without transactions yields one row carrying only the opening balance
+  // (the generated types do not mark the line columns as nullable)
+  const { app } = createStatementApp([{
+    ...statementLine('', 'received', 0, 0, 0),
+    id: null as unknown as string,
+  }])
+
+  const response = await getStatement(app, FIXTURE_TIME, FIXTURE_TIME + HOUR_MS)
+
+  const body = await parseResponse(app, 'get', '/v1/users/@me/statements', response, 200)
+  assertObjectMatch(body, { openingBalance: 100, totalIn: 0, totalOut: 0, closingBalance: 100 })
+  assertEquals(body.lines, [])
+})
+
+Deno.test('GET /v1/users/@me/statements rejects periods with too many transactions', async () => {
+  const line = statementLine(TRANSACTION_IDS[0], 'received', 1, 101, FIXTURE_TIME)
+  const { app } = createStatementApp(Array(10_001).fill(line))
+
+  const response = await getStatement(app, FIXTURE_TIME, FIXTURE_TIME + HOUR_MS)
+
+  const body = await parseResponse(app, 'get', '/v1/users/@me/statements', response, 400)
+  assertEquals(body.code, 'INVALID_INPUT')
+})
+
+Deno.test('GET /v1/users/@me/statements rejects a period that ends before it starts', async () => {
+  const { app, calls } = createStatementApp([])
+
+  const response = await getStatement(app, FIXTURE_TIME, FIXTURE_TIME)
+
+  await parseResponse(app, 'get', '/v1/users/@me/statements', response, 400)
+  assertEquals(calls, [])
+})
@@ -0,0 +1,246 @@
+/**
+ * Wallet Event Stream - live activity of the authenticated user's wallet
+ *
+ * Endpoints:
+ * - GET /v1/users/@me/events - Server-Sent Events stream of transfers and freeze changes
+ *
+ * Events are read from the immutable transaction and freeze logs (list_wallet_events()) in
+ * commit order, so every SSE `id` is a stable position: reconnecting with `Last-Event-ID`
+ * replays everything after it. Without the header the stream starts after the latest event.
+ * IDs issued before positions existed (`createdAt:id` cursors) are still accepted.
+ * The WalletChangeSource only wakes the stream up; the log is also re-read on every
+ * heartbeat, so a lost notification delays an event instead of dropping it.
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import { streamSSE } from 'hono/streaming'
+import type { Env } from '../lib/types.ts'
+import { createRouter, errorResponses } from '../lib/openapi.ts'
+import type { IUserRepository } from '../repositories/IUserRepository.ts'
+import type { IWalletRepository } from '../repositories/IWalletRepository.ts'
+import {
+  WALLET_EVENT_TYPES,
+  type WalletEvent,
+  type WalletEventPosition,
+} from '../entities/WalletEntity.ts'
+import { getTransactionType, isTransactionTypeCode } from '../entities/TransactionType.ts'
+import { decodeCursor } from '../lib/cursor.ts'
+import type { WalletChangeSource } from '../lib/wallet-changes.ts'
+import { currentUserErrorResponses, loadCurrentUser } from './current-user.ts'
+
+/**
+ * Options for createWalletEventsRouter()
+ */
+export type WalletEventsRouterOptions = {
+  /** Interval of keep-alive comments and log re-reads in milliseconds (defaults to 15s) */
+  heartbeatMs?: number
+  /** Events read per query while catching up (defaults to 100) */
+  batchSize?: number
+}
+
+/**
+ * Position before any event, used for wallets without activity
+ */
+const START_POSITION: WalletEventPosition = { xactId: '0', position: 0 }
+
+const streamEventsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Users'],
+  summary: "Live activity of the caller's wallet (Server-Sent Events)",
+  description: `Streams ${WALLET_EVENT_TYPES.map((type) => `\`${type}\``).join(', ')} events. ` +
+    'Each `data` is JSON with `id`, `type`, `balance` (after the event), `createdAt` and ' +
+    '`transfer` (counterparty, amount, type, memo; null for freeze changes). Reconnect with ' +
+    'the last received SSE `id` in `Last-Event-ID` to replay missed events.',
+  request: {
+    headers: z.object({
+      'last-event-id': z.string().optional().openapi({
+        description: 'SSE `id` of the last event received, to resume after a disconnect',
+      }),
+    }),
+  },
+  responses: {
+    // No JSON schema: the body is a text/event-stream
+    200: { description: 'Event stream (text/event-stream)' },
+    ...currentUserErrorResponses,
+    ...errorResponses({ 400: 'Invalid Last-Event-ID', 500: 'Unexpected failure' }),
+  },
+})
+
+/**
+ * Encodes an event position as an opaque SSE `id`
+ *
+ * @param position - Position of the event
+ * @returns base64url event ID
+ */
+function encodeEventId(position: WalletEventPosition): string {
+  return btoa(`${position.xactId}:${position.position}`)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * Decodes an SSE `id` issued by encodeEventId()
+ *
+ * @param value - Last-Event-ID header
+ * @returns Event position, or null if the ID is malformed
+ */
+function decodeEventId(value: string): WalletEventPosition | null {
+  let decoded: string
+  try {
+    decoded = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  } catch {
+    return null
+  }
+
+  const match = /^(\d+):(\d+)$/.exec(decoded)
+  if (!match || !Number.isSafeInteger(Number(match[2]))) {
+    return null
+  }
+  return { xactId: match[1]!, position: Number(match[2]) }
+}
+
+/**
+ * Converts a wallet event to the SSE `data` payload
+ *
+ * @param event - Wallet event
+ * @returns JSON-serializable payload
+ */
+function toEventData(event: WalletEvent) {
+  const transfer = event.transfer
+  return {
+    id: event.id,
+    type: event.type,
+    balance: event.balance,
+    createdAt: event.createdAt,
+    transfer: transfer
+      ? {
+        counterpartyWalletId: transfer.counterpartyWalletId,
+        amount: transfer.amount,
+        transactionType: transfer.transactionType,
+        transactionTypeLabel: isTransactionTypeCode(transfer.transactionType)
+          ? getTransactionType(transfer.transactionType).label
+          : null,
+        memo: transfer.memo,
+      }
+      : null,
+  }
+}
+
+/**
+ * Creates a Hono router for /v1/users/@me/events
+ *
+ * @param userRepository - IUserRepository implementation
+ * @param walletRepository - IWalletRepository implementation
+ * @param changeSource - Notifications of wallet changes
+ * @param options - Heartbeat interval and batch size
+ * @returns Hono router instance
+ */
+export function createWalletEventsRouter(
+  userRepository: IUserRepository,
+  walletRepository: IWalletRepository,
+  changeSource: WalletChangeSource,
+  options: WalletEventsRouterOptions = {},
+): OpenAPIHono<Env> {
+  const router = createRouter()
+  const heartbeatMs = options.heartbeatMs ?? 15_000
+  const batchSize = options.batchSize ?? 100
+
+  /**
+   * GET /v1/users/@me/events
+   * Streams `transfer.received`, `transfer.sent`, `wallet.frozen` and `wallet.unfrozen`
+   * events with the balance after each one
+   *
+   * Headers:
+   * - Last-Event-ID: `id` of the last event received, to resume after a disconnect
+   */
+  router.openapi(streamEventsRoute, async (c) => {
+    const { 'last-event-id': lastEventId } = c.req.valid('header')
+    const resumeFrom = lastEventId ? decodeEventId(lastEventId) : null
+    // `createdAt:id` cursor issued before event positions existed
+    const legacyResumeFrom = lastEventId && !resumeFrom ? decodeCursor(lastEventId) : null
+    const invalidEventId = {
+      error: 'Invalid request: Last-Event-ID is not a valid event ID',
+      code: 'INVALID_REQUEST',
+    }
+    if (lastEventId && !resumeFrom && !legacyResumeFrom) {
+      return c.json(invalidEventId, 400)
+    }
+
+    const user = await loadCurrentUser(c, userRepository)
+    if (user instanceof Response) return user
+
+    const walletId = user.walletId
+    const legacyPosition = legacyResumeFrom
+      ? await walletRepository.findEventPosition(walletId, legacyResumeFrom.id)
+      : null
+    if (legacyResumeFrom && !legacyPosition) {
+      return c.json(invalidEventId, 400)
+    }
+    let position = resumeFrom ?? legacyPosition ??
+      await walletRepository.findLatestEventPosition(walletId) ??
+      START_POSITION
+
+    return streamSSE(c, async (stream) => {
+      let changed = false
+      let wake: (() => void) | null = null
+      const signal = () => {
+        changed = true
+        wake?.()
+      }
+
+      const unsubscribe = changeSource.subscribe(walletId, signal)
+      stream.onAbort(() => {
+        unsubscribe()
+        signal()
+      })
+
+      try {
+        while (!stream.aborted) {
+          changed = false
+
+          let events: WalletEvent[]
+          do {
+            events = await walletRepository.listEvents(walletId, position, batchSize)
+            for (const event of events) {
+              await stream.writeSSE({
+                id: encodeEventId(event.position),
+                event: event.type,
+                data: JSON.stringify(toEventData(event)),
+              })
+              position = event.position
+            }
+          } while (events.length === batchSize && !stream.aborted)
+
+          if (changed || stream.aborted) {
+            continue
+          }
+
+          const timedOut = await new Promise<boolean>((resolve) => {
+            const timer = setTimeout(() => resolve(true), heartbeatMs)
+            wake = () => {
+              clearTimeout(timer)
+              resolve(false)
+            }
+          })
+          wake = null
+
+          if (timedOut && !stream.aborted) {
+            await stream.write(': keep-alive\n\n')
+          }
+        }
+      } finally {
+        unsubscribe()
+      }
+    }, async (error, stream) => {
+      c.get('logger').error('Wallet event stream failed', { error })
+      await stream.writeSSE({
+        event: 'error',
+        data: JSON.stringify({ error: 'Stream failed', code: 'INTERNAL_ERROR' }),
+      })
+    })
+  })
+
+  return router
+}
@@ -0,0 +1,257 @@
+import { assertEquals } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse, type TestApp } from '../testing/app.ts'
+import {
+  alice,
+  ALICE_ID,
+  ALICE_WALLET_ID,
+  BOB_WALLET_ID,
+  FIXTURE_TIME,
+} from '../testing/fixtures.ts'
+import { InProcessWalletChangeSource } from '../lib/wallet-changes.ts'
+import { encodeCursor } from '../lib/cursor.ts'
+import type { WalletEvent, WalletEventPosition } from '../entities/WalletEntity.ts'
+import { TRANSACTION_TYPES } from '../entities/TransactionType.ts'
+
+/**
+ * Incoming P2P transfer of 10 to Alice, the n-th event of her wallet, committed in the n-th
+ * database transaction
+ */
+function receivedEvent(n: number): WalletEvent {
+  return {
+    type: 'transfer.received',
+    position: { xactId: String(1000 + n), position: n },
+    id: `60000000-0000-4000-8000-00000000000${n}`,
+    walletId: ALICE_WALLET_ID,
+    balance: 10 * n,
+    createdAt: FIXTURE_TIME + n,
+    transfer: {
+      counterpartyWalletId: BOB_WALLET_ID,
+      amount: 10,
+      transactionType: TRANSACTION_TYPES.P2P.code,
+      memo: null,
+    },
+  }
+}
+
+/**
+ * SSE `id` of an event: its base64url-encoded `xactId:position`
+ */
+function eventId(event: WalletEvent): string {
+  return btoa(`${event.position.xactId}:${event.position.position}`)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * Orders positions like the (xact_id, position) order of list_wallet_events()
+ */
+function isAfter(event: WalletEvent, after: WalletEventPosition): boolean {
+  const xactId = BigInt(event.position.xactId)
+  const afterXactId = BigInt(after.xactId)
+  return xactId > afterXactId ||
+    (xactId === afterXactId && event.position.position > after.position)
+}
+
+/**
+ * Creates the app with Alice's wallet log held in `log`
+ */
+function createEventsApp(log: WalletEvent[], changes: InProcessWalletChangeSource): TestApp {
+  return createTestApp(
+    {
+      users: { findById: () => Promise.resolve(alice) },
+      wallets: {
+        listEvents: (_id, after, limit) =>
+          Promise.resolve(log.filter((event) => isAfter(event, after)).slice(0, limit)),
+        findLatestEventPosition: () => Promise.resolve(log.at(-1)?.position ?? null),
+        findEventPosition: (_id, eventId) =>
+          Promise.resolve(log.find((event) => event.id === eventId)?.position ?? null),
+      },
+    },
+    { walletChangeSource: changes },
+  )
+}
+
+/**
+ * Reads SSE messages (skipping comments) until `count` have arrived
+ *
+ * @returns The `id` and parsed `data` of each message
+ */
+async function readEvents(reader: ReadableStreamDefaultReader<Uint8Array>, count: number) {
+  const decoder = new TextDecoder()
+  const messages: { id: string; event: string; data: unknown }[] = []
+  let buffer = ''
+  while (messages.length < count) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let end: number
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const fields = Object.fromEntries(
+        buffer.slice(0, end).split('\n')
+          .filter((line) => !line.startsWith(':'))
+          .map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]),
+      )
+      buffer = buffer.slice(end + 2)
+      if (fields.data !== undefined) {
+        messages.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) })
+      }
+    }
+  }
+  return messages
+}
+
+Deno.test('GET /v1/users/@me/events replays events after Last-Event-ID', async () => {
+  const log = [receivedEvent(1), receivedEvent(2), receivedEvent(3)]
+  const app = createEventsApp(log, new InProcessWalletChangeSource())
+
+  const response = await app.request('/v1/users/@me/events', {
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Last-Event-ID': eventId(log[0]!),
+    },
+  })
+  assertEquals(response.status, 200)
+  assertEquals(response.headers.get('Content-Type'), 'text/event-stream')
+  const reader = response.body!.getReader()
+
+  const messages = await readEvents(reader, 2)
+  await reader.cancel()
+
+  assertEquals(messages.map((message) => message.id), [eventId(log[1]!), eventId(log[2]!)])
+  assertEquals(messages[0]!.event, 'transfer.received')
+  assertEquals(messages[1]!.data, {
+    id: log[2]!.id,
+    type: 'transfer.received',
+    balance: 30,
+    createdAt: FIXTURE_TIME + 3,
+    transfer: {
+      counterpartyWalletId: BOB_WALLET_ID,
+      amount: 10,
+      transactionType: TRANSACTION_TYPES.P2P.code,
+      transactionTypeLabel: TRANSACTION_TYPES.P2P.label,
+      memo: null,
+    },
+  })
+})
+
+Deno.test('GET /v1/users/@me/events without Last-Event-ID streams only new events', async () => {
+  const log = [receivedEvent(1), receivedEvent(2)]
+  const changes = new InProcessWalletChangeSource()
+  const app = createEventsApp(log, changes)
+
+  const response = await app.request('/v1/users/@me/events', {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+  const reader = response.body!.getReader()
+  const next = readEvents(reader, 1)
+
+  // Let the stream read the (empty) tail of the log before the change arrives
+  await new Promise((resolve) => setTimeout(resolve, 10))
+  log.push(receivedEvent(3))
+  changes.notify(ALICE_WALLET_ID)
+
+  const messages = await next
+  await reader.cancel()
+
+  assertEquals(messages.map((message) => message.id), [eventId(log[2]!)])
+})
+
+Deno.test('GET /v1/users/@me/events resumes from an ID read by an earlier stream', async () => {
+  const log = [receivedEvent(1)]
+  const changes = new InProcessWalletChangeSource()
+  const app = createEventsApp(log, changes)
+  const token = await createTestToken(ALICE_ID)
+
+  const first = await app.request('/v1/users/@me/events', {
+    headers: { 'Authorization': `Bearer ${token}`, 'Last-Event-ID': eventId(receivedEvent(0)) },
+  })
+  const firstReader = first.body!.getReader()
+  const [lastReceived] = await readEvents(firstReader, 1)
+  await firstReader.cancel()
+
+  // Missed while disconnected
+  log.push(receivedEvent(2), receivedEvent(3))
+
+  const second = await app.request('/v1/users/@me/events', {
+    headers: { 'Authorization': `Bearer ${token}`, 'Last-Event-ID': lastReceived!.id },
+  })
+  const secondReader = second.body!.getReader()
+  const messages = await readEvents(secondReader, 2)
+  await secondReader.cancel()
+
+  assertEquals(messages.map((message) => message.id), [eventId(log[1]!), eventId(log[2]!)])
+})
+
+Deno.test('GET /v1/users/@me/events streams an event that committed after a later-stamped one', async () => {
+  const log = [receivedEvent(1)]
+  const changes = new InProcessWalletChangeSource()
+  const app = createEventsApp(log, changes)
+
+  const response = await app.request('/v1/users/@me/events', {
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Last-Event-ID': eventId(receivedEvent(0)),
+    },
+  })
+  const reader = response.body!.getReader()
+  const [first] = await readEvents(reader, 1)
+  const next = readEvents(reader, 1)
+
+  // Started before event 1 (earlier createdAt) but committed after it
+  const late = { ...receivedEvent(2), createdAt: FIXTURE_TIME }
+  log.push(late)
+  changes.notify(ALICE_WALLET_ID)
+
+  const messages = await next
+  await reader.cancel()
+
+  assertEquals([first!.id, ...messages.map((message) => message.id)], [
+    eventId(log[0]!),
+    eventId(late),
+  ])
+})
+
+Deno.test('GET /v1/users/@me/events resumes from a createdAt:id cursor issued before positions', async () => {
+  const log = [receivedEvent(1), receivedEvent(2)]
+  const app = createEventsApp(log, new InProcessWalletChangeSource())
+
+  const response = await app.request('/v1/users/@me/events', {
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Last-Event-ID': encodeCursor({ createdAt: log[0]!.createdAt, id: log[0]!.id }),
+    },
+  })
+  const reader = response.body!.getReader()
+  const messages = await readEvents(reader, 1)
+  await reader.cancel()
+
+  assertEquals(messages.map((message) => message.id), [eventId(log[1]!)])
+})
+
+Deno.test('GET /v1/users/@me/events rejects a malformed Last-Event-ID', async () => {
+  const app = createEventsApp([], new InProcessWalletChangeSource())
+
+  const response = await app.request('/v1/users/@me/events', {
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Last-Event-ID': 'not-an-event-id',
+    },
+  })
+
+  await parseResponse(app, 'get', '/v1/users/@me/events', response, 400)
+})
+
+Deno.test('GET /v1/users/@me/events rejects a createdAt:id cursor of another wallet', async () => {
+  const app = createEventsApp([receivedEvent(1)], new InProcessWalletChangeSource())
+
+  const response = await app.request('/v1/users/@me/events', {
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Last-Event-ID': encodeCursor({ createdAt: FIXTURE_TIME, id: BOB_WALLET_ID }),
+    },
+  })
+
+  await parseResponse(app, 'get', '/v1/users/@me/events', response, 400)
+})
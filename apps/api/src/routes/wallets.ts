@@ -0,0 +1,75 @@
+/**
+ * Wallet HTTP Routes - public information about any wallet
+ *
+ * Endpoints:
+ * - GET /v1/wallets/:id - Wallet card: owner name and frozen status
+ *
+ * Any authenticated user may look up any wallet (e.g. before paying it), so the card
+ * never includes the balance or the owner's user ID.
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Env } from '../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../lib/openapi.ts'
+import type { IWalletRepository } from '../repositories/IWalletRepository.ts'
+import { AsWalletID } from '../entities/WalletEntity.ts'
+import { IdParamsSchema } from '../schemas/common.ts'
+
+const WalletCardSchema = z
+  .object({
+    id: z.string().uuid(),
+    ownerName: z.string().nullable().openapi({
+      description: 'Username or system account name (null for deleted users)',
+    }),
+    isFrozen: z.boolean(),
+  })
+  .openapi('WalletCard')
+
+const getWalletCardRoute = createRoute({
+  method: 'get',
+  path: '/{id}',
+  tags: ['Wallets'],
+  summary: 'Owner name and frozen status of a wallet',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(WalletCardSchema, 'Wallet card'),
+    ...errorResponses({
+      400: 'Invalid wallet ID',
+      404: 'Wallet not found',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+/**
+ * Creates a Hono router for /v1/wallets endpoints
+ *
+ * @param repository - IWalletRepository implementation
+ * @returns Hono router instance
+ */
+export function createWalletsRouter(repository: IWalletRepository): OpenAPIHono<Env> {
+  const router = createRouter()
+
+  /**
+   * GET /v1/wallets/:id
+   * Owner name and frozen status, without the balance
+   */
+  router.openapi(getWalletCardRoute, async (c) => {
+    const walletId = AsWalletID(c.req.valid('param').id)
+    const [wallet, owner] = await Promise.all([
+      repository.findById(walletId),
+      repository.findOwner(walletId),
+    ])
+    if (!wallet) {
+      return c.json({ error: 'Wallet not found', code: 'WALLET_NOT_FOUND' }, 404)
+    }
+
+    return c.json({
+      id: wallet.id,
+      ownerName: owner?.ownerName ?? null,
+      isFrozen: wallet.isFrozen,
+    }, 200)
+  })
+
+  return router
+}
@@ -0,0 +1,53 @@
+import { assertEquals, assertRejects } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse } from '../testing/app.ts'
+import { ALICE_ID, BOB_ID, BOB_WALLET_ID, createWallet } from '../testing/fixtures.ts'
+
+Deno.test('GET /v1/wallets/{id} returns the owner name without the balance', async () => {
+  const app = createTestApp({
+    wallets: {
+      findById: (id) => Promise.resolve(createWallet(id)),
+      findOwner: (walletId) =>
+        Promise.resolve({ walletId, ownerType: 'user', ownerId: BOB_ID, ownerName: 'bob' }),
+    },
+  })
+
+  const response = await app.request(`/v1/wallets/${BOB_WALLET_ID}`, {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  const body = await parseResponse(app, 'get', '/v1/wallets/{id}', response, 200)
+  assertEquals(body, { id: BOB_WALLET_ID, ownerName: 'bob', isFrozen: false })
+})
+
+Deno.test('GET /v1/wallets/{id} answers 404 for an unknown wallet', async () => {
+  const app = createTestApp({
+    wallets: { findById: () => Promise.resolve(null), findOwner: () => Promise.resolve(null) },
+  })
+
+  const response = await app.request(`/v1/wallets/${BOB_WALLET_ID}`, {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  await parseResponse(app, 'get', '/v1/wallets/{id}', response, 404)
+})
+
+Deno.test('GET /v1/wallets/{id} rejects a malformed ID', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/v1/wallets/not-a-uuid', {
+    headers: { Authorization: `Bearer ${await createTestToken(ALICE_ID)}` },
+  })
+
+  await parseResponse(app, 'get', '/v1/wallets/{id}', response, 400)
+})
+
+Deno.test('parseResponse fails a wallet card that leaks the balance', async () => {
+  const app = createTestApp()
+  const leaked = Response.json({ id: BOB_WALLET_ID, ownerName: 'bob', isFrozen: false, balance: 5 })
+
+  await assertRejects(
+    () => parseResponse(app, 'get', '/v1/wallets/{id}', leaked, 200),
+    Error,
+    'returns a key its schema does not declare: balance',
+  )
+})
@@ -0,0 +1,421 @@
+/**
+ * Webhook HTTP Routes - webhook subscriptions of the authenticated user
+ *
+ * Endpoints:
+ * - POST /v1/webhooks - Register an https endpoint (the signing secret is returned once)
+ * - GET /v1/webhooks - The caller's subscriptions
+ * - GET /v1/webhooks/:id - One subscription
+ * - POST /v1/webhooks/:id/disable - Stop deliveries to a subscription
+ * - GET /v1/webhooks/:id/deliveries - Deliveries of a subscription (cursor-paginated)
+ * - POST /v1/webhooks/:id/deliveries/:deliveryId/redeliver - Queue a delivered or dead
+ *   delivery again
+ *
+ * User subscriptions receive `transaction.created` events for transactions touching
+ * the caller's wallet. System integration subscriptions share these handlers under
+ * /admin/v1/webhooks (routes/admin/webhooks.ts). Deliveries are sent by the
+ * dispatch-webhooks job (src/jobs/dispatch-webhooks.ts).
+ */
+
+import { createRoute, type OpenAPIHono, z } from '@hono/zod-openapi'
+import type { Context } from 'hono'
+import type { Env } from '../lib/types.ts'
+import { createRouter, errorResponses, jsonContent } from '../lib/openapi.ts'
+import type { IUserRepository } from '../repositories/IUserRepository.ts'
+import type { IWebhookRepository } from '../repositories/IWebhookRepository.ts'
+import {
+  AsWebhookDeliveryID,
+  AsWebhookSubscriptionID,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookDelivery,
+  type WebhookSubscriptionEntity,
+} from '../entities/WebhookEntity.ts'
+import type { UserID } from '../entities/UserEntity.ts'
+import {
+  type CurrentUserErrorResponse,
+  currentUserErrorResponses,
+  loadCurrentUser,
+} from './current-user.ts'
+import { encodeCursor } from '../lib/cursor.ts'
+import { generateWebhookSecret, parseWebhookUrl } from '../lib/webhooks.ts'
+import {
+  IdParamsSchema,
+  PageQuerySchema,
+  pageSchema,
+  UnixMsSchema,
+  UUIDSchema,
+} from '../schemas/common.ts'
+
+/**
+ * Resolves the owner whose subscriptions a request manages
+ *
+ * @returns The owning user (null for system integrations), or a Response to return as-is
+ */
+export type WebhookOwnerResolver = (
+  c: Context<Env>,
+) => Promise<{ userId: UserID | null } | CurrentUserErrorResponse>
+
+/**
+ * Options for createWebhooksRouter() and createWebhookRoutes()
+ */
+export type WebhooksRouterOptions = {
+  /** Current time provider in milliseconds (defaults to Date.now) */
+  now?: () => number
+}
+
+/**
+ * Longest subscription description (webhook_subscriptions.description_length)
+ */
+const MAX_DESCRIPTION_LENGTH = 200
+
+const CreateWebhookSchema = z
+  .object({
+    url: z.string().openapi({ format: 'uri' }),
+    description: z
+      .string()
+      .trim()
+      .nullish()
+      .transform((value) => value || null)
+      .refine((value) => value === null || [...value].length <= MAX_DESCRIPTION_LENGTH, {
+        message: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`,
+      }),
+  })
+  .openapi('CreateWebhookSubscriptionRequest')
+
+const WebhookSubscriptionSchema = z
+  .object({
+    id: z.string().uuid(),
+    url: z.string(),
+    description: z.string().nullable(),
+    isActive: z.boolean(),
+    createdAt: UnixMsSchema,
+    updatedAt: UnixMsSchema,
+  })
+  .openapi('WebhookSubscription')
+
+const WebhookDeliverySchema = z
+  .object({
+    id: z.string().uuid(),
+    eventType: z.enum(WEBHOOK_EVENT_TYPES),
+    transactionId: z.string().uuid(),
+    status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+    attemptCount: z.number().int(),
+    nextAttemptAt: UnixMsSchema.nullable(),
+    lastAttemptAt: UnixMsSchema.nullable(),
+    lastResponseStatus: z.number().int().nullable(),
+    lastError: z.string().nullable(),
+    deliveredAt: UnixMsSchema.nullable(),
+    createdAt: UnixMsSchema,
+  })
+  .openapi('WebhookDelivery')
+
+const SubscriptionResponseSchema = z.object({ subscription: WebhookSubscriptionSchema })
+
+const createSubscriptionRoute = createRoute({
+  method: 'post',
+  path: '/',
+  tags: ['Webhooks'],
+  summary: 'Register an endpoint',
+  description: 'The response carries the signing secret, which is not shown again.',
+  request: {
+    body: { content: { 'application/json': { schema: CreateWebhookSchema } }, required: true },
+  },
+  responses: {
+    201: jsonContent(
+      SubscriptionResponseSchema.extend({ secret: z.string() }),
+      'Subscription created',
+    ),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid request',
+      404: 'User not found',
+      409: 'Subscription limit reached',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const listSubscriptionsRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Webhooks'],
+  summary: "The owner's subscriptions, newest first (disabled ones included)",
+  responses: {
+    200: jsonContent(z.object({ items: z.array(WebhookSubscriptionSchema) }), 'Subscriptions'),
+    ...currentUserErrorResponses,
+    ...errorResponses({ 500: 'Unexpected failure' }),
+  },
+})
+
+const getSubscriptionRoute = createRoute({
+  method: 'get',
+  path: '/{id}',
+  tags: ['Webhooks'],
+  summary: 'One subscription of the owner',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(SubscriptionResponseSchema, 'Subscription'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid subscription ID',
+      404: 'Webhook subscription not found',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const disableSubscriptionRoute = createRoute({
+  method: 'post',
+  path: '/{id}/disable',
+  tags: ['Webhooks'],
+  summary: 'Stop deliveries; queued deliveries move to dead',
+  request: { params: IdParamsSchema },
+  responses: {
+    200: jsonContent(SubscriptionResponseSchema, 'Disabled subscription'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid subscription ID',
+      404: 'Webhook subscription not found',
+      409: 'Subscription already disabled',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const listDeliveriesRoute = createRoute({
+  method: 'get',
+  path: '/{id}/deliveries',
+  tags: ['Webhooks'],
+  summary: 'Deliveries of a subscription, newest first',
+  request: {
+    params: IdParamsSchema,
+    query: PageQuerySchema.extend({ status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional() }),
+  },
+  responses: {
+    200: jsonContent(pageSchema(WebhookDeliverySchema), 'Page of deliveries'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid request',
+      404: 'Webhook subscription not found',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+const redeliverRoute = createRoute({
+  method: 'post',
+  path: '/{id}/deliveries/{deliveryId}/redeliver',
+  tags: ['Webhooks'],
+  summary: 'Queue a delivered or dead delivery for immediate delivery',
+  description: 'The delivery gets a fresh retry budget.',
+  request: { params: IdParamsSchema.extend({ deliveryId: UUIDSchema }) },
+  responses: {
+    200: jsonContent(z.object({ delivery: WebhookDeliverySchema }), 'Queued delivery'),
+    ...currentUserErrorResponses,
+    ...errorResponses({
+      400: 'Invalid subscription or delivery ID',
+      404: 'Subscription or delivery not found',
+      409: 'Subscription disabled, or delivery still pending',
+      500: 'Unexpected failure',
+    }),
+  },
+})
+
+/**
+ * Serializes a subscription for API responses
+ */
+function toSubscriptionResponse(subscription: WebhookSubscriptionEntity) {
+  return {
+    id: subscription.id,
+    url: subscription.url,
+    description: subscription.description,
+    isActive: subscription.isActive,
+    createdAt: subscription.createdAt,
+    updatedAt: subscription.updatedAt,
+  }
+}
+
+/**
+ * Serializes a delivery for API responses
+ */
+function toDeliveryResponse(delivery: WebhookDelivery) {
+  return {
+    id: delivery.id,
+    eventType: delivery.eventType,
+    transactionId: delivery.transactionId,
+    status: delivery.status,
+    attemptCount: delivery.attemptCount,
+    nextAttemptAt: delivery.nextAttemptAt,
+    lastAttemptAt: delivery.lastAttemptAt,
+    lastResponseStatus: delivery.lastResponseStatus,
+    lastError: delivery.lastError,
+    deliveredAt: delivery.deliveredAt,
+    createdAt: delivery.createdAt,
+  }
+}
+
+/**
+ * Builds the webhook subscription handlers for one kind of owner
+ *
+ * @param resolveOwner - Determines the owner from the request
+ * @param repository - IWebhookRepository implementation
+ * @param options - Clock, and whether plain http endpoints are accepted
+ * @returns Hono router instance
+ */
+export function createWebhookRoutes(
+  resolveOwner: WebhookOwnerResolver,
+  repository: IWebhookRepository,
+  options: WebhooksRouterOptions & { allowHttp: boolean },
+): OpenAPIHono<Env> {
+  const router = createRouter()
+  const now = options.now ?? Date.now
+
+  /**
+   * Loads a subscription of the owner; other owners' subscriptions are reported
+   * as missing rather than forbidden
+   */
+  const loadSubscription = async (c: Context<Env>, id: string, userId: UserID | null) => {
+    const subscription = await repository.findSubscriptionById(AsWebhookSubscriptionID(id))
+    if (!subscription || subscription.userId !== userId) {
+      return c.json(
+        { error: 'Webhook subscription not found', code: 'SUBSCRIPTION_NOT_FOUND' },
+        404,
+      )
+    }
+    return subscription
+  }
+
+  /**
+   * POST /
+   * Register an endpoint; the response carries the signing secret, which is not
+   * shown again
+   */
+  router.openapi(createSubscriptionRoute, async (c) => {
+    const body = c.req.valid('json')
+    const url = parseWebhookUrl(body.url, options.allowHttp)
+    if ('error' in url) {
+      return c.json({ error: `Invalid request: ${url.error}`, code: 'INVALID_REQUEST' }, 400)
+    }
+
+    const owner = await resolveOwner(c)
+    if (owner instanceof Response) return owner
+
+    const secret = generateWebhookSecret()
+    const subscription = await repository.createSubscription({
+      userId: owner.userId,
+      url: url.url,
+      secret,
+      description: body.description,
+    })
+
+    return c.json({ subscription: toSubscriptionResponse(subscription), secret }, 201)
+  })
+
+  /**
+   * GET /
+   * The owner's subscriptions, newest first (disabled ones included)
+   */
+  router.openapi(listSubscriptionsRoute, async (c) => {
+    const owner = await resolveOwner(c)
+    if (owner instanceof Response) return owner
+
+    const subscriptions = await repository.listSubscriptions(owner.userId)
+    return c.json({ items: subscriptions.map(toSubscriptionResponse) }, 200)
+  })
+
+  /**
+   * GET /:id
+   * One subscription of the owner
+   */
+  router.openapi(getSubscriptionRoute, async (c) => {
+    const { id } = c.req.valid('param')
+
+    const owner = await resolveOwner(c)
+    if (owner instanceof Response) return owner
+
+    const subscription = await loadSubscription(c, id, owner.userId)
+    if (subscription instanceof Response) return subscription
+
+    return c.json({ subscription: toSubscriptionResponse(subscription) }, 200)
+  })
+
+  /**
+   * POST /:id/disable
+   * Stop deliveries; queued deliveries move to dead
+   */
+  router.openapi(disableSubscriptionRoute, async (c) => {
+    const { id } = c.req.valid('param')
+
+    const owner = await resolveOwner(c)
+    if (owner instanceof Response) return owner
+
+    const subscription = await repository.disableSubscription(
+      AsWebhookSubscriptionID(id),
+      owner.userId,
+    )
+    return c.json({ subscription: toSubscriptionResponse(subscription) }, 200)
+  })
+
+  /**
+   * GET /:id/deliveries
+   * Deliveries of a subscription, newest first (filterable by status)
+   */
+  router.openapi(listDeliveriesRoute, async (c) => {
+    const { id } = c.req.valid('param')
+    const query = c.req.valid('query')
+
+    const owner = await resolveOwner(c)
+    if (owner instanceof Response) return owner
+
+    const subscription = await loadSubscription(c, id, owner.userId)
+    if (subscription instanceof Response) return subscription
+
+    const page = await repository.listDeliveries(subscription.id, query)
+    return c.json({
+      items: page.items.map(toDeliveryResponse),
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    }, 200)
+  })
+
+  /**
+   * POST /:id/deliveries/:deliveryId/redeliver
+   * Queue a delivered or dead delivery for immediate delivery with a fresh retry budget
+   */
+  router.openapi(redeliverRoute, async (c) => {
+    const { id, deliveryId } = c.req.valid('param')
+
+    const owner = await resolveOwner(c)
+    if (owner instanceof Response) return owner
+
+    const delivery = await repository.redeliver(
+      AsWebhookSubscriptionID(id),
+      AsWebhookDeliveryID(deliveryId),
+      owner.userId,
+      now(),
+    )
+    return c.json({ delivery: toDeliveryResponse(delivery) }, 200)
+  })
+
+  return router
+}
+
+/**
+ * Creates a Hono router for /v1/webhooks endpoints
+ *
+ * @param userRepository - IUserRepository implementation
+ * @param webhookRepository - IWebhookRepository implementation
+ * @param options - Clock used for redelivery
+ * @returns Hono router instance
+ */
+export function createWebhooksRouter(
+  userRepository: IUserRepository,
+  webhookRepository: IWebhookRepository,
+  options: WebhooksRouterOptions = {},
+): OpenAPIHono<Env> {
+  const resolveOwner: WebhookOwnerResolver = async (c) => {
+    const user = await loadCurrentUser(c, userRepository)
+    return user instanceof Response ? user : { userId: user.id }
+  }
+  // User endpoints must be https; plain http is reserved for admin-managed integrations
+  return createWebhookRoutes(resolveOwner, webhookRepository, { ...options, allowHttp: false })
+}
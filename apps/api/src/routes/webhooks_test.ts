@@ -0,0 +1,63 @@
+import { assertEquals, assertMatch, assertObjectMatch } from '@std/assert'
+import { createTestApp, createTestToken, parseResponse } from '../testing/app.ts'
+import { alice, ALICE_ID, FIXTURE_TIME } from '../testing/fixtures.ts'
+import { AsWebhookSubscriptionID, WebhookSubscriptionEntity } from '../entities/WebhookEntity.ts'
+import type { CreateWebhookSubscriptionParams } from '../repositories/IWebhookRepository.ts'
+
+const SUBSCRIPTION_ID = AsWebhookSubscriptionID('99999999-9999-4999-8999-999999999999')
+
+Deno.test('POST /v1/webhooks returns the signing secret once', async () => {
+  const calls: CreateWebhookSubscriptionParams[] = []
+  const app = createTestApp({
+    users: { findById: () => Promise.resolve(alice) },
+    webhooks: {
+      createSubscription: (params) => {
+        calls.push(params)
+        return Promise.resolve(
+          new WebhookSubscriptionEntity(
+            SUBSCRIPTION_ID,
+            params.userId,
+            params.url,
+            params.description ?? null,
+            true,
+            FIXTURE_TIME,
+            FIXTURE_TIME,
+          ),
+        )
+      },
+    },
+  })
+
+  const response = await app.request('/v1/webhooks', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ url: 'https://hooks.example.com/tokens' }),
+  })
+
+  const body = await parseResponse(app, 'post', '/v1/webhooks', response, 201)
+  assertObjectMatch(body, {
+    subscription: { id: SUBSCRIPTION_ID, url: 'https://hooks.example.com/tokens', isActive: true },
+  })
+  assertEquals(body.secret, calls[0]!.secret)
+  assertMatch(String(body.secret), /^whsec_[0-9a-f]{64}$/)
+  assertEquals(calls[0]!.userId, ALICE_ID)
+})
+
+Deno.test('POST /v1/webhooks rejects plain http endpoints', async () => {
+  const app = createTestApp()
+
+  const response = await app.request('/v1/webhooks', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await createTestToken(ALICE_ID)}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ url: 'http://hooks.example.com/tokens' }),
+  })
+
+  const body = await parseResponse(app, 'post', '/v1/webhooks', response, 400)
+  assertEquals(body.error, 'Invalid request: url must use https')
+})
@@ -0,0 +1,164 @@
+/**
+ * Shared request/response schemas
+ *
+ * Building blocks reused across routers: IDs, timestamps, pagination, amounts,
+ * memos/metadata and the error body. Resource-specific schemas live next to their
+ * routes.
+ */
+
+import { z } from '@hono/zod-openapi'
+import { decodeCursor } from '../lib/cursor.ts'
+import { MAX_MEMO_LENGTH, sanitizeMemo, validateMetadata } from '../lib/annotations.ts'
+import { parseTransactionType, TRANSACTION_TYPES } from '../entities/TransactionType.ts'
+
+/**
+ * Default and maximum page sizes for cursor-paginated listings
+ */
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 100
+
+/**
+ * Error body of every non-2xx response
+ *
+ * `code` is a stable machine-readable code (e.g. INSUFFICIENT_BALANCE, INVALID_REQUEST,
+ * INTERNAL_ERROR; see ErrorCode in lib/errors.ts) that every error carries; `details`
+ * gives more context where available (e.g. why a token was rejected).
+ */
+export const ErrorSchema = z
+  .object({
+    error: z.string(),
+    code: z.string(),
+    details: z.string().optional(),
+  })
+  .openapi('Error')
+
+/**
+ * UUID accepted in any case and normalized to lowercase
+ */
+export const UUIDSchema = z
+  .string()
+  .uuid()
+  .transform((value) => value.toLowerCase())
+  .openapi({ format: 'uuid' })
+
+/**
+ * Path parameters of routes addressing one resource by ID
+ */
+export const IdParamsSchema = z.object({ id: UUIDSchema })
+
+/**
+ * Unix timestamp in milliseconds
+ */
+export const UnixMsSchema = z.number().int().openapi({ description: 'Unix timestamp (ms)' })
+
+/**
+ * Unix timestamp in milliseconds received as a query parameter
+ */
+export const UnixMsQuerySchema = z.coerce
+  .number()
+  .int()
+  .nonnegative()
+  .openapi({ description: 'Unix timestamp (ms)' })
+
+/**
+ * Token amount of a transfer (positive safe integer)
+ */
+export const AmountSchema = z.number().int().positive().max(Number.MAX_SAFE_INTEGER)
+
+/**
+ * Operator-supplied reason of administrative operations
+ */
+export const ReasonSchema = z.string().trim().min(1, 'must not be empty')
+
+/**
+ * Pagination query parameters
+ */
+export const PageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z
+    .string()
+    .transform((value, ctx) => {
+      const cursor = decodeCursor(value)
+      if (!cursor) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'cursor is invalid' })
+        return z.NEVER
+      }
+      return cursor
+    })
+    .optional()
+    .openapi({ type: 'string', description: '`nextCursor` from the previous page' }),
+})
+
+/**
+ * Transaction type filter given as a code or a name (e.g. `4` or `P2P`)
+ */
+export const TransactionTypeQuerySchema = z
+  .string()
+  .transform((value, ctx) => {
+    const type = parseTransactionType(value)
+    if (type === null) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `type must be a transaction type code or one of: ${
+          Object.keys(TRANSACTION_TYPES).join(', ')
+        }`,
+      })
+      return z.NEVER
+    }
+    return type
+  })
+  .openapi({ type: 'string', description: 'Transaction type code or name (e.g. 4 or P2P)' })
+
+/**
+ * Wraps an item schema into a cursor-paginated page
+ *
+ * @param item - Schema of one item
+ * @returns Page schema with `items` and `nextCursor`
+ */
+export function pageSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    items: z.array(item),
+    nextCursor: z.string().nullable(),
+  })
+}
+
+/**
+ * Transaction metadata as returned by the API (flat object of string values)
+ */
+export const MetadataSchema = z.record(z.string())
+
+/**
+ * Memo in request bodies, sanitized by sanitizeMemo() (null when absent or blank)
+ */
+export const MemoInputSchema = z
+  .string()
+  .nullish()
+  .transform((value, ctx) => {
+    const result = sanitizeMemo(value)
+    if ('error' in result) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error })
+      return z.NEVER
+    }
+    return result.memo
+  })
+  .openapi({ type: 'string', maxLength: MAX_MEMO_LENGTH, description: 'Free-text memo' })
+
+/**
+ * Metadata in request bodies, checked by validateMetadata() ({} when absent)
+ */
+export const MetadataInputSchema = z
+  .record(z.string())
+  .nullish()
+  .transform((value, ctx) => {
+    const result = validateMetadata(value)
+    if ('error' in result) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error })
+      return z.NEVER
+    }
+    return result.metadata
+  })
+  .openapi({
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    description: 'Flat object of string values (max 16 keys)',
+  })
@@ -0,0 +1,177 @@
+/**
+ * The API app wired to stub repositories and in-memory infrastructure for route tests
+ *
+ * TESTS ONLY - imported by *_test.ts files, never by application code.
+ */
+
+import { z } from '@hono/zod-openapi'
+import { assertEquals } from '@std/assert'
+import { type AppOptions, type AppRepositories, createApp } from '../app.ts'
+import { createHs256KeySource, type JwtClaims, type JwtVerifyOptions } from '../lib/jwt.ts'
+import { InProcessWalletChangeSource } from '../lib/wallet-changes.ts'
+import { InMemoryRateLimitStore } from '../lib/rate-limit.ts'
+import { createLogger } from '../lib/logger.ts'
+import { importHs256SigningKey, signJwt } from './jwt.ts'
+import { stub } from './stubs.ts'
+
+/**
+ * Secret the test app's HS256 key source verifies tokens with
+ */
+const JWT_SECRET = 'test-jwt-secret'
+
+/**
+ * Issuer and audience expected by the test app
+ */
+export const TEST_JWT_VERIFY_OPTIONS: JwtVerifyOptions = {
+  issuer: 'https://auth.example.test/',
+  audience: 'authenticated',
+}
+
+/**
+ * Methods to implement per repository; everything else throws when called
+ */
+export type RepositoryStubs = { [K in keyof AppRepositories]?: Partial<AppRepositories[K]> }
+
+/**
+ * App returned by createApp()
+ */
+export type TestApp = ReturnType<typeof createApp>
+
+/**
+ * Creates the app with stub repositories
+ *
+ * Tokens from createTestToken() are accepted. Users are provisioned by a no-op unless
+ * the users stub implements provision(). Logs are discarded.
+ *
+ * @param repositories - Implemented repository methods
+ * @param options - Further createApp() options (e.g. a WalletChangeSource to notify)
+ * @returns App instance to call with app.request()
+ */
+export function createTestApp(repositories: RepositoryStubs = {}, options: AppOptions = {}) {
+  return createApp({
+    keySource: createHs256KeySource(JWT_SECRET),
+    jwtVerifyOptions: TEST_JWT_VERIFY_OPTIONS,
+    walletChangeSource: new InProcessWalletChangeSource(),
+    rateLimitStore: new InMemoryRateLimitStore(),
+    logger: createLogger({ write: () => {} }),
+    ...options,
+    repositories: {
+      users: stub({ provision: () => Promise.resolve(false), ...repositories.users }),
+      wallets: stub(repositories.wallets),
+      transactions: stub(repositories.transactions),
+      distributions: stub(repositories.distributions),
+      auditLog: stub(repositories.auditLog),
+      stats: stub(repositories.stats),
+      reconciliation: stub(repositories.reconciliation),
+      scheduledTransfers: stub(repositories.scheduledTransfers),
+      escrows: stub(repositories.escrows),
+      webhooks: stub(repositories.webhooks),
+      transferPolicies: stub(repositories.transferPolicies),
+      testItems: stub(repositories.testItems),
+    },
+  })
+}
+
+/**
+ * Signs an access token accepted by the test app
+ *
+ * @param userId - `sub` claim
+ * @param claims - Further claims (e.g. `app_metadata: { role: 'admin' }`), overriding the
+ *   defaults
+ * @returns Promise resolving to the compact JWT
+ */
+export async function createTestToken(userId: string, claims: JwtClaims = {}): Promise<string> {
+  return signJwt(
+    { alg: 'HS256', typ: 'JWT' },
+    {
+      sub: userId,
+      iss: TEST_JWT_VERIFY_OPTIONS.issuer,
+      aud: TEST_JWT_VERIFY_OPTIONS.audience,
+      exp: Math.floor(Date.now() / 1000) + 3600,
+      ...claims,
+    },
+    await importHs256SigningKey(JWT_SECRET),
+  )
+}
+
+/**
+ * Checks a response's status and parses its body with the schema the route documents
+ *
+ * @param app - App the response came from
+ * @param method - Lowercase HTTP method of the route
+ * @param path - Route path as in the OpenAPI document (e.g. `/v1/wallets/{id}`)
+ * @param response - Response to check
+ * @param status - Expected status, which the route must document
+ * @returns Promise resolving to the parsed body
+ * @throws Error if the status differs, the body does not match the documented schema or
+ *   it has keys the schema does not declare
+ */
+export async function parseResponse(
+  app: TestApp,
+  method: string,
+  path: string,
+  response: Response,
+  status: number,
+): Promise<Record<string, unknown>> {
+  const body = await response.json()
+  assertEquals(response.status, status, `Unexpected status; body: ${JSON.stringify(body)}`)
+
+  const definition = app.openAPIRegistry.definitions.find((definition) =>
+    definition.type === 'route' && definition.route.method === method &&
+    definition.route.path === path
+  )
+  if (definition?.type !== 'route') {
+    throw new Error(`No route documented for ${method.toUpperCase()} ${path}`)
+  }
+  const declared = definition.route.responses[status]
+  const schema = declared && 'content' in declared
+    ? declared.content?.['application/json']?.schema
+    : undefined
+  if (!(schema instanceof z.ZodType)) {
+    throw new Error(`${method.toUpperCase()} ${path} documents no JSON response for ${status}`)
+  }
+
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    throw new Error(
+      `${method.toUpperCase()} ${path} ${status} does not match its schema: ${result.error}`,
+    )
+  }
+  // Zod strips undeclared keys instead of failing, which would hide leaked fields
+  const undeclared = findUndeclaredKey(body, result.data, '')
+  if (undeclared !== null) {
+    throw new Error(
+      `${method.toUpperCase()} ${path} ${status} returns a key its schema does not declare: ` +
+        undeclared,
+    )
+  }
+  return result.data as Record<string, unknown>
+}
+
+/**
+ * Finds a key of the response body that parsing with its schema dropped
+ *
+ * @param body - Body as received
+ * @param parsed - The same body after parsing with the documented schema
+ * @param path - Path of `body` within the response, for the error message
+ * @returns Path of the first dropped key (e.g. `wallet.balance`), or null
+ */
+function findUndeclaredKey(body: unknown, parsed: unknown, path: string): string | null {
+  if (Array.isArray(body) && Array.isArray(parsed)) {
+    for (const [index, item] of body.entries()) {
+      const found = findUndeclaredKey(item, parsed[index], `${path}[${index}]`)
+      if (found !== null) return found
+    }
+    return null
+  }
+  if (typeof body !== 'object' || body === null || typeof parsed !== 'object' || parsed === null) {
+    return null
+  }
+  for (const [key, value] of Object.entries(body)) {
+    const keyPath = path ? `${path}.${key}` : key
+    if (!(key in parsed)) return keyPath
+    const found = findUndeclaredKey(value, (parsed as Record<string, unknown>)[key], keyPath)
+    if (found !== null) return found
+  }
+  return null
+}
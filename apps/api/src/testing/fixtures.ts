@@ -0,0 +1,42 @@
+/**
+ * Entities shared by tests
+ *
+ * TESTS ONLY - imported by *_test.ts files, never by application code.
+ */
+
+import { AsUserID, UserEntity } from '../entities/UserEntity.ts'
+import { AsWalletID, WalletEntity } from '../entities/WalletEntity.ts'
+
+/**
+ * Fixed point in time the fixtures were created at (2025-01-01T00:00:00Z)
+ */
+export const FIXTURE_TIME = Date.UTC(2025, 0, 1)
+
+export const ALICE_ID = AsUserID('11111111-1111-4111-8111-111111111111')
+export const ALICE_WALLET_ID = AsWalletID('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa')
+export const BOB_ID = AsUserID('22222222-2222-4222-8222-222222222222')
+export const BOB_WALLET_ID = AsWalletID('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb')
+
+/**
+ * Active user owning ALICE_WALLET_ID
+ */
+export const alice = new UserEntity(
+  ALICE_ID,
+  ALICE_WALLET_ID,
+  'alice',
+  FIXTURE_TIME,
+  FIXTURE_TIME,
+  null,
+)
+
+/**
+ * Creates a wallet
+ *
+ * @param id - Wallet ID
+ * @param balance - Balance (defaults to 1000)
+ * @param isFrozen - Whether the wallet is frozen (defaults to false)
+ * @returns WalletEntity created and last updated at FIXTURE_TIME
+ */
+export function createWallet(id: string, balance = 1000, isFrozen = false): WalletEntity {
+  return new WalletEntity(AsWalletID(id), balance, isFrozen, FIXTURE_TIME, FIXTURE_TIME)
+}
@@ -0,0 +1,69 @@
+/**
+ * Locally signed JWTs for tests
+ *
+ * TESTS ONLY - imported by *_test.ts files, never by application code.
+ */
+
+import type { JwtClaims, JwtHeader } from '../lib/jwt.ts'
+
+/**
+ * Web Crypto sign() parameters per JWS algorithm
+ */
+const SIGN_PARAMS: Record<string, AlgorithmIdentifier | EcdsaParams> = {
+  HS256: 'HMAC',
+  RS256: 'RSASSA-PKCS1-v1_5',
+  ES256: { name: 'ECDSA', hash: 'SHA-256' },
+}
+
+/**
+ * Encodes bytes or a JSON value as base64url without padding
+ */
+function base64UrlEncode(input: Uint8Array | object): string {
+  const bytes = input instanceof Uint8Array
+    ? input
+    : new TextEncoder().encode(JSON.stringify(input))
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Signs claims into a compact JWT
+ *
+ * @param header - JOSE header; `alg` selects the signature algorithm
+ * @param claims - Payload claims, used as given
+ * @param key - Private (or HMAC) key with the `sign` usage
+ * @returns Compact serialized JWT
+ */
+export async function signJwt(header: JwtHeader, claims: JwtClaims, key: CryptoKey) {
+  const params = SIGN_PARAMS[header.alg]
+  if (!params) {
+    throw new Error(`Unsupported algorithm: ${header.alg}`)
+  }
+
+  const signingInput = `${base64UrlEncode(header)}.${base64UrlEncode(claims)}`
+  const signature = await crypto.subtle.sign(
+    params,
+    key,
+    new TextEncoder().encode(signingInput),
+  )
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+/**
+ * Imports a shared secret as an HS256 signing key
+ *
+ * @param secret - Shared HMAC secret (as given to createHs256KeySource())
+ * @returns Promise resolving to the signing key
+ */
+export function importHs256SigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+}
@@ -0,0 +1,31 @@
+/**
+ * Test doubles for repository interfaces
+ *
+ * TESTS ONLY - imported by *_test.ts files, never by application code.
+ */
+
+/**
+ * Creates an object implementing an interface with only the methods a test needs
+ *
+ * Calling any other method throws, so a test fails loudly when the code under test
+ * reaches data access the test did not expect.
+ *
+ * @param methods - Implemented methods
+ * @returns The stub, typed as the full interface
+ */
+export function stub<T extends object>(methods: Partial<T> = {}): T {
+  return new Proxy(methods, {
+    get(target, property, receiver) {
+      if (typeof property === 'symbol' || property in target) {
+        return Reflect.get(target, property, receiver)
+      }
+      // Not a thenable: stubs may be returned from async functions
+      if (property === 'then') {
+        return undefined
+      }
+      return () => {
+        throw new Error(`Unexpected call to stubbed method ${property}()`)
+      }
+    },
+  }) as T
+}
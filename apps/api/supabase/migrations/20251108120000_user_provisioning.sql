@@ -0,0 +1,44 @@
+-- User Auto-Provisioning
+-- Description: Creates the user + wallet pair on first successful JWT validation (design.md §8)
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Atomically create a user and its wallet if the user does not exist yet
+CREATE OR REPLACE FUNCTION provision_user(user_uuid UUID, wallet_uuid UUID, user_name VARCHAR)
+RETURNS BOOLEAN AS $$
+DECLARE
+    current_time_ms BIGINT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM users WHERE id = user_uuid) THEN
+        RETURN FALSE;
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Wallet first: users.wallet_id references wallets(id)
+    INSERT INTO wallets (id, balance, is_frozen, created_at, updated_at)
+    VALUES (wallet_uuid, 0, FALSE, current_time_ms, current_time_ms);
+
+    INSERT INTO users (id, wallet_id, username, created_at, updated_at)
+    VALUES (user_uuid, wallet_uuid, user_name, current_time_ms, current_time_ms);
+
+    RETURN TRUE;
+EXCEPTION
+    -- Concurrent first requests for the same user: the loser's wallet insert is rolled back
+    WHEN unique_violation THEN
+        RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION provision_user(UUID, UUID, VARCHAR) IS 'Auto-registration: creates user and wallet in a single transaction. Returns TRUE if created, FALSE if the user already existed (including soft-deleted users).';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- provision_user() trusts the user ID from the verified token
+REVOKE EXECUTE ON FUNCTION provision_user(UUID, UUID, VARCHAR) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION provision_user(UUID, UUID, VARCHAR) TO service_role;
@@ -0,0 +1,120 @@
+-- P2P Transfers with Idempotency Keys
+-- Description: Stores client-supplied idempotency keys so retried transfer requests
+--              return the original transaction instead of transferring twice
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE idempotency_keys (
+    user_id UUID NOT NULL,
+    idempotency_key VARCHAR(255) NOT NULL,
+    transaction_id UUID NOT NULL UNIQUE,
+    to_wallet_id UUID NOT NULL,
+    amount BIGINT NOT NULL,
+    created_at BIGINT NOT NULL,
+
+    CONSTRAINT pk_idempotency_keys PRIMARY KEY (user_id, idempotency_key),
+    CONSTRAINT idempotency_key_not_empty CHECK (LENGTH(TRIM(idempotency_key)) > 0),
+    CONSTRAINT created_at_positive CHECK (created_at > 0),
+    CONSTRAINT fk_user FOREIGN KEY (user_id)
+        REFERENCES users(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_transaction FOREIGN KEY (transaction_id)
+        REFERENCES transactions(id) ON DELETE RESTRICT
+);
+
+COMMENT ON TABLE idempotency_keys IS 'Client-supplied idempotency keys for transfer requests (scoped per user)';
+COMMENT ON COLUMN idempotency_keys.user_id IS 'User who sent the request (keys are unique per user)';
+COMMENT ON COLUMN idempotency_keys.idempotency_key IS 'Value of the Idempotency-Key request header';
+COMMENT ON COLUMN idempotency_keys.transaction_id IS 'Transaction created by the original request';
+COMMENT ON COLUMN idempotency_keys.to_wallet_id IS 'Recipient of the original request (detects key reuse with different parameters)';
+COMMENT ON COLUMN idempotency_keys.amount IS 'Amount of the original request (detects key reuse with different parameters)';
+COMMENT ON COLUMN idempotency_keys.created_at IS 'Unix timestamp in milliseconds';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Idempotent user-initiated transfer
+CREATE OR REPLACE FUNCTION create_transfer(
+    user_uuid UUID,
+    request_key VARCHAR,
+    transaction_uuid UUID,
+    recipient_wallet_uuid UUID,
+    transfer_amount BIGINT
+)
+RETURNS TABLE(transaction_id UUID, replayed BOOLEAN) AS $$
+DECLARE
+    sender_wallet_uuid UUID;
+    existing RECORD;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT u.wallet_id INTO sender_wallet_uuid
+    FROM users u
+    WHERE u.id = user_uuid AND u.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender user not found';
+    END IF;
+
+    -- Replay: return the original result
+    SELECT k.transaction_id, k.to_wallet_id, k.amount INTO existing
+    FROM idempotency_keys k
+    WHERE k.user_id = user_uuid AND k.idempotency_key = request_key;
+
+    IF FOUND THEN
+        IF existing.to_wallet_id <> recipient_wallet_uuid OR existing.amount <> transfer_amount THEN
+            RAISE EXCEPTION 'Idempotency key reused with different parameters';
+        END IF;
+        RETURN QUERY SELECT existing.transaction_id, TRUE;
+        RETURN;
+    END IF;
+
+    -- Wallets of soft-deleted users have no active owner and cannot receive transfers
+    IF NOT EXISTS (SELECT 1 FROM wallet_owners o WHERE o.wallet_id = recipient_wallet_uuid) THEN
+        RAISE EXCEPTION 'Recipient wallet not found';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    BEGIN
+        -- Fires validate_transaction_balance / update_wallet_balances
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at)
+        VALUES (transaction_uuid, sender_wallet_uuid, recipient_wallet_uuid, transfer_amount, 1, current_time_ms);
+
+        INSERT INTO idempotency_keys (user_id, idempotency_key, transaction_id, to_wallet_id, amount, created_at)
+        VALUES (user_uuid, request_key, transaction_uuid, recipient_wallet_uuid, transfer_amount, current_time_ms);
+    EXCEPTION
+        -- A concurrent request with the same key committed first: undo our transfer, replay theirs
+        WHEN unique_violation THEN
+            SELECT k.transaction_id, k.to_wallet_id, k.amount INTO existing
+            FROM idempotency_keys k
+            WHERE k.user_id = user_uuid AND k.idempotency_key = request_key;
+
+            IF NOT FOUND THEN
+                RAISE;
+            END IF;
+            IF existing.to_wallet_id <> recipient_wallet_uuid OR existing.amount <> transfer_amount THEN
+                RAISE EXCEPTION 'Idempotency key reused with different parameters';
+            END IF;
+            RETURN QUERY SELECT existing.transaction_id, TRUE;
+            RETURN;
+    END;
+
+    RETURN QUERY SELECT transaction_uuid, FALSE;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION create_transfer(UUID, VARCHAR, UUID, UUID, BIGINT) IS 'User-initiated transfer from the user''s own wallet. Retries with the same idempotency key return the original transaction (replayed = TRUE) without moving tokens again.';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- create_transfer() trusts user_uuid; idempotency keys are private to the API
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION create_transfer(UUID, VARCHAR, UUID, UUID, BIGINT)
+    FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION create_transfer(UUID, VARCHAR, UUID, UUID, BIGINT) TO service_role;
@@ -0,0 +1,83 @@
+-- Transaction History
+-- Description: Wallet-scoped indexes and a keyset-paginated history query with
+--              counterparty resolution through wallet_owners
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- History is always scoped to one wallet and ordered by (created_at, id) for keyset pagination
+CREATE INDEX idx_transactions_from_wallet ON transactions(from_wallet_id, created_at DESC, id DESC);
+CREATE INDEX idx_transactions_to_wallet ON transactions(to_wallet_id, created_at DESC, id DESC);
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Keyset-paginated transaction history of a single wallet
+--
+-- Each branch of the UNION ALL is served by one of the wallet-scoped indexes above and is
+-- limited before merging, so the cost depends on the page size rather than the history length.
+-- Self-transfers (issuance) are reported once, as 'received'.
+CREATE OR REPLACE FUNCTION list_wallet_transactions(
+    wallet_uuid UUID,
+    page_size INTEGER DEFAULT 50,
+    cursor_created_at BIGINT DEFAULT NULL,
+    cursor_id UUID DEFAULT NULL,
+    filter_direction VARCHAR DEFAULT NULL,
+    filter_transaction_type INTEGER DEFAULT NULL,
+    filter_created_from BIGINT DEFAULT NULL,
+    filter_created_to BIGINT DEFAULT NULL,
+    filter_counterparty_wallet UUID DEFAULT NULL
+)
+RETURNS TABLE(
+    id UUID,
+    from_wallet_id UUID,
+    to_wallet_id UUID,
+    amount BIGINT,
+    transaction_type INTEGER,
+    created_at BIGINT,
+    direction VARCHAR,
+    counterparty_wallet_id UUID,
+    counterparty_type TEXT,
+    counterparty_name VARCHAR
+) AS $$
+    SELECT
+        s.id, s.from_wallet_id, s.to_wallet_id, s.amount, s.transaction_type, s.created_at,
+        s.direction, s.counterparty_wallet_id, o.owner_type, o.owner_name
+    FROM (
+        (
+            SELECT t.*, 'sent'::VARCHAR AS direction, t.to_wallet_id AS counterparty_wallet_id
+            FROM transactions t
+            WHERE t.from_wallet_id = wallet_uuid
+              AND t.to_wallet_id <> wallet_uuid
+              AND (filter_direction IS NULL OR filter_direction = 'sent')
+              AND (filter_counterparty_wallet IS NULL OR t.to_wallet_id = filter_counterparty_wallet)
+              AND (filter_transaction_type IS NULL OR t.transaction_type = filter_transaction_type)
+              AND (filter_created_from IS NULL OR t.created_at >= filter_created_from)
+              AND (filter_created_to IS NULL OR t.created_at < filter_created_to)
+              AND (cursor_created_at IS NULL OR (t.created_at, t.id) < (cursor_created_at, cursor_id))
+            ORDER BY t.created_at DESC, t.id DESC
+            LIMIT page_size
+        )
+        UNION ALL
+        (
+            SELECT t.*, 'received'::VARCHAR AS direction, t.from_wallet_id AS counterparty_wallet_id
+            FROM transactions t
+            WHERE t.to_wallet_id = wallet_uuid
+              AND (filter_direction IS NULL OR filter_direction = 'received')
+              AND (filter_counterparty_wallet IS NULL OR t.from_wallet_id = filter_counterparty_wallet)
+              AND (filter_transaction_type IS NULL OR t.transaction_type = filter_transaction_type)
+              AND (filter_created_from IS NULL OR t.created_at >= filter_created_from)
+              AND (filter_created_to IS NULL OR t.created_at < filter_created_to)
+              AND (cursor_created_at IS NULL OR (t.created_at, t.id) < (cursor_created_at, cursor_id))
+            ORDER BY t.created_at DESC, t.id DESC
+            LIMIT page_size
+        )
+    ) s
+    LEFT JOIN wallet_owners o ON o.wallet_id = s.counterparty_wallet_id
+    ORDER BY s.created_at DESC, s.id DESC
+    LIMIT page_size;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION list_wallet_transactions(UUID, INTEGER, BIGINT, UUID, VARCHAR, INTEGER, BIGINT, BIGINT, UUID) IS 'Transaction history of one wallet, newest first, keyset-paginated on (created_at, id). Counterparty name/type come from wallet_owners (NULL for soft-deleted users).';
@@ -0,0 +1,162 @@
+-- Batch Distribution with Auto-Issuance
+-- Description: UC-2 / UC-7 as database functions. Distributes from a system account to up to
+--              100 user wallets all-or-nothing, issuing exactly the missing amount first.
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Validate a distribution and compute the issuance it needs (no writes)
+CREATE OR REPLACE FUNCTION plan_distribution(
+    account_name VARCHAR,
+    recipient_wallet_ids UUID[],
+    amounts BIGINT[]
+)
+RETURNS TABLE(
+    system_wallet_id UUID,
+    system_balance BIGINT,
+    total_amount BIGINT,
+    required_issuance BIGINT
+) AS $$
+DECLARE
+    v_wallet_id UUID;
+    v_balance BIGINT;
+    v_total BIGINT;
+    v_recipient_count INTEGER;
+    v_invalid UUID;
+BEGIN
+    SELECT w.id, w.balance INTO v_wallet_id, v_balance
+    FROM system_accounts s
+    JOIN wallets w ON w.id = s.wallet_id
+    WHERE s.name = account_name;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'System account not found: %', account_name;
+    END IF;
+
+    v_recipient_count := COALESCE(array_length(recipient_wallet_ids, 1), 0);
+
+    IF v_recipient_count = 0 THEN
+        RAISE EXCEPTION 'Distribution requires at least one recipient';
+    END IF;
+    IF v_recipient_count > 100 THEN
+        RAISE EXCEPTION 'Distribution is limited to 100 recipients, got %', v_recipient_count;
+    END IF;
+    IF COALESCE(array_length(amounts, 1), 0) <> v_recipient_count THEN
+        RAISE EXCEPTION 'Recipient and amount lists must have the same length';
+    END IF;
+    IF array_position(recipient_wallet_ids, NULL) IS NOT NULL OR array_position(amounts, NULL) IS NOT NULL THEN
+        RAISE EXCEPTION 'Recipients and amounts must not be NULL';
+    END IF;
+    IF EXISTS (SELECT 1 FROM unnest(amounts) a WHERE a <= 0) THEN
+        RAISE EXCEPTION 'Distribution amounts must be positive';
+    END IF;
+
+    SELECT r INTO v_invalid
+    FROM unnest(recipient_wallet_ids) r
+    GROUP BY r
+    HAVING COUNT(*) > 1
+    LIMIT 1;
+    IF FOUND THEN
+        RAISE EXCEPTION 'Duplicate recipient wallet: %', v_invalid;
+    END IF;
+
+    -- Distribution targets active user wallets only (not system wallets, not soft-deleted users)
+    SELECT r INTO v_invalid
+    FROM unnest(recipient_wallet_ids) r
+    WHERE NOT EXISTS (
+        SELECT 1 FROM wallet_owners o WHERE o.wallet_id = r AND o.owner_type = 'user'
+    )
+    LIMIT 1;
+    IF FOUND THEN
+        RAISE EXCEPTION 'Recipient wallet not found: %', v_invalid;
+    END IF;
+
+    SELECT r INTO v_invalid
+    FROM unnest(recipient_wallet_ids) r
+    JOIN wallets w ON w.id = r
+    WHERE w.is_frozen
+    LIMIT 1;
+    IF FOUND THEN
+        RAISE EXCEPTION 'Recipient wallet is frozen: %', v_invalid;
+    END IF;
+
+    SELECT SUM(a) INTO v_total FROM unnest(amounts) a;
+
+    RETURN QUERY SELECT v_wallet_id, v_balance, v_total, GREATEST(v_total - v_balance, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION plan_distribution(VARCHAR, UUID[], BIGINT[]) IS 'Validates a batch distribution (max 100 active, unfrozen user recipients) and returns the issuance required to cover it. Does not write anything (used for dry runs).';
+
+-- Atomic batch distribution with exact auto-issuance
+CREATE OR REPLACE FUNCTION distribute_tokens(
+    account_name VARCHAR,
+    recipient_wallet_ids UUID[],
+    amounts BIGINT[],
+    transaction_ids UUID[],
+    issuance_transaction_id UUID,
+    reason TEXT
+)
+RETURNS TABLE(transaction_id UUID, to_wallet_id UUID, amount BIGINT, is_issuance BOOLEAN) AS $$
+DECLARE
+    plan RECORD;
+    current_time_ms BIGINT;
+    i INTEGER;
+BEGIN
+    IF reason IS NULL OR LENGTH(TRIM(reason)) = 0 THEN
+        RAISE EXCEPTION 'Distribution reason is required';
+    END IF;
+    IF COALESCE(array_length(transaction_ids, 1), 0) <> COALESCE(array_length(recipient_wallet_ids, 1), 0) THEN
+        RAISE EXCEPTION 'One transaction ID is required per recipient';
+    END IF;
+
+    -- Lock the system wallet first so the balance used for the plan cannot change underneath us
+    PERFORM 1
+    FROM system_accounts s
+    JOIN wallets w ON w.id = s.wallet_id
+    WHERE s.name = account_name
+    FOR UPDATE OF w;
+
+    SELECT * INTO plan FROM plan_distribution(account_name, recipient_wallet_ids, amounts);
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Auto-issuance: self-transfer of exactly the missing amount
+    IF plan.required_issuance > 0 THEN
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at)
+        VALUES (issuance_transaction_id, plan.system_wallet_id, plan.system_wallet_id,
+                plan.required_issuance, 1, current_time_ms);
+
+        RETURN QUERY SELECT issuance_transaction_id, plan.system_wallet_id, plan.required_issuance, TRUE;
+    END IF;
+
+    FOR i IN 1 .. array_length(recipient_wallet_ids, 1) LOOP
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at)
+        VALUES (transaction_ids[i], plan.system_wallet_id, recipient_wallet_ids[i], amounts[i],
+                1, current_time_ms);
+
+        RETURN QUERY SELECT transaction_ids[i], recipient_wallet_ids[i], amounts[i], FALSE;
+    END LOOP;
+
+    RAISE LOG 'distribute_tokens: account=% recipients=% total=% issued=% reason=%',
+        account_name, array_length(recipient_wallet_ids, 1), plan.total_amount,
+        plan.required_issuance, reason;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT) IS 'UC-2 batch distribution: issues exactly the shortfall via system self-transfer, then inserts one transfer per recipient. All-or-nothing; returns the created transactions (issuance first, if any).';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- Distributions are administrative operations
+REVOKE EXECUTE ON FUNCTION plan_distribution(VARCHAR, UUID[], BIGINT[])
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT)
+    FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION plan_distribution(VARCHAR, UUID[], BIGINT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT)
+    TO service_role;
@@ -0,0 +1,95 @@
+-- Wallet Freeze Administration
+-- Description: Freeze/unfreeze through a function that records who did it and why
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE wallet_freeze_events (
+    id UUID PRIMARY KEY,
+    wallet_id UUID NOT NULL,
+    is_frozen BOOLEAN NOT NULL,
+    reason TEXT NOT NULL,
+    actor_user_id UUID NOT NULL,
+    created_at BIGINT NOT NULL,
+
+    CONSTRAINT reason_not_empty CHECK (LENGTH(TRIM(reason)) > 0),
+    CONSTRAINT created_at_positive CHECK (created_at > 0),
+    CONSTRAINT fk_wallet FOREIGN KEY (wallet_id)
+        REFERENCES wallets(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_actor FOREIGN KEY (actor_user_id)
+        REFERENCES users(id) ON DELETE RESTRICT
+);
+
+CREATE INDEX idx_wallet_freeze_events_wallet ON wallet_freeze_events(wallet_id, created_at DESC);
+
+COMMENT ON TABLE wallet_freeze_events IS 'History of wallet freeze/unfreeze operations (who, why, when)';
+COMMENT ON COLUMN wallet_freeze_events.id IS 'Primary key (UUID v4)';
+COMMENT ON COLUMN wallet_freeze_events.wallet_id IS 'Target wallet';
+COMMENT ON COLUMN wallet_freeze_events.is_frozen IS 'State after the operation (TRUE = freeze, FALSE = unfreeze)';
+COMMENT ON COLUMN wallet_freeze_events.reason IS 'Operator-supplied reason (required)';
+COMMENT ON COLUMN wallet_freeze_events.actor_user_id IS 'Administrator who performed the operation';
+COMMENT ON COLUMN wallet_freeze_events.created_at IS 'Unix timestamp in milliseconds';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Freeze or unfreeze a wallet and record the operation atomically
+CREATE OR REPLACE FUNCTION set_wallet_frozen(
+    wallet_uuid UUID,
+    frozen BOOLEAN,
+    reason TEXT,
+    actor_uuid UUID,
+    event_uuid UUID
+)
+RETURNS BIGINT AS $$
+DECLARE
+    current_frozen BOOLEAN;
+    current_time_ms BIGINT;
+BEGIN
+    IF reason IS NULL OR LENGTH(TRIM(reason)) = 0 THEN
+        RAISE EXCEPTION 'Freeze reason is required';
+    END IF;
+
+    SELECT w.is_frozen INTO current_frozen
+    FROM wallets w
+    WHERE w.id = wallet_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Wallet not found';
+    END IF;
+
+    IF current_frozen = frozen THEN
+        IF frozen THEN
+            RAISE EXCEPTION 'Wallet is already frozen';
+        END IF;
+        RAISE EXCEPTION 'Wallet is not frozen';
+    END IF;
+
+    -- check_system_wallet_freeze trigger rejects system wallets
+    UPDATE wallets SET is_frozen = frozen WHERE id = wallet_uuid;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    INSERT INTO wallet_freeze_events (id, wallet_id, is_frozen, reason, actor_user_id, created_at)
+    VALUES (event_uuid, wallet_uuid, frozen, reason, actor_uuid, current_time_ms);
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION set_wallet_frozen(UUID, BOOLEAN, TEXT, UUID, UUID) IS 'Freezes or unfreezes a wallet and records actor and reason in wallet_freeze_events. Returns the event timestamp (Unix ms).';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- Freezing is an administrative operation; the freeze history is read by admins only
+ALTER TABLE wallet_freeze_events ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION set_wallet_frozen(UUID, BOOLEAN, TEXT, UUID, UUID)
+    FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION set_wallet_frozen(UUID, BOOLEAN, TEXT, UUID, UUID) TO service_role;
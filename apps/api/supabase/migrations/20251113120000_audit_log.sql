@@ -0,0 +1,256 @@
+-- Administrative Audit Log
+-- Description: Append-only record of administrative operations (issuance, distribution,
+--              freeze/unfreeze) with operator identity, reason and timestamp. Transactions
+--              created by an administrative operation reference their audit entry.
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE audit_log (
+    id UUID PRIMARY KEY,
+    actor_user_id UUID NOT NULL,
+    action VARCHAR(64) NOT NULL,
+    target_wallet_id UUID,
+    reason TEXT NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}'::JSONB,
+    created_at BIGINT NOT NULL,
+
+    CONSTRAINT action_valid_chars CHECK (action ~ '^[a-z_]+$'),
+    CONSTRAINT reason_not_empty CHECK (LENGTH(TRIM(reason)) > 0),
+    CONSTRAINT details_is_object CHECK (jsonb_typeof(details) = 'object'),
+    CONSTRAINT created_at_positive CHECK (created_at > 0),
+    CONSTRAINT fk_actor FOREIGN KEY (actor_user_id)
+        REFERENCES users(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_target_wallet FOREIGN KEY (target_wallet_id)
+        REFERENCES wallets(id) ON DELETE RESTRICT
+);
+
+-- Every query is ordered by (created_at, id) for keyset pagination
+CREATE INDEX idx_audit_log_created_at ON audit_log(created_at DESC, id DESC);
+CREATE INDEX idx_audit_log_actor ON audit_log(actor_user_id, created_at DESC, id DESC);
+CREATE INDEX idx_audit_log_action ON audit_log(action, created_at DESC, id DESC);
+CREATE INDEX idx_audit_log_target_wallet ON audit_log(target_wallet_id, created_at DESC, id DESC)
+    WHERE target_wallet_id IS NOT NULL;
+
+COMMENT ON TABLE audit_log IS 'Append-only log of administrative operations (immutable)';
+COMMENT ON COLUMN audit_log.id IS 'Primary key (UUID v4)';
+COMMENT ON COLUMN audit_log.actor_user_id IS 'Administrator who performed the operation';
+COMMENT ON COLUMN audit_log.action IS 'Operation name (lowercase + underscore). Application layer defines constants: distribution, wallet_freeze, wallet_unfreeze';
+COMMENT ON COLUMN audit_log.target_wallet_id IS 'Wallet the operation was applied to (system wallet for distributions), NULL if none';
+COMMENT ON COLUMN audit_log.reason IS 'Operator-supplied reason (required)';
+COMMENT ON COLUMN audit_log.details IS 'Action-specific parameters and outcome (JSON object)';
+COMMENT ON COLUMN audit_log.created_at IS 'Unix timestamp in milliseconds';
+
+-- Link from transactions to the administrative operation that created them
+ALTER TABLE transactions ADD COLUMN audit_log_id UUID;
+ALTER TABLE transactions ADD CONSTRAINT fk_audit_log FOREIGN KEY (audit_log_id)
+    REFERENCES audit_log(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_transactions_audit_log ON transactions(audit_log_id) WHERE audit_log_id IS NOT NULL;
+
+COMMENT ON COLUMN transactions.audit_log_id IS 'Audit entry of the administrative operation that created this transaction (NULL for user-initiated transfers)';
+
+-- =============================================================================
+-- TRIGGER FUNCTIONS
+-- =============================================================================
+
+-- Audit log immutability enforcement
+CREATE OR REPLACE FUNCTION prevent_audit_log_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Audit log entries are immutable and cannot be modified or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+CREATE TRIGGER prevent_audit_log_update
+    BEFORE UPDATE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_modification();
+
+CREATE TRIGGER prevent_audit_log_delete
+    BEFORE DELETE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_modification();
+
+CREATE TRIGGER prevent_audit_log_truncate
+    BEFORE TRUNCATE ON audit_log
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_modification();
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Append an audit entry (used by the administrative functions below)
+CREATE OR REPLACE FUNCTION append_audit_log(
+    entry_uuid UUID,
+    actor_uuid UUID,
+    entry_action VARCHAR,
+    target_wallet_uuid UUID,
+    entry_reason TEXT,
+    entry_details JSONB DEFAULT '{}'::JSONB
+)
+RETURNS BIGINT AS $$
+DECLARE
+    current_time_ms BIGINT;
+BEGIN
+    IF entry_reason IS NULL OR LENGTH(TRIM(entry_reason)) = 0 THEN
+        RAISE EXCEPTION 'Audit reason is required';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    INSERT INTO audit_log (id, actor_user_id, action, target_wallet_id, reason, details, created_at)
+    VALUES (entry_uuid, actor_uuid, entry_action, target_wallet_uuid, entry_reason,
+            COALESCE(entry_details, '{}'::JSONB), current_time_ms);
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION append_audit_log(UUID, UUID, VARCHAR, UUID, TEXT, JSONB) IS 'Appends an administrative audit entry. Returns its timestamp (Unix ms).';
+
+-- Distribution now records the operator and links every created transaction to one audit entry
+DROP FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION distribute_tokens(
+    account_name VARCHAR,
+    recipient_wallet_ids UUID[],
+    amounts BIGINT[],
+    transaction_ids UUID[],
+    issuance_transaction_id UUID,
+    reason TEXT,
+    actor_uuid UUID,
+    audit_uuid UUID
+)
+RETURNS TABLE(transaction_id UUID, to_wallet_id UUID, amount BIGINT, is_issuance BOOLEAN) AS $$
+DECLARE
+    plan RECORD;
+    current_time_ms BIGINT;
+    i INTEGER;
+BEGIN
+    IF reason IS NULL OR LENGTH(TRIM(reason)) = 0 THEN
+        RAISE EXCEPTION 'Distribution reason is required';
+    END IF;
+    IF COALESCE(array_length(transaction_ids, 1), 0) <> COALESCE(array_length(recipient_wallet_ids, 1), 0) THEN
+        RAISE EXCEPTION 'One transaction ID is required per recipient';
+    END IF;
+
+    -- Lock the system wallet first so the balance used for the plan cannot change underneath us
+    PERFORM 1
+    FROM system_accounts s
+    JOIN wallets w ON w.id = s.wallet_id
+    WHERE s.name = account_name
+    FOR UPDATE OF w;
+
+    SELECT * INTO plan FROM plan_distribution(account_name, recipient_wallet_ids, amounts);
+
+    -- The audit entry is written first so the transactions below can reference it
+    current_time_ms := append_audit_log(
+        audit_uuid, actor_uuid, 'distribution', plan.system_wallet_id, reason,
+        jsonb_build_object(
+            'system_account', account_name,
+            'recipient_count', array_length(recipient_wallet_ids, 1),
+            'total_amount', plan.total_amount,
+            'issued_amount', plan.required_issuance,
+            'issuance_transaction_id',
+                CASE WHEN plan.required_issuance > 0 THEN issuance_transaction_id END
+        )
+    );
+
+    -- Auto-issuance: self-transfer of exactly the missing amount
+    IF plan.required_issuance > 0 THEN
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, audit_log_id)
+        VALUES (issuance_transaction_id, plan.system_wallet_id, plan.system_wallet_id,
+                plan.required_issuance, 1, current_time_ms, audit_uuid);
+
+        RETURN QUERY SELECT issuance_transaction_id, plan.system_wallet_id, plan.required_issuance, TRUE;
+    END IF;
+
+    FOR i IN 1 .. array_length(recipient_wallet_ids, 1) LOOP
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, audit_log_id)
+        VALUES (transaction_ids[i], plan.system_wallet_id, recipient_wallet_ids[i], amounts[i],
+                1, current_time_ms, audit_uuid);
+
+        RETURN QUERY SELECT transaction_ids[i], recipient_wallet_ids[i], amounts[i], FALSE;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT, UUID, UUID) IS 'UC-2 batch distribution: issues exactly the shortfall via system self-transfer, then inserts one transfer per recipient. All-or-nothing; records one audit entry that every created transaction references. Returns the created transactions (issuance first, if any).';
+
+-- Freeze/unfreeze now also records an audit entry
+DROP FUNCTION set_wallet_frozen(UUID, BOOLEAN, TEXT, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION set_wallet_frozen(
+    wallet_uuid UUID,
+    frozen BOOLEAN,
+    reason TEXT,
+    actor_uuid UUID,
+    event_uuid UUID,
+    audit_uuid UUID
+)
+RETURNS BIGINT AS $$
+DECLARE
+    current_frozen BOOLEAN;
+    current_time_ms BIGINT;
+BEGIN
+    IF reason IS NULL OR LENGTH(TRIM(reason)) = 0 THEN
+        RAISE EXCEPTION 'Freeze reason is required';
+    END IF;
+
+    SELECT w.is_frozen INTO current_frozen
+    FROM wallets w
+    WHERE w.id = wallet_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Wallet not found';
+    END IF;
+
+    IF current_frozen = frozen THEN
+        IF frozen THEN
+            RAISE EXCEPTION 'Wallet is already frozen';
+        END IF;
+        RAISE EXCEPTION 'Wallet is not frozen';
+    END IF;
+
+    -- check_system_wallet_freeze trigger rejects system wallets
+    UPDATE wallets SET is_frozen = frozen WHERE id = wallet_uuid;
+
+    current_time_ms := append_audit_log(
+        audit_uuid, actor_uuid,
+        CASE WHEN frozen THEN 'wallet_freeze' ELSE 'wallet_unfreeze' END,
+        wallet_uuid, reason,
+        jsonb_build_object('freeze_event_id', event_uuid)
+    );
+
+    INSERT INTO wallet_freeze_events (id, wallet_id, is_frozen, reason, actor_user_id, created_at)
+    VALUES (event_uuid, wallet_uuid, frozen, reason, actor_uuid, current_time_ms);
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION set_wallet_frozen(UUID, BOOLEAN, TEXT, UUID, UUID, UUID) IS 'Freezes or unfreezes a wallet, recording actor and reason in wallet_freeze_events and audit_log. Returns the event timestamp (Unix ms).';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- The audit log is read and written through the API only
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION append_audit_log(UUID, UUID, VARCHAR, UUID, TEXT, JSONB)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT, UUID, UUID)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION set_wallet_frozen(UUID, BOOLEAN, TEXT, UUID, UUID, UUID)
+    FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION append_audit_log(UUID, UUID, VARCHAR, UUID, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT, UUID, UUID)
+    TO service_role;
+GRANT EXECUTE ON FUNCTION set_wallet_frozen(UUID, BOOLEAN, TEXT, UUID, UUID, UUID) TO service_role;
@@ -0,0 +1,45 @@
+-- Supply Statistics
+-- Description: UC-5 supply figures computed in a single snapshot so the invariant
+--              Total Issuance = Circulating Supply + System Pool can be checked reliably
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Supply and user statistics (one statement, so every figure comes from the same snapshot)
+--
+-- Circulating supply includes wallets of soft-deleted users: their tokens still exist and
+-- excluding them would break the invariant. Active users are non-deleted users with a
+-- non-zero balance (features.md "User Metrics").
+CREATE OR REPLACE FUNCTION get_supply_stats()
+RETURNS TABLE(
+    total_issuance BIGINT,
+    circulating_supply BIGINT,
+    system_pool BIGINT,
+    total_users BIGINT,
+    active_users BIGINT,
+    calculated_at BIGINT
+) AS $$
+    SELECT
+        -- Uses: idx_transactions_self_transfer
+        (SELECT COALESCE(SUM(t.amount), 0)::BIGINT
+         FROM transactions t
+         JOIN system_accounts s ON s.wallet_id = t.from_wallet_id
+         WHERE t.from_wallet_id = t.to_wallet_id),
+        (SELECT COALESCE(SUM(w.balance), 0)::BIGINT
+         FROM users u
+         JOIN wallets w ON w.id = u.wallet_id),
+        (SELECT COALESCE(SUM(w.balance), 0)::BIGINT
+         FROM system_accounts s
+         JOIN wallets w ON w.id = s.wallet_id),
+        (SELECT COUNT(*)
+         FROM users u
+         WHERE u.deleted_at IS NULL),
+        (SELECT COUNT(*)
+         FROM users u
+         JOIN wallets w ON w.id = u.wallet_id
+         WHERE u.deleted_at IS NULL AND w.balance > 0),
+        (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_supply_stats() IS 'UC-5 supply statistics: total issuance, circulating supply (all user wallets incl. soft-deleted), system pool, total/active users and calculation time (Unix ms). Invariant: total_issuance = circulating_supply + system_pool.';
@@ -0,0 +1,51 @@
+-- Ledger Reconciliation
+-- Description: Recomputes wallet balances from the immutable transactions ledger and reports
+--              wallets whose denormalized wallets.balance has drifted, plus orphan wallets
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Wallets whose stored balance disagrees with the ledger, or that have no owner
+--
+-- Ledger balance follows update_wallet_balances(): every transaction credits its recipient,
+-- and debits its sender unless it is a self-transfer (issuance only credits). Read-only, so
+-- it is safe to run on a schedule.
+CREATE OR REPLACE FUNCTION reconcile_wallet_balances()
+RETURNS TABLE(
+    wallet_id UUID,
+    stored_balance BIGINT,
+    ledger_balance BIGINT,
+    is_orphan BOOLEAN
+) AS $$
+    WITH credits AS (
+        SELECT t.to_wallet_id AS wallet_id, SUM(t.amount) AS total
+        FROM transactions t
+        GROUP BY t.to_wallet_id
+    ),
+    debits AS (
+        SELECT t.from_wallet_id AS wallet_id, SUM(t.amount) AS total
+        FROM transactions t
+        WHERE t.from_wallet_id <> t.to_wallet_id
+        GROUP BY t.from_wallet_id
+    ),
+    ledger AS (
+        SELECT
+            w.id,
+            w.balance,
+            (COALESCE(c.total, 0) - COALESCE(d.total, 0))::BIGINT AS ledger_balance
+        FROM wallets w
+        LEFT JOIN credits c ON c.wallet_id = w.id
+        LEFT JOIN debits d ON d.wallet_id = w.id
+    ),
+    orphans AS (
+        SELECT o.wallet_id FROM check_orphan_wallets() o
+    )
+    SELECT l.id, l.balance, l.ledger_balance, o.wallet_id IS NOT NULL
+    FROM ledger l
+    LEFT JOIN orphans o ON o.wallet_id = l.id
+    WHERE l.balance <> l.ledger_balance OR o.wallet_id IS NOT NULL
+    ORDER BY l.id;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION reconcile_wallet_balances() IS 'Ledger reconciliation: returns wallets whose stored balance differs from the balance replayed from transactions, and wallets owned by neither a user nor a system account (check_orphan_wallets). Empty result = consistent.';
@@ -0,0 +1,268 @@
+-- Transaction Type Registry
+-- Description: Registers transaction type codes with their allowed wallet owner combinations
+--              and enforces them on insert. Mirrors src/entities/TransactionType.ts.
+--              Existing rows (type 1 = TRANSFER) stay valid.
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE transaction_types (
+    code INTEGER PRIMARY KEY,
+    name VARCHAR(32) NOT NULL UNIQUE,
+    label VARCHAR(64) NOT NULL,
+    from_owner_types TEXT[] NOT NULL,
+    to_owner_types TEXT[] NOT NULL,
+    self_transfer VARCHAR(16) NOT NULL,
+
+    CONSTRAINT code_valid CHECK (code >= 1 AND code < 100),
+    CONSTRAINT name_valid_chars CHECK (name ~ '^[A-Z0-9_]+$'),
+    CONSTRAINT owner_types_valid CHECK (
+        from_owner_types <@ ARRAY['user', 'system_account']
+        AND to_owner_types <@ ARRAY['user', 'system_account']
+    ),
+    CONSTRAINT self_transfer_valid CHECK (self_transfer IN ('allowed', 'required', 'forbidden'))
+);
+
+COMMENT ON TABLE transaction_types IS 'Registry of transaction_type codes (mirrors the application registry in src/entities/TransactionType.ts)';
+COMMENT ON COLUMN transaction_types.code IS 'Value stored in transactions.transaction_type (1-99)';
+COMMENT ON COLUMN transaction_types.name IS 'Constant name used by the application (e.g. P2P)';
+COMMENT ON COLUMN transaction_types.label IS 'Human-readable label';
+COMMENT ON COLUMN transaction_types.from_owner_types IS 'Owner types (user, system_account) allowed to send';
+COMMENT ON COLUMN transaction_types.to_owner_types IS 'Owner types (user, system_account) allowed to receive';
+COMMENT ON COLUMN transaction_types.self_transfer IS 'allowed | required | forbidden (from_wallet_id = to_wallet_id)';
+
+INSERT INTO transaction_types (code, name, label, from_owner_types, to_owner_types, self_transfer) VALUES
+    (1, 'TRANSFER', 'Transfer', ARRAY['user', 'system_account'], ARRAY['user', 'system_account'], 'allowed'),
+    (2, 'ISSUANCE', 'Issuance', ARRAY['system_account'], ARRAY['system_account'], 'required'),
+    (3, 'DISTRIBUTION', 'Distribution', ARRAY['system_account'], ARRAY['user'], 'forbidden'),
+    (4, 'P2P', 'Peer-to-peer transfer', ARRAY['user'], ARRAY['user'], 'forbidden'),
+    (5, 'POOL_FEE', 'Pool fee', ARRAY['user'], ARRAY['system_account'], 'forbidden'),
+    (6, 'REVERSAL', 'Reversal', ARRAY['user', 'system_account'], ARRAY['user', 'system_account'], 'forbidden');
+
+-- Every stored code must be registered (existing rows all use 1)
+ALTER TABLE transactions ADD CONSTRAINT fk_transaction_type FOREIGN KEY (transaction_type)
+    REFERENCES transaction_types(code) ON DELETE RESTRICT;
+
+COMMENT ON COLUMN transactions.transaction_type IS 'Transaction type code, registered in transaction_types (1=TRANSFER legacy, 2=ISSUANCE, 3=DISTRIBUTION, 4=P2P, 5=POOL_FEE, 6=REVERSAL)';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Owner type of a wallet, including wallets of soft-deleted users (NULL for orphans)
+CREATE OR REPLACE FUNCTION wallet_owner_type(wallet_uuid UUID)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM users u WHERE u.wallet_id = wallet_uuid) THEN 'user'
+        WHEN EXISTS (SELECT 1 FROM system_accounts s WHERE s.wallet_id = wallet_uuid) THEN 'system_account'
+    END;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION wallet_owner_type(UUID) IS 'Returns user or system_account for the wallet owner (soft-deleted users included), NULL if the wallet has no owner';
+
+-- =============================================================================
+-- TRIGGER FUNCTIONS
+-- =============================================================================
+
+-- Transaction type validation against the registry
+CREATE OR REPLACE FUNCTION validate_transaction_type()
+RETURNS TRIGGER AS $$
+DECLARE
+    type_row transaction_types%ROWTYPE;
+    from_owner TEXT;
+    to_owner TEXT;
+    is_self_transfer BOOLEAN;
+BEGIN
+    SELECT * INTO type_row FROM transaction_types WHERE code = NEW.transaction_type;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown transaction type: %', NEW.transaction_type;
+    END IF;
+
+    is_self_transfer := (NEW.from_wallet_id = NEW.to_wallet_id);
+
+    IF type_row.self_transfer = 'required' AND NOT is_self_transfer THEN
+        RAISE EXCEPTION 'Transaction type % must be a self-transfer', type_row.name;
+    END IF;
+    IF type_row.self_transfer = 'forbidden' AND is_self_transfer THEN
+        RAISE EXCEPTION 'Transaction type % cannot be a self-transfer', type_row.name;
+    END IF;
+
+    from_owner := wallet_owner_type(NEW.from_wallet_id);
+    to_owner := wallet_owner_type(NEW.to_wallet_id);
+
+    IF NOT COALESCE(from_owner = ANY(type_row.from_owner_types), FALSE)
+        OR NOT COALESCE(to_owner = ANY(type_row.to_owner_types), FALSE) THEN
+        RAISE EXCEPTION 'Transaction type % does not allow % -> % transfers',
+            type_row.name, COALESCE(from_owner, 'unowned'), COALESCE(to_owner, 'unowned');
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+CREATE TRIGGER check_transaction_type
+    BEFORE INSERT ON transactions
+    FOR EACH ROW EXECUTE FUNCTION validate_transaction_type();
+
+-- =============================================================================
+-- FUNCTIONS (typed writers)
+-- =============================================================================
+
+-- User-initiated transfers: P2P to users, POOL_FEE to system accounts
+CREATE OR REPLACE FUNCTION create_transfer(
+    user_uuid UUID,
+    request_key VARCHAR,
+    transaction_uuid UUID,
+    recipient_wallet_uuid UUID,
+    transfer_amount BIGINT
+)
+RETURNS TABLE(transaction_id UUID, replayed BOOLEAN) AS $$
+DECLARE
+    sender_wallet_uuid UUID;
+    recipient_owner_type TEXT;
+    existing RECORD;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT u.wallet_id INTO sender_wallet_uuid
+    FROM users u
+    WHERE u.id = user_uuid AND u.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender user not found';
+    END IF;
+
+    -- Replay: return the original result
+    SELECT k.transaction_id, k.to_wallet_id, k.amount INTO existing
+    FROM idempotency_keys k
+    WHERE k.user_id = user_uuid AND k.idempotency_key = request_key;
+
+    IF FOUND THEN
+        IF existing.to_wallet_id <> recipient_wallet_uuid OR existing.amount <> transfer_amount THEN
+            RAISE EXCEPTION 'Idempotency key reused with different parameters';
+        END IF;
+        RETURN QUERY SELECT existing.transaction_id, TRUE;
+        RETURN;
+    END IF;
+
+    -- Wallets of soft-deleted users have no active owner and cannot receive transfers
+    SELECT o.owner_type INTO recipient_owner_type
+    FROM wallet_owners o
+    WHERE o.wallet_id = recipient_wallet_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recipient wallet not found';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    BEGIN
+        -- Fires validate_transaction_balance / validate_transaction_type / update_wallet_balances
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at)
+        VALUES (transaction_uuid, sender_wallet_uuid, recipient_wallet_uuid, transfer_amount,
+                CASE WHEN recipient_owner_type = 'system_account' THEN 5 ELSE 4 END,
+                current_time_ms);
+
+        INSERT INTO idempotency_keys (user_id, idempotency_key, transaction_id, to_wallet_id, amount, created_at)
+        VALUES (user_uuid, request_key, transaction_uuid, recipient_wallet_uuid, transfer_amount, current_time_ms);
+    EXCEPTION
+        -- A concurrent request with the same key committed first: undo our transfer, replay theirs
+        WHEN unique_violation THEN
+            SELECT k.transaction_id, k.to_wallet_id, k.amount INTO existing
+            FROM idempotency_keys k
+            WHERE k.user_id = user_uuid AND k.idempotency_key = request_key;
+
+            IF NOT FOUND THEN
+                RAISE;
+            END IF;
+            IF existing.to_wallet_id <> recipient_wallet_uuid OR existing.amount <> transfer_amount THEN
+                RAISE EXCEPTION 'Idempotency key reused with different parameters';
+            END IF;
+            RETURN QUERY SELECT existing.transaction_id, TRUE;
+            RETURN;
+    END;
+
+    RETURN QUERY SELECT transaction_uuid, FALSE;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION create_transfer(UUID, VARCHAR, UUID, UUID, BIGINT) IS 'User-initiated transfer from the user''s own wallet (P2P to users, POOL_FEE to system accounts). Retries with the same idempotency key return the original transaction (replayed = TRUE) without moving tokens again.';
+
+-- Distributions: ISSUANCE for the auto-issued shortfall, DISTRIBUTION per recipient
+CREATE OR REPLACE FUNCTION distribute_tokens(
+    account_name VARCHAR,
+    recipient_wallet_ids UUID[],
+    amounts BIGINT[],
+    transaction_ids UUID[],
+    issuance_transaction_id UUID,
+    reason TEXT,
+    actor_uuid UUID,
+    audit_uuid UUID
+)
+RETURNS TABLE(transaction_id UUID, to_wallet_id UUID, amount BIGINT, is_issuance BOOLEAN) AS $$
+DECLARE
+    plan RECORD;
+    current_time_ms BIGINT;
+    i INTEGER;
+BEGIN
+    IF reason IS NULL OR LENGTH(TRIM(reason)) = 0 THEN
+        RAISE EXCEPTION 'Distribution reason is required';
+    END IF;
+    IF COALESCE(array_length(transaction_ids, 1), 0) <> COALESCE(array_length(recipient_wallet_ids, 1), 0) THEN
+        RAISE EXCEPTION 'One transaction ID is required per recipient';
+    END IF;
+
+    -- Lock the system wallet first so the balance used for the plan cannot change underneath us
+    PERFORM 1
+    FROM system_accounts s
+    JOIN wallets w ON w.id = s.wallet_id
+    WHERE s.name = account_name
+    FOR UPDATE OF w;
+
+    SELECT * INTO plan FROM plan_distribution(account_name, recipient_wallet_ids, amounts);
+
+    -- The audit entry is written first so the transactions below can reference it
+    current_time_ms := append_audit_log(
+        audit_uuid, actor_uuid, 'distribution', plan.system_wallet_id, reason,
+        jsonb_build_object(
+            'system_account', account_name,
+            'recipient_count', array_length(recipient_wallet_ids, 1),
+            'total_amount', plan.total_amount,
+            'issued_amount', plan.required_issuance,
+            'issuance_transaction_id',
+                CASE WHEN plan.required_issuance > 0 THEN issuance_transaction_id END
+        )
+    );
+
+    -- Auto-issuance: self-transfer of exactly the missing amount
+    IF plan.required_issuance > 0 THEN
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, audit_log_id)
+        VALUES (issuance_transaction_id, plan.system_wallet_id, plan.system_wallet_id,
+                plan.required_issuance, 2, current_time_ms, audit_uuid);
+
+        RETURN QUERY SELECT issuance_transaction_id, plan.system_wallet_id, plan.required_issuance, TRUE;
+    END IF;
+
+    FOR i IN 1 .. array_length(recipient_wallet_ids, 1) LOOP
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, audit_log_id)
+        VALUES (transaction_ids[i], plan.system_wallet_id, recipient_wallet_ids[i], amounts[i],
+                3, current_time_ms, audit_uuid);
+
+        RETURN QUERY SELECT transaction_ids[i], recipient_wallet_ids[i], amounts[i], FALSE;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT, UUID, UUID) IS 'UC-2 batch distribution: issues exactly the shortfall (ISSUANCE), then inserts one DISTRIBUTION per recipient. All-or-nothing; records one audit entry that every created transaction references. Returns the created transactions (issuance first, if any).';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- The registry is read by the database triggers and mirrored by the API
+ALTER TABLE transaction_types ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,193 @@
+-- Compensating Reversals
+-- Description: Admin reversal of a transaction via an opposite-direction REVERSAL transaction
+--              that references the original. Partial reversals are allowed; their total can
+--              never exceed the original amount.
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+ALTER TABLE transactions ADD COLUMN reverses_transaction_id UUID;
+ALTER TABLE transactions ADD CONSTRAINT fk_reverses_transaction FOREIGN KEY (reverses_transaction_id)
+    REFERENCES transactions(id) ON DELETE RESTRICT;
+-- Every REVERSAL (type 6) references its original, and only reversals do
+ALTER TABLE transactions ADD CONSTRAINT reversal_reference_valid
+    CHECK ((transaction_type = 6) = (reverses_transaction_id IS NOT NULL));
+
+CREATE INDEX idx_transactions_reverses ON transactions(reverses_transaction_id)
+    WHERE reverses_transaction_id IS NOT NULL;
+
+COMMENT ON COLUMN transactions.reverses_transaction_id IS 'Original transaction compensated by this REVERSAL (required for type 6, NULL otherwise)';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Compensating reversal of a transaction (full or partial)
+--
+-- The original row is locked (FOR UPDATE does not fire the immutability triggers), so
+-- concurrent reversals of the same transaction are serialized and cannot over-reverse.
+CREATE OR REPLACE FUNCTION reverse_transaction(
+    original_uuid UUID,
+    reversal_uuid UUID,
+    reason TEXT,
+    actor_uuid UUID,
+    audit_uuid UUID,
+    reversal_amount BIGINT DEFAULT NULL
+)
+RETURNS TABLE(transaction_id UUID, amount BIGINT, remaining_amount BIGINT) AS $$
+DECLARE
+    original transactions%ROWTYPE;
+    already_reversed BIGINT;
+    remaining BIGINT;
+    reverse_amount BIGINT;
+    current_time_ms BIGINT;
+BEGIN
+    IF reason IS NULL OR LENGTH(TRIM(reason)) = 0 THEN
+        RAISE EXCEPTION 'Reversal reason is required';
+    END IF;
+
+    SELECT * INTO original
+    FROM transactions t
+    WHERE t.id = original_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+    IF original.transaction_type = 6 THEN
+        RAISE EXCEPTION 'Transaction is not reversible: reversals cannot be reversed';
+    END IF;
+    IF original.from_wallet_id = original.to_wallet_id THEN
+        RAISE EXCEPTION 'Transaction is not reversible: issuance cannot be reversed';
+    END IF;
+
+    SELECT COALESCE(SUM(t.amount), 0) INTO already_reversed
+    FROM transactions t
+    WHERE t.reverses_transaction_id = original_uuid;
+
+    remaining := original.amount - already_reversed;
+    IF remaining = 0 THEN
+        RAISE EXCEPTION 'Transaction is already fully reversed';
+    END IF;
+
+    reverse_amount := COALESCE(reversal_amount, remaining);
+    IF reverse_amount <= 0 THEN
+        RAISE EXCEPTION 'Reversal amount must be positive';
+    END IF;
+    IF reverse_amount > remaining THEN
+        RAISE EXCEPTION 'Reversal amount exceeds remaining reversible amount: % > %',
+            reverse_amount, remaining;
+    END IF;
+
+    current_time_ms := append_audit_log(
+        audit_uuid, actor_uuid, 'reversal', original.to_wallet_id, reason,
+        jsonb_build_object(
+            'original_transaction_id', original_uuid,
+            'reversal_transaction_id', reversal_uuid,
+            'amount', reverse_amount,
+            'remaining_amount', remaining - reverse_amount
+        )
+    );
+
+    -- validate_transaction_balance raises 'Insufficient balance' if the original recipient
+    -- no longer holds the amount, and rejects frozen wallets
+    INSERT INTO transactions (
+        id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at,
+        audit_log_id, reverses_transaction_id
+    )
+    VALUES (
+        reversal_uuid, original.to_wallet_id, original.from_wallet_id, reverse_amount, 6,
+        current_time_ms, audit_uuid, original_uuid
+    );
+
+    RETURN QUERY SELECT reversal_uuid, reverse_amount, remaining - reverse_amount;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION reverse_transaction(UUID, UUID, TEXT, UUID, UUID, BIGINT) IS 'Admin compensating reversal: moves the amount (default: everything not yet reversed) back from the original recipient to the original sender as a REVERSAL referencing the original. Records an audit entry. Returns the reversal and the amount still reversible.';
+
+-- History now carries the reversal link in both directions, so clients can pair
+-- originals with their reversals
+DROP FUNCTION list_wallet_transactions(UUID, INTEGER, BIGINT, UUID, VARCHAR, INTEGER, BIGINT, BIGINT, UUID);
+
+CREATE OR REPLACE FUNCTION list_wallet_transactions(
+    wallet_uuid UUID,
+    page_size INTEGER DEFAULT 50,
+    cursor_created_at BIGINT DEFAULT NULL,
+    cursor_id UUID DEFAULT NULL,
+    filter_direction VARCHAR DEFAULT NULL,
+    filter_transaction_type INTEGER DEFAULT NULL,
+    filter_created_from BIGINT DEFAULT NULL,
+    filter_created_to BIGINT DEFAULT NULL,
+    filter_counterparty_wallet UUID DEFAULT NULL
+)
+RETURNS TABLE(
+    id UUID,
+    from_wallet_id UUID,
+    to_wallet_id UUID,
+    amount BIGINT,
+    transaction_type INTEGER,
+    created_at BIGINT,
+    reverses_transaction_id UUID,
+    reversed_amount BIGINT,
+    direction VARCHAR,
+    counterparty_wallet_id UUID,
+    counterparty_type TEXT,
+    counterparty_name VARCHAR
+) AS $$
+    SELECT
+        s.id, s.from_wallet_id, s.to_wallet_id, s.amount, s.transaction_type, s.created_at,
+        s.reverses_transaction_id,
+        (SELECT COALESCE(SUM(r.amount), 0)::BIGINT
+         FROM transactions r
+         WHERE r.reverses_transaction_id = s.id),
+        s.direction, s.counterparty_wallet_id, o.owner_type, o.owner_name
+    FROM (
+        (
+            SELECT t.*, 'sent'::VARCHAR AS direction, t.to_wallet_id AS counterparty_wallet_id
+            FROM transactions t
+            WHERE t.from_wallet_id = wallet_uuid
+              AND t.to_wallet_id <> wallet_uuid
+              AND (filter_direction IS NULL OR filter_direction = 'sent')
+              AND (filter_counterparty_wallet IS NULL OR t.to_wallet_id = filter_counterparty_wallet)
+              AND (filter_transaction_type IS NULL OR t.transaction_type = filter_transaction_type)
+              AND (filter_created_from IS NULL OR t.created_at >= filter_created_from)
+              AND (filter_created_to IS NULL OR t.created_at < filter_created_to)
+              AND (cursor_created_at IS NULL OR (t.created_at, t.id) < (cursor_created_at, cursor_id))
+            ORDER BY t.created_at DESC, t.id DESC
+            LIMIT page_size
+        )
+        UNION ALL
+        (
+            SELECT t.*, 'received'::VARCHAR AS direction, t.from_wallet_id AS counterparty_wallet_id
+            FROM transactions t
+            WHERE t.to_wallet_id = wallet_uuid
+              AND (filter_direction IS NULL OR filter_direction = 'received')
+              AND (filter_counterparty_wallet IS NULL OR t.from_wallet_id = filter_counterparty_wallet)
+              AND (filter_transaction_type IS NULL OR t.transaction_type = filter_transaction_type)
+              AND (filter_created_from IS NULL OR t.created_at >= filter_created_from)
+              AND (filter_created_to IS NULL OR t.created_at < filter_created_to)
+              AND (cursor_created_at IS NULL OR (t.created_at, t.id) < (cursor_created_at, cursor_id))
+            ORDER BY t.created_at DESC, t.id DESC
+            LIMIT page_size
+        )
+    ) s
+    LEFT JOIN wallet_owners o ON o.wallet_id = s.counterparty_wallet_id
+    ORDER BY s.created_at DESC, s.id DESC
+    LIMIT page_size;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION list_wallet_transactions(UUID, INTEGER, BIGINT, UUID, VARCHAR, INTEGER, BIGINT, BIGINT, UUID) IS 'Transaction history of one wallet, newest first, keyset-paginated on (created_at, id). Counterparty name/type come from wallet_owners (NULL for soft-deleted users). Reversals carry reverses_transaction_id; originals carry the total reversed so far.';
+
+COMMENT ON COLUMN audit_log.action IS 'Operation name (lowercase + underscore). Application layer defines constants: distribution, reversal, wallet_freeze, wallet_unfreeze';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- Reversals are administrative operations
+REVOKE EXECUTE ON FUNCTION reverse_transaction(UUID, UUID, TEXT, UUID, UUID, BIGINT)
+    FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION reverse_transaction(UUID, UUID, TEXT, UUID, UUID, BIGINT) TO service_role;
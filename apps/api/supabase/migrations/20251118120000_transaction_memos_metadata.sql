@@ -0,0 +1,281 @@
+-- Transaction Memos and Metadata
+-- Description: Optional immutable memo and a flat JSONB metadata bag on every transaction,
+--              settable through transfers and distributions and searchable by key/value
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+ALTER TABLE transactions ADD COLUMN memo TEXT;
+ALTER TABLE transactions ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+-- The API sanitizes memos (trim, NFC, no control characters); these constraints are the backstop
+ALTER TABLE transactions ADD CONSTRAINT memo_length CHECK (memo IS NULL OR LENGTH(memo) BETWEEN 1 AND 280);
+ALTER TABLE transactions ADD CONSTRAINT memo_no_control_chars CHECK (memo IS NULL OR memo !~ '[[:cntrl:]]');
+ALTER TABLE transactions ADD CONSTRAINT metadata_is_object CHECK (jsonb_typeof(metadata) = 'object');
+ALTER TABLE transactions ADD CONSTRAINT metadata_size CHECK (octet_length(metadata::TEXT) <= 4096);
+
+-- Containment search (metadata @> '{"event_id": "..."}')
+CREATE INDEX idx_transactions_metadata ON transactions USING GIN (metadata jsonb_path_ops);
+
+COMMENT ON COLUMN transactions.memo IS 'Optional free-text note (1-280 chars, no control characters), immutable like the rest of the row';
+COMMENT ON COLUMN transactions.metadata IS 'Flat object of string values (e.g. event_id, external_ref), searchable via containment (GIN index)';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- User-initiated transfers with memo/metadata (replays must repeat them exactly)
+DROP FUNCTION create_transfer(UUID, VARCHAR, UUID, UUID, BIGINT);
+
+CREATE OR REPLACE FUNCTION create_transfer(
+    user_uuid UUID,
+    request_key VARCHAR,
+    transaction_uuid UUID,
+    recipient_wallet_uuid UUID,
+    transfer_amount BIGINT,
+    transfer_memo TEXT DEFAULT NULL,
+    transfer_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE(transaction_id UUID, replayed BOOLEAN) AS $$
+DECLARE
+    sender_wallet_uuid UUID;
+    recipient_owner_type TEXT;
+    existing RECORD;
+    current_time_ms BIGINT;
+BEGIN
+    transfer_metadata := COALESCE(transfer_metadata, '{}'::JSONB);
+
+    SELECT u.wallet_id INTO sender_wallet_uuid
+    FROM users u
+    WHERE u.id = user_uuid AND u.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender user not found';
+    END IF;
+
+    -- Replay: return the original result
+    SELECT k.transaction_id, k.to_wallet_id, k.amount, t.memo, t.metadata INTO existing
+    FROM idempotency_keys k
+    JOIN transactions t ON t.id = k.transaction_id
+    WHERE k.user_id = user_uuid AND k.idempotency_key = request_key;
+
+    IF FOUND THEN
+        IF existing.to_wallet_id <> recipient_wallet_uuid OR existing.amount <> transfer_amount
+            OR existing.memo IS DISTINCT FROM transfer_memo OR existing.metadata <> transfer_metadata THEN
+            RAISE EXCEPTION 'Idempotency key reused with different parameters';
+        END IF;
+        RETURN QUERY SELECT existing.transaction_id, TRUE;
+        RETURN;
+    END IF;
+
+    -- Wallets of soft-deleted users have no active owner and cannot receive transfers
+    SELECT o.owner_type INTO recipient_owner_type
+    FROM wallet_owners o
+    WHERE o.wallet_id = recipient_wallet_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recipient wallet not found';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    BEGIN
+        -- Fires validate_transaction_balance / validate_transaction_type / update_wallet_balances
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+        VALUES (transaction_uuid, sender_wallet_uuid, recipient_wallet_uuid, transfer_amount,
+                CASE WHEN recipient_owner_type = 'system_account' THEN 5 ELSE 4 END,
+                current_time_ms, transfer_memo, transfer_metadata);
+
+        INSERT INTO idempotency_keys (user_id, idempotency_key, transaction_id, to_wallet_id, amount, created_at)
+        VALUES (user_uuid, request_key, transaction_uuid, recipient_wallet_uuid, transfer_amount, current_time_ms);
+    EXCEPTION
+        -- A concurrent request with the same key committed first: undo our transfer, replay theirs
+        WHEN unique_violation THEN
+            SELECT k.transaction_id, k.to_wallet_id, k.amount, t.memo, t.metadata INTO existing
+            FROM idempotency_keys k
+            JOIN transactions t ON t.id = k.transaction_id
+            WHERE k.user_id = user_uuid AND k.idempotency_key = request_key;
+
+            IF NOT FOUND THEN
+                RAISE;
+            END IF;
+            IF existing.to_wallet_id <> recipient_wallet_uuid OR existing.amount <> transfer_amount
+                OR existing.memo IS DISTINCT FROM transfer_memo OR existing.metadata <> transfer_metadata THEN
+                RAISE EXCEPTION 'Idempotency key reused with different parameters';
+            END IF;
+            RETURN QUERY SELECT existing.transaction_id, TRUE;
+            RETURN;
+    END;
+
+    RETURN QUERY SELECT transaction_uuid, FALSE;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION create_transfer(UUID, VARCHAR, UUID, UUID, BIGINT, TEXT, JSONB) IS 'User-initiated transfer from the user''s own wallet (P2P to users, POOL_FEE to system accounts) with optional memo/metadata. Retries with the same idempotency key return the original transaction (replayed = TRUE) without moving tokens again.';
+
+-- Distributions with memo/metadata on every distribution transaction
+DROP FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION distribute_tokens(
+    account_name VARCHAR,
+    recipient_wallet_ids UUID[],
+    amounts BIGINT[],
+    transaction_ids UUID[],
+    issuance_transaction_id UUID,
+    reason TEXT,
+    actor_uuid UUID,
+    audit_uuid UUID,
+    distribution_memo TEXT DEFAULT NULL,
+    distribution_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE(transaction_id UUID, to_wallet_id UUID, amount BIGINT, is_issuance BOOLEAN) AS $$
+DECLARE
+    plan RECORD;
+    current_time_ms BIGINT;
+    i INTEGER;
+BEGIN
+    IF reason IS NULL OR LENGTH(TRIM(reason)) = 0 THEN
+        RAISE EXCEPTION 'Distribution reason is required';
+    END IF;
+    IF COALESCE(array_length(transaction_ids, 1), 0) <> COALESCE(array_length(recipient_wallet_ids, 1), 0) THEN
+        RAISE EXCEPTION 'One transaction ID is required per recipient';
+    END IF;
+
+    -- Lock the system wallet first so the balance used for the plan cannot change underneath us
+    PERFORM 1
+    FROM system_accounts s
+    JOIN wallets w ON w.id = s.wallet_id
+    WHERE s.name = account_name
+    FOR UPDATE OF w;
+
+    SELECT * INTO plan FROM plan_distribution(account_name, recipient_wallet_ids, amounts);
+
+    -- The audit entry is written first so the transactions below can reference it
+    current_time_ms := append_audit_log(
+        audit_uuid, actor_uuid, 'distribution', plan.system_wallet_id, reason,
+        jsonb_build_object(
+            'system_account', account_name,
+            'recipient_count', array_length(recipient_wallet_ids, 1),
+            'total_amount', plan.total_amount,
+            'issued_amount', plan.required_issuance,
+            'issuance_transaction_id',
+                CASE WHEN plan.required_issuance > 0 THEN issuance_transaction_id END
+        )
+    );
+
+    -- Auto-issuance: self-transfer of exactly the missing amount (metadata only; the memo
+    -- is addressed to recipients)
+    IF plan.required_issuance > 0 THEN
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, audit_log_id, metadata)
+        VALUES (issuance_transaction_id, plan.system_wallet_id, plan.system_wallet_id,
+                plan.required_issuance, 2, current_time_ms, audit_uuid,
+                COALESCE(distribution_metadata, '{}'::JSONB));
+
+        RETURN QUERY SELECT issuance_transaction_id, plan.system_wallet_id, plan.required_issuance, TRUE;
+    END IF;
+
+    FOR i IN 1 .. array_length(recipient_wallet_ids, 1) LOOP
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, audit_log_id, memo, metadata)
+        VALUES (transaction_ids[i], plan.system_wallet_id, recipient_wallet_ids[i], amounts[i],
+                3, current_time_ms, audit_uuid, distribution_memo,
+                COALESCE(distribution_metadata, '{}'::JSONB));
+
+        RETURN QUERY SELECT transaction_ids[i], recipient_wallet_ids[i], amounts[i], FALSE;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT, UUID, UUID, TEXT, JSONB) IS 'UC-2 batch distribution: issues exactly the shortfall (ISSUANCE), then inserts one DISTRIBUTION per recipient carrying the memo/metadata. All-or-nothing; records one audit entry that every created transaction references. Returns the created transactions (issuance first, if any).';
+
+-- History with memo/metadata and a metadata containment filter
+DROP FUNCTION list_wallet_transactions(UUID, INTEGER, BIGINT, UUID, VARCHAR, INTEGER, BIGINT, BIGINT, UUID);
+
+CREATE OR REPLACE FUNCTION list_wallet_transactions(
+    wallet_uuid UUID,
+    page_size INTEGER DEFAULT 50,
+    cursor_created_at BIGINT DEFAULT NULL,
+    cursor_id UUID DEFAULT NULL,
+    filter_direction VARCHAR DEFAULT NULL,
+    filter_transaction_type INTEGER DEFAULT NULL,
+    filter_created_from BIGINT DEFAULT NULL,
+    filter_created_to BIGINT DEFAULT NULL,
+    filter_counterparty_wallet UUID DEFAULT NULL,
+    filter_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE(
+    id UUID,
+    from_wallet_id UUID,
+    to_wallet_id UUID,
+    amount BIGINT,
+    transaction_type INTEGER,
+    created_at BIGINT,
+    reverses_transaction_id UUID,
+    memo TEXT,
+    metadata JSONB,
+    reversed_amount BIGINT,
+    direction VARCHAR,
+    counterparty_wallet_id UUID,
+    counterparty_type TEXT,
+    counterparty_name VARCHAR
+) AS $$
+    SELECT
+        s.id, s.from_wallet_id, s.to_wallet_id, s.amount, s.transaction_type, s.created_at,
+        s.reverses_transaction_id, s.memo, s.metadata,
+        (SELECT COALESCE(SUM(r.amount), 0)::BIGINT
+         FROM transactions r
+         WHERE r.reverses_transaction_id = s.id),
+        s.direction, s.counterparty_wallet_id, o.owner_type, o.owner_name
+    FROM (
+        (
+            SELECT t.*, 'sent'::VARCHAR AS direction, t.to_wallet_id AS counterparty_wallet_id
+            FROM transactions t
+            WHERE t.from_wallet_id = wallet_uuid
+              AND t.to_wallet_id <> wallet_uuid
+              AND (filter_direction IS NULL OR filter_direction = 'sent')
+              AND (filter_counterparty_wallet IS NULL OR t.to_wallet_id = filter_counterparty_wallet)
+              AND (filter_transaction_type IS NULL OR t.transaction_type = filter_transaction_type)
+              AND (filter_created_from IS NULL OR t.created_at >= filter_created_from)
+              AND (filter_created_to IS NULL OR t.created_at < filter_created_to)
+              AND (filter_metadata IS NULL OR t.metadata @> filter_metadata)
+              AND (cursor_created_at IS NULL OR (t.created_at, t.id) < (cursor_created_at, cursor_id))
+            ORDER BY t.created_at DESC, t.id DESC
+            LIMIT page_size
+        )
+        UNION ALL
+        (
+            SELECT t.*, 'received'::VARCHAR AS direction, t.from_wallet_id AS counterparty_wallet_id
+            FROM transactions t
+            WHERE t.to_wallet_id = wallet_uuid
+              AND (filter_direction IS NULL OR filter_direction = 'received')
+              AND (filter_counterparty_wallet IS NULL OR t.from_wallet_id = filter_counterparty_wallet)
+              AND (filter_transaction_type IS NULL OR t.transaction_type = filter_transaction_type)
+              AND (filter_created_from IS NULL OR t.created_at >= filter_created_from)
+              AND (filter_created_to IS NULL OR t.created_at < filter_created_to)
+              AND (filter_metadata IS NULL OR t.metadata @> filter_metadata)
+              AND (cursor_created_at IS NULL OR (t.created_at, t.id) < (cursor_created_at, cursor_id))
+            ORDER BY t.created_at DESC, t.id DESC
+            LIMIT page_size
+        )
+    ) s
+    LEFT JOIN wallet_owners o ON o.wallet_id = s.counterparty_wallet_id
+    ORDER BY s.created_at DESC, s.id DESC
+    LIMIT page_size;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION list_wallet_transactions(UUID, INTEGER, BIGINT, UUID, VARCHAR, INTEGER, BIGINT, BIGINT, UUID, JSONB) IS 'Transaction history of one wallet, newest first, keyset-paginated on (created_at, id). Counterparty name/type come from wallet_owners (NULL for soft-deleted users). Reversals carry reverses_transaction_id; originals carry the total reversed so far. filter_metadata matches by containment.';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- The new signatures trust user_uuid / actor_uuid like the ones they replace
+REVOKE EXECUTE ON FUNCTION create_transfer(UUID, VARCHAR, UUID, UUID, BIGINT, TEXT, JSONB)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT, UUID, UUID, TEXT, JSONB)
+    FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION create_transfer(UUID, VARCHAR, UUID, UUID, BIGINT, TEXT, JSONB)
+    TO service_role;
+GRANT EXECUTE ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT, UUID, UUID, TEXT, JSONB)
+    TO service_role;
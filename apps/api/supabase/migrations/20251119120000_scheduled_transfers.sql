@@ -0,0 +1,339 @@
+-- Scheduled and Recurring Transfers
+-- Description: One-off future transfers and daily/weekly/monthly recurring transfers, plus an
+--              executor that materializes each due occurrence into transactions exactly once
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE scheduled_transfers (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL,
+    from_wallet_id UUID NOT NULL,
+    to_wallet_id UUID NOT NULL,
+    amount BIGINT NOT NULL,
+    memo TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}'::JSONB,
+    recurrence VARCHAR(16) NOT NULL,
+    starts_at BIGINT NOT NULL,
+    ends_at BIGINT,
+    max_runs INTEGER,
+    status VARCHAR(16) NOT NULL DEFAULT 'active',
+    next_run_at BIGINT,
+    run_count INTEGER NOT NULL DEFAULT 0,
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    last_run_at BIGINT,
+    last_error TEXT,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+
+    CONSTRAINT amount_positive CHECK (amount > 0),
+    CONSTRAINT not_self_transfer CHECK (from_wallet_id <> to_wallet_id),
+    CONSTRAINT recurrence_valid CHECK (recurrence IN ('once', 'daily', 'weekly', 'monthly')),
+    CONSTRAINT status_valid CHECK (status IN ('active', 'completed', 'failed', 'cancelled')),
+    CONSTRAINT starts_at_positive CHECK (starts_at > 0),
+    CONSTRAINT ends_after_start CHECK (ends_at IS NULL OR ends_at >= starts_at),
+    CONSTRAINT max_runs_positive CHECK (max_runs IS NULL OR max_runs > 0),
+    CONSTRAINT once_has_no_end CHECK (recurrence <> 'once' OR (ends_at IS NULL AND max_runs IS NULL)),
+    CONSTRAINT next_run_when_active CHECK ((status = 'active') = (next_run_at IS NOT NULL)),
+    CONSTRAINT run_counts_valid CHECK (run_count >= 0 AND failure_count BETWEEN 0 AND run_count),
+    CONSTRAINT memo_length CHECK (memo IS NULL OR LENGTH(memo) BETWEEN 1 AND 280),
+    CONSTRAINT memo_no_control_chars CHECK (memo IS NULL OR memo !~ '[[:cntrl:]]'),
+    CONSTRAINT metadata_is_object CHECK (jsonb_typeof(metadata) = 'object'),
+    CONSTRAINT metadata_size CHECK (octet_length(metadata::TEXT) <= 4096),
+    CONSTRAINT created_at_positive CHECK (created_at > 0),
+    CONSTRAINT fk_user FOREIGN KEY (user_id)
+        REFERENCES users(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_from_wallet FOREIGN KEY (from_wallet_id)
+        REFERENCES wallets(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_to_wallet FOREIGN KEY (to_wallet_id)
+        REFERENCES wallets(id) ON DELETE RESTRICT
+);
+
+-- Executor scan: active entries by due time
+CREATE INDEX idx_scheduled_transfers_due ON scheduled_transfers(next_run_at) WHERE status = 'active';
+-- Per-user listing (keyset on created_at, id)
+CREATE INDEX idx_scheduled_transfers_user ON scheduled_transfers(user_id, created_at DESC, id DESC);
+
+CREATE TRIGGER update_scheduled_transfers_updated_at
+    BEFORE UPDATE ON scheduled_transfers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_unix();
+
+COMMENT ON TABLE scheduled_transfers IS 'User-defined future (once) or recurring (daily/weekly/monthly) transfers, executed by execute_scheduled_transfer()';
+COMMENT ON COLUMN scheduled_transfers.id IS 'Primary key (UUID v4)';
+COMMENT ON COLUMN scheduled_transfers.user_id IS 'User who owns the schedule (the sender)';
+COMMENT ON COLUMN scheduled_transfers.from_wallet_id IS 'Sender wallet (the owner''s wallet at creation)';
+COMMENT ON COLUMN scheduled_transfers.to_wallet_id IS 'Recipient wallet';
+COMMENT ON COLUMN scheduled_transfers.amount IS 'Amount transferred by each occurrence';
+COMMENT ON COLUMN scheduled_transfers.memo IS 'Memo copied onto every created transaction';
+COMMENT ON COLUMN scheduled_transfers.metadata IS 'Metadata copied onto every created transaction';
+COMMENT ON COLUMN scheduled_transfers.recurrence IS 'once | daily | weekly | monthly (occurrences are computed from starts_at, see scheduled_occurrence_at())';
+COMMENT ON COLUMN scheduled_transfers.starts_at IS 'First occurrence (Unix ms)';
+COMMENT ON COLUMN scheduled_transfers.ends_at IS 'No occurrence after this time (Unix ms, inclusive); recurring only';
+COMMENT ON COLUMN scheduled_transfers.max_runs IS 'Maximum number of occurrences; recurring only';
+COMMENT ON COLUMN scheduled_transfers.status IS 'active | completed (no occurrences left) | failed (one-off transfer failed) | cancelled';
+COMMENT ON COLUMN scheduled_transfers.next_run_at IS 'Due time of the next occurrence (Unix ms); NULL unless active';
+COMMENT ON COLUMN scheduled_transfers.run_count IS 'Occurrences processed so far, successful or not';
+COMMENT ON COLUMN scheduled_transfers.failure_count IS 'Occurrences that failed (e.g. insufficient balance, frozen wallet)';
+COMMENT ON COLUMN scheduled_transfers.last_run_at IS 'When the most recent occurrence was processed (Unix ms)';
+COMMENT ON COLUMN scheduled_transfers.last_error IS 'Failure message of the most recent occurrence; NULL if it succeeded';
+COMMENT ON COLUMN scheduled_transfers.created_at IS 'Unix timestamp in milliseconds';
+COMMENT ON COLUMN scheduled_transfers.updated_at IS 'Unix timestamp in milliseconds';
+
+CREATE TABLE scheduled_transfer_runs (
+    id UUID PRIMARY KEY,
+    scheduled_transfer_id UUID NOT NULL,
+    occurrence INTEGER NOT NULL,
+    scheduled_for BIGINT NOT NULL,
+    transaction_id UUID,
+    error TEXT,
+    executed_at BIGINT NOT NULL,
+
+    -- Each occurrence is materialized at most once
+    CONSTRAINT unique_occurrence UNIQUE (scheduled_transfer_id, occurrence),
+    CONSTRAINT outcome_exclusive CHECK ((transaction_id IS NULL) <> (error IS NULL)),
+    CONSTRAINT occurrence_non_negative CHECK (occurrence >= 0),
+    CONSTRAINT fk_scheduled_transfer FOREIGN KEY (scheduled_transfer_id)
+        REFERENCES scheduled_transfers(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_transaction FOREIGN KEY (transaction_id)
+        REFERENCES transactions(id) ON DELETE RESTRICT
+);
+
+COMMENT ON TABLE scheduled_transfer_runs IS 'Outcome of every processed occurrence of a scheduled transfer: the created transaction, or the failure';
+COMMENT ON COLUMN scheduled_transfer_runs.id IS 'Primary key (UUID v4)';
+COMMENT ON COLUMN scheduled_transfer_runs.scheduled_transfer_id IS 'Schedule this occurrence belongs to';
+COMMENT ON COLUMN scheduled_transfer_runs.occurrence IS 'Zero-based occurrence index (unique per schedule)';
+COMMENT ON COLUMN scheduled_transfer_runs.scheduled_for IS 'Due time of the occurrence (Unix ms)';
+COMMENT ON COLUMN scheduled_transfer_runs.transaction_id IS 'Created transaction; NULL if the occurrence failed';
+COMMENT ON COLUMN scheduled_transfer_runs.error IS 'Failure message; NULL if the occurrence succeeded';
+COMMENT ON COLUMN scheduled_transfer_runs.executed_at IS 'Unix timestamp in milliseconds';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Due time of the n-th occurrence (0-based) of a schedule
+CREATE OR REPLACE FUNCTION scheduled_occurrence_at(
+    starts_at BIGINT,
+    recurrence VARCHAR,
+    occurrence INTEGER
+)
+RETURNS BIGINT AS $$
+    SELECT CASE recurrence
+        WHEN 'once' THEN CASE WHEN occurrence = 0 THEN starts_at END
+        WHEN 'daily' THEN starts_at + occurrence * 86400000::BIGINT
+        WHEN 'weekly' THEN starts_at + occurrence * 604800000::BIGINT
+        -- Calendar months in UTC, always counted from starts_at so a schedule starting on
+        -- the 31st runs on the last day of shorter months without drifting afterwards
+        WHEN 'monthly' THEN (EXTRACT(EPOCH FROM (
+            (to_timestamp(starts_at / 1000.0) AT TIME ZONE 'UTC') + make_interval(months => occurrence)
+        ) AT TIME ZONE 'UTC') * 1000)::BIGINT
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION scheduled_occurrence_at(BIGINT, VARCHAR, INTEGER) IS 'Due time (Unix ms) of the n-th (0-based) occurrence of a schedule; NULL when a one-off schedule has no such occurrence.';
+
+-- Create a scheduled transfer from the user's own wallet
+CREATE OR REPLACE FUNCTION create_scheduled_transfer(
+    schedule_uuid UUID,
+    user_uuid UUID,
+    recipient_wallet_uuid UUID,
+    transfer_amount BIGINT,
+    schedule_recurrence VARCHAR,
+    schedule_starts_at BIGINT,
+    schedule_ends_at BIGINT DEFAULT NULL,
+    schedule_max_runs INTEGER DEFAULT NULL,
+    transfer_memo TEXT DEFAULT NULL,
+    transfer_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS BIGINT AS $$
+DECLARE
+    sender_wallet_uuid UUID;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT u.wallet_id INTO sender_wallet_uuid
+    FROM users u
+    WHERE u.id = user_uuid AND u.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender user not found';
+    END IF;
+
+    PERFORM 1 FROM wallet_owners o WHERE o.wallet_id = recipient_wallet_uuid;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recipient wallet not found';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    INSERT INTO scheduled_transfers (
+        id, user_id, from_wallet_id, to_wallet_id, amount, memo, metadata, recurrence,
+        starts_at, ends_at, max_runs, next_run_at, created_at, updated_at
+    )
+    VALUES (
+        schedule_uuid, user_uuid, sender_wallet_uuid, recipient_wallet_uuid, transfer_amount,
+        transfer_memo, COALESCE(transfer_metadata, '{}'::JSONB), schedule_recurrence,
+        schedule_starts_at, schedule_ends_at, schedule_max_runs, schedule_starts_at,
+        current_time_ms, current_time_ms
+    );
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION create_scheduled_transfer(UUID, UUID, UUID, BIGINT, VARCHAR, BIGINT, BIGINT, INTEGER, TEXT, JSONB) IS 'Schedules a one-off or recurring transfer from the user''s wallet to an active wallet. Balance and frozen state are checked when each occurrence runs, not here. Returns created_at (Unix ms).';
+
+-- Cancel an active scheduled transfer owned by the user
+CREATE OR REPLACE FUNCTION cancel_scheduled_transfer(
+    schedule_uuid UUID,
+    user_uuid UUID
+)
+RETURNS BIGINT AS $$
+DECLARE
+    current_status VARCHAR;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT s.status INTO current_status
+    FROM scheduled_transfers s
+    WHERE s.id = schedule_uuid AND s.user_id = user_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Scheduled transfer not found';
+    END IF;
+    IF current_status <> 'active' THEN
+        RAISE EXCEPTION 'Scheduled transfer is not active: %', current_status;
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    UPDATE scheduled_transfers
+    SET status = 'cancelled', next_run_at = NULL
+    WHERE id = schedule_uuid;
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION cancel_scheduled_transfer(UUID, UUID) IS 'Cancels an active scheduled transfer of the given user; occurrences already executed are unaffected. Returns the cancellation time (Unix ms).';
+
+-- Execute the next due occurrence of one schedule
+CREATE OR REPLACE FUNCTION execute_scheduled_transfer(
+    schedule_uuid UUID,
+    as_of BIGINT,
+    run_uuid UUID,
+    transaction_uuid UUID
+)
+RETURNS TABLE(
+    outcome VARCHAR,
+    transaction_id UUID,
+    error TEXT,
+    next_run_at BIGINT,
+    status VARCHAR
+) AS $$
+DECLARE
+    schedule RECORD;
+    recipient_owner_type TEXT;
+    run_error TEXT;
+    next_at BIGINT;
+    new_status VARCHAR;
+    current_time_ms BIGINT;
+BEGIN
+    -- The row lock serializes concurrent executors; the loser sees the advanced next_run_at
+    SELECT * INTO schedule
+    FROM scheduled_transfers s
+    WHERE s.id = schedule_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Scheduled transfer not found';
+    END IF;
+
+    IF schedule.status <> 'active' OR schedule.next_run_at > as_of THEN
+        RETURN QUERY SELECT 'skipped'::VARCHAR, NULL::UUID, NULL::TEXT,
+            schedule.next_run_at, schedule.status;
+        RETURN;
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Business rejections (deleted sender, inactive recipient, insufficient balance, frozen
+    -- wallet) are recorded on the run; anything else aborts the whole call
+    BEGIN
+        PERFORM 1 FROM users u WHERE u.id = schedule.user_id AND u.deleted_at IS NULL;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Sender user not found';
+        END IF;
+
+        SELECT o.owner_type INTO recipient_owner_type
+        FROM wallet_owners o
+        WHERE o.wallet_id = schedule.to_wallet_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Recipient wallet not found';
+        END IF;
+
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+        VALUES (transaction_uuid, schedule.from_wallet_id, schedule.to_wallet_id, schedule.amount,
+                CASE WHEN recipient_owner_type = 'system_account' THEN 5 ELSE 4 END,
+                current_time_ms, schedule.memo, schedule.metadata);
+    EXCEPTION
+        WHEN raise_exception THEN
+            run_error := SQLERRM;
+    END;
+
+    INSERT INTO scheduled_transfer_runs (id, scheduled_transfer_id, occurrence, scheduled_for, transaction_id, error, executed_at)
+    VALUES (run_uuid, schedule.id, schedule.run_count, schedule.next_run_at,
+            CASE WHEN run_error IS NULL THEN transaction_uuid END, run_error, current_time_ms);
+
+    next_at := scheduled_occurrence_at(schedule.starts_at, schedule.recurrence, schedule.run_count + 1);
+    IF next_at IS NULL
+        OR (schedule.ends_at IS NOT NULL AND next_at > schedule.ends_at)
+        OR (schedule.max_runs IS NOT NULL AND schedule.run_count + 1 >= schedule.max_runs) THEN
+        next_at := NULL;
+        new_status := CASE
+            WHEN schedule.recurrence = 'once' AND run_error IS NOT NULL THEN 'failed'
+            ELSE 'completed'
+        END;
+    ELSE
+        new_status := 'active';
+    END IF;
+
+    UPDATE scheduled_transfers s
+    SET run_count = s.run_count + 1,
+        failure_count = s.failure_count + CASE WHEN run_error IS NULL THEN 0 ELSE 1 END,
+        next_run_at = next_at,
+        status = new_status,
+        last_run_at = current_time_ms,
+        last_error = run_error
+    WHERE s.id = schedule.id;
+
+    RETURN QUERY SELECT
+        (CASE WHEN run_error IS NULL THEN 'executed' ELSE 'failed' END)::VARCHAR,
+        CASE WHEN run_error IS NULL THEN transaction_uuid END,
+        run_error,
+        next_at,
+        new_status;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION execute_scheduled_transfer(UUID, BIGINT, UUID, UUID) IS 'Processes the next occurrence of a schedule if it is due at as_of (Unix ms): creates the transfer or records why it failed, then advances the schedule. Each occurrence is processed exactly once; returns outcome executed | failed | skipped (not due, or not active).';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- Schedules are managed through the API and run by the executor job
+ALTER TABLE scheduled_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_transfer_runs ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION create_scheduled_transfer(UUID, UUID, UUID, BIGINT, VARCHAR, BIGINT, BIGINT, INTEGER, TEXT, JSONB)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_scheduled_transfer(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION execute_scheduled_transfer(UUID, BIGINT, UUID, UUID)
+    FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION create_scheduled_transfer(UUID, UUID, UUID, BIGINT, VARCHAR, BIGINT, BIGINT, INTEGER, TEXT, JSONB)
+    TO service_role;
+GRANT EXECUTE ON FUNCTION cancel_scheduled_transfer(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION execute_scheduled_transfer(UUID, BIGINT, UUID, UUID) TO service_role;
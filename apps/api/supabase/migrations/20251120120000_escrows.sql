@@ -0,0 +1,354 @@
+-- Escrow Holds
+-- Description: Conditional transfers. The sender locks tokens in the escrow system account's
+--              wallet; the sender later releases them to the beneficiary, or they are refunded
+--              (by the beneficiary at any time, or once the escrow expires). Held tokens stay
+--              inside a system wallet, so Issuance = Circulating + Pool keeps holding.
+
+-- =============================================================================
+-- SYSTEM ACCOUNT
+-- =============================================================================
+
+DO $$
+DECLARE
+    wallet_uuid UUID := gen_random_uuid();
+    now_ms BIGINT := current_unix_ms();
+BEGIN
+    INSERT INTO wallets (id, balance, is_frozen, created_at, updated_at)
+    VALUES (wallet_uuid, 0, FALSE, now_ms, now_ms);
+
+    INSERT INTO system_accounts (id, wallet_id, name, created_at, updated_at)
+    VALUES (gen_random_uuid(), wallet_uuid, 'system_account_escrow', now_ms, now_ms);
+END;
+$$;
+
+-- =============================================================================
+-- TRANSACTION TYPES
+-- =============================================================================
+
+INSERT INTO transaction_types (code, name, label, from_owner_types, to_owner_types, self_transfer) VALUES
+    (7, 'ESCROW_HOLD', 'Escrow hold', ARRAY['user'], ARRAY['system_account'], 'forbidden'),
+    (8, 'ESCROW_RELEASE', 'Escrow release', ARRAY['system_account'], ARRAY['user'], 'forbidden'),
+    (9, 'ESCROW_REFUND', 'Escrow refund', ARRAY['system_account'], ARRAY['user'], 'forbidden');
+
+COMMENT ON COLUMN transactions.transaction_type IS 'Transaction type code, registered in transaction_types (1=TRANSFER legacy, 2=ISSUANCE, 3=DISTRIBUTION, 4=P2P, 5=POOL_FEE, 6=REVERSAL, 7=ESCROW_HOLD, 8=ESCROW_RELEASE, 9=ESCROW_REFUND)';
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE escrows (
+    id UUID PRIMARY KEY,
+    sender_user_id UUID NOT NULL,
+    sender_wallet_id UUID NOT NULL,
+    beneficiary_wallet_id UUID NOT NULL,
+    amount BIGINT NOT NULL,
+    memo TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}'::JSONB,
+    status VARCHAR(16) NOT NULL DEFAULT 'held',
+    expires_at BIGINT NOT NULL,
+    hold_transaction_id UUID NOT NULL UNIQUE,
+    settlement_transaction_id UUID UNIQUE,
+    settled_by_user_id UUID,
+    settled_at BIGINT,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+
+    CONSTRAINT amount_positive CHECK (amount > 0),
+    CONSTRAINT not_self_escrow CHECK (sender_wallet_id <> beneficiary_wallet_id),
+    CONSTRAINT status_valid CHECK (status IN ('held', 'released', 'refunded')),
+    CONSTRAINT expires_after_created CHECK (expires_at > created_at),
+    CONSTRAINT settlement_when_settled CHECK (
+        (status = 'held') = (settlement_transaction_id IS NULL)
+        AND (status = 'held') = (settled_at IS NULL)
+    ),
+    CONSTRAINT memo_length CHECK (memo IS NULL OR LENGTH(memo) BETWEEN 1 AND 280),
+    CONSTRAINT memo_no_control_chars CHECK (memo IS NULL OR memo !~ '[[:cntrl:]]'),
+    CONSTRAINT metadata_is_object CHECK (jsonb_typeof(metadata) = 'object'),
+    CONSTRAINT metadata_size CHECK (octet_length(metadata::TEXT) <= 4096),
+    CONSTRAINT created_at_positive CHECK (created_at > 0),
+    CONSTRAINT fk_sender_user FOREIGN KEY (sender_user_id)
+        REFERENCES users(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_sender_wallet FOREIGN KEY (sender_wallet_id)
+        REFERENCES wallets(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_beneficiary_wallet FOREIGN KEY (beneficiary_wallet_id)
+        REFERENCES wallets(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_hold_transaction FOREIGN KEY (hold_transaction_id)
+        REFERENCES transactions(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_settlement_transaction FOREIGN KEY (settlement_transaction_id)
+        REFERENCES transactions(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_settled_by FOREIGN KEY (settled_by_user_id)
+        REFERENCES users(id) ON DELETE RESTRICT
+);
+
+-- Expiry job scan
+CREATE INDEX idx_escrows_expiring ON escrows(expires_at) WHERE status = 'held';
+-- Per-participant listings (keyset on created_at, id)
+CREATE INDEX idx_escrows_sender ON escrows(sender_user_id, created_at DESC, id DESC);
+CREATE INDEX idx_escrows_beneficiary ON escrows(beneficiary_wallet_id, created_at DESC, id DESC);
+
+CREATE TRIGGER update_escrows_updated_at
+    BEFORE UPDATE ON escrows
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_unix();
+
+COMMENT ON TABLE escrows IS 'Tokens held in the system_account_escrow wallet until released to the beneficiary or refunded to the sender';
+COMMENT ON COLUMN escrows.id IS 'Primary key (UUID v4)';
+COMMENT ON COLUMN escrows.sender_user_id IS 'User who locked the tokens';
+COMMENT ON COLUMN escrows.sender_wallet_id IS 'Wallet the tokens came from (refunds go back here)';
+COMMENT ON COLUMN escrows.beneficiary_wallet_id IS 'User wallet receiving the tokens on release';
+COMMENT ON COLUMN escrows.amount IS 'Held amount';
+COMMENT ON COLUMN escrows.memo IS 'Memo copied onto the hold and settlement transactions';
+COMMENT ON COLUMN escrows.metadata IS 'Metadata copied onto the hold and settlement transactions';
+COMMENT ON COLUMN escrows.status IS 'held | released (to the beneficiary) | refunded (to the sender)';
+COMMENT ON COLUMN escrows.expires_at IS 'From this time (Unix ms) the escrow can no longer be released and is refunded';
+COMMENT ON COLUMN escrows.hold_transaction_id IS 'ESCROW_HOLD transaction (sender -> escrow wallet)';
+COMMENT ON COLUMN escrows.settlement_transaction_id IS 'ESCROW_RELEASE or ESCROW_REFUND transaction; NULL while held';
+COMMENT ON COLUMN escrows.settled_by_user_id IS 'User who released or refunded; NULL for automatic expiry refunds';
+COMMENT ON COLUMN escrows.settled_at IS 'Unix timestamp in milliseconds; NULL while held';
+COMMENT ON COLUMN escrows.created_at IS 'Unix timestamp in milliseconds';
+COMMENT ON COLUMN escrows.updated_at IS 'Unix timestamp in milliseconds';
+
+-- =============================================================================
+-- TRIGGER FUNCTIONS
+-- =============================================================================
+
+-- Keeps the escrow wallet balance equal to the sum of held escrows: only escrow
+-- transactions touch it, in the right direction
+CREATE OR REPLACE FUNCTION validate_escrow_wallet_usage()
+RETURNS TRIGGER AS $$
+DECLARE
+    escrow_wallet UUID;
+BEGIN
+    SELECT s.wallet_id INTO escrow_wallet
+    FROM system_accounts s
+    WHERE s.name = 'system_account_escrow';
+
+    IF (NEW.transaction_type = 7 AND NEW.to_wallet_id IS DISTINCT FROM escrow_wallet)
+        OR (NEW.transaction_type IN (8, 9) AND NEW.from_wallet_id IS DISTINCT FROM escrow_wallet)
+        OR (NEW.transaction_type NOT IN (7, 8, 9)
+            AND escrow_wallet IN (NEW.from_wallet_id, NEW.to_wallet_id)) THEN
+        RAISE EXCEPTION 'Escrow wallet can only be used by escrow transactions';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION validate_escrow_wallet_usage() IS 'Rejects transactions that would move tokens into or out of the escrow wallet outside ESCROW_HOLD (into it) and ESCROW_RELEASE / ESCROW_REFUND (out of it).';
+
+CREATE TRIGGER check_escrow_wallet_usage
+    BEFORE INSERT ON transactions
+    FOR EACH ROW EXECUTE FUNCTION validate_escrow_wallet_usage();
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Lock tokens from the user's wallet into a new escrow
+CREATE OR REPLACE FUNCTION create_escrow(
+    escrow_uuid UUID,
+    user_uuid UUID,
+    beneficiary_wallet_uuid UUID,
+    escrow_amount BIGINT,
+    escrow_expires_at BIGINT,
+    hold_transaction_uuid UUID,
+    escrow_memo TEXT DEFAULT NULL,
+    escrow_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS BIGINT AS $$
+DECLARE
+    sender_wallet_uuid UUID;
+    escrow_wallet UUID;
+    beneficiary_frozen BOOLEAN;
+    current_time_ms BIGINT;
+BEGIN
+    escrow_metadata := COALESCE(escrow_metadata, '{}'::JSONB);
+
+    SELECT u.wallet_id INTO sender_wallet_uuid
+    FROM users u
+    WHERE u.id = user_uuid AND u.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender user not found';
+    END IF;
+
+    -- Beneficiaries are active users; a frozen beneficiary could never be paid
+    SELECT w.is_frozen INTO beneficiary_frozen
+    FROM wallet_owners o
+    JOIN wallets w ON w.id = o.wallet_id
+    WHERE o.wallet_id = beneficiary_wallet_uuid AND o.owner_type = 'user';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Beneficiary wallet not found';
+    END IF;
+    IF beneficiary_frozen THEN
+        RAISE EXCEPTION 'Beneficiary wallet is frozen';
+    END IF;
+
+    SELECT s.wallet_id INTO escrow_wallet
+    FROM system_accounts s
+    WHERE s.name = 'system_account_escrow';
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Fires validate_transaction_balance (balance, frozen sender) like any transfer
+    INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+    VALUES (hold_transaction_uuid, sender_wallet_uuid, escrow_wallet, escrow_amount, 7,
+            current_time_ms, escrow_memo, escrow_metadata);
+
+    INSERT INTO escrows (
+        id, sender_user_id, sender_wallet_id, beneficiary_wallet_id, amount, memo, metadata,
+        expires_at, hold_transaction_id, created_at, updated_at
+    )
+    VALUES (
+        escrow_uuid, user_uuid, sender_wallet_uuid, beneficiary_wallet_uuid, escrow_amount,
+        escrow_memo, escrow_metadata, escrow_expires_at, hold_transaction_uuid,
+        current_time_ms, current_time_ms
+    );
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION create_escrow(UUID, UUID, UUID, BIGINT, BIGINT, UUID, TEXT, JSONB) IS 'Moves the amount from the user''s wallet into the escrow wallet (ESCROW_HOLD) and records the escrow for an active, unfrozen user beneficiary. Returns created_at (Unix ms).';
+
+-- Pay a held escrow out to the beneficiary (sender only, before expiry)
+CREATE OR REPLACE FUNCTION release_escrow(
+    escrow_uuid UUID,
+    user_uuid UUID,
+    settlement_transaction_uuid UUID,
+    as_of BIGINT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    escrow RECORD;
+    beneficiary_user UUID;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT * INTO escrow
+    FROM escrows e
+    WHERE e.id = escrow_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Escrow not found';
+    END IF;
+
+    SELECT u.id INTO beneficiary_user FROM users u WHERE u.wallet_id = escrow.beneficiary_wallet_id;
+
+    -- Escrows of other users are reported as missing
+    IF user_uuid NOT IN (escrow.sender_user_id, beneficiary_user) THEN
+        RAISE EXCEPTION 'Escrow not found';
+    END IF;
+    IF user_uuid <> escrow.sender_user_id THEN
+        RAISE EXCEPTION 'Only the sender can release an escrow';
+    END IF;
+    IF escrow.status <> 'held' THEN
+        RAISE EXCEPTION 'Escrow is not held: %', escrow.status;
+    END IF;
+    IF escrow.expires_at <= as_of THEN
+        RAISE EXCEPTION 'Escrow has expired';
+    END IF;
+
+    -- A beneficiary who deleted their account can no longer be paid; the escrow is refunded
+    PERFORM 1 FROM wallet_owners o WHERE o.wallet_id = escrow.beneficiary_wallet_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Beneficiary wallet not found';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Fires validate_transaction_balance (frozen beneficiary) like any transfer
+    INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+    SELECT settlement_transaction_uuid, s.wallet_id, escrow.beneficiary_wallet_id, escrow.amount, 8,
+           current_time_ms, escrow.memo, escrow.metadata
+    FROM system_accounts s
+    WHERE s.name = 'system_account_escrow';
+
+    UPDATE escrows
+    SET status = 'released',
+        settlement_transaction_id = settlement_transaction_uuid,
+        settled_by_user_id = user_uuid,
+        settled_at = current_time_ms
+    WHERE id = escrow_uuid;
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION release_escrow(UUID, UUID, UUID, BIGINT) IS 'Pays a held escrow to its beneficiary (ESCROW_RELEASE). Only the sender may release, and only before expires_at (judged at as_of, Unix ms). Returns settled_at (Unix ms).';
+
+-- Return a held escrow to the sender
+CREATE OR REPLACE FUNCTION refund_escrow(
+    escrow_uuid UUID,
+    user_uuid UUID,
+    settlement_transaction_uuid UUID,
+    as_of BIGINT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    escrow RECORD;
+    beneficiary_user UUID;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT * INTO escrow
+    FROM escrows e
+    WHERE e.id = escrow_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Escrow not found';
+    END IF;
+
+    SELECT u.id INTO beneficiary_user FROM users u WHERE u.wallet_id = escrow.beneficiary_wallet_id;
+
+    -- user_uuid NULL = automatic expiry refund
+    IF user_uuid IS NOT NULL AND user_uuid NOT IN (escrow.sender_user_id, beneficiary_user) THEN
+        RAISE EXCEPTION 'Escrow not found';
+    END IF;
+    IF escrow.status <> 'held' THEN
+        RAISE EXCEPTION 'Escrow is not held: %', escrow.status;
+    END IF;
+    -- The beneficiary may decline at any time; everyone else waits for expiry
+    IF user_uuid IS DISTINCT FROM beneficiary_user AND escrow.expires_at > as_of THEN
+        RAISE EXCEPTION 'Escrow has not expired';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Fires validate_transaction_balance (frozen sender) like any transfer
+    INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+    SELECT settlement_transaction_uuid, s.wallet_id, escrow.sender_wallet_id, escrow.amount, 9,
+           current_time_ms, escrow.memo, escrow.metadata
+    FROM system_accounts s
+    WHERE s.name = 'system_account_escrow';
+
+    UPDATE escrows
+    SET status = 'refunded',
+        settlement_transaction_id = settlement_transaction_uuid,
+        settled_by_user_id = user_uuid,
+        settled_at = current_time_ms
+    WHERE id = escrow_uuid;
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION refund_escrow(UUID, UUID, UUID, BIGINT) IS 'Returns a held escrow to the sender''s wallet (ESCROW_REFUND). The beneficiary may refund at any time; the sender and the expiry job (user_uuid NULL) only once expires_at <= as_of (Unix ms). Returns settled_at (Unix ms).';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- Escrows are managed through the API and expired by the expiry job
+ALTER TABLE escrows ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION create_escrow(UUID, UUID, UUID, BIGINT, BIGINT, UUID, TEXT, JSONB)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_escrow(UUID, UUID, UUID, BIGINT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_escrow(UUID, UUID, UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION create_escrow(UUID, UUID, UUID, BIGINT, BIGINT, UUID, TEXT, JSONB)
+    TO service_role;
+GRANT EXECUTE ON FUNCTION release_escrow(UUID, UUID, UUID, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_escrow(UUID, UUID, UUID, BIGINT) TO service_role;
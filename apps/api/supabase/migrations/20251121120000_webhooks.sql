@@ -0,0 +1,374 @@
+-- Outbound Webhooks
+-- Description: Webhook subscriptions (per system integration or per user) and a transactional
+--              outbox of deliveries written alongside every transactions insert, drained by the
+--              webhook dispatcher with retries and a dead-letter state
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE webhook_subscriptions (
+    id UUID PRIMARY KEY,
+    user_id UUID,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+
+    CONSTRAINT url_format CHECK (url ~ '^https?://' AND LENGTH(url) <= 2048),
+    CONSTRAINT secret_length CHECK (LENGTH(secret) >= 32),
+    CONSTRAINT description_length CHECK (description IS NULL OR LENGTH(description) BETWEEN 1 AND 200),
+    CONSTRAINT created_at_positive CHECK (created_at > 0),
+    CONSTRAINT fk_user FOREIGN KEY (user_id)
+        REFERENCES users(id) ON DELETE RESTRICT
+);
+
+-- Fan-out on every transactions insert: active subscriptions by owner
+CREATE INDEX idx_webhook_subscriptions_user ON webhook_subscriptions(user_id) WHERE is_active;
+
+CREATE TRIGGER update_webhook_subscriptions_updated_at
+    BEFORE UPDATE ON webhook_subscriptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_unix();
+
+COMMENT ON TABLE webhook_subscriptions IS 'Endpoints notified of transaction events: system integrations (user_id NULL, every transaction) or users (transactions touching their wallet)';
+COMMENT ON COLUMN webhook_subscriptions.id IS 'Primary key (UUID v4)';
+COMMENT ON COLUMN webhook_subscriptions.user_id IS 'Owning user; NULL for system integrations managed by admins';
+COMMENT ON COLUMN webhook_subscriptions.url IS 'Endpoint receiving POST requests (http(s) URL)';
+COMMENT ON COLUMN webhook_subscriptions.secret IS 'HMAC-SHA256 signing secret, shown to the owner once at creation';
+COMMENT ON COLUMN webhook_subscriptions.description IS 'Optional label (1-200 chars)';
+COMMENT ON COLUMN webhook_subscriptions.is_active IS 'FALSE once disabled; disabled subscriptions receive no new deliveries';
+COMMENT ON COLUMN webhook_subscriptions.created_at IS 'Unix timestamp in milliseconds';
+COMMENT ON COLUMN webhook_subscriptions.updated_at IS 'Unix timestamp in milliseconds';
+
+CREATE TABLE webhook_deliveries (
+    id UUID PRIMARY KEY,
+    subscription_id UUID NOT NULL,
+    event_type VARCHAR(64) NOT NULL,
+    transaction_id UUID NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending',
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at BIGINT,
+    last_attempt_at BIGINT,
+    last_response_status INTEGER,
+    last_error TEXT,
+    delivered_at BIGINT,
+    created_at BIGINT NOT NULL,
+    updated_at BIGINT NOT NULL,
+
+    -- One delivery per event and subscription; redelivery reuses the row
+    CONSTRAINT unique_delivery UNIQUE (subscription_id, event_type, transaction_id),
+    CONSTRAINT status_valid CHECK (status IN ('pending', 'delivered', 'dead')),
+    CONSTRAINT next_attempt_when_pending CHECK ((status = 'pending') = (next_attempt_at IS NOT NULL)),
+    CONSTRAINT delivered_at_when_delivered CHECK ((status = 'delivered') = (delivered_at IS NOT NULL)),
+    CONSTRAINT attempt_count_non_negative CHECK (attempt_count >= 0),
+    CONSTRAINT payload_is_object CHECK (jsonb_typeof(payload) = 'object'),
+    CONSTRAINT created_at_positive CHECK (created_at > 0),
+    CONSTRAINT fk_subscription FOREIGN KEY (subscription_id)
+        REFERENCES webhook_subscriptions(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_transaction FOREIGN KEY (transaction_id)
+        REFERENCES transactions(id) ON DELETE RESTRICT
+);
+
+-- Dispatcher scan: pending deliveries by due time
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+-- Per-subscription listing (keyset on created_at, id)
+CREATE INDEX idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC, id DESC);
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+    BEFORE UPDATE ON webhook_deliveries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_unix();
+
+COMMENT ON TABLE webhook_deliveries IS 'Transactional outbox: one row per event and subscription, written in the same database transaction as the event';
+COMMENT ON COLUMN webhook_deliveries.id IS 'Primary key (UUID v4); sent as the X-Webhook-Id header so receivers can deduplicate';
+COMMENT ON COLUMN webhook_deliveries.subscription_id IS 'Receiving subscription';
+COMMENT ON COLUMN webhook_deliveries.event_type IS 'Event name (transaction.created)';
+COMMENT ON COLUMN webhook_deliveries.transaction_id IS 'Transaction the event is about';
+COMMENT ON COLUMN webhook_deliveries.payload IS 'Event data, captured when the event occurred';
+COMMENT ON COLUMN webhook_deliveries.status IS 'pending (queued or retrying) | delivered (2xx received) | dead (retries exhausted or subscription disabled)';
+COMMENT ON COLUMN webhook_deliveries.attempt_count IS 'Attempts since the delivery was queued (reset by redelivery)';
+COMMENT ON COLUMN webhook_deliveries.next_attempt_at IS 'When the dispatcher may attempt the delivery next (Unix ms); NULL unless pending';
+COMMENT ON COLUMN webhook_deliveries.last_attempt_at IS 'When the most recent attempt was made (Unix ms)';
+COMMENT ON COLUMN webhook_deliveries.last_response_status IS 'HTTP status of the most recent attempt; NULL if no response was received';
+COMMENT ON COLUMN webhook_deliveries.last_error IS 'Failure of the most recent attempt; NULL if it succeeded';
+COMMENT ON COLUMN webhook_deliveries.delivered_at IS 'When a 2xx response was received (Unix ms)';
+COMMENT ON COLUMN webhook_deliveries.created_at IS 'Unix timestamp in milliseconds';
+COMMENT ON COLUMN webhook_deliveries.updated_at IS 'Unix timestamp in milliseconds';
+
+-- =============================================================================
+-- TRIGGER FUNCTIONS
+-- =============================================================================
+
+-- Queue a transaction.created delivery for every interested active subscription
+CREATE OR REPLACE FUNCTION enqueue_transaction_webhooks()
+RETURNS TRIGGER AS $$
+DECLARE
+    now_ms BIGINT := current_unix_ms();
+BEGIN
+    INSERT INTO webhook_deliveries (
+        id, subscription_id, event_type, transaction_id, payload, next_attempt_at, created_at, updated_at
+    )
+    SELECT
+        gen_random_uuid(), s.id, 'transaction.created', NEW.id,
+        jsonb_build_object(
+            'transaction', jsonb_build_object(
+                'id', NEW.id,
+                'fromWalletId', NEW.from_wallet_id,
+                'toWalletId', NEW.to_wallet_id,
+                'amount', NEW.amount,
+                'transactionType', NEW.transaction_type,
+                'memo', NEW.memo,
+                'metadata', NEW.metadata,
+                'reversesTransactionId', NEW.reverses_transaction_id,
+                'createdAt', NEW.created_at
+            )
+        ),
+        now_ms, now_ms, now_ms
+    FROM webhook_subscriptions s
+    WHERE s.is_active
+        AND (
+            s.user_id IS NULL
+            OR s.user_id IN (
+                SELECT u.id FROM users u
+                WHERE u.wallet_id IN (NEW.from_wallet_id, NEW.to_wallet_id)
+                    AND u.deleted_at IS NULL
+            )
+        );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION enqueue_transaction_webhooks() IS 'Writes the webhook outbox rows for a new transaction: every active system subscription, plus active subscriptions of the (non-deleted) users owning either wallet.';
+
+CREATE TRIGGER enqueue_transaction_webhooks
+    AFTER INSERT ON transactions
+    FOR EACH ROW EXECUTE FUNCTION enqueue_transaction_webhooks();
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Register a webhook endpoint for a user, or for a system integration (user_uuid NULL)
+CREATE OR REPLACE FUNCTION create_webhook_subscription(
+    subscription_uuid UUID,
+    user_uuid UUID,
+    subscription_url TEXT,
+    subscription_secret TEXT,
+    subscription_description TEXT DEFAULT NULL
+)
+RETURNS BIGINT AS $$
+DECLARE
+    now_ms BIGINT := current_unix_ms();
+BEGIN
+    IF user_uuid IS NOT NULL THEN
+        -- Lock the user so concurrent creations cannot both pass the limit check
+        PERFORM 1 FROM users WHERE id = user_uuid AND deleted_at IS NULL FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'User not found';
+        END IF;
+
+        IF (
+            SELECT COUNT(*) FROM webhook_subscriptions
+            WHERE user_id = user_uuid AND is_active
+        ) >= 10 THEN
+            RAISE EXCEPTION 'Webhook subscription limit reached';
+        END IF;
+    END IF;
+
+    INSERT INTO webhook_subscriptions (id, user_id, url, secret, description, created_at, updated_at)
+    VALUES (
+        subscription_uuid, user_uuid, subscription_url, subscription_secret,
+        subscription_description, now_ms, now_ms
+    );
+
+    RETURN now_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION create_webhook_subscription(UUID, UUID, TEXT, TEXT, TEXT) IS 'Registers a webhook endpoint. user_uuid NULL creates a system integration subscription; users may have at most 10 active subscriptions. Returns created_at.';
+
+-- Stop delivering to a subscription; its queued deliveries become dead
+CREATE OR REPLACE FUNCTION disable_webhook_subscription(
+    subscription_uuid UUID,
+    user_uuid UUID
+)
+RETURNS BIGINT AS $$
+DECLARE
+    now_ms BIGINT := current_unix_ms();
+    subscription_active BOOLEAN;
+BEGIN
+    -- user_uuid NULL addresses system integration subscriptions; other owners'
+    -- subscriptions are reported as missing
+    SELECT s.is_active INTO subscription_active
+    FROM webhook_subscriptions s
+    WHERE s.id = subscription_uuid AND s.user_id IS NOT DISTINCT FROM user_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook subscription not found';
+    END IF;
+    IF NOT subscription_active THEN
+        RAISE EXCEPTION 'Webhook subscription is not active';
+    END IF;
+
+    UPDATE webhook_subscriptions SET is_active = FALSE WHERE id = subscription_uuid;
+
+    UPDATE webhook_deliveries
+    SET status = 'dead', next_attempt_at = NULL, last_error = 'Subscription disabled'
+    WHERE subscription_id = subscription_uuid AND status = 'pending';
+
+    RETURN now_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION disable_webhook_subscription(UUID, UUID) IS 'Disables a subscription of the given owner (user_uuid NULL = system integration) and moves its pending deliveries to dead. Returns the disable time.';
+
+-- Lease due deliveries to one dispatcher
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+    as_of BIGINT,
+    batch_size INTEGER,
+    lease_ms BIGINT
+)
+RETURNS TABLE (
+    id UUID,
+    subscription_id UUID,
+    url TEXT,
+    secret TEXT,
+    event_type VARCHAR,
+    transaction_id UUID,
+    payload JSONB,
+    attempt_count INTEGER,
+    created_at BIGINT
+) AS $$
+BEGIN
+    -- Pushing next_attempt_at past the lease hides the rows from overlapping dispatchers;
+    -- if this dispatcher dies mid-batch they become due again when the lease ends
+    RETURN QUERY
+    WITH due AS (
+        SELECT d.id
+        FROM webhook_deliveries d
+        WHERE d.status = 'pending' AND d.next_attempt_at <= as_of
+        ORDER BY d.next_attempt_at, d.id
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    ), leased AS (
+        UPDATE webhook_deliveries d
+        SET next_attempt_at = as_of + lease_ms
+        FROM due
+        WHERE d.id = due.id
+        RETURNING d.id, d.subscription_id, d.event_type, d.transaction_id, d.payload,
+            d.attempt_count, d.created_at
+    )
+    SELECT l.id, l.subscription_id, s.url, s.secret, l.event_type, l.transaction_id, l.payload,
+        l.attempt_count, l.created_at
+    FROM leased l
+    JOIN webhook_subscriptions s ON s.id = l.subscription_id
+    ORDER BY l.created_at, l.id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION claim_webhook_deliveries(BIGINT, INTEGER, BIGINT) IS 'Leases up to batch_size due pending deliveries for lease_ms and returns them with the endpoint URL and signing secret. Delivery is at-least-once: a lease that expires before the attempt is recorded is retried.';
+
+-- Record the outcome of one delivery attempt
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+    delivery_uuid UUID,
+    attempted_at BIGINT,
+    response_status INTEGER,
+    attempt_error TEXT,
+    retry_at BIGINT
+)
+RETURNS VARCHAR AS $$
+DECLARE
+    delivery_status VARCHAR;
+BEGIN
+    UPDATE webhook_deliveries d
+    SET attempt_count = d.attempt_count + 1,
+        last_attempt_at = attempted_at,
+        last_response_status = response_status,
+        last_error = attempt_error,
+        status = CASE
+            WHEN attempt_error IS NULL THEN 'delivered'
+            WHEN retry_at IS NULL THEN 'dead'
+            ELSE 'pending'
+        END,
+        next_attempt_at = CASE WHEN attempt_error IS NULL THEN NULL ELSE retry_at END,
+        delivered_at = CASE WHEN attempt_error IS NULL THEN attempted_at END
+    -- Deliveries disabled while the attempt was in flight stay dead
+    WHERE d.id = delivery_uuid AND d.status = 'pending'
+    RETURNING d.status INTO delivery_status;
+
+    RETURN delivery_status;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION record_webhook_attempt(UUID, BIGINT, INTEGER, TEXT, BIGINT) IS 'Records an attempt of a pending delivery: delivered when attempt_error is NULL, otherwise retried at retry_at, or dead when retry_at is NULL. Returns the new status, or NULL if the delivery was no longer pending.';
+
+-- Queue a delivered or dead delivery again
+CREATE OR REPLACE FUNCTION redeliver_webhook(
+    delivery_uuid UUID,
+    subscription_uuid UUID,
+    user_uuid UUID,
+    as_of BIGINT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    delivery_status VARCHAR;
+    subscription_active BOOLEAN;
+BEGIN
+    -- user_uuid NULL addresses system integration subscriptions
+    SELECT d.status, s.is_active INTO delivery_status, subscription_active
+    FROM webhook_deliveries d
+    JOIN webhook_subscriptions s ON s.id = d.subscription_id
+    WHERE d.id = delivery_uuid
+        AND d.subscription_id = subscription_uuid
+        AND s.user_id IS NOT DISTINCT FROM user_uuid
+    FOR UPDATE OF d;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook delivery not found';
+    END IF;
+    IF NOT subscription_active THEN
+        RAISE EXCEPTION 'Webhook subscription is not active';
+    END IF;
+    IF delivery_status = 'pending' THEN
+        RAISE EXCEPTION 'Webhook delivery is already pending';
+    END IF;
+
+    UPDATE webhook_deliveries
+    SET status = 'pending', attempt_count = 0, next_attempt_at = as_of, delivered_at = NULL
+    WHERE id = delivery_uuid;
+
+    RETURN as_of;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION redeliver_webhook(UUID, UUID, UUID, BIGINT) IS 'Queues a delivered or dead delivery of a subscription of the given owner (user_uuid NULL = system integration) for immediate delivery with a fresh retry budget. The payload is resent unchanged.';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- Subscriptions hold signing secrets; deliveries are claimed by the dispatcher only
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION create_webhook_subscription(UUID, UUID, TEXT, TEXT, TEXT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION disable_webhook_subscription(UUID, UUID)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(BIGINT, INTEGER, BIGINT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_webhook_attempt(UUID, BIGINT, INTEGER, TEXT, BIGINT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redeliver_webhook(UUID, UUID, UUID, BIGINT)
+    FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION create_webhook_subscription(UUID, UUID, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION disable_webhook_subscription(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(BIGINT, INTEGER, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION record_webhook_attempt(UUID, BIGINT, INTEGER, TEXT, BIGINT)
+    TO service_role;
+GRANT EXECUTE ON FUNCTION redeliver_webhook(UUID, UUID, UUID, BIGINT) TO service_role;
@@ -0,0 +1,89 @@
+-- Wallet Event Stream
+-- Description: Wallet activity (transfers and freeze changes) as an ordered event log with the
+--              balance after each event, read by the /v1/users/@me/events SSE stream, and
+--              Realtime change notifications for the underlying tables
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Events of one wallet after a keyset position, oldest first
+--
+-- Both sources are immutable, so an event keeps its position on (created_at, id) forever and
+-- a client can resume from the last event it received. The balance after each event is derived
+-- from the current balance minus the net effect of every later event, read in one snapshot.
+-- Self-transfers (issuance) are reported once, as 'transfer.received'.
+CREATE OR REPLACE FUNCTION list_wallet_events(
+    wallet_uuid UUID,
+    after_created_at BIGINT,
+    after_id UUID,
+    max_rows INTEGER DEFAULT 100
+)
+RETURNS TABLE(
+    event_type VARCHAR,
+    id UUID,
+    created_at BIGINT,
+    counterparty_wallet_id UUID,
+    amount BIGINT,
+    transaction_type INTEGER,
+    memo TEXT,
+    balance BIGINT
+) AS $$
+    WITH events AS (
+        SELECT
+            (CASE WHEN t.to_wallet_id = wallet_uuid THEN 'transfer.received' ELSE 'transfer.sent' END)::VARCHAR AS event_type,
+            t.id,
+            t.created_at,
+            CASE WHEN t.to_wallet_id = wallet_uuid THEN t.from_wallet_id ELSE t.to_wallet_id END AS counterparty_wallet_id,
+            t.amount,
+            t.transaction_type,
+            t.memo,
+            CASE
+                WHEN t.from_wallet_id = t.to_wallet_id THEN 0
+                WHEN t.to_wallet_id = wallet_uuid THEN t.amount
+                ELSE -t.amount
+            END AS net
+        FROM transactions t
+        WHERE (t.from_wallet_id = wallet_uuid OR t.to_wallet_id = wallet_uuid)
+          AND (t.created_at, t.id) > (after_created_at, after_id)
+        UNION ALL
+        SELECT
+            (CASE WHEN f.is_frozen THEN 'wallet.frozen' ELSE 'wallet.unfrozen' END)::VARCHAR,
+            f.id,
+            f.created_at,
+            NULL::UUID,
+            NULL::BIGINT,
+            NULL::INTEGER,
+            NULL::TEXT,
+            0::BIGINT
+        FROM wallet_freeze_events f
+        WHERE f.wallet_id = wallet_uuid
+          AND (f.created_at, f.id) > (after_created_at, after_id)
+    )
+    SELECT
+        e.event_type, e.id, e.created_at, e.counterparty_wallet_id, e.amount,
+        e.transaction_type, e.memo,
+        (w.balance - COALESCE(SUM(e.net) OVER (
+            ORDER BY e.created_at DESC, e.id DESC
+            ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        ), 0))::BIGINT
+    FROM events e
+    JOIN wallets w ON w.id = wallet_uuid
+    ORDER BY e.created_at, e.id
+    LIMIT max_rows;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION list_wallet_events(UUID, BIGINT, UUID, INTEGER) IS 'Transfer and freeze events of one wallet after the (created_at, id) position, oldest first, each with the wallet balance after the event.';
+
+-- =============================================================================
+-- REALTIME
+-- =============================================================================
+
+-- The API subscribes to inserts to wake up open event streams; the streams themselves always
+-- read list_wallet_events(), so a missed notification only delays an event
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE transactions, wallet_freeze_events;
+    END IF;
+END $$;
@@ -0,0 +1,287 @@
+-- Domain Error Codes
+-- Description: Custom SQLSTATEs on the exceptions that enforce ledger rules, so the API can map
+--              them to stable error codes without parsing message text. Messages are unchanged.
+--
+-- SQLSTATE  API code                      Raised when
+-- CT001     INSUFFICIENT_BALANCE          The sender's balance does not cover the amount
+-- CT002     WALLET_FROZEN                 The sender or recipient wallet is frozen
+-- CT003     UNAUTHORIZED_ISSUANCE         A non-system wallet attempts a self-transfer (issuance)
+-- CT004     SENDER_NOT_FOUND              The sending user or wallet does not exist
+-- CT005     RECIPIENT_NOT_FOUND           The recipient wallet does not exist or has no active owner
+-- CT006     RECIPIENT_NOT_ALLOWED         A transfer touches the escrow wallet outside escrow operations
+-- CT007     TRANSACTION_TYPE_NOT_ALLOWED  The transaction type is unknown or forbids the transfer
+-- CT008     SYSTEM_WALLET                 A system wallet would be frozen
+-- CT009     IDEMPOTENCY_KEY_MISMATCH      An idempotency key is reused with different parameters
+-- CT010     IMMUTABLE_RECORD              A transaction or audit entry would be modified or deleted
+--
+-- Keep in sync with SQLSTATE_ERRORS in apps/api/src/lib/errors.ts.
+
+-- =============================================================================
+-- TRIGGER FUNCTIONS
+-- =============================================================================
+
+-- Transaction immutability enforcement
+CREATE OR REPLACE FUNCTION prevent_transaction_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Transactions are immutable and cannot be modified or deleted'
+        USING ERRCODE = 'CT010';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Balance, frozen and issuance checks
+CREATE OR REPLACE FUNCTION validate_transaction_balance()
+RETURNS TRIGGER AS $$
+DECLARE
+    sender_balance BIGINT;
+    sender_frozen BOOLEAN;
+    recipient_frozen BOOLEAN;
+    is_system_wallet BOOLEAN;
+    is_self_transfer BOOLEAN;
+BEGIN
+    -- Check if this is a self-transfer (new issuance)
+    is_self_transfer := (NEW.from_wallet_id = NEW.to_wallet_id);
+
+    -- Lock sender wallet row to prevent race conditions
+    SELECT balance, is_frozen
+    INTO sender_balance, sender_frozen
+    FROM wallets
+    WHERE id = NEW.from_wallet_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender wallet not found'
+            USING ERRCODE = 'CT004';
+    END IF;
+
+    -- Check if sender wallet is frozen (Beyond MVP feature)
+    IF sender_frozen THEN
+        RAISE EXCEPTION 'Sender wallet is frozen'
+            USING ERRCODE = 'CT002';
+    END IF;
+
+    -- New issuance: only system accounts can issue to themselves
+    IF is_self_transfer THEN
+        -- Check if wallet is owned by a system account (reverse lookup)
+        SELECT EXISTS(
+            SELECT 1 FROM system_accounts WHERE wallet_id = NEW.from_wallet_id
+        ) INTO is_system_wallet;
+
+        IF NOT is_system_wallet THEN
+            RAISE EXCEPTION 'Only system account wallets can perform self-transfers (issuance)'
+                USING ERRCODE = 'CT003';
+        END IF;
+        -- No balance check for issuance
+        RETURN NEW;
+    END IF;
+
+    -- Lock recipient wallet to check frozen status (Beyond MVP feature)
+    SELECT is_frozen INTO recipient_frozen
+    FROM wallets
+    WHERE id = NEW.to_wallet_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recipient wallet not found'
+            USING ERRCODE = 'CT005';
+    END IF;
+
+    -- Check if recipient wallet is frozen (Beyond MVP feature)
+    IF recipient_frozen THEN
+        RAISE EXCEPTION 'Recipient wallet is frozen'
+            USING ERRCODE = 'CT002';
+    END IF;
+
+    -- Regular transfer: check sufficient balance
+    IF sender_balance < NEW.amount THEN
+        RAISE EXCEPTION 'Insufficient balance: has %, needs %',
+            sender_balance, NEW.amount
+            USING ERRCODE = 'CT001';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- System wallet protection
+CREATE OR REPLACE FUNCTION prevent_system_wallet_freeze()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_frozen = TRUE THEN
+        -- Check if wallet is owned by a system account (reverse lookup)
+        IF EXISTS (
+            SELECT 1 FROM system_accounts
+            WHERE wallet_id = NEW.id
+        ) THEN
+            RAISE EXCEPTION 'System wallets cannot be frozen'
+                USING ERRCODE = 'CT008';
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Transaction type validation against the registry
+CREATE OR REPLACE FUNCTION validate_transaction_type()
+RETURNS TRIGGER AS $$
+DECLARE
+    type_row transaction_types%ROWTYPE;
+    from_owner TEXT;
+    to_owner TEXT;
+    is_self_transfer BOOLEAN;
+BEGIN
+    SELECT * INTO type_row FROM transaction_types WHERE code = NEW.transaction_type;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown transaction type: %', NEW.transaction_type
+            USING ERRCODE = 'CT007';
+    END IF;
+
+    is_self_transfer := (NEW.from_wallet_id = NEW.to_wallet_id);
+
+    IF type_row.self_transfer = 'required' AND NOT is_self_transfer THEN
+        RAISE EXCEPTION 'Transaction type % must be a self-transfer', type_row.name
+            USING ERRCODE = 'CT007';
+    END IF;
+    IF type_row.self_transfer = 'forbidden' AND is_self_transfer THEN
+        RAISE EXCEPTION 'Transaction type % cannot be a self-transfer', type_row.name
+            USING ERRCODE = 'CT007';
+    END IF;
+
+    from_owner := wallet_owner_type(NEW.from_wallet_id);
+    to_owner := wallet_owner_type(NEW.to_wallet_id);
+
+    IF NOT COALESCE(from_owner = ANY(type_row.from_owner_types), FALSE)
+        OR NOT COALESCE(to_owner = ANY(type_row.to_owner_types), FALSE) THEN
+        RAISE EXCEPTION 'Transaction type % does not allow % -> % transfers',
+            type_row.name, COALESCE(from_owner, 'unowned'), COALESCE(to_owner, 'unowned')
+            USING ERRCODE = 'CT007';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Escrow wallet usage
+CREATE OR REPLACE FUNCTION validate_escrow_wallet_usage()
+RETURNS TRIGGER AS $$
+DECLARE
+    escrow_wallet UUID;
+BEGIN
+    SELECT s.wallet_id INTO escrow_wallet
+    FROM system_accounts s
+    WHERE s.name = 'system_account_escrow';
+
+    IF (NEW.transaction_type = 7 AND NEW.to_wallet_id IS DISTINCT FROM escrow_wallet)
+        OR (NEW.transaction_type IN (8, 9) AND NEW.from_wallet_id IS DISTINCT FROM escrow_wallet)
+        OR (NEW.transaction_type NOT IN (7, 8, 9)
+            AND escrow_wallet IN (NEW.from_wallet_id, NEW.to_wallet_id)) THEN
+        RAISE EXCEPTION 'Escrow wallet can only be used by escrow transactions'
+            USING ERRCODE = 'CT006';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Audit log immutability enforcement
+CREATE OR REPLACE FUNCTION prevent_audit_log_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Audit log entries are immutable and cannot be modified or deleted'
+        USING ERRCODE = 'CT010';
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- User-initiated transfers (signature unchanged)
+CREATE OR REPLACE FUNCTION create_transfer(
+    user_uuid UUID,
+    request_key VARCHAR,
+    transaction_uuid UUID,
+    recipient_wallet_uuid UUID,
+    transfer_amount BIGINT,
+    transfer_memo TEXT DEFAULT NULL,
+    transfer_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE(transaction_id UUID, replayed BOOLEAN) AS $$
+DECLARE
+    sender_wallet_uuid UUID;
+    recipient_owner_type TEXT;
+    existing RECORD;
+    current_time_ms BIGINT;
+BEGIN
+    transfer_metadata := COALESCE(transfer_metadata, '{}'::JSONB);
+
+    SELECT u.wallet_id INTO sender_wallet_uuid
+    FROM users u
+    WHERE u.id = user_uuid AND u.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender user not found'
+            USING ERRCODE = 'CT004';
+    END IF;
+
+    -- Replay: return the original result
+    SELECT k.transaction_id, k.to_wallet_id, k.amount, t.memo, t.metadata INTO existing
+    FROM idempotency_keys k
+    JOIN transactions t ON t.id = k.transaction_id
+    WHERE k.user_id = user_uuid AND k.idempotency_key = request_key;
+
+    IF FOUND THEN
+        IF existing.to_wallet_id <> recipient_wallet_uuid OR existing.amount <> transfer_amount
+            OR existing.memo IS DISTINCT FROM transfer_memo OR existing.metadata <> transfer_metadata THEN
+            RAISE EXCEPTION 'Idempotency key reused with different parameters'
+                USING ERRCODE = 'CT009';
+        END IF;
+        RETURN QUERY SELECT existing.transaction_id, TRUE;
+        RETURN;
+    END IF;
+
+    -- Wallets of soft-deleted users have no active owner and cannot receive transfers
+    SELECT o.owner_type INTO recipient_owner_type
+    FROM wallet_owners o
+    WHERE o.wallet_id = recipient_wallet_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recipient wallet not found'
+            USING ERRCODE = 'CT005';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    BEGIN
+        -- Fires validate_transaction_balance / validate_transaction_type / update_wallet_balances
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+        VALUES (transaction_uuid, sender_wallet_uuid, recipient_wallet_uuid, transfer_amount,
+                CASE WHEN recipient_owner_type = 'system_account' THEN 5 ELSE 4 END,
+                current_time_ms, transfer_memo, transfer_metadata);
+
+        INSERT INTO idempotency_keys (user_id, idempotency_key, transaction_id, to_wallet_id, amount, created_at)
+        VALUES (user_uuid, request_key, transaction_uuid, recipient_wallet_uuid, transfer_amount, current_time_ms);
+    EXCEPTION
+        -- A concurrent request with the same key committed first: undo our transfer, replay theirs
+        WHEN unique_violation THEN
+            SELECT k.transaction_id, k.to_wallet_id, k.amount, t.memo, t.metadata INTO existing
+            FROM idempotency_keys k
+            JOIN transactions t ON t.id = k.transaction_id
+            WHERE k.user_id = user_uuid AND k.idempotency_key = request_key;
+
+            IF NOT FOUND THEN
+                RAISE;
+            END IF;
+            IF existing.to_wallet_id <> recipient_wallet_uuid OR existing.amount <> transfer_amount
+                OR existing.memo IS DISTINCT FROM transfer_memo OR existing.metadata <> transfer_metadata THEN
+                RAISE EXCEPTION 'Idempotency key reused with different parameters'
+                    USING ERRCODE = 'CT009';
+            END IF;
+            RETURN QUERY SELECT existing.transaction_id, TRUE;
+            RETURN;
+    END;
+
+    RETURN QUERY SELECT transaction_uuid, FALSE;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,31 @@
+-- Transaction Totals
+-- Description: Transaction count and volume per transaction type, exported as Prometheus
+--              counters by the API's /metrics endpoint
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Count and volume per registered transaction type (types without transactions report 0)
+--
+-- Transactions are immutable, so both figures only ever grow and can be scraped as counters.
+-- Uses: idx_transactions_transaction_type
+CREATE OR REPLACE FUNCTION get_transaction_totals()
+RETURNS TABLE(
+    transaction_type INTEGER,
+    type_name VARCHAR,
+    transaction_count BIGINT,
+    total_amount BIGINT
+) AS $$
+    SELECT
+        tt.code,
+        tt.name,
+        COUNT(t.id),
+        COALESCE(SUM(t.amount), 0)::BIGINT
+    FROM transaction_types tt
+    LEFT JOIN transactions t ON t.transaction_type = tt.code
+    GROUP BY tt.code, tt.name
+    ORDER BY tt.code;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_transaction_totals() IS 'Transaction count and total amount per transaction type, for monitoring (/metrics).';
@@ -0,0 +1,73 @@
+-- Rate Limits
+-- Description: Shared fixed-window request counters for the API's rate limiting middleware, so
+--              every Edge Function instance enforces the same per-user / per-IP limits
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+-- Counters are disposable: UNLOGGED skips WAL, a crash merely resets the windows
+CREATE UNLOGGED TABLE rate_limit_buckets (
+    key VARCHAR(255) PRIMARY KEY,
+    hits INTEGER NOT NULL,
+    reset_at BIGINT NOT NULL,
+
+    CONSTRAINT hits_positive CHECK (hits > 0),
+    CONSTRAINT reset_at_positive CHECK (reset_at > 0)
+);
+
+-- Pruning of expired windows
+CREATE INDEX idx_rate_limit_buckets_reset_at ON rate_limit_buckets(reset_at);
+
+COMMENT ON TABLE rate_limit_buckets IS 'Request counters of the API rate limiter, one row per limit group and caller';
+COMMENT ON COLUMN rate_limit_buckets.key IS 'Limit group and caller, e.g. transfer:user:<uuid> or read:ip:<address>';
+COMMENT ON COLUMN rate_limit_buckets.hits IS 'Requests counted in the current window';
+COMMENT ON COLUMN rate_limit_buckets.reset_at IS 'End of the current window (Unix timestamp in milliseconds)';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Counts one request against a bucket and returns the window's state
+--
+-- The window starts with the first request after the previous one ended. The upsert locks
+-- the row, so concurrent requests from any instance are counted exactly once each.
+-- About 1% of calls also delete windows that ended more than a minute ago.
+CREATE OR REPLACE FUNCTION hit_rate_limit(bucket_key VARCHAR, window_ms BIGINT)
+RETURNS TABLE(hits INTEGER, reset_at BIGINT) AS $$
+DECLARE
+    current_time_ms BIGINT;
+BEGIN
+    IF window_ms <= 0 THEN
+        RAISE EXCEPTION 'Rate limit window must be positive'
+            USING ERRCODE = '22003';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    IF random() < 0.01 THEN
+        DELETE FROM rate_limit_buckets b WHERE b.reset_at < current_time_ms - 60000;
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO rate_limit_buckets AS b (key, hits, reset_at)
+    VALUES (bucket_key, 1, current_time_ms + window_ms)
+    ON CONFLICT (key) DO UPDATE SET
+        hits = CASE WHEN b.reset_at > current_time_ms THEN b.hits + 1 ELSE 1 END,
+        reset_at = CASE WHEN b.reset_at > current_time_ms THEN b.reset_at ELSE EXCLUDED.reset_at END
+    RETURNING b.hits, b.reset_at;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION hit_rate_limit(VARCHAR, BIGINT) IS 'Counts a request against a rate limit bucket; returns hits in the current window and its end (Unix ms).';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- Only the API counts requests
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION hit_rate_limit(VARCHAR, BIGINT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION hit_rate_limit(VARCHAR, BIGINT) TO service_role;
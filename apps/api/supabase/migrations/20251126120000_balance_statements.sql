@@ -0,0 +1,167 @@
+-- Point-in-Time Balances and Statements
+-- Description: Wallet balances at any past time replayed from the append-only ledger, account
+--              statements with running balances, and periodic balance checkpoints so that
+--              neither has to scan a wallet's whole history
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE wallet_balance_checkpoints (
+    wallet_id UUID NOT NULL,
+    as_of BIGINT NOT NULL,
+    balance BIGINT NOT NULL,
+    created_at BIGINT NOT NULL,
+
+    PRIMARY KEY (wallet_id, as_of),
+    CONSTRAINT as_of_positive CHECK (as_of > 0),
+    CONSTRAINT balance_non_negative CHECK (balance >= 0),
+    CONSTRAINT created_at_after_as_of CHECK (created_at >= as_of),
+    CONSTRAINT fk_wallet FOREIGN KEY (wallet_id)
+        REFERENCES wallets(id) ON DELETE RESTRICT
+);
+
+COMMENT ON TABLE wallet_balance_checkpoints IS 'Ledger-derived wallet balances at period boundaries; a cache that can be deleted and rebuilt with create_balance_checkpoints()';
+COMMENT ON COLUMN wallet_balance_checkpoints.wallet_id IS 'Wallet whose balance is recorded';
+COMMENT ON COLUMN wallet_balance_checkpoints.as_of IS 'Boundary (Unix ms): the balance includes every transaction created before it';
+COMMENT ON COLUMN wallet_balance_checkpoints.balance IS 'Sum of credits minus debits of all transactions before as_of';
+COMMENT ON COLUMN wallet_balance_checkpoints.created_at IS 'Unix timestamp in milliseconds';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Balance of a wallet just before a point in time
+--
+-- Starts from the latest checkpoint at or before as_of_ms and adds the transactions between the
+-- two, so only the tail after the checkpoint is read. Without a checkpoint the whole history is
+-- replayed. Self-transfers (issuance) credit the wallet, as in update_wallet_balances().
+-- Uses: idx_transactions_from_wallet, idx_transactions_to_wallet
+CREATE OR REPLACE FUNCTION wallet_balance_at(wallet_uuid UUID, as_of_ms BIGINT)
+RETURNS BIGINT AS $$
+    WITH checkpoint AS (
+        SELECT c.as_of, c.balance
+        FROM wallet_balance_checkpoints c
+        WHERE c.wallet_id = wallet_uuid AND c.as_of <= as_of_ms
+        ORDER BY c.as_of DESC
+        LIMIT 1
+    )
+    SELECT (
+        COALESCE((SELECT balance FROM checkpoint), 0)
+        + COALESCE(SUM(CASE WHEN t.to_wallet_id = wallet_uuid THEN t.amount ELSE -t.amount END), 0)
+    )::BIGINT
+    FROM transactions t
+    WHERE (t.from_wallet_id = wallet_uuid OR t.to_wallet_id = wallet_uuid)
+      AND t.created_at >= COALESCE((SELECT as_of FROM checkpoint), 0)
+      AND t.created_at < as_of_ms;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION wallet_balance_at(UUID, BIGINT) IS 'Wallet balance including every transaction created before as_of_ms, from the latest checkpoint plus later transactions.';
+
+-- Account statement of a wallet for [from_ms, to_ms)
+--
+-- Every row carries the opening balance; line columns are NULL in the single row returned for a
+-- period without transactions. Opening balance and lines are read in one snapshot, so the last
+-- running balance always equals wallet_balance_at(wallet_uuid, to_ms).
+CREATE OR REPLACE FUNCTION get_wallet_statement(
+    wallet_uuid UUID,
+    from_ms BIGINT,
+    to_ms BIGINT,
+    max_rows INTEGER DEFAULT 10000
+)
+RETURNS TABLE(
+    opening_balance BIGINT,
+    id UUID,
+    created_at BIGINT,
+    direction VARCHAR,
+    counterparty_wallet_id UUID,
+    amount BIGINT,
+    transaction_type INTEGER,
+    memo TEXT,
+    balance BIGINT
+) AS $$
+    WITH opening AS (
+        SELECT wallet_balance_at(wallet_uuid, from_ms) AS balance
+    ),
+    lines AS (
+        SELECT
+            t.id,
+            t.created_at,
+            (CASE WHEN t.to_wallet_id = wallet_uuid THEN 'received' ELSE 'sent' END)::VARCHAR AS direction,
+            CASE WHEN t.to_wallet_id = wallet_uuid THEN t.from_wallet_id ELSE t.to_wallet_id END AS counterparty_wallet_id,
+            t.amount,
+            t.transaction_type,
+            t.memo,
+            CASE WHEN t.to_wallet_id = wallet_uuid THEN t.amount ELSE -t.amount END AS net
+        FROM transactions t
+        WHERE (t.from_wallet_id = wallet_uuid OR t.to_wallet_id = wallet_uuid)
+          AND t.created_at >= from_ms
+          AND t.created_at < to_ms
+        ORDER BY t.created_at, t.id
+        LIMIT max_rows
+    )
+    SELECT
+        o.balance,
+        l.id, l.created_at, l.direction, l.counterparty_wallet_id, l.amount,
+        l.transaction_type, l.memo,
+        (o.balance + SUM(l.net) OVER (ORDER BY l.created_at, l.id))::BIGINT
+    FROM opening o
+    LEFT JOIN lines l ON TRUE
+    ORDER BY l.created_at, l.id;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_wallet_statement(UUID, BIGINT, BIGINT, INTEGER) IS 'Opening balance at from_ms and the transactions in [from_ms, to_ms), oldest first, each with the running balance after it.';
+
+-- Records the balance at checkpoint_as_of of every wallet with transactions since its previous
+-- checkpoint
+--
+-- Wallets without activity keep their earlier checkpoint, which stays valid. The time must lie an
+-- hour in the past: transactions take created_at from the start of their database transaction,
+-- so a transfer still in flight could otherwise commit behind the checkpoint. Idempotent.
+CREATE OR REPLACE FUNCTION create_balance_checkpoints(checkpoint_as_of BIGINT)
+RETURNS INTEGER AS $$
+DECLARE
+    current_time_ms BIGINT;
+    created_count INTEGER;
+BEGIN
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    IF checkpoint_as_of > current_time_ms - 3600000 THEN
+        RAISE EXCEPTION 'Checkpoint time must be at least one hour in the past'
+            USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO wallet_balance_checkpoints (wallet_id, as_of, balance, created_at)
+    SELECT w.id, checkpoint_as_of,
+           wallet_balance_at(w.id, checkpoint_as_of), current_time_ms
+    FROM wallets w
+    WHERE EXISTS (
+        SELECT 1
+        FROM transactions t
+        WHERE (t.from_wallet_id = w.id OR t.to_wallet_id = w.id)
+          AND t.created_at < checkpoint_as_of
+          AND t.created_at >= COALESCE((
+              SELECT MAX(c.as_of)
+              FROM wallet_balance_checkpoints c
+              WHERE c.wallet_id = w.id AND c.as_of < checkpoint_as_of
+          ), 0)
+    )
+    ON CONFLICT (wallet_id, as_of) DO NOTHING;
+
+    GET DIAGNOSTICS created_count = ROW_COUNT;
+    RETURN created_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION create_balance_checkpoints(BIGINT) IS 'Creates balance checkpoints at checkpoint_as_of (Unix ms, at least one hour ago) for wallets active since their last checkpoint; returns the number created.';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- Checkpoints are written by the checkpoint job and read through the API
+ALTER TABLE wallet_balance_checkpoints ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION create_balance_checkpoints(BIGINT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION create_balance_checkpoints(BIGINT) TO service_role;
@@ -0,0 +1,49 @@
+-- Ledger Export
+-- Description: Ledger-wide transaction listing with both parties resolved through wallet_owners,
+--              paged by the admin CSV / NDJSON export
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- All transactions, newest first, keyset-paginated on (created_at, id)
+--
+-- Owner type/name are NULL for wallets without an active owner (soft-deleted users).
+-- Uses: idx_transactions_created_at
+CREATE OR REPLACE FUNCTION list_ledger_transactions(
+    page_size INTEGER DEFAULT 500,
+    cursor_created_at BIGINT DEFAULT NULL,
+    cursor_id UUID DEFAULT NULL,
+    filter_created_from BIGINT DEFAULT NULL,
+    filter_created_to BIGINT DEFAULT NULL
+)
+RETURNS TABLE(
+    id UUID,
+    from_wallet_id UUID,
+    to_wallet_id UUID,
+    amount BIGINT,
+    transaction_type INTEGER,
+    created_at BIGINT,
+    reverses_transaction_id UUID,
+    memo TEXT,
+    metadata JSONB,
+    from_owner_type TEXT,
+    from_owner_name VARCHAR,
+    to_owner_type TEXT,
+    to_owner_name VARCHAR
+) AS $$
+    SELECT
+        t.id, t.from_wallet_id, t.to_wallet_id, t.amount, t.transaction_type, t.created_at,
+        t.reverses_transaction_id, t.memo, t.metadata,
+        sender.owner_type, sender.owner_name, recipient.owner_type, recipient.owner_name
+    FROM transactions t
+    LEFT JOIN wallet_owners sender ON sender.wallet_id = t.from_wallet_id
+    LEFT JOIN wallet_owners recipient ON recipient.wallet_id = t.to_wallet_id
+    WHERE (filter_created_from IS NULL OR t.created_at >= filter_created_from)
+      AND (filter_created_to IS NULL OR t.created_at < filter_created_to)
+      AND (cursor_created_at IS NULL OR (t.created_at, t.id) < (cursor_created_at, cursor_id))
+    ORDER BY t.created_at DESC, t.id DESC
+    LIMIT page_size;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION list_ledger_transactions(INTEGER, BIGINT, UUID, BIGINT, BIGINT) IS 'All transactions, newest first, keyset-paginated on (created_at, id), with sender and recipient owner type/name from wallet_owners (NULL for soft-deleted users).';
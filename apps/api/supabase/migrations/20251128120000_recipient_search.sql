@@ -0,0 +1,41 @@
+-- Recipient Search
+-- Description: Case-insensitive username prefix search over active users, so that senders can
+--              find a recipient's wallet without knowing its UUID
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Prefix matches on LOWER(username) of active users (text_pattern_ops: LIKE 'abc%' regardless
+-- of the database collation)
+CREATE INDEX idx_users_username_prefix
+    ON users (LOWER(username) text_pattern_ops)
+    WHERE deleted_at IS NULL;
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Active users whose username starts with name_prefix (case-insensitive), by username
+--
+-- Reads wallet_owners, which already leaves out soft-deleted users; system accounts are
+-- excluded by owner_type. LIKE wildcards in the prefix are escaped, since `_` is a valid
+-- username character.
+-- Uses: idx_users_username_prefix
+CREATE OR REPLACE FUNCTION search_user_wallets(name_prefix TEXT, max_rows INTEGER DEFAULT 20)
+RETURNS TABLE(
+    wallet_id UUID,
+    owner_id UUID,
+    owner_name VARCHAR
+) AS $$
+    SELECT wo.wallet_id, wo.owner_id, wo.owner_name
+    FROM wallet_owners wo
+    WHERE wo.owner_type = 'user'
+      AND LOWER(wo.owner_name) LIKE REPLACE(
+          REPLACE(REPLACE(LOWER(name_prefix), '\', '\\'), '%', '\%'), '_', '\_'
+      ) || '%'
+    ORDER BY LOWER(wo.owner_name), wo.wallet_id
+    LIMIT max_rows;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_user_wallets(TEXT, INTEGER) IS 'Wallets of active users whose username starts with name_prefix (case-insensitive), ordered by username.';
@@ -0,0 +1,153 @@
+-- Account Deletion and Restore
+-- Description: Self-service account deletion that first sweeps the remaining balance to the
+--              primary system account (ACCOUNT_CLOSURE), so no tokens are left behind in a wallet
+--              wallet_owners no longer shows, and an audited administrative restore. The sweep is
+--              an ordinary user -> system transfer, so Issuance = Circulating + Pool keeps holding.
+--
+-- SQLSTATE  API code      Raised when
+-- CT011     OPEN_ESCROWS  The user still has held escrows, as sender or beneficiary
+--
+-- Keep in sync with SQLSTATE_ERRORS in apps/api/src/lib/errors.ts.
+
+-- =============================================================================
+-- TRANSACTION TYPES
+-- =============================================================================
+
+INSERT INTO transaction_types (code, name, label, from_owner_types, to_owner_types, self_transfer) VALUES
+    (10, 'ACCOUNT_CLOSURE', 'Account closure', ARRAY['user'], ARRAY['system_account'], 'forbidden');
+
+COMMENT ON COLUMN transactions.transaction_type IS 'Transaction type code, registered in transaction_types (1=TRANSFER legacy, 2=ISSUANCE, 3=DISTRIBUTION, 4=P2P, 5=POOL_FEE, 6=REVERSAL, 7=ESCROW_HOLD, 8=ESCROW_RELEASE, 9=ESCROW_REFUND, 10=ACCOUNT_CLOSURE)';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Closes a user's account: sweep, cancel schedules, soft delete
+--
+-- The user row is locked first, so concurrent transfers by the same user either commit before
+-- the sweep (and are swept with the rest) or fail afterwards as from a deleted sender. Frozen
+-- wallets cannot be closed, which would otherwise move frozen tokens. Held escrows block the
+-- deletion: a refund or release would credit the wallet after it was swept. Scheduled transfers
+-- still active are cancelled rather than left to fail on every occurrence.
+CREATE OR REPLACE FUNCTION delete_user_account(user_uuid UUID, transaction_uuid UUID)
+RETURNS TABLE(transaction_id UUID, swept_amount BIGINT, deleted_at BIGINT) AS $$
+DECLARE
+    user_wallet_uuid UUID;
+    wallet_balance BIGINT;
+    wallet_frozen BOOLEAN;
+    pool_wallet_uuid UUID;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT u.wallet_id INTO user_wallet_uuid
+    FROM users u
+    WHERE u.id = user_uuid AND u.deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender user not found'
+            USING ERRCODE = 'CT004';
+    END IF;
+
+    SELECT w.balance, w.is_frozen INTO wallet_balance, wallet_frozen
+    FROM wallets w
+    WHERE w.id = user_wallet_uuid
+    FOR UPDATE;
+
+    IF wallet_frozen THEN
+        RAISE EXCEPTION 'Sender wallet is frozen'
+            USING ERRCODE = 'CT002';
+    END IF;
+
+    PERFORM 1
+    FROM escrows e
+    WHERE e.status = 'held'
+      AND (e.sender_user_id = user_uuid OR e.beneficiary_wallet_id = user_wallet_uuid);
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'User has escrows still held'
+            USING ERRCODE = 'CT011';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    IF wallet_balance > 0 THEN
+        SELECT s.wallet_id INTO pool_wallet_uuid
+        FROM system_accounts s
+        WHERE s.name = 'system_account_communitytoken';
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Recipient wallet not found'
+                USING ERRCODE = 'CT005';
+        END IF;
+
+        -- Fires validate_transaction_balance / validate_transaction_type / update_wallet_balances
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at)
+        VALUES (transaction_uuid, user_wallet_uuid, pool_wallet_uuid, wallet_balance, 10,
+                current_time_ms);
+    END IF;
+
+    UPDATE scheduled_transfers
+    SET status = 'cancelled', next_run_at = NULL
+    WHERE user_id = user_uuid AND status = 'active';
+
+    PERFORM soft_delete_user(user_uuid);
+
+    RETURN QUERY SELECT
+        CASE WHEN wallet_balance > 0 THEN transaction_uuid END,
+        wallet_balance,
+        current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION delete_user_account(UUID, UUID) IS 'Sweeps the user''s balance to the primary system account (ACCOUNT_CLOSURE), cancels active scheduled transfers and soft-deletes the user. Returns the sweep transaction (NULL for an empty wallet), the swept amount and the deletion time (Unix ms).';
+
+-- Reactivates a soft-deleted user and records the operation in the audit log
+--
+-- Swept tokens are not returned: the restored wallet starts empty, and any refund is a separate
+-- administrative transfer. Returns NULL (without an audit entry) when the user does not exist or
+-- is not deleted.
+CREATE OR REPLACE FUNCTION restore_user(
+    user_uuid UUID,
+    actor_uuid UUID,
+    audit_uuid UUID,
+    reason TEXT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    user_row RECORD;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT u.wallet_id, u.deleted_at INTO user_row
+    FROM users u
+    WHERE u.id = user_uuid AND u.deleted_at IS NOT NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    current_time_ms := append_audit_log(
+        audit_uuid, actor_uuid, 'user_restore', user_row.wallet_id, reason,
+        jsonb_build_object('user_id', user_uuid, 'deleted_at', user_row.deleted_at)
+    );
+
+    UPDATE users
+    SET deleted_at = NULL
+    WHERE id = user_uuid;
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION restore_user(UUID, UUID, UUID, TEXT) IS 'Clears deleted_at of a soft-deleted user and appends a user_restore audit entry. Returns the audit timestamp (Unix ms), or NULL if the user is missing or not deleted.';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- Deletion trusts the user ID from the verified token; restore is administrative
+REVOKE EXECUTE ON FUNCTION delete_user_account(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_user(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION delete_user_account(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION restore_user(UUID, UUID, UUID, TEXT) TO service_role;
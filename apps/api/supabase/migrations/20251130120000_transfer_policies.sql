@@ -0,0 +1,467 @@
+-- Transfer Policies
+-- Description: Limits on user-initiated transfers beyond balance and freeze checks: a maximum per
+--              transaction, daily (UTC) and rolling-window caps on outgoing amount and count, a
+--              minimum account age before sending, and a cap on new counterparties per day.
+--              Global defaults apply to every wallet; administrators can override them per
+--              wallet. Enforced by a trigger, so transfers, scheduled transfers and escrow holds
+--              are all covered.
+--
+-- SQLSTATE  API code                         Raised when
+-- CT012     TRANSFER_AMOUNT_LIMIT_EXCEEDED   The amount exceeds the per-transaction maximum
+-- CT013     DAILY_LIMIT_EXCEEDED             Today's (UTC) outgoing amount or count would exceed its cap
+-- CT014     VELOCITY_LIMIT_EXCEEDED          The rolling window's outgoing amount or count would exceed its cap
+-- CT015     ACCOUNT_TOO_NEW                  The sender's account is younger than the minimum age
+-- CT016     NEW_COUNTERPARTY_LIMIT_EXCEEDED  Today's (UTC) count of first-time recipients would exceed its cap
+--
+-- Keep in sync with SQLSTATE_ERRORS in apps/api/src/lib/errors.ts.
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+-- Every limit column is NULL for "no limit"
+CREATE TABLE transfer_limit_defaults (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE,
+    max_transfer_amount BIGINT,
+    daily_amount_limit BIGINT,
+    daily_count_limit INTEGER,
+    window_ms BIGINT,
+    window_amount_limit BIGINT,
+    window_count_limit INTEGER,
+    min_account_age_ms BIGINT,
+    daily_new_counterparty_limit INTEGER,
+    updated_at BIGINT NOT NULL,
+
+    CONSTRAINT single_row CHECK (id),
+    CONSTRAINT limits_positive CHECK (
+        COALESCE(max_transfer_amount, 1) > 0
+        AND COALESCE(daily_amount_limit, 1) > 0
+        AND COALESCE(daily_count_limit, 1) > 0
+        AND COALESCE(window_ms, 1) > 0
+        AND COALESCE(window_amount_limit, 1) > 0
+        AND COALESCE(window_count_limit, 1) > 0
+        AND COALESCE(min_account_age_ms, 0) >= 0
+        AND COALESCE(daily_new_counterparty_limit, 1) > 0
+    ),
+    CONSTRAINT window_caps_need_window CHECK (
+        window_ms IS NOT NULL OR (window_amount_limit IS NULL AND window_count_limit IS NULL)
+    )
+);
+
+COMMENT ON TABLE transfer_limit_defaults IS 'Transfer limits of every user wallet without an override (single row; NULL = no limit)';
+COMMENT ON COLUMN transfer_limit_defaults.max_transfer_amount IS 'Maximum amount of one transfer';
+COMMENT ON COLUMN transfer_limit_defaults.daily_amount_limit IS 'Maximum outgoing amount per UTC day';
+COMMENT ON COLUMN transfer_limit_defaults.daily_count_limit IS 'Maximum outgoing transfers per UTC day';
+COMMENT ON COLUMN transfer_limit_defaults.window_ms IS 'Length of the rolling window in milliseconds';
+COMMENT ON COLUMN transfer_limit_defaults.window_amount_limit IS 'Maximum outgoing amount within the rolling window';
+COMMENT ON COLUMN transfer_limit_defaults.window_count_limit IS 'Maximum outgoing transfers within the rolling window';
+COMMENT ON COLUMN transfer_limit_defaults.min_account_age_ms IS 'Minimum time since the sender''s account was created';
+COMMENT ON COLUMN transfer_limit_defaults.daily_new_counterparty_limit IS 'Maximum P2P recipients per UTC day that the wallet has never sent to before';
+COMMENT ON COLUMN transfer_limit_defaults.updated_at IS 'Unix timestamp in milliseconds';
+
+-- No limits until an administrator sets them
+INSERT INTO transfer_limit_defaults (id, updated_at) VALUES (TRUE, current_unix_ms());
+
+-- Every limit column is NULL for "use the default"
+CREATE TABLE wallet_transfer_limits (
+    wallet_id UUID PRIMARY KEY,
+    max_transfer_amount BIGINT,
+    daily_amount_limit BIGINT,
+    daily_count_limit INTEGER,
+    window_ms BIGINT,
+    window_amount_limit BIGINT,
+    window_count_limit INTEGER,
+    min_account_age_ms BIGINT,
+    daily_new_counterparty_limit INTEGER,
+    updated_at BIGINT NOT NULL,
+
+    CONSTRAINT limits_positive CHECK (
+        COALESCE(max_transfer_amount, 1) > 0
+        AND COALESCE(daily_amount_limit, 1) > 0
+        AND COALESCE(daily_count_limit, 1) > 0
+        AND COALESCE(window_ms, 1) > 0
+        AND COALESCE(window_amount_limit, 1) > 0
+        AND COALESCE(window_count_limit, 1) > 0
+        AND COALESCE(min_account_age_ms, 0) >= 0
+        AND COALESCE(daily_new_counterparty_limit, 1) > 0
+    ),
+    CONSTRAINT fk_wallet FOREIGN KEY (wallet_id)
+        REFERENCES wallets(id) ON DELETE RESTRICT
+);
+
+COMMENT ON TABLE wallet_transfer_limits IS 'Per-wallet overrides of transfer_limit_defaults (NULL column = use the default)';
+COMMENT ON COLUMN wallet_transfer_limits.wallet_id IS 'Sending wallet the overrides apply to';
+COMMENT ON COLUMN wallet_transfer_limits.updated_at IS 'Unix timestamp in milliseconds';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Limits in force for a wallet: each override column, or the default where it is NULL
+CREATE OR REPLACE FUNCTION effective_transfer_limits(wallet_uuid UUID)
+RETURNS TABLE(
+    max_transfer_amount BIGINT,
+    daily_amount_limit BIGINT,
+    daily_count_limit INTEGER,
+    window_ms BIGINT,
+    window_amount_limit BIGINT,
+    window_count_limit INTEGER,
+    min_account_age_ms BIGINT,
+    daily_new_counterparty_limit INTEGER
+) AS $$
+    SELECT
+        COALESCE(w.max_transfer_amount, d.max_transfer_amount),
+        COALESCE(w.daily_amount_limit, d.daily_amount_limit),
+        COALESCE(w.daily_count_limit, d.daily_count_limit),
+        COALESCE(w.window_ms, d.window_ms),
+        COALESCE(w.window_amount_limit, d.window_amount_limit),
+        COALESCE(w.window_count_limit, d.window_count_limit),
+        COALESCE(w.min_account_age_ms, d.min_account_age_ms),
+        COALESCE(w.daily_new_counterparty_limit, d.daily_new_counterparty_limit)
+    FROM transfer_limit_defaults d
+    LEFT JOIN wallet_transfer_limits w ON w.wallet_id = wallet_uuid;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION effective_transfer_limits(UUID) IS 'Transfer limits in force for a wallet: its overrides, falling back to transfer_limit_defaults column by column (NULL = no limit).';
+
+-- Evaluates transfer policies for user-initiated transactions (P2P, POOL_FEE, ESCROW_HOLD)
+--
+-- Runs after check_transaction_balance (triggers fire in name order), which holds the sender
+-- wallet's row lock, so concurrent transfers from one wallet are counted one after another.
+-- Outgoing totals include the same three types; administrative transactions (distributions,
+-- reversals, account closure) are neither checked nor counted. Days are UTC.
+-- Uses: idx_transactions_from_wallet
+CREATE OR REPLACE FUNCTION validate_transaction_policy()
+RETURNS TRIGGER AS $$
+DECLARE
+    limits RECORD;
+    sender_created_at BIGINT;
+    day_start BIGINT;
+    sent_amount BIGINT;
+    sent_count INTEGER;
+    new_counterparties INTEGER;
+BEGIN
+    IF NEW.transaction_type NOT IN (4, 5, 7) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT u.created_at INTO sender_created_at
+    FROM users u
+    WHERE u.wallet_id = NEW.from_wallet_id;
+
+    IF NOT FOUND THEN
+        -- check_transaction_type rejects the owner combination
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO limits FROM effective_transfer_limits(NEW.from_wallet_id);
+
+    IF NEW.amount > limits.max_transfer_amount THEN
+        RAISE EXCEPTION 'Amount exceeds the per-transfer limit of %', limits.max_transfer_amount
+            USING ERRCODE = 'CT012';
+    END IF;
+
+    IF NEW.created_at - sender_created_at < limits.min_account_age_ms THEN
+        RAISE EXCEPTION 'Account must be at least % ms old to send tokens', limits.min_account_age_ms
+            USING ERRCODE = 'CT015';
+    END IF;
+
+    day_start := NEW.created_at - (NEW.created_at % 86400000);
+
+    IF limits.daily_amount_limit IS NOT NULL OR limits.daily_count_limit IS NOT NULL THEN
+        SELECT COALESCE(SUM(t.amount), 0), COUNT(*) INTO sent_amount, sent_count
+        FROM transactions t
+        WHERE t.from_wallet_id = NEW.from_wallet_id
+          AND t.transaction_type IN (4, 5, 7)
+          AND t.created_at >= day_start;
+
+        IF sent_count + 1 > limits.daily_count_limit THEN
+            RAISE EXCEPTION 'Daily limit of % transfers reached', limits.daily_count_limit
+                USING ERRCODE = 'CT013';
+        END IF;
+        IF sent_amount + NEW.amount > limits.daily_amount_limit THEN
+            RAISE EXCEPTION 'Daily limit of % tokens would be exceeded (% sent today)',
+                limits.daily_amount_limit, sent_amount
+                USING ERRCODE = 'CT013';
+        END IF;
+    END IF;
+
+    IF limits.window_ms IS NOT NULL
+        AND (limits.window_amount_limit IS NOT NULL OR limits.window_count_limit IS NOT NULL) THEN
+        SELECT COALESCE(SUM(t.amount), 0), COUNT(*) INTO sent_amount, sent_count
+        FROM transactions t
+        WHERE t.from_wallet_id = NEW.from_wallet_id
+          AND t.transaction_type IN (4, 5, 7)
+          AND t.created_at > NEW.created_at - limits.window_ms;
+
+        IF sent_count + 1 > limits.window_count_limit THEN
+            RAISE EXCEPTION 'Limit of % transfers per % ms reached',
+                limits.window_count_limit, limits.window_ms
+                USING ERRCODE = 'CT014';
+        END IF;
+        IF sent_amount + NEW.amount > limits.window_amount_limit THEN
+            RAISE EXCEPTION 'Limit of % tokens per % ms would be exceeded (% sent)',
+                limits.window_amount_limit, limits.window_ms, sent_amount
+                USING ERRCODE = 'CT014';
+        END IF;
+    END IF;
+
+    -- A counterparty is new if the wallet has never sent it a P2P transfer
+    IF NEW.transaction_type = 4 AND limits.daily_new_counterparty_limit IS NOT NULL
+        AND NOT EXISTS (
+            SELECT 1 FROM transactions t
+            WHERE t.from_wallet_id = NEW.from_wallet_id
+              AND t.to_wallet_id = NEW.to_wallet_id
+              AND t.transaction_type = 4
+        ) THEN
+        SELECT COUNT(DISTINCT t.to_wallet_id) INTO new_counterparties
+        FROM transactions t
+        WHERE t.from_wallet_id = NEW.from_wallet_id
+          AND t.transaction_type = 4
+          AND t.created_at >= day_start
+          AND NOT EXISTS (
+              SELECT 1 FROM transactions earlier
+              WHERE earlier.from_wallet_id = t.from_wallet_id
+                AND earlier.to_wallet_id = t.to_wallet_id
+                AND earlier.transaction_type = 4
+                AND earlier.created_at < day_start
+          );
+
+        IF new_counterparties + 1 > limits.daily_new_counterparty_limit THEN
+            RAISE EXCEPTION 'Daily limit of % new recipients reached',
+                limits.daily_new_counterparty_limit
+                USING ERRCODE = 'CT016';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION validate_transaction_policy() IS 'Rejects P2P, POOL_FEE and ESCROW_HOLD transactions that break the sender''s effective transfer limits (SQLSTATE CT012-CT016).';
+
+-- Replaces the defaults (wallet_uuid NULL) or a wallet's overrides, and records the change
+--
+-- `limits` is a JSON object keyed by limit column; missing keys and nulls mean "no limit" for
+-- the defaults and "use the default" for a wallet.
+CREATE OR REPLACE FUNCTION set_transfer_limits(
+    wallet_uuid UUID,
+    limits JSONB,
+    actor_uuid UUID,
+    audit_uuid UUID,
+    reason TEXT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    current_time_ms BIGINT;
+BEGIN
+    current_time_ms := append_audit_log(
+        audit_uuid, actor_uuid, 'transfer_limits_update', wallet_uuid, reason,
+        jsonb_build_object('limits', limits)
+    );
+
+    IF wallet_uuid IS NULL THEN
+        UPDATE transfer_limit_defaults
+        SET max_transfer_amount = (limits->>'max_transfer_amount')::BIGINT,
+            daily_amount_limit = (limits->>'daily_amount_limit')::BIGINT,
+            daily_count_limit = (limits->>'daily_count_limit')::INTEGER,
+            window_ms = (limits->>'window_ms')::BIGINT,
+            window_amount_limit = (limits->>'window_amount_limit')::BIGINT,
+            window_count_limit = (limits->>'window_count_limit')::INTEGER,
+            min_account_age_ms = (limits->>'min_account_age_ms')::BIGINT,
+            daily_new_counterparty_limit = (limits->>'daily_new_counterparty_limit')::INTEGER,
+            updated_at = current_time_ms
+        WHERE id;
+    ELSE
+        INSERT INTO wallet_transfer_limits (
+            wallet_id, max_transfer_amount, daily_amount_limit, daily_count_limit, window_ms,
+            window_amount_limit, window_count_limit, min_account_age_ms,
+            daily_new_counterparty_limit, updated_at
+        )
+        VALUES (
+            wallet_uuid,
+            (limits->>'max_transfer_amount')::BIGINT,
+            (limits->>'daily_amount_limit')::BIGINT,
+            (limits->>'daily_count_limit')::INTEGER,
+            (limits->>'window_ms')::BIGINT,
+            (limits->>'window_amount_limit')::BIGINT,
+            (limits->>'window_count_limit')::INTEGER,
+            (limits->>'min_account_age_ms')::BIGINT,
+            (limits->>'daily_new_counterparty_limit')::INTEGER,
+            current_time_ms
+        )
+        ON CONFLICT (wallet_id) DO UPDATE
+        SET max_transfer_amount = EXCLUDED.max_transfer_amount,
+            daily_amount_limit = EXCLUDED.daily_amount_limit,
+            daily_count_limit = EXCLUDED.daily_count_limit,
+            window_ms = EXCLUDED.window_ms,
+            window_amount_limit = EXCLUDED.window_amount_limit,
+            window_count_limit = EXCLUDED.window_count_limit,
+            min_account_age_ms = EXCLUDED.min_account_age_ms,
+            daily_new_counterparty_limit = EXCLUDED.daily_new_counterparty_limit,
+            updated_at = EXCLUDED.updated_at;
+    END IF;
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION set_transfer_limits(UUID, JSONB, UUID, UUID, TEXT) IS 'Replaces the default transfer limits (wallet_uuid NULL) or a wallet''s overrides and appends a transfer_limits_update audit entry. Returns the update time (Unix ms).';
+
+-- Removes a wallet's overrides so that the defaults apply again
+CREATE OR REPLACE FUNCTION clear_wallet_transfer_limits(
+    wallet_uuid UUID,
+    actor_uuid UUID,
+    audit_uuid UUID,
+    reason TEXT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    removed RECORD;
+BEGIN
+    DELETE FROM wallet_transfer_limits l
+    WHERE l.wallet_id = wallet_uuid
+    RETURNING l.* INTO removed;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN append_audit_log(
+        audit_uuid, actor_uuid, 'transfer_limits_clear', wallet_uuid, reason,
+        jsonb_build_object('previous', to_jsonb(removed) - 'wallet_id' - 'updated_at')
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION clear_wallet_transfer_limits(UUID, UUID, UUID, TEXT) IS 'Deletes a wallet''s transfer limit overrides and appends a transfer_limits_clear audit entry. Returns the audit time (Unix ms), or NULL if the wallet had no overrides.';
+
+-- Scheduled transfers: also record CT-coded business rejections (including transfer policies)
+-- on the run instead of aborting the call (signature unchanged)
+CREATE OR REPLACE FUNCTION execute_scheduled_transfer(
+    schedule_uuid UUID,
+    as_of BIGINT,
+    run_uuid UUID,
+    transaction_uuid UUID
+)
+RETURNS TABLE(
+    outcome VARCHAR,
+    transaction_id UUID,
+    error TEXT,
+    next_run_at BIGINT,
+    status VARCHAR
+) AS $$
+DECLARE
+    schedule RECORD;
+    recipient_owner_type TEXT;
+    run_error TEXT;
+    next_at BIGINT;
+    new_status VARCHAR;
+    current_time_ms BIGINT;
+BEGIN
+    -- The row lock serializes concurrent executors; the loser sees the advanced next_run_at
+    SELECT * INTO schedule
+    FROM scheduled_transfers s
+    WHERE s.id = schedule_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Scheduled transfer not found';
+    END IF;
+
+    IF schedule.status <> 'active' OR schedule.next_run_at > as_of THEN
+        RETURN QUERY SELECT 'skipped'::VARCHAR, NULL::UUID, NULL::TEXT,
+            schedule.next_run_at, schedule.status;
+        RETURN;
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Business rejections (deleted sender, inactive recipient, insufficient balance, frozen
+    -- wallet, transfer policies) are recorded on the run; anything else aborts the whole call
+    BEGIN
+        PERFORM 1 FROM users u WHERE u.id = schedule.user_id AND u.deleted_at IS NULL;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Sender user not found';
+        END IF;
+
+        SELECT o.owner_type INTO recipient_owner_type
+        FROM wallet_owners o
+        WHERE o.wallet_id = schedule.to_wallet_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Recipient wallet not found';
+        END IF;
+
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+        VALUES (transaction_uuid, schedule.from_wallet_id, schedule.to_wallet_id, schedule.amount,
+                CASE WHEN recipient_owner_type = 'system_account' THEN 5 ELSE 4 END,
+                current_time_ms, schedule.memo, schedule.metadata);
+    EXCEPTION
+        WHEN raise_exception
+            OR SQLSTATE 'CT001' OR SQLSTATE 'CT002' OR SQLSTATE 'CT004' OR SQLSTATE 'CT005'
+            OR SQLSTATE 'CT006' OR SQLSTATE 'CT007' OR SQLSTATE 'CT012' OR SQLSTATE 'CT013'
+            OR SQLSTATE 'CT014' OR SQLSTATE 'CT015' OR SQLSTATE 'CT016' THEN
+            run_error := SQLERRM;
+    END;
+
+    INSERT INTO scheduled_transfer_runs (id, scheduled_transfer_id, occurrence, scheduled_for, transaction_id, error, executed_at)
+    VALUES (run_uuid, schedule.id, schedule.run_count, schedule.next_run_at,
+            CASE WHEN run_error IS NULL THEN transaction_uuid END, run_error, current_time_ms);
+
+    next_at := scheduled_occurrence_at(schedule.starts_at, schedule.recurrence, schedule.run_count + 1);
+    IF next_at IS NULL
+        OR (schedule.ends_at IS NOT NULL AND next_at > schedule.ends_at)
+        OR (schedule.max_runs IS NOT NULL AND schedule.run_count + 1 >= schedule.max_runs) THEN
+        next_at := NULL;
+        new_status := CASE
+            WHEN schedule.recurrence = 'once' AND run_error IS NOT NULL THEN 'failed'
+            ELSE 'completed'
+        END;
+    ELSE
+        new_status := 'active';
+    END IF;
+
+    UPDATE scheduled_transfers s
+    SET run_count = s.run_count + 1,
+        failure_count = s.failure_count + CASE WHEN run_error IS NULL THEN 0 ELSE 1 END,
+        next_run_at = next_at,
+        status = new_status,
+        last_run_at = current_time_ms,
+        last_error = run_error
+    WHERE s.id = schedule.id;
+
+    RETURN QUERY SELECT
+        (CASE WHEN run_error IS NULL THEN 'executed' ELSE 'failed' END)::VARCHAR,
+        CASE WHEN run_error IS NULL THEN transaction_uuid END,
+        run_error,
+        next_at,
+        new_status;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION execute_scheduled_transfer(UUID, BIGINT, UUID, UUID) IS 'Processes the next occurrence of a schedule if it is due at as_of (Unix ms): creates the transfer or records why it failed, then advances the schedule. Each occurrence is processed exactly once; returns outcome executed | failed | skipped (not due, or not active).';
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+CREATE TRIGGER check_transaction_policy
+    BEFORE INSERT ON transactions
+    FOR EACH ROW EXECUTE FUNCTION validate_transaction_policy();
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+-- Limits are set by administrators through the API
+ALTER TABLE transfer_limit_defaults ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_transfer_limits ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION set_transfer_limits(UUID, JSONB, UUID, UUID, TEXT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION clear_wallet_transfer_limits(UUID, UUID, UUID, TEXT)
+    FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION set_transfer_limits(UUID, JSONB, UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION clear_wallet_transfer_limits(UUID, UUID, UUID, TEXT) TO service_role;
@@ -0,0 +1,103 @@
+-- Function Privileges
+-- Description: Restricts the functions that act on behalf of a user or an administrator to the
+--              service role. They trust their user_uuid / actor_uuid arguments (the API
+--              authenticates the caller), so clients holding the anon key or a user session must
+--              not be able to call them through PostgREST directly.
+--
+--              PostgreSQL grants EXECUTE to PUBLIC on every new function and Supabase also grants
+--              it to anon and authenticated, so all three are revoked. The API connects with the
+--              service role key (apps/api/src/lib/db.ts).
+
+-- =============================================================================
+-- USERS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION provision_user(UUID, UUID, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION soft_delete_user(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION delete_user_account(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_user(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION provision_user(UUID, UUID, VARCHAR) TO service_role;
+GRANT EXECUTE ON FUNCTION soft_delete_user(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION delete_user_account(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION restore_user(UUID, UUID, UUID, TEXT) TO service_role;
+
+-- =============================================================================
+-- TRANSFERS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION create_transfer(UUID, VARCHAR, UUID, UUID, BIGINT, TEXT, JSONB)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_scheduled_transfer(UUID, UUID, UUID, BIGINT, VARCHAR, BIGINT, BIGINT, INTEGER, TEXT, JSONB)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_scheduled_transfer(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION execute_scheduled_transfer(UUID, BIGINT, UUID, UUID)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_escrow(UUID, UUID, UUID, BIGINT, BIGINT, UUID, TEXT, JSONB)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_escrow(UUID, UUID, UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_escrow(UUID, UUID, UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION create_transfer(UUID, VARCHAR, UUID, UUID, BIGINT, TEXT, JSONB)
+    TO service_role;
+GRANT EXECUTE ON FUNCTION create_scheduled_transfer(UUID, UUID, UUID, BIGINT, VARCHAR, BIGINT, BIGINT, INTEGER, TEXT, JSONB)
+    TO service_role;
+GRANT EXECUTE ON FUNCTION cancel_scheduled_transfer(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION execute_scheduled_transfer(UUID, BIGINT, UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION create_escrow(UUID, UUID, UUID, BIGINT, BIGINT, UUID, TEXT, JSONB)
+    TO service_role;
+GRANT EXECUTE ON FUNCTION release_escrow(UUID, UUID, UUID, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_escrow(UUID, UUID, UUID, BIGINT) TO service_role;
+
+-- =============================================================================
+-- ADMINISTRATION
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION append_audit_log(UUID, UUID, VARCHAR, UUID, TEXT, JSONB)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION plan_distribution(VARCHAR, UUID[], BIGINT[])
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT, UUID, UUID, TEXT, JSONB)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION set_wallet_frozen(UUID, BOOLEAN, TEXT, UUID, UUID, UUID)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reverse_transaction(UUID, UUID, TEXT, UUID, UUID, BIGINT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION set_transfer_limits(UUID, JSONB, UUID, UUID, TEXT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION clear_wallet_transfer_limits(UUID, UUID, UUID, TEXT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_balance_checkpoints(BIGINT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION append_audit_log(UUID, UUID, VARCHAR, UUID, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION plan_distribution(VARCHAR, UUID[], BIGINT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION distribute_tokens(VARCHAR, UUID[], BIGINT[], UUID[], UUID, TEXT, UUID, UUID, TEXT, JSONB)
+    TO service_role;
+GRANT EXECUTE ON FUNCTION set_wallet_frozen(UUID, BOOLEAN, TEXT, UUID, UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION reverse_transaction(UUID, UUID, TEXT, UUID, UUID, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION set_transfer_limits(UUID, JSONB, UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION clear_wallet_transfer_limits(UUID, UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION create_balance_checkpoints(BIGINT) TO service_role;
+
+-- =============================================================================
+-- WEBHOOKS AND RATE LIMITS
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION create_webhook_subscription(UUID, UUID, TEXT, TEXT, TEXT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION disable_webhook_subscription(UUID, UUID)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redeliver_webhook(UUID, UUID, UUID, BIGINT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(BIGINT, INTEGER, BIGINT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_webhook_attempt(UUID, BIGINT, INTEGER, TEXT, BIGINT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION hit_rate_limit(VARCHAR, BIGINT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION create_webhook_subscription(UUID, UUID, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION disable_webhook_subscription(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION redeliver_webhook(UUID, UUID, UUID, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(BIGINT, INTEGER, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION record_webhook_attempt(UUID, BIGINT, INTEGER, TEXT, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION hit_rate_limit(VARCHAR, BIGINT) TO service_role;
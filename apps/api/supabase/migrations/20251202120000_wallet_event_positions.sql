@@ -0,0 +1,215 @@
+-- Wallet Event Positions
+-- Description: Commit-ordered positions for the /v1/users/@me/events stream. list_wallet_events()
+--              used to page on (created_at, id), but created_at is the time a transfer started,
+--              not when it committed: a transfer that commits after a later-stamped one can land
+--              behind a position a client has already received and never be streamed.
+--
+--              Every transaction and freeze event now gets a row in wallet_event_log, written by
+--              triggers with the inserting database transaction's ID. Events are ordered by
+--              (xact_id, position) and only returned once every transaction with a lower ID has
+--              finished, so nothing can commit behind a position that was already read.
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+CREATE TABLE wallet_event_log (
+    position BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    xact_id xid8 NOT NULL DEFAULT pg_current_xact_id(),
+    wallet_id UUID NOT NULL,
+    transaction_id UUID,
+    freeze_event_id UUID,
+
+    CONSTRAINT one_source CHECK ((transaction_id IS NULL) <> (freeze_event_id IS NULL)),
+    CONSTRAINT fk_wallet FOREIGN KEY (wallet_id)
+        REFERENCES wallets(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_transaction FOREIGN KEY (transaction_id)
+        REFERENCES transactions(id) ON DELETE RESTRICT,
+    CONSTRAINT fk_freeze_event FOREIGN KEY (freeze_event_id)
+        REFERENCES wallet_freeze_events(id) ON DELETE RESTRICT
+);
+
+CREATE INDEX idx_wallet_event_log_wallet ON wallet_event_log(wallet_id, xact_id, position);
+CREATE INDEX idx_wallet_event_log_transaction ON wallet_event_log(transaction_id)
+    WHERE transaction_id IS NOT NULL;
+CREATE INDEX idx_wallet_event_log_freeze_event ON wallet_event_log(freeze_event_id)
+    WHERE freeze_event_id IS NOT NULL;
+
+-- Only the service role reads the log (through the functions below)
+ALTER TABLE wallet_event_log ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE wallet_event_log IS 'Commit-ordered positions of wallet events (transactions and freeze changes), written by triggers';
+COMMENT ON COLUMN wallet_event_log.position IS 'Insertion order within a database transaction';
+COMMENT ON COLUMN wallet_event_log.xact_id IS 'ID of the database transaction that inserted the event';
+COMMENT ON COLUMN wallet_event_log.wallet_id IS 'Wallet the event belongs to (a transfer has one row per side)';
+COMMENT ON COLUMN wallet_event_log.transaction_id IS 'Transaction of a transfer event, NULL for freeze changes';
+COMMENT ON COLUMN wallet_event_log.freeze_event_id IS 'Freeze event of a freeze change, NULL for transfers';
+
+-- Existing events keep their previous (created_at, id) order
+INSERT INTO wallet_event_log (wallet_id, transaction_id, freeze_event_id)
+SELECT e.wallet_id, e.transaction_id, e.freeze_event_id
+FROM (
+    SELECT t.from_wallet_id AS wallet_id, t.id AS transaction_id, NULL::UUID AS freeze_event_id,
+        t.created_at, t.id
+    FROM transactions t
+    UNION ALL
+    SELECT t.to_wallet_id, t.id, NULL, t.created_at, t.id
+    FROM transactions t
+    WHERE t.to_wallet_id <> t.from_wallet_id
+    UNION ALL
+    SELECT f.wallet_id, NULL, f.id, f.created_at, f.id
+    FROM wallet_freeze_events f
+) e
+ORDER BY e.created_at, e.id;
+
+-- =============================================================================
+-- TRIGGER FUNCTIONS
+-- =============================================================================
+
+-- One log row per wallet side of a transaction (one for self-transfers)
+CREATE OR REPLACE FUNCTION log_transaction_wallet_events()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO wallet_event_log (wallet_id, transaction_id) VALUES (NEW.from_wallet_id, NEW.id);
+    IF NEW.to_wallet_id <> NEW.from_wallet_id THEN
+        INSERT INTO wallet_event_log (wallet_id, transaction_id) VALUES (NEW.to_wallet_id, NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION log_freeze_wallet_event()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO wallet_event_log (wallet_id, freeze_event_id) VALUES (NEW.wallet_id, NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+CREATE TRIGGER log_transaction_wallet_events
+    AFTER INSERT ON transactions
+    FOR EACH ROW EXECUTE FUNCTION log_transaction_wallet_events();
+
+CREATE TRIGGER log_freeze_wallet_event
+    AFTER INSERT ON wallet_freeze_events
+    FOR EACH ROW EXECUTE FUNCTION log_freeze_wallet_event();
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Events of one wallet after a (xact_id, position) position, oldest first
+--
+-- Only events of database transactions below the snapshot's xmin are returned: every
+-- transaction that could still commit has a higher ID, so it sorts after everything returned.
+-- Transactions are passed as text because PostgREST has no JSON representation for xid8.
+-- The balance after each event is the current balance minus the net effect of every later
+-- visible event, including those held back until older transactions finish.
+DROP FUNCTION list_wallet_events(UUID, BIGINT, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION list_wallet_events(
+    wallet_uuid UUID,
+    after_xact_id TEXT,
+    after_position BIGINT,
+    max_rows INTEGER DEFAULT 100
+)
+RETURNS TABLE(
+    xact_id TEXT,
+    log_position BIGINT,
+    event_type VARCHAR,
+    id UUID,
+    created_at BIGINT,
+    counterparty_wallet_id UUID,
+    amount BIGINT,
+    transaction_type INTEGER,
+    memo TEXT,
+    balance BIGINT
+) AS $$
+    WITH events AS (
+        SELECT
+            l.xact_id,
+            l.position,
+            (CASE
+                WHEN l.freeze_event_id IS NOT NULL AND f.is_frozen THEN 'wallet.frozen'
+                WHEN l.freeze_event_id IS NOT NULL THEN 'wallet.unfrozen'
+                WHEN t.to_wallet_id = wallet_uuid THEN 'transfer.received'
+                ELSE 'transfer.sent'
+            END)::VARCHAR AS event_type,
+            COALESCE(t.id, f.id) AS id,
+            COALESCE(t.created_at, f.created_at) AS created_at,
+            CASE WHEN t.to_wallet_id = wallet_uuid THEN t.from_wallet_id ELSE t.to_wallet_id END AS counterparty_wallet_id,
+            t.amount,
+            t.transaction_type,
+            t.memo,
+            CASE
+                WHEN t.id IS NULL OR t.from_wallet_id = t.to_wallet_id THEN 0
+                WHEN t.to_wallet_id = wallet_uuid THEN t.amount
+                ELSE -t.amount
+            END AS net
+        FROM wallet_event_log l
+        LEFT JOIN transactions t ON t.id = l.transaction_id
+        LEFT JOIN wallet_freeze_events f ON f.id = l.freeze_event_id
+        WHERE l.wallet_id = wallet_uuid
+          AND (l.xact_id, l.position) > (after_xact_id::xid8, after_position)
+    ),
+    balances AS (
+        SELECT
+            e.*,
+            (w.balance - COALESCE(SUM(e.net) OVER (
+                ORDER BY e.xact_id DESC, e.position DESC
+                ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+            ), 0))::BIGINT AS balance
+        FROM events e
+        JOIN wallets w ON w.id = wallet_uuid
+    )
+    SELECT
+        b.xact_id::TEXT, b.position, b.event_type, b.id, b.created_at, b.counterparty_wallet_id,
+        b.amount, b.transaction_type, b.memo, b.balance
+    FROM balances b
+    WHERE b.xact_id < pg_snapshot_xmin(pg_current_snapshot())
+    ORDER BY b.xact_id, b.position
+    LIMIT max_rows;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION list_wallet_events(UUID, TEXT, BIGINT, INTEGER) IS 'Transfer and freeze events of one wallet after the (xact_id, position) position, oldest first and only once no older transaction can still commit, each with the wallet balance after the event.';
+
+-- Position of the wallet's newest event that list_wallet_events() can return, or no row
+CREATE OR REPLACE FUNCTION latest_wallet_event_position(wallet_uuid UUID)
+RETURNS TABLE(xact_id TEXT, log_position BIGINT) AS $$
+    SELECT l.xact_id::TEXT, l.position
+    FROM wallet_event_log l
+    WHERE l.wallet_id = wallet_uuid
+      AND l.xact_id < pg_snapshot_xmin(pg_current_snapshot())
+    ORDER BY l.xact_id DESC, l.position DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION latest_wallet_event_position(UUID) IS 'Position of the newest event of a wallet that list_wallet_events() can return.';
+
+-- Position of one event, to resume streams from IDs issued before positions existed
+CREATE OR REPLACE FUNCTION find_wallet_event_position(wallet_uuid UUID, event_uuid UUID)
+RETURNS TABLE(xact_id TEXT, log_position BIGINT) AS $$
+    SELECT l.xact_id::TEXT, l.position
+    FROM wallet_event_log l
+    WHERE l.wallet_id = wallet_uuid
+      AND (l.transaction_id = event_uuid OR l.freeze_event_id = event_uuid);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION find_wallet_event_position(UUID, UUID) IS 'Position of a transaction or freeze event in the event log of a wallet.';
+
+-- =============================================================================
+-- PRIVILEGES
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION list_wallet_events(UUID, TEXT, BIGINT, INTEGER)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION latest_wallet_event_position(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION find_wallet_event_position(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION list_wallet_events(UUID, TEXT, BIGINT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION latest_wallet_event_position(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION find_wallet_event_position(UUID, UUID) TO service_role;
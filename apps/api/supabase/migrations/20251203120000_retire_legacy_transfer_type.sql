@@ -0,0 +1,11 @@
+-- Retire Legacy Transfer Type
+-- Description: Type 1 (TRANSFER) predates the registry and allowed any owner combination, so a
+--              writer could use it to bypass the owner rules and the transfer limits of the
+--              specific types. Existing type 1 rows stay valid: check_transaction_type only runs on
+--              insert, so emptying the owner lists rejects new type 1 rows (CT007) and nothing
+--              else. Mirrors src/entities/TransactionType.ts.
+
+UPDATE transaction_types
+SET from_owner_types = ARRAY[]::TEXT[],
+    to_owner_types = ARRAY[]::TEXT[]
+WHERE code = 1;
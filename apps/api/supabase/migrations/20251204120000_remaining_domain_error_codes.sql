@@ -0,0 +1,875 @@
+-- Remaining Domain Error Codes
+-- Description: CT SQLSTATEs for the exceptions 20251123120000_domain_error_codes.sql left on the
+--              default raise_exception, so the API maps every business rejection by code and no
+--              longer matches message text. Messages and signatures are unchanged.
+--
+-- SQLSTATE  API code                      Raised when
+-- CT017     WALLET_NOT_FOUND              The wallet to freeze or unfreeze does not exist
+-- CT018     ALREADY_FROZEN                The wallet to freeze is already frozen
+-- CT019     NOT_FROZEN                    The wallet to unfreeze is not frozen
+-- CT020     TRANSACTION_NOT_FOUND         The transaction to reverse does not exist
+-- CT021     NOT_REVERSIBLE                Reversals, issuances and escrow transactions cannot be reversed
+-- CT022     ALREADY_REVERSED              The transaction is already fully reversed
+-- CT023     AMOUNT_EXCEEDS_REMAINING      A reversal exceeds the amount not yet reversed
+-- CT024     SYSTEM_ACCOUNT_NOT_FOUND      The distributing system account does not exist
+-- CT025     BENEFICIARY_NOT_FOUND         The escrow beneficiary is not an active user
+-- CT026     ESCROW_NOT_FOUND              The escrow does not exist or belongs to other users
+-- CT027     NOT_ESCROW_SENDER             Someone other than the sender releases an escrow
+-- CT028     ESCROW_NOT_HELD               The escrow is already released or refunded
+-- CT029     ESCROW_EXPIRED                The escrow has expired and can only be refunded
+-- CT030     ESCROW_NOT_EXPIRED            The sender refunds before expiry
+-- CT031     SCHEDULE_NOT_FOUND            The scheduled transfer does not exist for this user
+-- CT032     SCHEDULE_NOT_ACTIVE           The scheduled transfer is cancelled, completed or failed
+-- CT033     USER_NOT_FOUND                The subscribing user does not exist
+-- CT034     SUBSCRIPTION_LIMIT_REACHED    The user already has the maximum of active subscriptions
+-- CT035     SUBSCRIPTION_NOT_FOUND        The webhook subscription does not exist for this owner
+-- CT036     SUBSCRIPTION_NOT_ACTIVE       The webhook subscription is disabled
+-- CT037     DELIVERY_NOT_FOUND            The webhook delivery does not exist for this subscription
+-- CT038     DELIVERY_PENDING              The webhook delivery is still pending
+--
+-- Invalid arguments (missing reason, malformed distribution lists) raise the standard 22023
+-- (invalid_parameter_value).
+--
+-- Keep in sync with SQLSTATE_ERRORS in apps/api/src/lib/errors.ts.
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Audit log (signature unchanged)
+CREATE OR REPLACE FUNCTION append_audit_log(
+    entry_uuid UUID,
+    actor_uuid UUID,
+    entry_action VARCHAR,
+    target_wallet_uuid UUID,
+    entry_reason TEXT,
+    entry_details JSONB DEFAULT '{}'::JSONB
+)
+RETURNS BIGINT AS $$
+DECLARE
+    current_time_ms BIGINT;
+BEGIN
+    IF entry_reason IS NULL OR LENGTH(TRIM(entry_reason)) = 0 THEN
+        RAISE EXCEPTION 'Audit reason is required'
+            USING ERRCODE = '22023';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    INSERT INTO audit_log (id, actor_user_id, action, target_wallet_id, reason, details, created_at)
+    VALUES (entry_uuid, actor_uuid, entry_action, target_wallet_uuid, entry_reason,
+            COALESCE(entry_details, '{}'::JSONB), current_time_ms);
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Wallet freeze (signature unchanged)
+CREATE OR REPLACE FUNCTION set_wallet_frozen(
+    wallet_uuid UUID,
+    frozen BOOLEAN,
+    reason TEXT,
+    actor_uuid UUID,
+    event_uuid UUID,
+    audit_uuid UUID
+)
+RETURNS BIGINT AS $$
+DECLARE
+    current_frozen BOOLEAN;
+    current_time_ms BIGINT;
+BEGIN
+    IF reason IS NULL OR LENGTH(TRIM(reason)) = 0 THEN
+        RAISE EXCEPTION 'Freeze reason is required'
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT w.is_frozen INTO current_frozen
+    FROM wallets w
+    WHERE w.id = wallet_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Wallet not found'
+            USING ERRCODE = 'CT017';
+    END IF;
+
+    IF current_frozen = frozen THEN
+        IF frozen THEN
+            RAISE EXCEPTION 'Wallet is already frozen'
+                USING ERRCODE = 'CT018';
+        END IF;
+        RAISE EXCEPTION 'Wallet is not frozen'
+            USING ERRCODE = 'CT019';
+    END IF;
+
+    -- check_system_wallet_freeze trigger rejects system wallets
+    UPDATE wallets SET is_frozen = frozen WHERE id = wallet_uuid;
+
+    current_time_ms := append_audit_log(
+        audit_uuid, actor_uuid,
+        CASE WHEN frozen THEN 'wallet_freeze' ELSE 'wallet_unfreeze' END,
+        wallet_uuid, reason,
+        jsonb_build_object('freeze_event_id', event_uuid)
+    );
+
+    INSERT INTO wallet_freeze_events (id, wallet_id, is_frozen, reason, actor_user_id, created_at)
+    VALUES (event_uuid, wallet_uuid, frozen, reason, actor_uuid, current_time_ms);
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Batch distribution (signatures unchanged)
+CREATE OR REPLACE FUNCTION plan_distribution(
+    account_name VARCHAR,
+    recipient_wallet_ids UUID[],
+    amounts BIGINT[]
+)
+RETURNS TABLE(
+    system_wallet_id UUID,
+    system_balance BIGINT,
+    total_amount BIGINT,
+    required_issuance BIGINT
+) AS $$
+DECLARE
+    v_wallet_id UUID;
+    v_balance BIGINT;
+    v_total BIGINT;
+    v_recipient_count INTEGER;
+    v_invalid UUID;
+BEGIN
+    SELECT w.id, w.balance INTO v_wallet_id, v_balance
+    FROM system_accounts s
+    JOIN wallets w ON w.id = s.wallet_id
+    WHERE s.name = account_name;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'System account not found: %', account_name
+            USING ERRCODE = 'CT024';
+    END IF;
+
+    v_recipient_count := COALESCE(array_length(recipient_wallet_ids, 1), 0);
+
+    IF v_recipient_count = 0 THEN
+        RAISE EXCEPTION 'Distribution requires at least one recipient'
+            USING ERRCODE = '22023';
+    END IF;
+    IF v_recipient_count > 100 THEN
+        RAISE EXCEPTION 'Distribution is limited to 100 recipients, got %', v_recipient_count
+            USING ERRCODE = '22023';
+    END IF;
+    IF COALESCE(array_length(amounts, 1), 0) <> v_recipient_count THEN
+        RAISE EXCEPTION 'Recipient and amount lists must have the same length'
+            USING ERRCODE = '22023';
+    END IF;
+    IF array_position(recipient_wallet_ids, NULL) IS NOT NULL OR array_position(amounts, NULL) IS NOT NULL THEN
+        RAISE EXCEPTION 'Recipients and amounts must not be NULL'
+            USING ERRCODE = '22023';
+    END IF;
+    IF EXISTS (SELECT 1 FROM unnest(amounts) a WHERE a <= 0) THEN
+        RAISE EXCEPTION 'Distribution amounts must be positive'
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT r INTO v_invalid
+    FROM unnest(recipient_wallet_ids) r
+    GROUP BY r
+    HAVING COUNT(*) > 1
+    LIMIT 1;
+    IF FOUND THEN
+        RAISE EXCEPTION 'Duplicate recipient wallet: %', v_invalid
+            USING ERRCODE = '22023';
+    END IF;
+
+    -- Distribution targets active user wallets only (not system wallets, not soft-deleted users)
+    SELECT r INTO v_invalid
+    FROM unnest(recipient_wallet_ids) r
+    WHERE NOT EXISTS (
+        SELECT 1 FROM wallet_owners o WHERE o.wallet_id = r AND o.owner_type = 'user'
+    )
+    LIMIT 1;
+    IF FOUND THEN
+        RAISE EXCEPTION 'Recipient wallet not found: %', v_invalid
+            USING ERRCODE = 'CT005';
+    END IF;
+
+    SELECT r INTO v_invalid
+    FROM unnest(recipient_wallet_ids) r
+    JOIN wallets w ON w.id = r
+    WHERE w.is_frozen
+    LIMIT 1;
+    IF FOUND THEN
+        RAISE EXCEPTION 'Recipient wallet is frozen: %', v_invalid
+            USING ERRCODE = 'CT002';
+    END IF;
+
+    SELECT SUM(a) INTO v_total FROM unnest(amounts) a;
+
+    RETURN QUERY SELECT v_wallet_id, v_balance, v_total, GREATEST(v_total - v_balance, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION distribute_tokens(
+    account_name VARCHAR,
+    recipient_wallet_ids UUID[],
+    amounts BIGINT[],
+    transaction_ids UUID[],
+    issuance_transaction_id UUID,
+    reason TEXT,
+    actor_uuid UUID,
+    audit_uuid UUID,
+    distribution_memo TEXT DEFAULT NULL,
+    distribution_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE(transaction_id UUID, to_wallet_id UUID, amount BIGINT, is_issuance BOOLEAN) AS $$
+DECLARE
+    plan RECORD;
+    current_time_ms BIGINT;
+    i INTEGER;
+BEGIN
+    IF reason IS NULL OR LENGTH(TRIM(reason)) = 0 THEN
+        RAISE EXCEPTION 'Distribution reason is required'
+            USING ERRCODE = '22023';
+    END IF;
+    IF COALESCE(array_length(transaction_ids, 1), 0) <> COALESCE(array_length(recipient_wallet_ids, 1), 0) THEN
+        RAISE EXCEPTION 'One transaction ID is required per recipient'
+            USING ERRCODE = '22023';
+    END IF;
+
+    -- Lock the system wallet first so the balance used for the plan cannot change underneath us
+    PERFORM 1
+    FROM system_accounts s
+    JOIN wallets w ON w.id = s.wallet_id
+    WHERE s.name = account_name
+    FOR UPDATE OF w;
+
+    SELECT * INTO plan FROM plan_distribution(account_name, recipient_wallet_ids, amounts);
+
+    -- The audit entry is written first so the transactions below can reference it
+    current_time_ms := append_audit_log(
+        audit_uuid, actor_uuid, 'distribution', plan.system_wallet_id, reason,
+        jsonb_build_object(
+            'system_account', account_name,
+            'recipient_count', array_length(recipient_wallet_ids, 1),
+            'total_amount', plan.total_amount,
+            'issued_amount', plan.required_issuance,
+            'issuance_transaction_id',
+                CASE WHEN plan.required_issuance > 0 THEN issuance_transaction_id END
+        )
+    );
+
+    -- Auto-issuance: self-transfer of exactly the missing amount (metadata only; the memo
+    -- is addressed to recipients)
+    IF plan.required_issuance > 0 THEN
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, audit_log_id, metadata)
+        VALUES (issuance_transaction_id, plan.system_wallet_id, plan.system_wallet_id,
+                plan.required_issuance, 2, current_time_ms, audit_uuid,
+                COALESCE(distribution_metadata, '{}'::JSONB));
+
+        RETURN QUERY SELECT issuance_transaction_id, plan.system_wallet_id, plan.required_issuance, TRUE;
+    END IF;
+
+    FOR i IN 1 .. array_length(recipient_wallet_ids, 1) LOOP
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, audit_log_id, memo, metadata)
+        VALUES (transaction_ids[i], plan.system_wallet_id, recipient_wallet_ids[i], amounts[i],
+                3, current_time_ms, audit_uuid, distribution_memo,
+                COALESCE(distribution_metadata, '{}'::JSONB));
+
+        RETURN QUERY SELECT transaction_ids[i], recipient_wallet_ids[i], amounts[i], FALSE;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reversals (signature unchanged); escrow transactions are now refused explicitly instead of
+-- by the escrow wallet trigger
+CREATE OR REPLACE FUNCTION reverse_transaction(
+    original_uuid UUID,
+    reversal_uuid UUID,
+    reason TEXT,
+    actor_uuid UUID,
+    audit_uuid UUID,
+    reversal_amount BIGINT DEFAULT NULL
+)
+RETURNS TABLE(transaction_id UUID, amount BIGINT, remaining_amount BIGINT) AS $$
+DECLARE
+    original transactions%ROWTYPE;
+    already_reversed BIGINT;
+    remaining BIGINT;
+    reverse_amount BIGINT;
+    current_time_ms BIGINT;
+BEGIN
+    IF reason IS NULL OR LENGTH(TRIM(reason)) = 0 THEN
+        RAISE EXCEPTION 'Reversal reason is required'
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO original
+    FROM transactions t
+    WHERE t.id = original_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transaction not found'
+            USING ERRCODE = 'CT020';
+    END IF;
+    IF original.transaction_type = 6 THEN
+        RAISE EXCEPTION 'Transaction is not reversible: reversals cannot be reversed'
+            USING ERRCODE = 'CT021';
+    END IF;
+    IF original.from_wallet_id = original.to_wallet_id THEN
+        RAISE EXCEPTION 'Transaction is not reversible: issuance cannot be reversed'
+            USING ERRCODE = 'CT021';
+    END IF;
+    IF original.transaction_type IN (7, 8, 9) THEN
+        RAISE EXCEPTION 'Transaction is not reversible: escrow transactions are settled by release or refund'
+            USING ERRCODE = 'CT021';
+    END IF;
+
+    SELECT COALESCE(SUM(t.amount), 0) INTO already_reversed
+    FROM transactions t
+    WHERE t.reverses_transaction_id = original_uuid;
+
+    remaining := original.amount - already_reversed;
+    IF remaining = 0 THEN
+        RAISE EXCEPTION 'Transaction is already fully reversed'
+            USING ERRCODE = 'CT022';
+    END IF;
+
+    reverse_amount := COALESCE(reversal_amount, remaining);
+    IF reverse_amount <= 0 THEN
+        RAISE EXCEPTION 'Reversal amount must be positive'
+            USING ERRCODE = '22023';
+    END IF;
+    IF reverse_amount > remaining THEN
+        RAISE EXCEPTION 'Reversal amount exceeds remaining reversible amount: % > %',
+            reverse_amount, remaining
+            USING ERRCODE = 'CT023';
+    END IF;
+
+    current_time_ms := append_audit_log(
+        audit_uuid, actor_uuid, 'reversal', original.to_wallet_id, reason,
+        jsonb_build_object(
+            'original_transaction_id', original_uuid,
+            'reversal_transaction_id', reversal_uuid,
+            'amount', reverse_amount,
+            'remaining_amount', remaining - reverse_amount
+        )
+    );
+
+    -- validate_transaction_balance raises 'Insufficient balance' if the original recipient
+    -- no longer holds the amount, and rejects frozen wallets
+    INSERT INTO transactions (
+        id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at,
+        audit_log_id, reverses_transaction_id
+    )
+    VALUES (
+        reversal_uuid, original.to_wallet_id, original.from_wallet_id, reverse_amount, 6,
+        current_time_ms, audit_uuid, original_uuid
+    );
+
+    RETURN QUERY SELECT reversal_uuid, reverse_amount, remaining - reverse_amount;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scheduled transfers (signatures unchanged)
+CREATE OR REPLACE FUNCTION create_scheduled_transfer(
+    schedule_uuid UUID,
+    user_uuid UUID,
+    recipient_wallet_uuid UUID,
+    transfer_amount BIGINT,
+    schedule_recurrence VARCHAR,
+    schedule_starts_at BIGINT,
+    schedule_ends_at BIGINT DEFAULT NULL,
+    schedule_max_runs INTEGER DEFAULT NULL,
+    transfer_memo TEXT DEFAULT NULL,
+    transfer_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS BIGINT AS $$
+DECLARE
+    sender_wallet_uuid UUID;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT u.wallet_id INTO sender_wallet_uuid
+    FROM users u
+    WHERE u.id = user_uuid AND u.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender user not found'
+            USING ERRCODE = 'CT004';
+    END IF;
+
+    PERFORM 1 FROM wallet_owners o WHERE o.wallet_id = recipient_wallet_uuid;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recipient wallet not found'
+            USING ERRCODE = 'CT005';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    INSERT INTO scheduled_transfers (
+        id, user_id, from_wallet_id, to_wallet_id, amount, memo, metadata, recurrence,
+        starts_at, ends_at, max_runs, next_run_at, created_at, updated_at
+    )
+    VALUES (
+        schedule_uuid, user_uuid, sender_wallet_uuid, recipient_wallet_uuid, transfer_amount,
+        transfer_memo, COALESCE(transfer_metadata, '{}'::JSONB), schedule_recurrence,
+        schedule_starts_at, schedule_ends_at, schedule_max_runs, schedule_starts_at,
+        current_time_ms, current_time_ms
+    );
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION cancel_scheduled_transfer(
+    schedule_uuid UUID,
+    user_uuid UUID
+)
+RETURNS BIGINT AS $$
+DECLARE
+    current_status VARCHAR;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT s.status INTO current_status
+    FROM scheduled_transfers s
+    WHERE s.id = schedule_uuid AND s.user_id = user_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Scheduled transfer not found'
+            USING ERRCODE = 'CT031';
+    END IF;
+    IF current_status <> 'active' THEN
+        RAISE EXCEPTION 'Scheduled transfer is not active: %', current_status
+            USING ERRCODE = 'CT032';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    UPDATE scheduled_transfers
+    SET status = 'cancelled', next_run_at = NULL
+    WHERE id = schedule_uuid;
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Escrows (signatures unchanged)
+CREATE OR REPLACE FUNCTION create_escrow(
+    escrow_uuid UUID,
+    user_uuid UUID,
+    beneficiary_wallet_uuid UUID,
+    escrow_amount BIGINT,
+    escrow_expires_at BIGINT,
+    hold_transaction_uuid UUID,
+    escrow_memo TEXT DEFAULT NULL,
+    escrow_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS BIGINT AS $$
+DECLARE
+    sender_wallet_uuid UUID;
+    escrow_wallet UUID;
+    beneficiary_frozen BOOLEAN;
+    current_time_ms BIGINT;
+BEGIN
+    escrow_metadata := COALESCE(escrow_metadata, '{}'::JSONB);
+
+    SELECT u.wallet_id INTO sender_wallet_uuid
+    FROM users u
+    WHERE u.id = user_uuid AND u.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sender user not found'
+            USING ERRCODE = 'CT004';
+    END IF;
+
+    -- Beneficiaries are active users; a frozen beneficiary could never be paid
+    SELECT w.is_frozen INTO beneficiary_frozen
+    FROM wallet_owners o
+    JOIN wallets w ON w.id = o.wallet_id
+    WHERE o.wallet_id = beneficiary_wallet_uuid AND o.owner_type = 'user';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Beneficiary wallet not found'
+            USING ERRCODE = 'CT025';
+    END IF;
+    IF beneficiary_frozen THEN
+        RAISE EXCEPTION 'Beneficiary wallet is frozen'
+            USING ERRCODE = 'CT002';
+    END IF;
+
+    SELECT s.wallet_id INTO escrow_wallet
+    FROM system_accounts s
+    WHERE s.name = 'system_account_escrow';
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Fires validate_transaction_balance (balance, frozen sender) like any transfer
+    INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+    VALUES (hold_transaction_uuid, sender_wallet_uuid, escrow_wallet, escrow_amount, 7,
+            current_time_ms, escrow_memo, escrow_metadata);
+
+    INSERT INTO escrows (
+        id, sender_user_id, sender_wallet_id, beneficiary_wallet_id, amount, memo, metadata,
+        expires_at, hold_transaction_id, created_at, updated_at
+    )
+    VALUES (
+        escrow_uuid, user_uuid, sender_wallet_uuid, beneficiary_wallet_uuid, escrow_amount,
+        escrow_memo, escrow_metadata, escrow_expires_at, hold_transaction_uuid,
+        current_time_ms, current_time_ms
+    );
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION release_escrow(
+    escrow_uuid UUID,
+    user_uuid UUID,
+    settlement_transaction_uuid UUID,
+    as_of BIGINT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    escrow RECORD;
+    beneficiary_user UUID;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT * INTO escrow
+    FROM escrows e
+    WHERE e.id = escrow_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Escrow not found'
+            USING ERRCODE = 'CT026';
+    END IF;
+
+    SELECT u.id INTO beneficiary_user FROM users u WHERE u.wallet_id = escrow.beneficiary_wallet_id;
+
+    -- Escrows of other users are reported as missing
+    IF user_uuid NOT IN (escrow.sender_user_id, beneficiary_user) THEN
+        RAISE EXCEPTION 'Escrow not found'
+            USING ERRCODE = 'CT026';
+    END IF;
+    IF user_uuid <> escrow.sender_user_id THEN
+        RAISE EXCEPTION 'Only the sender can release an escrow'
+            USING ERRCODE = 'CT027';
+    END IF;
+    IF escrow.status <> 'held' THEN
+        RAISE EXCEPTION 'Escrow is not held: %', escrow.status
+            USING ERRCODE = 'CT028';
+    END IF;
+    IF escrow.expires_at <= as_of THEN
+        RAISE EXCEPTION 'Escrow has expired'
+            USING ERRCODE = 'CT029';
+    END IF;
+
+    -- A beneficiary who deleted their account can no longer be paid; the escrow is refunded
+    PERFORM 1 FROM wallet_owners o WHERE o.wallet_id = escrow.beneficiary_wallet_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Beneficiary wallet not found'
+            USING ERRCODE = 'CT025';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Fires validate_transaction_balance (frozen beneficiary) like any transfer
+    INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+    SELECT settlement_transaction_uuid, s.wallet_id, escrow.beneficiary_wallet_id, escrow.amount, 8,
+           current_time_ms, escrow.memo, escrow.metadata
+    FROM system_accounts s
+    WHERE s.name = 'system_account_escrow';
+
+    UPDATE escrows
+    SET status = 'released',
+        settlement_transaction_id = settlement_transaction_uuid,
+        settled_by_user_id = user_uuid,
+        settled_at = current_time_ms
+    WHERE id = escrow_uuid;
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refund_escrow(
+    escrow_uuid UUID,
+    user_uuid UUID,
+    settlement_transaction_uuid UUID,
+    as_of BIGINT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    escrow RECORD;
+    beneficiary_user UUID;
+    current_time_ms BIGINT;
+BEGIN
+    SELECT * INTO escrow
+    FROM escrows e
+    WHERE e.id = escrow_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Escrow not found'
+            USING ERRCODE = 'CT026';
+    END IF;
+
+    SELECT u.id INTO beneficiary_user FROM users u WHERE u.wallet_id = escrow.beneficiary_wallet_id;
+
+    -- user_uuid NULL = automatic expiry refund
+    IF user_uuid IS NOT NULL AND user_uuid NOT IN (escrow.sender_user_id, beneficiary_user) THEN
+        RAISE EXCEPTION 'Escrow not found'
+            USING ERRCODE = 'CT026';
+    END IF;
+    IF escrow.status <> 'held' THEN
+        RAISE EXCEPTION 'Escrow is not held: %', escrow.status
+            USING ERRCODE = 'CT028';
+    END IF;
+    -- The beneficiary may decline at any time; everyone else waits for expiry
+    IF user_uuid IS DISTINCT FROM beneficiary_user AND escrow.expires_at > as_of THEN
+        RAISE EXCEPTION 'Escrow has not expired'
+            USING ERRCODE = 'CT030';
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Fires validate_transaction_balance (frozen sender) like any transfer
+    INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+    SELECT settlement_transaction_uuid, s.wallet_id, escrow.sender_wallet_id, escrow.amount, 9,
+           current_time_ms, escrow.memo, escrow.metadata
+    FROM system_accounts s
+    WHERE s.name = 'system_account_escrow';
+
+    UPDATE escrows
+    SET status = 'refunded',
+        settlement_transaction_id = settlement_transaction_uuid,
+        settled_by_user_id = user_uuid,
+        settled_at = current_time_ms
+    WHERE id = escrow_uuid;
+
+    RETURN current_time_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Webhooks (signatures unchanged)
+CREATE OR REPLACE FUNCTION create_webhook_subscription(
+    subscription_uuid UUID,
+    user_uuid UUID,
+    subscription_url TEXT,
+    subscription_secret TEXT,
+    subscription_description TEXT DEFAULT NULL
+)
+RETURNS BIGINT AS $$
+DECLARE
+    now_ms BIGINT := current_unix_ms();
+BEGIN
+    IF user_uuid IS NOT NULL THEN
+        -- Lock the user so concurrent creations cannot both pass the limit check
+        PERFORM 1 FROM users WHERE id = user_uuid AND deleted_at IS NULL FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'User not found'
+                USING ERRCODE = 'CT033';
+        END IF;
+
+        IF (
+            SELECT COUNT(*) FROM webhook_subscriptions
+            WHERE user_id = user_uuid AND is_active
+        ) >= 10 THEN
+            RAISE EXCEPTION 'Webhook subscription limit reached'
+                USING ERRCODE = 'CT034';
+        END IF;
+    END IF;
+
+    INSERT INTO webhook_subscriptions (id, user_id, url, secret, description, created_at, updated_at)
+    VALUES (
+        subscription_uuid, user_uuid, subscription_url, subscription_secret,
+        subscription_description, now_ms, now_ms
+    );
+
+    RETURN now_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION disable_webhook_subscription(
+    subscription_uuid UUID,
+    user_uuid UUID
+)
+RETURNS BIGINT AS $$
+DECLARE
+    now_ms BIGINT := current_unix_ms();
+    subscription_active BOOLEAN;
+BEGIN
+    -- user_uuid NULL addresses system integration subscriptions; other owners'
+    -- subscriptions are reported as missing
+    SELECT s.is_active INTO subscription_active
+    FROM webhook_subscriptions s
+    WHERE s.id = subscription_uuid AND s.user_id IS NOT DISTINCT FROM user_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook subscription not found'
+            USING ERRCODE = 'CT035';
+    END IF;
+    IF NOT subscription_active THEN
+        RAISE EXCEPTION 'Webhook subscription is not active'
+            USING ERRCODE = 'CT036';
+    END IF;
+
+    UPDATE webhook_subscriptions SET is_active = FALSE WHERE id = subscription_uuid;
+
+    UPDATE webhook_deliveries
+    SET status = 'dead', next_attempt_at = NULL, last_error = 'Subscription disabled'
+    WHERE subscription_id = subscription_uuid AND status = 'pending';
+
+    RETURN now_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION redeliver_webhook(
+    delivery_uuid UUID,
+    subscription_uuid UUID,
+    user_uuid UUID,
+    as_of BIGINT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    delivery_status VARCHAR;
+    subscription_active BOOLEAN;
+BEGIN
+    -- user_uuid NULL addresses system integration subscriptions
+    SELECT d.status, s.is_active INTO delivery_status, subscription_active
+    FROM webhook_deliveries d
+    JOIN webhook_subscriptions s ON s.id = d.subscription_id
+    WHERE d.id = delivery_uuid
+        AND d.subscription_id = subscription_uuid
+        AND s.user_id IS NOT DISTINCT FROM user_uuid
+    FOR UPDATE OF d;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook delivery not found'
+            USING ERRCODE = 'CT037';
+    END IF;
+    IF NOT subscription_active THEN
+        RAISE EXCEPTION 'Webhook subscription is not active'
+            USING ERRCODE = 'CT036';
+    END IF;
+    IF delivery_status = 'pending' THEN
+        RAISE EXCEPTION 'Webhook delivery is already pending'
+            USING ERRCODE = 'CT038';
+    END IF;
+
+    UPDATE webhook_deliveries
+    SET status = 'pending', attempt_count = 0, next_attempt_at = as_of, delivered_at = NULL
+    WHERE id = delivery_uuid;
+
+    RETURN as_of;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scheduled transfers (signature unchanged): the transaction triggers and transfer policies no
+-- longer raise raise_exception, so their rejections are caught by class to stay recorded on the
+-- run
+CREATE OR REPLACE FUNCTION execute_scheduled_transfer(
+    schedule_uuid UUID,
+    as_of BIGINT,
+    run_uuid UUID,
+    transaction_uuid UUID
+)
+RETURNS TABLE(
+    outcome VARCHAR,
+    transaction_id UUID,
+    error TEXT,
+    next_run_at BIGINT,
+    status VARCHAR
+) AS $$
+DECLARE
+    schedule RECORD;
+    recipient_owner_type TEXT;
+    run_error TEXT;
+    next_at BIGINT;
+    new_status VARCHAR;
+    current_time_ms BIGINT;
+BEGIN
+    -- The row lock serializes concurrent executors; the loser sees the advanced next_run_at
+    SELECT * INTO schedule
+    FROM scheduled_transfers s
+    WHERE s.id = schedule_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Scheduled transfer not found'
+            USING ERRCODE = 'CT031';
+    END IF;
+
+    IF schedule.status <> 'active' OR schedule.next_run_at > as_of THEN
+        RETURN QUERY SELECT 'skipped'::VARCHAR, NULL::UUID, NULL::TEXT,
+            schedule.next_run_at, schedule.status;
+        RETURN;
+    END IF;
+
+    current_time_ms := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+
+    -- Business rejections (deleted sender, inactive recipient, insufficient balance, frozen
+    -- wallet, any other CT-coded rule) are recorded on the run; anything else aborts the whole call
+    BEGIN
+        PERFORM 1 FROM users u WHERE u.id = schedule.user_id AND u.deleted_at IS NULL;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Sender user not found'
+                USING ERRCODE = 'CT004';
+        END IF;
+
+        SELECT o.owner_type INTO recipient_owner_type
+        FROM wallet_owners o
+        WHERE o.wallet_id = schedule.to_wallet_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Recipient wallet not found'
+                USING ERRCODE = 'CT005';
+        END IF;
+
+        INSERT INTO transactions (id, from_wallet_id, to_wallet_id, amount, transaction_type, created_at, memo, metadata)
+        VALUES (transaction_uuid, schedule.from_wallet_id, schedule.to_wallet_id, schedule.amount,
+                CASE WHEN recipient_owner_type = 'system_account' THEN 5 ELSE 4 END,
+                current_time_ms, schedule.memo, schedule.metadata);
+    EXCEPTION
+        -- 'CT000' matches the whole CT class, including codes added by later migrations
+        WHEN raise_exception OR SQLSTATE 'CT000' THEN
+            run_error := SQLERRM;
+    END;
+
+    INSERT INTO scheduled_transfer_runs (id, scheduled_transfer_id, occurrence, scheduled_for, transaction_id, error, executed_at)
+    VALUES (run_uuid, schedule.id, schedule.run_count, schedule.next_run_at,
+            CASE WHEN run_error IS NULL THEN transaction_uuid END, run_error, current_time_ms);
+
+    next_at := scheduled_occurrence_at(schedule.starts_at, schedule.recurrence, schedule.run_count + 1);
+    IF next_at IS NULL
+        OR (schedule.ends_at IS NOT NULL AND next_at > schedule.ends_at)
+        OR (schedule.max_runs IS NOT NULL AND schedule.run_count + 1 >= schedule.max_runs) THEN
+        next_at := NULL;
+        new_status := CASE
+            WHEN schedule.recurrence = 'once' AND run_error IS NOT NULL THEN 'failed'
+            ELSE 'completed'
+        END;
+    ELSE
+        new_status := 'active';
+    END IF;
+
+    UPDATE scheduled_transfers s
+    SET run_count = s.run_count + 1,
+        failure_count = s.failure_count + CASE WHEN run_error IS NULL THEN 0 ELSE 1 END,
+        next_run_at = next_at,
+        status = new_status,
+        last_run_at = current_time_ms,
+        last_error = run_error
+    WHERE s.id = schedule.id;
+
+    RETURN QUERY SELECT
+        (CASE WHEN run_error IS NULL THEN 'executed' ELSE 'failed' END)::VARCHAR,
+        CASE WHEN run_error IS NULL THEN transaction_uuid END,
+        run_error,
+        next_at,
+        new_status;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION execute_scheduled_transfer(UUID, BIGINT, UUID, UUID) IS 'Processes the next occurrence of a schedule if it is due at as_of (Unix ms): creates the transfer or records why it failed, then advances the schedule. Each occurrence is processed exactly once; returns outcome executed | failed | skipped (not due, or not active).';
@@ -0,0 +1,56 @@
+-- Transfer Limit Exemptions
+-- Description: Lets a wallet override of 0 exempt the wallet from a default limit. Overrides were
+--              either NULL ("use the default") or a stricter positive value, so there was no way to
+--              lift a default for a single wallet (for example a merchant above the daily cap).
+--              effective_transfer_limits() reports an override of 0 as NULL (no limit), so
+--              validate_transaction_policy() needs no change.
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+ALTER TABLE wallet_transfer_limits DROP CONSTRAINT limits_positive;
+ALTER TABLE wallet_transfer_limits ADD CONSTRAINT limits_not_negative CHECK (
+    COALESCE(max_transfer_amount, 0) >= 0
+    AND COALESCE(daily_amount_limit, 0) >= 0
+    AND COALESCE(daily_count_limit, 0) >= 0
+    AND COALESCE(window_ms, 0) >= 0
+    AND COALESCE(window_amount_limit, 0) >= 0
+    AND COALESCE(window_count_limit, 0) >= 0
+    AND COALESCE(min_account_age_ms, 0) >= 0
+    AND COALESCE(daily_new_counterparty_limit, 0) >= 0
+);
+
+COMMENT ON TABLE wallet_transfer_limits IS 'Per-wallet overrides of transfer_limit_defaults (NULL column = use the default, 0 = no limit for this wallet)';
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Limits in force for a wallet: each override column, or the default where it is NULL;
+-- an override of 0 exempts the wallet and comes out as NULL (no limit)
+CREATE OR REPLACE FUNCTION effective_transfer_limits(wallet_uuid UUID)
+RETURNS TABLE(
+    max_transfer_amount BIGINT,
+    daily_amount_limit BIGINT,
+    daily_count_limit INTEGER,
+    window_ms BIGINT,
+    window_amount_limit BIGINT,
+    window_count_limit INTEGER,
+    min_account_age_ms BIGINT,
+    daily_new_counterparty_limit INTEGER
+) AS $$
+    SELECT
+        NULLIF(COALESCE(w.max_transfer_amount, d.max_transfer_amount), 0),
+        NULLIF(COALESCE(w.daily_amount_limit, d.daily_amount_limit), 0),
+        NULLIF(COALESCE(w.daily_count_limit, d.daily_count_limit), 0),
+        NULLIF(COALESCE(w.window_ms, d.window_ms), 0),
+        NULLIF(COALESCE(w.window_amount_limit, d.window_amount_limit), 0),
+        NULLIF(COALESCE(w.window_count_limit, d.window_count_limit), 0),
+        NULLIF(COALESCE(w.min_account_age_ms, d.min_account_age_ms), 0),
+        NULLIF(COALESCE(w.daily_new_counterparty_limit, d.daily_new_counterparty_limit), 0)
+    FROM transfer_limit_defaults d
+    LEFT JOIN wallet_transfer_limits w ON w.wallet_id = wallet_uuid;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION effective_transfer_limits(UUID) IS 'Transfer limits in force for a wallet: its overrides, falling back to transfer_limit_defaults column by column (NULL = no limit; an override of 0 lifts the default).';
@@ -0,0 +1,22 @@
+-- Row Level Security
+-- Description: Enables row level security, with no policies, on the tables added after the initial
+--              schema, so clients holding the anon key or a user session cannot read or write them
+--              through PostgREST. The service role bypasses RLS, so the API and the jobs are not
+--              affected.
+--
+--              Each table's own migration enables RLS as well; this migration applies it to
+--              databases that ran those migrations before they did. Enabling RLS twice is a no-op.
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_freeze_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_transfer_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE escrows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_balance_checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transfer_limit_defaults ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_transfer_limits ENABLE ROW LEVEL SECURITY;
@@ -2,5 +2,17 @@
 -- This file is executed after migrations when running `supabase start`
 -- Add initial data for development and testing here
 
--- Example: Create initial system account (will be handled in migration)
--- Currently empty - seed data will be added as needed
+-- UC-1: Primary system account with a zero-balance wallet
+-- (tokens are auto-issued on the first distribution)
+DO $$
+DECLARE
+    wallet_uuid UUID := gen_random_uuid();
+    now_ms BIGINT := current_unix_ms();
+BEGIN
+    INSERT INTO wallets (id, balance, is_frozen, created_at, updated_at)
+    VALUES (wallet_uuid, 0, FALSE, now_ms, now_ms);
+
+    INSERT INTO system_accounts (id, wallet_id, name, created_at, updated_at)
+    VALUES (gen_random_uuid(), wallet_uuid, 'system_account_communitytoken', now_ms, now_ms);
+END;
+$$;